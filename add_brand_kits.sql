@@ -0,0 +1,23 @@
+-- Brand kits (watermark, logo, colors, caption style, intro/outro) and user plans
+-- Run this in your Supabase SQL Editor
+
+-- One brand kit per user, applied to story, shorts and UGC renders
+-- e.g. {"logo_url": "https://...", "watermark": {"type": "logo", "text": "", "position": "bottom-right", "opacity": 0.6, "size": 15},
+--       "colors": {"primary": "#02f7f3", "secondary": "#FFFFFF", "accent": "#f97316"},
+--       "caption_style": {"fontFamily": "Montserrat", "fontWeight": 800, "activeColor": "#02f7f3", "inactiveColor": "#FFFFFF", "textTransform": "uppercase"},
+--       "intro_url": null, "outro_url": "https://..."}
+CREATE TABLE IF NOT EXISTS brand_kits (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  settings JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Logos and intro/outro clips go to a public storage bucket named "brand_assets" (create it in Storage)
+
+-- Plan decides whether the AiVideoGen.cc watermark can be removed ('free' or 'pro')
+ALTER TABLE user_credits ADD COLUMN IF NOT EXISTS plan TEXT NOT NULL DEFAULT 'free';
+
+-- Anyone who has bought credits is on pro
+UPDATE user_credits SET plan = 'pro'
+WHERE user_id IN (SELECT DISTINCT user_id FROM credit_transactions WHERE type = 'purchase');
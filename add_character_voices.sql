@@ -0,0 +1,6 @@
+-- Multi-speaker dialogue: voice per character
+-- Run this in your Supabase SQL Editor
+
+-- Character name -> voice_id, e.g. {"Mara": "nova", "Old Tom": "elevenlabs:pNInz6obpgDQGcFmaJgB"}
+-- Kept separate from character_library, which is rewritten when images are regenerated
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS character_voices JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,22 @@
+-- User-uploaded caption fonts (TTF/OTF)
+-- Run this in your Supabase SQL Editor
+
+-- One row per uploaded face. family, full_name, weight and italic are read from the font file
+-- (see lib/customFontFiles.ts); family is what caption_settings.fontFamily refers to.
+-- Files live in a public storage bucket named "custom_fonts" (create it in Storage) under <user_id>/
+CREATE TABLE IF NOT EXISTS custom_fonts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  family TEXT NOT NULL,
+  full_name TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 400, -- 100-900
+  italic BOOLEAN NOT NULL DEFAULT false,
+  format TEXT NOT NULL, -- ttf, otf
+  file_path TEXT NOT NULL, -- Path in the custom_fonts bucket
+  file_url TEXT NOT NULL,
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, family, weight, italic)
+);
+
+CREATE INDEX IF NOT EXISTS idx_custom_fonts_user_id ON custom_fonts(user_id);
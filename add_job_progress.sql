@@ -0,0 +1,8 @@
+-- Live progress detail for render jobs, streamed by /api/job_progress
+-- Run this in your Supabase SQL Editor
+
+-- Stage the job is in (see JOB_STAGES in lib/jobProgress.ts) and what it's doing there, e.g.
+-- {"scenes": {"done": 3, "total": 8}, "ffmpeg": {"time": 12.4, "duration": 41.2}, "message": null}
+ALTER TABLE video_generation_jobs
+  ADD COLUMN IF NOT EXISTS stage TEXT,
+  ADD COLUMN IF NOT EXISTS progress_detail JSONB;
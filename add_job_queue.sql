@@ -0,0 +1,59 @@
+-- Durable job queue on top of video_generation_jobs
+-- Run this in your Supabase SQL Editor
+
+-- Queue columns
+ALTER TABLE video_generation_jobs
+  ADD COLUMN IF NOT EXISTS job_type TEXT NOT NULL DEFAULT 'video',
+  ADD COLUMN IF NOT EXISTS payload JSONB,
+  ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS max_attempts INT NOT NULL DEFAULT 3,
+  ADD COLUMN IF NOT EXISTS run_after TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE;
+
+-- Allow the new 'queued' status
+ALTER TABLE video_generation_jobs DROP CONSTRAINT IF EXISTS video_generation_jobs_status_check;
+ALTER TABLE video_generation_jobs ADD CONSTRAINT video_generation_jobs_status_check
+CHECK (status IN ('queued', 'processing', 'completed', 'failed'));
+
+-- Jobs started before the queue existed have no payload to resume from
+UPDATE video_generation_jobs
+SET status = 'failed', completed_at = NOW(), error = 'Interrupted by job queue migration'
+WHERE status = 'processing' AND payload IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_video_generation_jobs_queue ON video_generation_jobs(status, run_after);
+
+-- Atomically claim the next runnable job for a worker.
+-- Picks queued jobs whose backoff has elapsed, or processing jobs whose
+-- worker stopped heartbeating (crash / deploy) for longer than the lease.
+CREATE OR REPLACE FUNCTION claim_generation_job(
+  p_worker_id TEXT,
+  p_job_types TEXT[],
+  p_lease_seconds INT
+)
+RETURNS SETOF video_generation_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE video_generation_jobs
+  SET status = 'processing',
+      locked_by = p_worker_id,
+      heartbeat_at = NOW(),
+      started_at = NOW(),
+      attempts = attempts + 1
+  WHERE id = (
+    SELECT id FROM video_generation_jobs
+    WHERE job_type = ANY(p_job_types)
+      AND (
+        (status = 'queued' AND run_after <= NOW())
+        OR (status = 'processing'
+            AND COALESCE(heartbeat_at, started_at) < NOW() - make_interval(secs => p_lease_seconds))
+      )
+    ORDER BY run_after ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
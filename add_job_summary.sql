@@ -0,0 +1,13 @@
+-- Image and audio batches on the durable job queue
+-- Run this in your Supabase SQL Editor
+
+-- What an 'images' or 'audio' job reports back when it completes, e.g.
+-- {"success_count": 7, "total_scenes": 8, "failed_scenes": [5]}
+ALTER TABLE video_generation_jobs
+  ADD COLUMN IF NOT EXISTS summary JSONB;
+
+-- Image batches used to be tracked in image_generation_jobs; they are now
+-- 'images' jobs in video_generation_jobs. Nothing running is tracked there anymore.
+UPDATE image_generation_jobs
+SET status = 'failed', completed_at = NOW(), error = 'Interrupted by job queue migration'
+WHERE status = 'processing';
@@ -0,0 +1,8 @@
+-- Loudness normalization report for render jobs
+-- Run this in your Supabase SQL Editor
+
+-- Set when a video job completes, e.g.
+-- {"target": "social", "target_lufs": -14,
+--  "measured": {"integrated": -19.2, "truePeak": -3.1, "lra": 6.4, "threshold": -29.5},
+--  "output":   {"integrated": -14.0, "truePeak": -1.2, "lra": 6.1, "threshold": -24.3}}
+ALTER TABLE video_generation_jobs ADD COLUMN IF NOT EXISTS loudness JSONB;
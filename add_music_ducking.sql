@@ -0,0 +1,8 @@
+-- Background music ducking and fades
+-- Run this in your Supabase SQL Editor
+
+-- {"duck_enabled": true, "duck_depth": 12, "attack": 50, "release": 400, "fade_in": 1, "fade_out": 2}
+-- duck_depth is in dB, attack/release in ms, fades in seconds. Missing fields use these defaults.
+-- Shorts keep the same object under music_settings.mix
+ALTER TABLE stories ADD COLUMN IF NOT EXISTS background_music_mix JSONB;
+ALTER TABLE ugc_videos ADD COLUMN IF NOT EXISTS background_music_mix JSONB;
@@ -0,0 +1,7 @@
+-- Per-scene narration prosody (speed, pitch, emphasis, pauses, pronunciations)
+-- Run this in your Supabase SQL Editor
+
+-- e.g. {"speed": 0.9, "pitch": -1, "emphasis": ["never"], "pauses": [{"after": 4, "duration": 0.8}],
+--       "pronunciations": [{"word": "GIF", "say": "jif"}]}
+-- NULL means default delivery. Audio must be regenerated for changes to take effect.
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS prosody JSONB;
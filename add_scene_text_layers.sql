@@ -0,0 +1,9 @@
+-- Per-scene text layers (title cards, lower thirds, call-outs)
+-- Run this in your Supabase SQL Editor
+
+-- e.g. [{"id": "text-1", "preset": "lower-third", "text": "Jane Doe\nFounder", "font_family": "Montserrat",
+--        "font_weight": 700, "font_size": 14, "color": "#FFFFFF", "background": "#000000", "background_opacity": 0.7,
+--        "uppercase": false, "align": "left", "x": 6, "y": 72, "start": 0.5, "duration": 3,
+--        "animation_in": "slide-right", "animation_out": "slide-left", "animation_duration": 0.4}]
+-- Positions are percent of the frame, timing is seconds from the start of the scene (duration null = until it ends)
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS text_layers JSONB NOT NULL DEFAULT '[]'::jsonb;
@@ -0,0 +1,20 @@
+-- Batch export: one videos row per story and format
+-- Run this in your Supabase SQL Editor
+
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS aspect_ratio TEXT;
+
+-- Existing rows were rendered in the story's own format
+UPDATE videos v
+SET aspect_ratio = COALESCE(s.aspect_ratio, '9:16')
+FROM stories s
+WHERE v.story_id = s.id AND v.aspect_ratio IS NULL;
+
+UPDATE videos SET aspect_ratio = '9:16' WHERE aspect_ratio IS NULL;
+
+ALTER TABLE videos ALTER COLUMN aspect_ratio SET DEFAULT '9:16';
+ALTER TABLE videos ALTER COLUMN aspect_ratio SET NOT NULL;
+
+-- Replace the one-video-per-story constraint (renders upsert on story_id + aspect_ratio)
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_story_id_key;
+ALTER TABLE videos DROP CONSTRAINT IF EXISTS videos_story_id_aspect_ratio_key;
+ALTER TABLE videos ADD CONSTRAINT videos_story_id_aspect_ratio_key UNIQUE (story_id, aspect_ratio);
@@ -0,0 +1,6 @@
+-- Where each scene plays in a rendered video, for PNG stills and caption exports
+-- Run this in your Supabase SQL Editor
+
+-- Seconds from the start of the video (brand intro included), in scene order, e.g.
+-- [{"start": 3.5, "duration": 6.2}, {"start": 9.7, "duration": 5}]
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS scene_timeline JSONB;
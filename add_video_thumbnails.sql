@@ -0,0 +1,10 @@
+-- Thumbnails (cover art) for finished videos
+-- Run this in your Supabase SQL Editor
+
+-- thumbnail_url: the export matching the video's format, shown on the dashboard
+-- thumbnails: every exported size, e.g. {"youtube": "https://...", "vertical": "https://..."}
+-- thumbnail_settings: source, title and sizes (see lib/thumbnails.ts) so the thumbnail can be edited again
+ALTER TABLE videos
+  ADD COLUMN IF NOT EXISTS thumbnail_url TEXT,
+  ADD COLUMN IF NOT EXISTS thumbnails JSONB,
+  ADD COLUMN IF NOT EXISTS thumbnail_settings JSONB;
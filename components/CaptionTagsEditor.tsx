@@ -0,0 +1,102 @@
+import React, { useState } from "react";
+import { Sparkles, X } from "lucide-react";
+import { getEmojiChoices, isWordEmphasized, getWordEmoji, type CaptionTaggedWord } from "../lib/captionEmphasis";
+
+interface CaptionTagsEditorProps {
+  words: CaptionTaggedWord[];
+  emphasisColor: string;
+  onChange: (words: CaptionTaggedWord[]) => void;
+  onAutoTag: () => void;
+  autoTagging?: boolean;
+}
+
+/**
+ * Per-word emphasis and emoji tags for one scene's captions. Click a word to
+ * edit its tags.
+ */
+export function CaptionTagsEditor({ words, emphasisColor, onChange, onAutoTag, autoTagging = false }: CaptionTagsEditorProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const emojiChoices = getEmojiChoices();
+
+  const update = (index: number, changes: Partial<CaptionTaggedWord>) => {
+    // Touching one word marks the whole scene as tagged, so untouched words stop using the shake heuristic
+    onChange(words.map((w, i) => ({ emphasis: false, emoji: null, ...w, ...(i === index ? changes : {}) })));
+  };
+
+  if (words.length === 0) {
+    return <p className="text-xs text-gray-500">Generate the scene's audio to tag its caption words.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-xs text-gray-400">Click a word to edit its tags</span>
+        <button
+          onClick={onAutoTag}
+          disabled={autoTagging}
+          className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-orange-600 hover:bg-orange-700 text-white disabled:opacity-50"
+        >
+          <Sparkles className="w-3 h-3" />
+          {autoTagging ? "Tagging..." : "Auto-tag"}
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-1">
+        {words.map((w, i) => {
+          const emphasized = isWordEmphasized(w);
+          const emoji = getWordEmoji(w);
+          return (
+            <button
+              key={i}
+              onClick={() => setSelected(selected === i ? null : i)}
+              className={`px-1.5 py-0.5 rounded text-xs border ${
+                selected === i ? "border-orange-500" : "border-gray-700"
+              } ${emphasized ? "font-bold bg-gray-800" : "text-gray-300 bg-gray-900"}`}
+              style={emphasized ? { color: emphasisColor } : undefined}
+            >
+              {w.word}
+              {emoji && <span className="ml-1">{emoji}</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      {selected !== null && words[selected] && (
+        <div className="p-2 bg-gray-800 rounded space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs text-gray-300 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={isWordEmphasized(words[selected])}
+                onChange={(e) => update(selected, { emphasis: e.target.checked })}
+                className="accent-orange-500"
+              />
+              Emphasize <span className="font-semibold">{words[selected].word}</span>
+            </label>
+            <button onClick={() => setSelected(null)} className="text-gray-500 hover:text-white">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+          <span className="block text-xs text-gray-400">Emoji after the word</span>
+          <div className="flex flex-wrap gap-1">
+            <button
+              onClick={() => update(selected, { emoji: null })}
+              className={`px-2 py-1 text-xs rounded ${!getWordEmoji(words[selected]) ? "bg-orange-600 text-white" : "bg-gray-700 text-gray-300"}`}
+            >
+              None
+            </button>
+            {emojiChoices.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => update(selected, { emoji })}
+                className={`px-1.5 py-1 text-sm rounded ${getWordEmoji(words[selected]) === emoji ? "bg-orange-600" : "bg-gray-700 hover:bg-gray-600"}`}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
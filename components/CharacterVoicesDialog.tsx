@@ -0,0 +1,119 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Users } from "lucide-react";
+import type { CharacterVoices } from "../lib/dialogue";
+
+interface VoiceOption {
+  id: string;
+  name: string;
+  provider?: string;
+  provider_name?: string;
+}
+
+interface CharacterVoicesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  characters: string[];          // Character library names plus speakers tagged in scenes
+  voices: VoiceOption[];
+  narratorVoiceId: string;
+  characterVoices: CharacterVoices;
+  onSave: (characterVoices: CharacterVoices) => Promise<void>;
+}
+
+export function CharacterVoicesDialog({
+  open,
+  onOpenChange,
+  characters,
+  voices,
+  narratorVoiceId,
+  characterVoices,
+  onSave,
+}: CharacterVoicesDialogProps) {
+  const [draft, setDraft] = useState<CharacterVoices>(characterVoices);
+  const [saving, setSaving] = useState(false);
+
+  // Start from the saved assignments each time the dialog opens
+  useEffect(() => {
+    if (open) setDraft(characterVoices);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      // Unassigned characters fall back to the narrator voice, so don't store them
+      const assigned = Object.fromEntries(Object.entries(draft).filter(([_, voiceId]) => !!voiceId));
+      await onSave(assigned);
+      onOpenChange(false);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const voiceLabel = (voice: VoiceOption) =>
+    voice.provider && voice.provider !== "openai" ? `${voice.name} (${voice.provider_name})` : voice.name;
+  const narratorName = voices.find((v) => v.id === narratorVoiceId)?.name || narratorVoiceId;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md bg-gray-900 text-white border-gray-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-orange-400" />
+            Character Voices
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-400">
+          Tag dialogue in scene text with the speaker, e.g.{" "}
+          <code className="text-orange-300">[Mara]: Who&apos;s there?</code> - each line is voiced
+          with the character&apos;s voice. Untagged text uses the narrator ({narratorName}).
+        </p>
+
+        {characters.length === 0 ? (
+          <div className="py-6 text-center text-sm text-gray-500">
+            No characters yet. Generate images to build the character library, or add speaker tags to a scene.
+          </div>
+        ) : (
+          <div className="space-y-3 max-h-[360px] overflow-y-auto pr-1">
+            {characters.map((name) => (
+              <div key={name} className="flex items-center gap-3">
+                <span className="w-1/3 text-sm text-white truncate" title={name}>{name}</span>
+                <select
+                  value={draft[name] || ""}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, [name]: e.target.value }))}
+                  className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+                >
+                  <option value="">Narrator voice</option>
+                  {voices.map((voice) => (
+                    <option key={voice.id} value={voice.id}>
+                      {voiceLabel(voice)}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="flex gap-3 pt-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="flex-1 border-gray-700 text-gray-300 hover:bg-gray-800"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={saving || characters.length === 0}
+            className="flex-1 bg-orange-600 hover:bg-orange-700 text-white"
+          >
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : "Save Voices"}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
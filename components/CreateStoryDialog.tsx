@@ -6,6 +6,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Slider } from "@/components/ui/slider";
 import { Loader2, Plus, Smartphone, Square, Monitor, Sparkles, FileText, ArrowRight, Info } from "lucide-react";
 import { useCredits } from "../hooks/useCredits";
+import { DEFAULT_ASPECT_RATIO, type AspectRatio } from "../lib/aspectRatios";
 
 interface CreateStoryDialogProps {
   open: boolean;
@@ -30,7 +31,7 @@ export function CreateStoryDialog({ open, onOpenChange, seriesId = null, onStory
     creditBalance <= 15 ? 30 : 60
   );
   const [selectedVoiceId, setSelectedVoiceId] = useState<string>("alloy");
-  const [aspectRatio, setAspectRatio] = useState<"9:16" | "1:1" | "16:9">("9:16");
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
   const [voices, setVoices] = useState<any[]>([]);
   const [loadingVoices, setLoadingVoices] = useState(false);
   const [playingPreviewId, setPlayingPreviewId] = useState<string | null>(null);
@@ -0,0 +1,356 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, Move, Play, Pause, Plus, Trash2 } from "lucide-react";
+import {
+  clampRect,
+  getDefaultMotionPath,
+  getMotionPathCSSKeyframes,
+  interpolateMotionPath,
+  MAX_KEYFRAMES,
+  MOTION_EASINGS,
+  type CropRect,
+  type MotionEasing,
+  type MotionPath,
+} from "../lib/motionPath";
+import { Slider } from "./ui/slider";
+
+interface MotionPathEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sceneImageUrl: string;
+  aspectRatio: string;
+  duration: number;
+  initialPath: MotionPath | null;
+  onSave: (motionPath: MotionPath) => void;
+}
+
+type DragState = {
+  mode: "move" | "resize";
+  pointerX: number;
+  pointerY: number;
+  rect: CropRect;
+};
+
+function getKeyframeLabel(index: number, count: number): string {
+  if (index === 0) return "Start";
+  if (index === count - 1) return "End";
+  return `Key ${index}`;
+}
+
+export function MotionPathEditorModal({
+  isOpen,
+  onClose,
+  sceneImageUrl,
+  aspectRatio,
+  duration,
+  initialPath,
+  onSave,
+}: MotionPathEditorModalProps) {
+  const [motionPath, setMotionPath] = useState<MotionPath>(initialPath || getDefaultMotionPath());
+  const [selectedKeyframe, setSelectedKeyframe] = useState(0);
+  const [previewing, setPreviewing] = useState(false);
+  const frameRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  // Start from the scene's saved path each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setMotionPath(initialPath || getDefaultMotionPath());
+      setSelectedKeyframe(0);
+      setPreviewing(false);
+    }
+  }, [isOpen, initialPath]);
+
+  if (!isOpen) return null;
+
+  const keyframes = motionPath.keyframes;
+  const current = keyframes[selectedKeyframe];
+
+  const updateKeyframe = (index: number, changes: Partial<(typeof keyframes)[number]>) => {
+    setMotionPath((prev) => ({
+      keyframes: prev.keyframes.map((kf, i) => (i === index ? { ...kf, ...changes } : kf)),
+    }));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent, mode: DragState["mode"]) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.target as HTMLElement).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, pointerX: e.clientX, pointerY: e.clientY, rect: current.rect };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const frame = frameRef.current;
+    if (!drag || !frame) return;
+
+    const bounds = frame.getBoundingClientRect();
+    const dx = (e.clientX - drag.pointerX) / bounds.width;
+    const dy = (e.clientY - drag.pointerY) / bounds.height;
+
+    if (drag.mode === "move") {
+      updateKeyframe(selectedKeyframe, {
+        rect: clampRect({ ...drag.rect, x: drag.rect.x + dx, y: drag.rect.y + dy }),
+      });
+    } else {
+      // Aspect-locked resize from the bottom-right corner
+      const size = Math.min(drag.rect.width + Math.max(dx, dy), 1 - drag.rect.x, 1 - drag.rect.y);
+      updateKeyframe(selectedKeyframe, {
+        rect: clampRect({ ...drag.rect, width: size, height: size }),
+      });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const addKeyframe = () => {
+    if (keyframes.length >= MAX_KEYFRAMES) return;
+    // Insert halfway between the selected keyframe and the next, framed where the camera already is
+    const fromIndex = Math.min(selectedKeyframe, keyframes.length - 2);
+    const time = (keyframes[fromIndex].time + keyframes[fromIndex + 1].time) / 2;
+    const point = interpolateMotionPath(motionPath, time);
+    const size = 1 / point.zoom;
+    const newKeyframe = {
+      time,
+      rect: clampRect({ x: point.x, y: point.y, width: size, height: size }),
+      easing: keyframes[fromIndex].easing,
+    };
+    setMotionPath({
+      keyframes: [...keyframes.slice(0, fromIndex + 1), newKeyframe, ...keyframes.slice(fromIndex + 1)],
+    });
+    setSelectedKeyframe(fromIndex + 1);
+  };
+
+  const removeKeyframe = (index: number) => {
+    if (index === 0 || index === keyframes.length - 1) return;
+    setMotionPath({ keyframes: keyframes.filter((_, i) => i !== index) });
+    setSelectedKeyframe(index - 1);
+  };
+
+  const previewAnimationName = "motion-path-editor-preview";
+  const [ratioWidth, ratioHeight] = aspectRatio.split(":").map(Number);
+  const isPortrait = ratioHeight > ratioWidth;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-2xl max-w-4xl w-full mx-4 p-6 max-h-[95vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Move className="w-6 h-6 text-yellow-400" />
+            <h2 className="text-2xl font-bold text-white">Custom Camera Path</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Drag the frame to point the camera, and drag its corner to zoom. Each keyframe is one shot; the camera moves between them over the scene.
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-6">
+          {/* Framing Canvas */}
+          <div className="flex-1 flex justify-center">
+            <div
+              ref={frameRef}
+              className="relative bg-black overflow-hidden rounded select-none touch-none"
+              style={isPortrait
+                ? { aspectRatio: aspectRatio.replace(":", " / "), height: "60vh" }
+                : { aspectRatio: aspectRatio.replace(":", " / "), width: "100%" }}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {previewing ? (
+                <>
+                  <style>{getMotionPathCSSKeyframes(motionPath, previewAnimationName)}</style>
+                  <img
+                    src={sceneImageUrl}
+                    alt="Motion preview"
+                    className="absolute inset-0 w-full h-full object-cover"
+                    style={{
+                      transformOrigin: "0 0",
+                      animationName: previewAnimationName,
+                      animationDuration: `${duration}s`,
+                      animationIterationCount: "infinite",
+                      animationFillMode: "both",
+                    }}
+                    draggable={false}
+                  />
+                </>
+              ) : (
+                <>
+                  <img
+                    src={sceneImageUrl}
+                    alt="Scene"
+                    className="absolute inset-0 w-full h-full object-cover opacity-60"
+                    draggable={false}
+                  />
+
+                  {/* Keyframe rectangles */}
+                  {keyframes.map((kf, index) => {
+                    const isSelected = index === selectedKeyframe;
+                    return (
+                      <div
+                        key={index}
+                        className={`absolute ${
+                          isSelected
+                            ? "border-2 border-orange-500 bg-white/10 cursor-move z-10"
+                            : "border border-dashed border-gray-300/70 cursor-pointer"
+                        }`}
+                        style={{
+                          left: `${kf.rect.x * 100}%`,
+                          top: `${kf.rect.y * 100}%`,
+                          width: `${kf.rect.width * 100}%`,
+                          height: `${kf.rect.height * 100}%`,
+                        }}
+                        onPointerDown={(e) => {
+                          if (isSelected) {
+                            handlePointerDown(e, "move");
+                          } else {
+                            setSelectedKeyframe(index);
+                          }
+                        }}
+                      >
+                        <span
+                          className={`absolute top-1 left-1 text-[10px] font-semibold px-1.5 py-0.5 rounded ${
+                            isSelected ? "bg-orange-500 text-white" : "bg-black/70 text-gray-300"
+                          }`}
+                        >
+                          {getKeyframeLabel(index, keyframes.length)}
+                        </span>
+                        {isSelected && (
+                          <div
+                            className="absolute -bottom-1.5 -right-1.5 w-3.5 h-3.5 bg-orange-500 border-2 border-white rounded-sm cursor-nwse-resize"
+                            onPointerDown={(e) => handlePointerDown(e, "resize")}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+                </>
+              )}
+            </div>
+          </div>
+
+          {/* Keyframe Controls */}
+          <div className="md:w-64 space-y-4">
+            <button
+              onClick={() => setPreviewing(!previewing)}
+              className="w-full flex items-center justify-center gap-2 h-9 bg-gray-800 hover:bg-gray-700 text-white text-sm font-medium rounded transition-colors"
+            >
+              {previewing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+              {previewing ? "Stop Preview" : "Preview Motion"}
+            </button>
+
+            <div className="flex flex-wrap gap-2">
+              {keyframes.map((_, index) => (
+                <button
+                  key={index}
+                  onClick={() => {
+                    setSelectedKeyframe(index);
+                    setPreviewing(false);
+                  }}
+                  className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                    index === selectedKeyframe
+                      ? "bg-orange-600 border-orange-500 text-white"
+                      : "bg-gray-800 border-gray-700 text-gray-300 hover:border-gray-500"
+                  }`}
+                >
+                  {getKeyframeLabel(index, keyframes.length)}
+                </button>
+              ))}
+              {keyframes.length < MAX_KEYFRAMES && (
+                <button
+                  onClick={addKeyframe}
+                  className="flex items-center gap-1 px-3 py-1 text-xs rounded-full border border-gray-700 bg-gray-800 text-gray-300 hover:border-gray-500"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add
+                </button>
+              )}
+            </div>
+
+            {/* Time (intermediate keyframes only) */}
+            {selectedKeyframe > 0 && selectedKeyframe < keyframes.length - 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-3">
+                  Time: <span className="text-orange-400 font-bold">{(current.time * duration).toFixed(1)}s</span>
+                </label>
+                <Slider
+                  value={[current.time]}
+                  onValueChange={(value) => updateKeyframe(selectedKeyframe, { time: value[0] })}
+                  min={keyframes[selectedKeyframe - 1].time + 0.05}
+                  max={keyframes[selectedKeyframe + 1].time - 0.05}
+                  step={0.01}
+                  className="w-full"
+                />
+              </div>
+            )}
+
+            {/* Easing toward the next keyframe */}
+            {selectedKeyframe < keyframes.length - 1 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">
+                  Easing to next keyframe
+                </label>
+                <select
+                  value={current.easing || "ease_in_out"}
+                  onChange={(e) => updateKeyframe(selectedKeyframe, { easing: e.target.value as MotionEasing })}
+                  className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded text-gray-300 text-sm focus:outline-none focus:border-orange-500"
+                >
+                  {MOTION_EASINGS.map((easing) => (
+                    <option key={easing.id} value={easing.id}>{easing.name}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="text-xs text-gray-500">
+              Zoom: {(1 / current.rect.width).toFixed(2)}x
+            </div>
+
+            {selectedKeyframe > 0 && selectedKeyframe < keyframes.length - 1 && (
+              <button
+                onClick={() => removeKeyframe(selectedKeyframe)}
+                className="w-full flex items-center justify-center gap-2 h-8 text-red-400 hover:text-red-300 hover:bg-red-900/20 text-sm rounded transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+                Remove Keyframe
+              </button>
+            )}
+
+            <div className="flex gap-2 pt-2">
+              <button
+                onClick={onClose}
+                className="flex-1 h-9 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  onSave(motionPath);
+                  onClose();
+                }}
+                className="flex-1 h-9 bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium rounded transition-colors"
+              >
+                Save Path
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+import React from "react";
+import { Slider } from "./ui/slider";
+import {
+  MAX_DUCK_DEPTH,
+  MIN_DUCK_ATTACK,
+  MAX_DUCK_ATTACK,
+  MIN_DUCK_RELEASE,
+  MAX_DUCK_RELEASE,
+  MAX_MUSIC_FADE,
+  type MusicMixSettings,
+} from "../lib/musicMix";
+
+interface MusicMixControlsProps {
+  mix: MusicMixSettings;
+  onChange: (mix: MusicMixSettings) => void;
+  compact?: boolean; // Smaller labels for the shorts music panel
+}
+
+/**
+ * Ducking and fade settings for background music
+ */
+export function MusicMixControls({ mix, onChange, compact = false }: MusicMixControlsProps) {
+  const labelClass = compact ? "block text-[10px] text-gray-400 mb-1" : "block text-xs text-gray-400 mb-2";
+  const update = (changes: Partial<MusicMixSettings>) => onChange({ ...mix, ...changes });
+
+  const sliders: { key: keyof MusicMixSettings; label: string; unit: string; min: number; max: number; step: number; ducking?: boolean }[] = [
+    { key: "duck_depth", label: "Duck depth", unit: "dB", min: 1, max: MAX_DUCK_DEPTH, step: 1, ducking: true },
+    { key: "attack", label: "Attack", unit: "ms", min: MIN_DUCK_ATTACK, max: MAX_DUCK_ATTACK, step: 5, ducking: true },
+    { key: "release", label: "Release", unit: "ms", min: MIN_DUCK_RELEASE, max: MAX_DUCK_RELEASE, step: 50, ducking: true },
+    { key: "fade_in", label: "Fade in", unit: "s", min: 0, max: MAX_MUSIC_FADE, step: 0.5 },
+    { key: "fade_out", label: "Fade out", unit: "s", min: 0, max: MAX_MUSIC_FADE, step: 0.5 },
+  ];
+
+  return (
+    <div className={compact ? "space-y-2" : "space-y-3"}>
+      <label className="flex items-center justify-between cursor-pointer">
+        <span className={compact ? "text-[10px] text-gray-300" : "text-sm text-gray-300"}>Duck under narration</span>
+        <input
+          type="checkbox"
+          checked={mix.duck_enabled}
+          onChange={(e) => update({ duck_enabled: e.target.checked })}
+          className="accent-orange-500"
+        />
+      </label>
+
+      {sliders
+        .filter((s) => !s.ducking || mix.duck_enabled)
+        .map((s) => (
+          <div key={s.key}>
+            <label className={labelClass}>
+              {s.label}: <span className="text-orange-400">{mix[s.key] as number}{s.unit}</span>
+            </label>
+            <Slider
+              value={[mix[s.key] as number]}
+              onValueChange={(value) => update({ [s.key]: value[0] } as Partial<MusicMixSettings>)}
+              min={s.min}
+              max={s.max}
+              step={s.step}
+              className="w-full"
+            />
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -1,6 +1,16 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog';
-import { X } from 'lucide-react';
+import { X, Trash2, ChevronUp, ChevronDown } from 'lucide-react';
+import { Slider } from './ui/slider';
+import {
+  MAX_OVERLAYS_PER_SCENE,
+  getAllOverlayBlendModes,
+  getOverlayBlendMode,
+  getOverlayCategoryBlend,
+  resolveOverlayBlend,
+  type OverlayBlendMode,
+  type SceneOverlay,
+} from '../lib/overlayBlend';
 
 interface Overlay {
   id: string;
@@ -14,25 +24,30 @@ interface OverlaySelectionModalProps {
   isOpen: boolean;
   onClose: () => void;
   overlays: Overlay[];
-  currentOverlayId: string | null;
+  currentOverlays: SceneOverlay[];
   sceneImageUrl: string;
   aspectRatio: string;
-  onSelectOverlay: (overlayId: string | null, overlayUrl?: string) => void;
+  onSave: (overlays: SceneOverlay[]) => void;
 }
 
 export function OverlaySelectionModal({
   isOpen,
   onClose,
   overlays,
-  currentOverlayId,
+  currentOverlays,
   sceneImageUrl,
   aspectRatio,
-  onSelectOverlay,
+  onSave,
 }: OverlaySelectionModalProps) {
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
   const [loadedVideos, setLoadedVideos] = useState<Set<string>>(new Set());
   const videoRefs = useRef<Map<string, HTMLVideoElement>>(new Map());
-  const [selectedOverlayId, setSelectedOverlayId] = useState<string | null>(currentOverlayId);
+  const [stack, setStack] = useState<SceneOverlay[]>(currentOverlays);
+
+  // Start from the scene's saved stack each time the modal opens
+  useEffect(() => {
+    if (isOpen) setStack(currentOverlays);
+  }, [isOpen, currentOverlays]);
 
   // Calculate aspect ratio padding from story data
   const [widthRatio, heightRatio] = aspectRatio.split(':').map(Number);
@@ -92,10 +107,30 @@ export function OverlaySelectionModal({
   const loadingProgress = overlays.length > 0 ? (loadedVideos.size / overlays.length) * 100 : 0;
   const allLoaded = loadedVideos.size === overlays.length;
 
-  // Helper function to get blend settings per category
-  const getBlendSettings = (category: string) => {
-    // Show overlays as-is with full opacity, only use screen blend mode
-    return { blendMode: 'screen', opacity: 1.0 };
+  const getCategory = (overlayId: string) => overlays.find(o => o.id === overlayId)?.category;
+  const getName = (overlayId: string) => overlays.find(o => o.id === overlayId)?.name || 'Overlay';
+
+  const toggleOverlay = (overlay: Overlay) => {
+    setStack(prev => {
+      if (prev.some(o => o.overlay_id === overlay.id)) return prev.filter(o => o.overlay_id !== overlay.id);
+      if (prev.length >= MAX_OVERLAYS_PER_SCENE) return prev;
+      return [...prev, { overlay_id: overlay.id, overlay_url: overlay.file_url, blend_mode: null, opacity: null }];
+    });
+  };
+
+  const updateOverlay = (index: number, changes: Partial<SceneOverlay>) => {
+    setStack(prev => prev.map((o, i) => (i === index ? { ...o, ...changes } : o)));
+  };
+
+  // Later overlays draw on top
+  const moveOverlay = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= stack.length) return;
+    setStack(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
   };
 
   return (
@@ -121,6 +156,90 @@ export function OverlaySelectionModal({
           </div>
         )}
 
+        {/* Stack - live preview plus blend mode and opacity per overlay */}
+        <div className="flex gap-4 bg-gray-800/50 rounded-lg p-3">
+          <div className="w-28 flex-shrink-0">
+            <div className="relative rounded overflow-hidden" style={{ paddingBottom: `${aspectRatioPadding}%` }}>
+              <img src={sceneImageUrl} alt="Scene" className="absolute inset-0 w-full h-full object-cover" />
+              {stack.map((overlay) => {
+                const blend = resolveOverlayBlend(overlay, getCategory(overlay.overlay_id));
+                return (
+                  <video
+                    key={overlay.overlay_id}
+                    src={overlay.overlay_url}
+                    className="absolute inset-0 w-full h-full object-cover"
+                    style={{ mixBlendMode: getOverlayBlendMode(blend.blendMode).css as any, opacity: blend.opacity }}
+                    muted
+                    loop
+                    playsInline
+                    autoPlay
+                  />
+                );
+              })}
+            </div>
+          </div>
+          <div className="flex-1 min-w-0 space-y-2">
+            <p className="text-xs text-gray-400">
+              On this scene ({stack.length}/{MAX_OVERLAYS_PER_SCENE}) - click overlays below to add or remove them
+            </p>
+            {stack.map((overlay, index) => {
+              const defaults = getOverlayCategoryBlend(getCategory(overlay.overlay_id));
+              const blend = resolveOverlayBlend(overlay, getCategory(overlay.overlay_id));
+              return (
+                <div key={overlay.overlay_id} className="flex items-center gap-2">
+                  <p className="w-28 text-xs text-white truncate">{getName(overlay.overlay_id)}</p>
+                  <select
+                    value={overlay.blend_mode ?? ''}
+                    onChange={(e) => updateOverlay(index, { blend_mode: (e.target.value || null) as OverlayBlendMode | null })}
+                    className="px-2 py-1 bg-gray-900 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-orange-500"
+                  >
+                    <option value="">Default ({getOverlayBlendMode(defaults.blendMode).name})</option>
+                    {getAllOverlayBlendModes().map((mode) => (
+                      <option key={mode.id} value={mode.id} title={mode.description}>{mode.name}</option>
+                    ))}
+                  </select>
+                  <div className="flex-1 min-w-0">
+                    <Slider
+                      value={[blend.opacity]}
+                      onValueChange={(value) => updateOverlay(index, { opacity: value[0] })}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                    />
+                  </div>
+                  <span className="w-9 text-right text-[10px] text-orange-400">{Math.round(blend.opacity * 100)}%</span>
+                  <button onClick={() => moveOverlay(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-white disabled:opacity-30">
+                    <ChevronUp className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => moveOverlay(index, 1)} disabled={index === stack.length - 1} className="text-gray-500 hover:text-white disabled:opacity-30">
+                    <ChevronDown className="w-4 h-4" />
+                  </button>
+                  <button onClick={() => setStack(prev => prev.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              );
+            })}
+            <div className="flex gap-2 pt-1">
+              <button
+                onClick={onClose}
+                className="px-3 h-8 bg-gray-800 hover:bg-gray-700 text-gray-300 text-xs rounded transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={() => {
+                  onSave(stack);
+                  onClose();
+                }}
+                className="px-4 h-8 bg-orange-600 hover:bg-orange-700 text-white text-xs font-medium rounded transition-colors"
+              >
+                Save Overlays
+              </button>
+            </div>
+          </div>
+        </div>
+
         {/* Category Filter */}
         <div className="flex gap-2 flex-wrap">
           {categories.map((category) => (
@@ -143,13 +262,9 @@ export function OverlaySelectionModal({
           <div className="grid grid-cols-4 gap-4 p-1">
             {/* None Option */}
             <button
-              onClick={() => {
-                setSelectedOverlayId(null);
-                onSelectOverlay(null, undefined);
-                onClose();
-              }}
+              onClick={() => setStack([])}
               className={`relative rounded-lg border-2 transition-all overflow-hidden ${
-                selectedOverlayId === null
+                stack.length === 0
                   ? 'border-orange-500 ring-2 ring-orange-500'
                   : 'border-gray-700 hover:border-gray-600'
               }`}
@@ -173,18 +288,16 @@ export function OverlaySelectionModal({
 
             {/* Overlay Options */}
             {filteredOverlays.map((overlay) => {
-              const blendSettings = getBlendSettings(overlay.category);
+              const blendSettings = getOverlayCategoryBlend(overlay.category);
+              const selected = stack.some(o => o.overlay_id === overlay.id);
 
               return (
                 <button
                   key={overlay.id}
-                  onClick={() => {
-                    setSelectedOverlayId(overlay.id);
-                    onSelectOverlay(overlay.id, overlay.file_url);
-                    onClose();
-                  }}
-                  className={`relative rounded-lg border-2 transition-all overflow-hidden group ${
-                    selectedOverlayId === overlay.id
+                  onClick={() => toggleOverlay(overlay)}
+                  disabled={!selected && stack.length >= MAX_OVERLAYS_PER_SCENE}
+                  className={`relative rounded-lg border-2 transition-all overflow-hidden group disabled:opacity-50 ${
+                    selected
                       ? 'border-orange-500 ring-2 ring-orange-500'
                       : 'border-gray-700 hover:border-gray-600'
                   }`}
@@ -206,7 +319,7 @@ export function OverlaySelectionModal({
                           if (el.firstChild !== video) {
                             el.innerHTML = '';
                             video.className = 'absolute inset-0 w-full h-full object-cover';
-                            video.style.mixBlendMode = blendSettings.blendMode;
+                            video.style.mixBlendMode = getOverlayBlendMode(blendSettings.blendMode).css;
                             video.style.opacity = blendSettings.opacity.toString();
                             video.play().catch(() => {});
                             el.appendChild(video);
@@ -230,7 +343,7 @@ export function OverlaySelectionModal({
                   </div>
 
                   {/* Selected Indicator */}
-                  {selectedOverlayId === overlay.id && (
+                  {selected && (
                     <div className="absolute top-2 right-2 w-6 h-6 bg-orange-500 rounded-full flex items-center justify-center">
                       <svg className="w-4 h-4 text-white" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from "react";
+import { X, AudioLines, Plus, Trash2, RotateCcw } from "lucide-react";
+import {
+  DEFAULT_PROSODY,
+  MIN_PROSODY_SPEED,
+  MAX_PROSODY_SPEED,
+  MIN_PROSODY_PITCH,
+  MAX_PROSODY_PITCH,
+  MAX_PAUSE_DURATION,
+  getSpokenWords,
+  normalizeWord,
+  type SceneProsody,
+} from "../lib/prosody";
+import { Slider } from "./ui/slider";
+
+interface ProsodyEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sceneText: string;
+  initialProsody: SceneProsody | null;
+  onSave: (prosody: SceneProsody | null) => void;
+}
+
+type WordMode = "emphasis" | "pause";
+
+export function ProsodyEditorModal({
+  isOpen,
+  onClose,
+  sceneText,
+  initialProsody,
+  onSave,
+}: ProsodyEditorModalProps) {
+  const [prosody, setProsody] = useState<SceneProsody>(initialProsody || DEFAULT_PROSODY);
+  const [wordMode, setWordMode] = useState<WordMode>("emphasis");
+  const [pauseDuration, setPauseDuration] = useState(0.5);
+
+  // Start from the scene's saved prosody each time the editor opens
+  useEffect(() => {
+    if (isOpen) {
+      setProsody(initialProsody || DEFAULT_PROSODY);
+      setWordMode("emphasis");
+    }
+  }, [isOpen, initialProsody]);
+
+  if (!isOpen) return null;
+
+  const words = getSpokenWords(sceneText);
+  const pauseAfter = new Map(prosody.pauses.map((p) => [p.after, p.duration]));
+
+  const handleWordClick = (index: number) => {
+    if (wordMode === "emphasis") {
+      const key = normalizeWord(words[index]);
+      if (!key) return;
+      setProsody((prev) => ({
+        ...prev,
+        emphasis: prev.emphasis.includes(key) ? prev.emphasis.filter((w) => w !== key) : [...prev.emphasis, key],
+      }));
+    } else {
+      setProsody((prev) => ({
+        ...prev,
+        pauses: pauseAfter.has(index)
+          ? prev.pauses.filter((p) => p.after !== index)
+          : [...prev.pauses, { after: index, duration: pauseDuration }].sort((a, b) => a.after - b.after),
+      }));
+    }
+  };
+
+  const updatePronunciation = (index: number, changes: { word?: string; say?: string }) => {
+    setProsody((prev) => ({
+      ...prev,
+      pronunciations: prev.pronunciations.map((p, i) => (i === index ? { ...p, ...changes } : p)),
+    }));
+  };
+
+  const isDefault =
+    prosody.speed === 1 &&
+    prosody.pitch === 0 &&
+    prosody.emphasis.length === 0 &&
+    prosody.pauses.length === 0 &&
+    prosody.pronunciations.every((p) => !p.word.trim() || !p.say.trim());
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-2xl max-w-2xl w-full mx-4 p-6 max-h-[95vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <AudioLines className="w-6 h-6 text-orange-400" />
+            <h2 className="text-2xl font-bold text-white">Narration Delivery</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Shape how this scene is read. Changes apply the next time its audio is generated.
+        </p>
+
+        {/* Speed and pitch */}
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-5">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Speed: {prosody.speed.toFixed(2)}x
+            </label>
+            <Slider
+              value={[prosody.speed]}
+              onValueChange={(value) => setProsody((prev) => ({ ...prev, speed: value[0] }))}
+              min={MIN_PROSODY_SPEED}
+              max={MAX_PROSODY_SPEED}
+              step={0.05}
+              className="w-full"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Pitch: {prosody.pitch > 0 ? "+" : ""}{prosody.pitch} semitones
+            </label>
+            <Slider
+              value={[prosody.pitch]}
+              onValueChange={(value) => setProsody((prev) => ({ ...prev, pitch: value[0] }))}
+              min={MIN_PROSODY_PITCH}
+              max={MAX_PROSODY_PITCH}
+              step={0.5}
+              className="w-full"
+            />
+          </div>
+        </div>
+
+        {/* Emphasis and pauses */}
+        <div className="mb-5">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-300">Click words to mark them</label>
+            <div className="flex rounded overflow-hidden border border-gray-700 text-xs">
+              {(["emphasis", "pause"] as WordMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setWordMode(mode)}
+                  className={`px-3 py-1 transition-colors ${
+                    wordMode === mode ? "bg-orange-600 text-white" : "bg-gray-800 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  {mode === "emphasis" ? "Emphasis" : "Pause after"}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {wordMode === "pause" && (
+            <div className="flex items-center gap-3 mb-2">
+              <span className="text-xs text-gray-400 whitespace-nowrap">New pauses: {pauseDuration.toFixed(1)}s</span>
+              <Slider
+                value={[pauseDuration]}
+                onValueChange={(value) => setPauseDuration(value[0])}
+                min={0.1}
+                max={MAX_PAUSE_DURATION}
+                step={0.1}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          <div className="p-3 bg-gray-800 rounded-lg text-sm leading-7 max-h-48 overflow-y-auto">
+            {words.length === 0 && <span className="text-gray-500">This scene has no text yet.</span>}
+            {words.map((word, index) => {
+              const emphasized = prosody.emphasis.includes(normalizeWord(word));
+              const pause = pauseAfter.get(index);
+              return (
+                <React.Fragment key={index}>
+                  <span
+                    onClick={() => handleWordClick(index)}
+                    className={`cursor-pointer rounded px-0.5 transition-colors ${
+                      emphasized ? "text-orange-300 font-bold underline" : "text-gray-200 hover:bg-gray-700"
+                    }`}
+                  >
+                    {word}
+                  </span>
+                  {pause && (
+                    <span className="mx-1 px-1.5 py-0.5 rounded bg-blue-900/50 text-blue-300 text-[10px] align-middle">
+                      {pause.toFixed(1)}s
+                    </span>
+                  )}{" "}
+                </React.Fragment>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-gray-500">
+            Emphasis applies to every occurrence of the word. Click a marked word again to clear it.
+          </p>
+        </div>
+
+        {/* Pronunciations */}
+        <div className="mb-5">
+          <div className="flex items-center justify-between mb-2">
+            <label className="text-sm font-medium text-gray-300">Pronunciations</label>
+            <button
+              onClick={() => setProsody((prev) => ({ ...prev, pronunciations: [...prev.pronunciations, { word: "", say: "" }] }))}
+              className="flex items-center gap-1 text-xs text-orange-400 hover:text-orange-300"
+            >
+              <Plus className="w-3 h-3" />
+              Add
+            </button>
+          </div>
+          {prosody.pronunciations.length === 0 ? (
+            <p className="text-xs text-gray-500">
+              Say a word differently without changing the captions, e.g. GIF → jif.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {prosody.pronunciations.map((p, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={p.word}
+                    onChange={(e) => updatePronunciation(index, { word: e.target.value })}
+                    placeholder="Word"
+                    className="flex-1 px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+                  />
+                  <span className="text-gray-500">→</span>
+                  <input
+                    value={p.say}
+                    onChange={(e) => updatePronunciation(index, { say: e.target.value })}
+                    placeholder="Say as"
+                    className="flex-1 px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+                  />
+                  <button
+                    onClick={() => setProsody((prev) => ({ ...prev, pronunciations: prev.pronunciations.filter((_, i) => i !== index) }))}
+                    className="text-gray-500 hover:text-red-400"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => setProsody(DEFAULT_PROSODY)}
+            className="flex items-center justify-center gap-1 px-3 h-9 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 h-9 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              onSave(isDefault ? null : prosody);
+              onClose();
+            }}
+            className="flex-1 h-9 bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium rounded transition-colors"
+          >
+            Save Delivery
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
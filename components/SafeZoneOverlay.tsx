@@ -0,0 +1,44 @@
+/**
+ * Safe Zone Overlay Component
+ *
+ * Shades the parts of the preview a platform covers with its own UI
+ * (buttons, caption, progress bar) and outlines the safe area left for
+ * captions. Guide only - it is never rendered into the video.
+ */
+
+import React from 'react';
+import { getSafeZone, type SafeZonePlatform } from '../lib/captionLayout';
+import type { AspectRatio } from '../lib/aspectRatios';
+
+interface SafeZoneOverlayProps {
+  platform: SafeZonePlatform | null;
+  aspectRatio: AspectRatio; // Guides only show on formats the platform plays
+}
+
+const SHADE = 'rgba(239, 68, 68, 0.18)';
+
+export const SafeZoneOverlay = React.memo(function SafeZoneOverlay({ platform, aspectRatio }: SafeZoneOverlayProps) {
+  const zone = getSafeZone(platform);
+  if (!zone || !zone.aspectRatios.includes(aspectRatio)) return null;
+
+  const { top, bottom, left, right } = zone.insets;
+
+  return (
+    <div className="absolute inset-0 pointer-events-none">
+      {/* Covered bands: full-width top and bottom, sides between them */}
+      <div className="absolute left-0 right-0 top-0" style={{ height: `${top}%`, background: SHADE }} />
+      <div className="absolute left-0 right-0 bottom-0" style={{ height: `${bottom}%`, background: SHADE }} />
+      <div className="absolute left-0" style={{ top: `${top}%`, bottom: `${bottom}%`, width: `${left}%`, background: SHADE }} />
+      <div className="absolute right-0" style={{ top: `${top}%`, bottom: `${bottom}%`, width: `${right}%`, background: SHADE }} />
+
+      <div
+        className="absolute border border-dashed border-red-400/80"
+        style={{ top: `${top}%`, bottom: `${bottom}%`, left: `${left}%`, right: `${right}%` }}
+      >
+        <span className="absolute top-1 left-1 px-1.5 py-0.5 rounded bg-black/60 text-[10px] font-medium text-red-300">
+          {zone.name} safe area
+        </span>
+      </div>
+    </div>
+  );
+});
@@ -0,0 +1,396 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { X, Zap, Plus, Trash2, Play, Pause, Upload, Loader2 } from "lucide-react";
+import {
+  DEFAULT_SFX_VOLUME,
+  MIN_SFX_OFFSET,
+  MAX_SFX_OFFSET,
+  MAX_SFX_VOLUME,
+  MAX_SFX_FADE,
+  MAX_SFX_CUES_PER_SCENE,
+  getAllSfxCategories,
+  getSfxCategory,
+  type SfxCue,
+} from "../lib/sfx";
+import { getSpokenWords } from "../lib/prosody";
+import { Slider } from "./ui/slider";
+
+interface SfxLibraryItem {
+  id: string;
+  name: string;
+  file_url: string;
+  duration: number;
+  category: string;
+  is_preset: boolean;
+  uploaded_by: string | null;
+}
+
+interface SoundEffectsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sceneText: string;
+  initialCues: SfxCue[];
+  userId?: string;
+  onSave: (cues: SfxCue[]) => void;
+}
+
+export function SoundEffectsModal({
+  isOpen,
+  onClose,
+  sceneText,
+  initialCues,
+  userId,
+  onSave,
+}: SoundEffectsModalProps) {
+  const [cues, setCues] = useState<SfxCue[]>(initialCues);
+  const [library, setLibrary] = useState<SfxLibraryItem[]>([]);
+  const [libraryLoading, setLibraryLoading] = useState(false);
+  const [category, setCategory] = useState<string>("");
+  const [uploading, setUploading] = useState(false);
+  const [playingUrl, setPlayingUrl] = useState<string | null>(null);
+  const [editingCue, setEditingCue] = useState<string | null>(null);
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+
+  const fetchLibrary = useCallback(async () => {
+    setLibraryLoading(true);
+    try {
+      const params = new URLSearchParams();
+      if (category) params.append("category", category);
+      if (userId) params.append("user_id", userId);
+
+      const res = await fetch(`/api/sfx/library?${params.toString()}`);
+      if (res.ok) {
+        const data = await res.json();
+        setLibrary(data.sfx || []);
+      } else {
+        console.error("❌ Failed to fetch sound effects library");
+      }
+    } catch (err) {
+      console.error("❌ Error fetching sound effects library:", err);
+    } finally {
+      setLibraryLoading(false);
+    }
+  }, [category, userId]);
+
+  // Start from the scene's saved cues each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setCues(initialCues);
+      setEditingCue(null);
+    }
+  }, [isOpen, initialCues]);
+
+  useEffect(() => {
+    if (isOpen) fetchLibrary();
+  }, [isOpen, fetchLibrary]);
+
+  // Stop any preview when the modal closes
+  useEffect(() => {
+    if (!isOpen && audioRef.current) {
+      audioRef.current.pause();
+      setPlayingUrl(null);
+    }
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const words = getSpokenWords(sceneText);
+
+  const togglePreview = (url: string) => {
+    if (audioRef.current) audioRef.current.pause();
+    if (playingUrl === url) {
+      setPlayingUrl(null);
+      return;
+    }
+    const audio = new Audio(url);
+    audio.onended = () => setPlayingUrl(null);
+    audio.play().catch(() => setPlayingUrl(null));
+    audioRef.current = audio;
+    setPlayingUrl(url);
+  };
+
+  const addCue = (item: SfxLibraryItem) => {
+    if (cues.length >= MAX_SFX_CUES_PER_SCENE) return;
+    const cue: SfxCue = {
+      id: `cue-${Date.now()}`,
+      sfx_id: item.id,
+      name: item.name,
+      url: item.file_url,
+      anchor: words.length > 0 ? "word" : "time",
+      word_index: words.length > 0 ? 0 : null,
+      offset: 0,
+      volume: DEFAULT_SFX_VOLUME,
+      fade_in: 0,
+      fade_out: 0,
+    };
+    setCues((prev) => [...prev, cue]);
+    setEditingCue(cue.id);
+  };
+
+  const updateCue = (id: string, changes: Partial<SfxCue>) => {
+    setCues((prev) => prev.map((cue) => (cue.id === id ? { ...cue, ...changes } : cue)));
+  };
+
+  const handleUpload = async (file: File) => {
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("name", file.name.replace(/\.[^/.]+$/, ""));
+      formData.append("category", category || "other");
+      formData.append("uploaded_by", userId || "unknown");
+
+      const res = await fetch("/api/sfx/library", { method: "POST", body: formData });
+      if (!res.ok) {
+        const data = await res.json().catch(() => ({}));
+        throw new Error(data.error || "Upload failed");
+      }
+      await fetchLibrary();
+    } catch (err) {
+      console.error("SFX upload error:", err);
+      alert(`Failed to upload sound effect: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const describeAnchor = (cue: SfxCue) => {
+    const offset = cue.offset !== 0 ? ` ${cue.offset > 0 ? "+" : ""}${cue.offset.toFixed(1)}s` : "";
+    if (cue.anchor === "word" && cue.word_index !== null) {
+      return `on "${words[cue.word_index] ?? `word ${cue.word_index + 1}`}"${offset}`;
+    }
+    return `at ${cue.offset.toFixed(1)}s`;
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-2xl max-w-3xl w-full mx-4 p-6 max-h-[95vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Zap className="w-6 h-6 text-orange-400" />
+            <h2 className="text-2xl font-bold text-white">Sound Effects</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Place sound effects on a word of the narration or at a time in the scene. They're mixed in when the video is rendered.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-5 mb-5">
+          {/* Library */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="text-sm font-medium text-gray-300">Library</label>
+              <label className="flex items-center gap-1 text-xs text-orange-400 hover:text-orange-300 cursor-pointer">
+                {uploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                Upload
+                <input
+                  type="file"
+                  accept="audio/*"
+                  className="hidden"
+                  disabled={uploading}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleUpload(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+            <select
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              className="w-full mb-2 px-3 py-1.5 bg-gray-800 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+            >
+              <option value="">All categories</option>
+              {getAllSfxCategories().map((c) => (
+                <option key={c.id} value={c.id}>{c.name}</option>
+              ))}
+            </select>
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {libraryLoading && (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="w-5 h-5 animate-spin text-gray-500" />
+                </div>
+              )}
+              {!libraryLoading && library.length === 0 && (
+                <p className="text-xs text-gray-500 py-4 text-center">No sound effects yet. Upload a clip to get started.</p>
+              )}
+              {!libraryLoading && library.map((item) => (
+                <div key={item.id} className="flex items-center gap-2 p-2 bg-gray-800 rounded">
+                  <button
+                    onClick={() => togglePreview(item.file_url)}
+                    className="p-1 text-gray-400 hover:text-white"
+                  >
+                    {playingUrl === item.file_url ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-white truncate">{item.name}</p>
+                    <p className="text-[10px] text-gray-500">
+                      {getSfxCategory(item.category).name} · {item.duration.toFixed(1)}s{item.is_preset ? " · Preset" : ""}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => addCue(item)}
+                    disabled={cues.length >= MAX_SFX_CUES_PER_SCENE}
+                    className="flex items-center gap-1 px-2 py-1 bg-orange-600 hover:bg-orange-700 disabled:opacity-40 text-white text-xs rounded transition-colors"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Cues on this scene */}
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              On this scene ({cues.length}/{MAX_SFX_CUES_PER_SCENE})
+            </label>
+            {cues.length === 0 ? (
+              <p className="text-xs text-gray-500">Add a sound effect from the library.</p>
+            ) : (
+              <div className="space-y-2 max-h-80 overflow-y-auto">
+                {cues.map((cue) => (
+                  <div key={cue.id} className="p-2 bg-gray-800 rounded">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setEditingCue(editingCue === cue.id ? null : cue.id)}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className="text-sm text-white truncate">{cue.name}</p>
+                        <p className="text-[10px] text-gray-400">{describeAnchor(cue)} · {cue.volume}%</p>
+                      </button>
+                      <button
+                        onClick={() => setCues((prev) => prev.filter((c) => c.id !== cue.id))}
+                        className="text-gray-500 hover:text-red-400"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    {editingCue === cue.id && (
+                      <div className="mt-3 space-y-3">
+                        <div className="flex rounded overflow-hidden border border-gray-700 text-xs w-fit">
+                          {(["word", "time"] as const).map((anchor) => (
+                            <button
+                              key={anchor}
+                              disabled={anchor === "word" && words.length === 0}
+                              onClick={() =>
+                                updateCue(cue.id, {
+                                  anchor,
+                                  word_index: anchor === "word" ? cue.word_index ?? 0 : null,
+                                  offset: anchor === "time" ? Math.max(0, cue.offset) : cue.offset,
+                                })
+                              }
+                              className={`px-3 py-1 transition-colors disabled:opacity-40 ${
+                                cue.anchor === anchor ? "bg-orange-600 text-white" : "bg-gray-900 text-gray-300 hover:bg-gray-700"
+                              }`}
+                            >
+                              {anchor === "word" ? "On word" : "At time"}
+                            </button>
+                          ))}
+                        </div>
+
+                        {cue.anchor === "word" && (
+                          <div className="p-2 bg-gray-900 rounded text-xs leading-6 max-h-24 overflow-y-auto">
+                            {words.map((word, index) => (
+                              <span
+                                key={index}
+                                onClick={() => updateCue(cue.id, { word_index: index })}
+                                className={`cursor-pointer rounded px-0.5 ${
+                                  cue.word_index === index ? "bg-orange-600 text-white" : "text-gray-300 hover:bg-gray-700"
+                                }`}
+                              >
+                                {word}{" "}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+
+                        <div>
+                          <label className="block text-[10px] text-gray-400 mb-1">
+                            {cue.anchor === "word" ? "Offset from word" : "Time in scene"}: <span className="text-orange-400">{cue.offset.toFixed(1)}s</span>
+                          </label>
+                          <Slider
+                            value={[cue.offset]}
+                            onValueChange={(value) => updateCue(cue.id, { offset: value[0] })}
+                            min={cue.anchor === "word" ? MIN_SFX_OFFSET : 0}
+                            max={cue.anchor === "word" ? 5 : MAX_SFX_OFFSET}
+                            step={0.1}
+                            className="w-full"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-[10px] text-gray-400 mb-1">
+                            Volume: <span className="text-orange-400">{cue.volume}%</span>
+                          </label>
+                          <Slider
+                            value={[cue.volume]}
+                            onValueChange={(value) => updateCue(cue.id, { volume: value[0] })}
+                            min={0}
+                            max={MAX_SFX_VOLUME}
+                            step={5}
+                            className="w-full"
+                          />
+                        </div>
+                        <div className="grid grid-cols-2 gap-3">
+                          {(["fade_in", "fade_out"] as const).map((key) => (
+                            <div key={key}>
+                              <label className="block text-[10px] text-gray-400 mb-1">
+                                {key === "fade_in" ? "Fade in" : "Fade out"}: <span className="text-orange-400">{cue[key].toFixed(1)}s</span>
+                              </label>
+                              <Slider
+                                value={[cue[key]]}
+                                onValueChange={(value) => updateCue(cue.id, { [key]: value[0] })}
+                                min={0}
+                                max={MAX_SFX_FADE}
+                                step={0.1}
+                                className="w-full"
+                              />
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 h-9 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              onSave(cues);
+              onClose();
+            }}
+            className="flex-1 h-9 bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium rounded transition-colors"
+          >
+            Save Sound Effects
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+/**
+ * Text Layer Overlay Component
+ *
+ * Draws a scene's text layers over the preview at the given scene time, using
+ * the same positions and animation states as the rendered ASS.
+ */
+
+import React from 'react';
+import { getTextLayerFrame, type TextLayer } from '../lib/textLayers';
+
+interface TextLayerOverlayProps {
+  layers: TextLayer[];
+  currentTime: number; // Seconds from the start of the scene
+  sceneDuration: number;
+  fontScale?: number; // Preview size relative to the 9:16 editor preview
+}
+
+const hexToRgba = (hex: string, alpha: number) => {
+  const h = hex.replace('#', '');
+  const r = parseInt(h.substring(0, 2), 16);
+  const g = parseInt(h.substring(2, 4), 16);
+  const b = parseInt(h.substring(4, 6), 16);
+  return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+};
+
+export const TextLayerOverlay = React.memo(function TextLayerOverlay({
+  layers,
+  currentTime,
+  sceneDuration,
+  fontScale = 1,
+}: TextLayerOverlayProps) {
+  if (!layers || layers.length === 0) return null;
+
+  return (
+    <>
+      {layers.map((layer) => {
+        const frame = getTextLayerFrame(layer, currentTime, sceneDuration);
+        if (!frame.visible) return null;
+
+        // (x, y) is the middle of the text's left edge, center or right edge, like ASS \an4/\an5/\an6
+        const anchorX = layer.align === 'left' ? 0 : layer.align === 'right' ? 100 : 50;
+        const fontSize = layer.font_size * fontScale;
+
+        return (
+          <div
+            key={layer.id}
+            className="absolute pointer-events-none"
+            style={{
+              left: `${layer.x + frame.dx}%`,
+              top: `${layer.y + frame.dy}%`,
+              transform: `translate(-${anchorX}%, -50%) scale(${frame.scale / 100})`,
+              transformOrigin: `${anchorX}% 50%`,
+              opacity: frame.opacity,
+              textAlign: layer.align,
+              whiteSpace: 'pre',
+              lineHeight: 1.25,
+            }}
+          >
+            <span
+              style={{
+                fontFamily: layer.font_family,
+                fontWeight: layer.font_weight,
+                fontSize: `${fontSize}px`,
+                color: layer.color,
+                textTransform: layer.uppercase ? 'uppercase' : 'none',
+                ...(layer.background
+                  ? {
+                      backgroundColor: hexToRgba(layer.background, layer.background_opacity),
+                      padding: `${fontSize * 0.25}px`,
+                      boxDecorationBreak: 'clone',
+                      WebkitBoxDecorationBreak: 'clone',
+                    }
+                  : { textShadow: '2px 2px 0 rgba(0,0,0,0.5)' }),
+              }}
+            >
+              {layer.text}
+            </span>
+          </div>
+        );
+      })}
+    </>
+  );
+});
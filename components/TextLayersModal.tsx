@@ -0,0 +1,426 @@
+import React, { useEffect, useState } from "react";
+import { X, Type, Plus, Trash2, ChevronUp, ChevronDown } from "lucide-react";
+import {
+  MAX_TEXT_LAYERS_PER_SCENE,
+  MAX_TEXT_LAYER_LENGTH,
+  MIN_TEXT_LAYER_FONT_SIZE,
+  MAX_TEXT_LAYER_FONT_SIZE,
+  MIN_TEXT_LAYER_DURATION,
+  MAX_TEXT_LAYER_ANIMATION,
+  createTextLayer,
+  getAllTextLayerAnimations,
+  getAllTextLayerPresets,
+  getTextLayerPreset,
+  getTextLayerTiming,
+  type TextLayer,
+  type TextLayerAlign,
+  type TextLayerAnimation,
+} from "../lib/textLayers";
+import { getFontsByCategory } from "../lib/fonts";
+import { TextLayerOverlay } from "./TextLayerOverlay";
+import { Slider } from "./ui/slider";
+
+interface TextLayersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  sceneDuration: number;
+  imageUrl?: string | null;
+  preview: { width: number; height: number }; // Editor preview size - the size the layers are designed at
+  initialLayers: TextLayer[];
+  onSave: (layers: TextLayer[]) => void;
+}
+
+export function TextLayersModal({
+  isOpen,
+  onClose,
+  sceneDuration,
+  imageUrl,
+  preview,
+  initialLayers,
+  onSave,
+}: TextLayersModalProps) {
+  const [layers, setLayers] = useState<TextLayer[]>(initialLayers);
+  const [editingLayer, setEditingLayer] = useState<string | null>(null);
+  const [previewTime, setPreviewTime] = useState(0);
+
+  // Start from the scene's saved layers each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setLayers(initialLayers);
+      setEditingLayer(initialLayers[0]?.id ?? null);
+      setPreviewTime(0);
+    }
+  }, [isOpen, initialLayers]);
+
+  if (!isOpen) return null;
+
+  const addLayer = (preset: TextLayer["preset"]) => {
+    if (layers.length >= MAX_TEXT_LAYERS_PER_SCENE) return;
+    const layer = createTextLayer(preset);
+    setLayers((prev) => [...prev, layer]);
+    setEditingLayer(layer.id);
+    setPreviewTime(Math.min(1, sceneDuration / 2));
+  };
+
+  const updateLayer = (id: string, changes: Partial<TextLayer>) => {
+    setLayers((prev) => prev.map((layer) => (layer.id === id ? { ...layer, ...changes } : layer)));
+  };
+
+  // Later layers draw on top
+  const moveLayer = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= layers.length) return;
+    setLayers((prev) => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const describeTiming = (layer: TextLayer) => {
+    const { start, end } = getTextLayerTiming(layer, sceneDuration);
+    return `${start.toFixed(1)}s - ${layer.duration === null ? "end" : `${end.toFixed(1)}s`}`;
+  };
+
+  const selectClass = "w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-orange-500";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-2xl max-w-5xl w-full mx-4 p-6 max-h-[95vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <Type className="w-6 h-6 text-orange-400" />
+            <h2 className="text-2xl font-bold text-white">Text Layers</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Title cards, lower thirds and call-outs on top of the scene. They appear in the video exactly as previewed here.
+        </p>
+
+        <div className="flex flex-col lg:flex-row gap-5 mb-5">
+          {/* Preview */}
+          <div className="flex-shrink-0 flex flex-col items-center gap-2">
+            <div
+              className="relative overflow-hidden rounded bg-gray-800"
+              style={{ width: preview.width, height: preview.height }}
+            >
+              {imageUrl && <img src={imageUrl} alt="" className="absolute inset-0 w-full h-full object-cover" />}
+              <TextLayerOverlay layers={layers} currentTime={previewTime} sceneDuration={sceneDuration} />
+            </div>
+            <div className="w-full" style={{ maxWidth: preview.width }}>
+              <label className="block text-[10px] text-gray-400 mb-1">
+                Scene time: <span className="text-orange-400">{previewTime.toFixed(1)}s</span> / {sceneDuration.toFixed(1)}s
+              </label>
+              <Slider
+                value={[previewTime]}
+                onValueChange={(value) => setPreviewTime(value[0])}
+                min={0}
+                max={Math.max(0.1, sceneDuration - 0.05)}
+                step={0.05}
+                className="w-full"
+              />
+            </div>
+          </div>
+
+          {/* Layers */}
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap gap-1.5 mb-3">
+              {getAllTextLayerPresets().map((preset) => (
+                <button
+                  key={preset.id}
+                  onClick={() => addLayer(preset.id)}
+                  disabled={layers.length >= MAX_TEXT_LAYERS_PER_SCENE}
+                  className="flex items-center gap-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 disabled:opacity-40 text-white text-xs rounded transition-colors"
+                >
+                  <Plus className="w-3 h-3" />
+                  {preset.name}
+                </button>
+              ))}
+            </div>
+
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              On this scene ({layers.length}/{MAX_TEXT_LAYERS_PER_SCENE})
+            </label>
+            {layers.length === 0 ? (
+              <p className="text-xs text-gray-500">Add a text layer from a preset above.</p>
+            ) : (
+              <div className="space-y-2 max-h-[60vh] overflow-y-auto pr-1">
+                {layers.map((layer, index) => (
+                  <div key={layer.id} className="p-2 bg-gray-800 rounded">
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => setEditingLayer(editingLayer === layer.id ? null : layer.id)}
+                        className="flex-1 min-w-0 text-left"
+                      >
+                        <p className="text-sm text-white truncate">{layer.text.split("\n")[0]}</p>
+                        <p className="text-[10px] text-gray-400">{getTextLayerPreset(layer.preset).name} · {describeTiming(layer)}</p>
+                      </button>
+                      <button onClick={() => moveLayer(index, -1)} disabled={index === 0} className="text-gray-500 hover:text-white disabled:opacity-30">
+                        <ChevronUp className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => moveLayer(index, 1)} disabled={index === layers.length - 1} className="text-gray-500 hover:text-white disabled:opacity-30">
+                        <ChevronDown className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => setLayers((prev) => prev.filter((l) => l.id !== layer.id))}
+                        className="text-gray-500 hover:text-red-400"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+
+                    {editingLayer === layer.id && (
+                      <div className="mt-3 space-y-3">
+                        <textarea
+                          value={layer.text}
+                          onChange={(e) => updateLayer(layer.id, { text: e.target.value })}
+                          maxLength={MAX_TEXT_LAYER_LENGTH}
+                          rows={2}
+                          className="w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-orange-500 resize-none"
+                        />
+
+                        {/* Font */}
+                        <div className="grid grid-cols-3 gap-2">
+                          <select
+                            value={layer.font_family}
+                            onChange={(e) => updateLayer(layer.id, { font_family: e.target.value })}
+                            className={`${selectClass} col-span-2`}
+                          >
+                            {Array.from(getFontsByCategory()).map(([category, fonts]) => (
+                              <optgroup key={category} label={category} className="bg-gray-900 text-gray-400">
+                                {fonts.map((font) => (
+                                  <option key={font.name} value={font.name}>{font.name}</option>
+                                ))}
+                              </optgroup>
+                            ))}
+                          </select>
+                          <select
+                            value={layer.font_weight}
+                            onChange={(e) => updateLayer(layer.id, { font_weight: Number(e.target.value) })}
+                            className={selectClass}
+                          >
+                            {[400, 500, 600, 700, 800, 900].map((weight) => (
+                              <option key={weight} value={weight}>{weight}</option>
+                            ))}
+                          </select>
+                        </div>
+
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-[10px] text-gray-400 mb-1">
+                              Size: <span className="text-orange-400">{layer.font_size}px</span>
+                            </label>
+                            <Slider
+                              value={[layer.font_size]}
+                              onValueChange={(value) => updateLayer(layer.id, { font_size: value[0] })}
+                              min={MIN_TEXT_LAYER_FONT_SIZE}
+                              max={MAX_TEXT_LAYER_FONT_SIZE}
+                              step={1}
+                            />
+                          </div>
+                          <div className="flex items-end gap-2">
+                            <input
+                              type="color"
+                              value={layer.color}
+                              onChange={(e) => updateLayer(layer.id, { color: e.target.value })}
+                              className="w-8 h-7 bg-gray-900 border border-gray-700 rounded cursor-pointer"
+                              title="Text color"
+                            />
+                            <label className="flex items-center gap-1 text-[10px] text-gray-300">
+                              <input
+                                type="checkbox"
+                                checked={layer.uppercase}
+                                onChange={(e) => updateLayer(layer.id, { uppercase: e.target.checked })}
+                                className="accent-orange-500"
+                              />
+                              ABC
+                            </label>
+                            <div className="flex rounded overflow-hidden border border-gray-700 text-[10px]">
+                              {(["left", "center", "right"] as TextLayerAlign[]).map((align) => (
+                                <button
+                                  key={align}
+                                  onClick={() => updateLayer(layer.id, { align })}
+                                  className={`px-1.5 py-1 capitalize transition-colors ${
+                                    layer.align === align ? "bg-orange-600 text-white" : "bg-gray-900 text-gray-300 hover:bg-gray-700"
+                                  }`}
+                                >
+                                  {align}
+                                </button>
+                              ))}
+                            </div>
+                          </div>
+                        </div>
+
+                        {/* Background box */}
+                        <div className="flex items-center gap-3">
+                          <label className="flex items-center gap-1 text-[10px] text-gray-300">
+                            <input
+                              type="checkbox"
+                              checked={Boolean(layer.background)}
+                              onChange={(e) => updateLayer(layer.id, {
+                                background: e.target.checked ? "#000000" : null,
+                                background_opacity: e.target.checked ? 0.7 : 0,
+                              })}
+                              className="accent-orange-500"
+                            />
+                            Background box
+                          </label>
+                          {layer.background && (
+                            <>
+                              <input
+                                type="color"
+                                value={layer.background}
+                                onChange={(e) => updateLayer(layer.id, { background: e.target.value })}
+                                className="w-8 h-7 bg-gray-900 border border-gray-700 rounded cursor-pointer"
+                              />
+                              <div className="flex-1">
+                                <Slider
+                                  value={[layer.background_opacity]}
+                                  onValueChange={(value) => updateLayer(layer.id, { background_opacity: value[0] })}
+                                  min={0}
+                                  max={1}
+                                  step={0.05}
+                                />
+                              </div>
+                            </>
+                          )}
+                        </div>
+
+                        {/* Position */}
+                        <div className="grid grid-cols-2 gap-3">
+                          {(["x", "y"] as const).map((axis) => (
+                            <div key={axis}>
+                              <label className="block text-[10px] text-gray-400 mb-1">
+                                {axis === "x" ? "Horizontal" : "Vertical"}: <span className="text-orange-400">{Math.round(layer[axis])}%</span>
+                              </label>
+                              <Slider
+                                value={[layer[axis]]}
+                                onValueChange={(value) => updateLayer(layer.id, { [axis]: value[0] })}
+                                min={0}
+                                max={100}
+                                step={1}
+                              />
+                            </div>
+                          ))}
+                        </div>
+
+                        {/* Timing */}
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <label className="block text-[10px] text-gray-400 mb-1">
+                              Starts at: <span className="text-orange-400">{layer.start.toFixed(1)}s</span>
+                            </label>
+                            <Slider
+                              value={[layer.start]}
+                              onValueChange={(value) => {
+                                updateLayer(layer.id, { start: value[0] });
+                                setPreviewTime(value[0]);
+                              }}
+                              min={0}
+                              max={Math.max(0.1, sceneDuration - MIN_TEXT_LAYER_DURATION)}
+                              step={0.1}
+                            />
+                          </div>
+                          <div>
+                            <label className="flex items-center justify-between text-[10px] text-gray-400 mb-1">
+                              <span>
+                                Duration: <span className="text-orange-400">{layer.duration === null ? "until scene ends" : `${layer.duration.toFixed(1)}s`}</span>
+                              </span>
+                              <span className="flex items-center gap-1">
+                                <input
+                                  type="checkbox"
+                                  checked={layer.duration === null}
+                                  onChange={(e) => updateLayer(layer.id, {
+                                    duration: e.target.checked ? null : Math.max(MIN_TEXT_LAYER_DURATION, Math.min(3, sceneDuration - layer.start)),
+                                  })}
+                                  className="accent-orange-500"
+                                />
+                                To end
+                              </span>
+                            </label>
+                            {layer.duration !== null && (
+                              <Slider
+                                value={[layer.duration]}
+                                onValueChange={(value) => updateLayer(layer.id, { duration: value[0] })}
+                                min={MIN_TEXT_LAYER_DURATION}
+                                max={Math.max(MIN_TEXT_LAYER_DURATION, sceneDuration - layer.start)}
+                                step={0.1}
+                              />
+                            )}
+                          </div>
+                        </div>
+
+                        {/* Animation */}
+                        <div className="grid grid-cols-3 gap-2">
+                          {(["animation_in", "animation_out"] as const).map((key) => (
+                            <div key={key}>
+                              <label className="block text-[10px] text-gray-400 mb-1">{key === "animation_in" ? "In" : "Out"}</label>
+                              <select
+                                value={layer[key]}
+                                onChange={(e) => updateLayer(layer.id, { [key]: e.target.value as TextLayerAnimation })}
+                                className={selectClass}
+                              >
+                                {getAllTextLayerAnimations().map((animation) => (
+                                  <option key={animation.id} value={animation.id}>{animation.name}</option>
+                                ))}
+                              </select>
+                            </div>
+                          ))}
+                          <div>
+                            <label className="block text-[10px] text-gray-400 mb-1">
+                              Length: <span className="text-orange-400">{layer.animation_duration.toFixed(1)}s</span>
+                            </label>
+                            <Slider
+                              value={[layer.animation_duration]}
+                              onValueChange={(value) => updateLayer(layer.id, { animation_duration: value[0] })}
+                              min={0}
+                              max={MAX_TEXT_LAYER_ANIMATION}
+                              step={0.1}
+                              className="mt-2"
+                            />
+                          </div>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 h-9 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => {
+              onSave(layers.filter((layer) => layer.text.trim()));
+              onClose();
+            }}
+            className="flex-1 h-9 bg-orange-600 hover:bg-orange-700 text-white text-sm font-medium rounded transition-colors"
+          >
+            Save Text Layers
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
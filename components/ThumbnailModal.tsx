@@ -0,0 +1,451 @@
+import React, { useEffect, useRef, useState } from "react";
+import { X, ImageIcon, Film, Loader2, Download } from "lucide-react";
+import {
+  MAX_THUMBNAIL_TITLE_LENGTH,
+  MIN_THUMBNAIL_TITLE_SIZE,
+  MAX_THUMBNAIL_TITLE_SIZE,
+  getAllThumbnailSizes,
+  getThumbnailSize,
+  getDefaultThumbnailSettings,
+  getThumbnailTitleLayout,
+  normalizeThumbnailSettings,
+  type ThumbnailSettings,
+  type ThumbnailSize,
+  type ThumbnailTitle,
+  type ThumbnailTitlePosition,
+} from "../lib/thumbnails";
+import { getFontsByCategory } from "../lib/fonts";
+import { Slider } from "./ui/slider";
+
+const PREVIEW_MAX_WIDTH = 360;
+const PREVIEW_MAX_HEIGHT = 400;
+
+interface ThumbnailModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  video: {
+    video_url: string;
+    duration?: number;
+    aspect_ratio?: string;
+    thumbnails?: Record<string, string> | null;
+    thumbnail_settings?: ThumbnailSettings | null;
+  };
+  scenes: Array<{ id?: string; image_url?: string | null }>;
+  defaultTitle?: string;
+  onSave: (settings: ThumbnailSettings) => Promise<void>;
+}
+
+export function ThumbnailModal({
+  isOpen,
+  onClose,
+  video,
+  scenes,
+  defaultTitle,
+  onSave,
+}: ThumbnailModalProps) {
+  const [settings, setSettings] = useState<ThumbnailSettings>(() => getDefaultThumbnailSettings(video.aspect_ratio));
+  const [previewSize, setPreviewSize] = useState<ThumbnailSize>("youtube");
+  const [saving, setSaving] = useState(false);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  // Start from the video's last thumbnail (or the story title) each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    const initial = normalizeThumbnailSettings(video.thumbnail_settings) || {
+      ...getDefaultThumbnailSettings(video.aspect_ratio),
+      title: { ...getDefaultThumbnailSettings(video.aspect_ratio).title, text: (defaultTitle || "").slice(0, MAX_THUMBNAIL_TITLE_LENGTH) },
+    };
+    setSettings(initial);
+    setPreviewSize(initial.sizes[0]);
+    setSaving(false);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  // Keep the scrubber frame in sync with the picked time
+  useEffect(() => {
+    if (videoRef.current && settings.source.type === "frame") {
+      videoRef.current.currentTime = settings.source.time;
+    }
+  }, [settings.source.type, settings.source.time]);
+
+  if (!isOpen) return null;
+
+  const updateTitle = (changes: Partial<ThumbnailTitle>) => {
+    setSettings((prev) => ({ ...prev, title: { ...prev.title, ...changes } }));
+  };
+
+  const toggleSize = (id: ThumbnailSize) => {
+    const sizes = settings.sizes.includes(id) ? settings.sizes.filter((size) => size !== id) : [...settings.sizes, id];
+    if (sizes.length === 0) return;
+    setSettings((prev) => ({ ...prev, sizes }));
+    if (!sizes.includes(previewSize)) setPreviewSize(sizes[0]);
+  };
+
+  const handleGenerate = async () => {
+    setSaving(true);
+    try {
+      await onSave(settings);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The title is laid out at the export size and scaled down, so the preview wraps exactly like the render
+  const size = getThumbnailSize(previewSize);
+  const scale = Math.min(PREVIEW_MAX_WIDTH / size.width, PREVIEW_MAX_HEIGHT / size.height);
+  const layout = getThumbnailTitleLayout(settings.title, size.width, size.height);
+  const sceneImages = scenes.filter((scene) => scene.id && scene.image_url);
+  const selectedScene = sceneImages.find((scene) => scene.id === settings.source.scene_id);
+  const videoDuration = video.duration || 0;
+  const canGenerate = settings.source.type === "frame" || Boolean(selectedScene);
+  const exported = Object.entries(video.thumbnails || {});
+
+  const selectClass = "w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-xs text-white focus:outline-none focus:border-orange-500";
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-2xl max-w-5xl w-full mx-4 p-6 max-h-[95vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <ImageIcon className="w-6 h-6 text-orange-400" />
+            <h2 className="text-2xl font-bold text-white">Thumbnail</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Pick a frame from the video or a scene image, add a title and export it at each platform's size.
+        </p>
+
+        <div className="flex flex-col lg:flex-row gap-5 mb-5">
+          {/* Preview */}
+          <div className="flex-shrink-0 flex flex-col items-center gap-2">
+            <div className="flex rounded overflow-hidden border border-gray-700 text-[10px]">
+              {settings.sizes.map((id) => (
+                <button
+                  key={id}
+                  onClick={() => setPreviewSize(id)}
+                  className={`px-2 py-1 transition-colors ${
+                    previewSize === id ? "bg-orange-600 text-white" : "bg-gray-900 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  {getThumbnailSize(id).name}
+                </button>
+              ))}
+            </div>
+            <div
+              className="relative overflow-hidden rounded bg-gray-800"
+              style={{ width: size.width * scale, height: size.height * scale }}
+            >
+              {settings.source.type === "frame" ? (
+                <video
+                  ref={videoRef}
+                  src={video.video_url}
+                  muted
+                  playsInline
+                  preload="auto"
+                  className="absolute inset-0 w-full h-full object-cover"
+                />
+              ) : selectedScene ? (
+                <img src={selectedScene.image_url!} alt="" className="absolute inset-0 w-full h-full object-cover" />
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">Pick a scene image</div>
+              )}
+
+              {layout && settings.title.background && (
+                <div
+                  className="absolute left-0 right-0"
+                  style={{
+                    top: (layout.top - layout.fontSize * 0.3) * scale,
+                    height: (layout.lineHeight * layout.lines.length + layout.fontSize * 0.6) * scale,
+                    backgroundColor: settings.title.background,
+                  }}
+                />
+              )}
+              {layout && (
+                <div
+                  className="absolute left-0 right-0 text-center whitespace-pre"
+                  style={{
+                    top: layout.top * scale,
+                    fontFamily: `"${settings.title.font_family}", sans-serif`,
+                    fontWeight: settings.title.font_weight,
+                    fontSize: layout.fontSize * scale,
+                    lineHeight: `${layout.lineHeight * scale}px`,
+                    color: settings.title.color,
+                    WebkitTextStroke: settings.title.stroke_color
+                      ? `${layout.fontSize * scale * 0.08}px ${settings.title.stroke_color}`
+                      : undefined,
+                    paintOrder: "stroke fill",
+                  }}
+                >
+                  {layout.lines.join("\n")}
+                </div>
+              )}
+            </div>
+            <p className="text-[10px] text-gray-500">
+              {size.width}x{size.height} · {size.platforms}
+            </p>
+          </div>
+
+          {/* Settings */}
+          <div className="flex-1 min-w-0 space-y-4">
+            {/* Source */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Picture</label>
+              <div className="flex rounded overflow-hidden border border-gray-700 text-xs mb-3 w-fit">
+                <button
+                  onClick={() => setSettings((prev) => ({ ...prev, source: { ...prev.source, type: "frame" } }))}
+                  className={`flex items-center gap-1 px-3 py-1.5 transition-colors ${
+                    settings.source.type === "frame" ? "bg-orange-600 text-white" : "bg-gray-900 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  <Film className="w-3 h-3" />
+                  Video frame
+                </button>
+                <button
+                  onClick={() => setSettings((prev) => ({
+                    ...prev,
+                    source: { ...prev.source, type: "scene", scene_id: prev.source.scene_id || sceneImages[0]?.id || null },
+                  }))}
+                  disabled={sceneImages.length === 0}
+                  className={`flex items-center gap-1 px-3 py-1.5 transition-colors disabled:opacity-40 ${
+                    settings.source.type === "scene" ? "bg-orange-600 text-white" : "bg-gray-900 text-gray-300 hover:bg-gray-700"
+                  }`}
+                >
+                  <ImageIcon className="w-3 h-3" />
+                  Scene image
+                </button>
+              </div>
+
+              {settings.source.type === "frame" ? (
+                <div>
+                  <label className="block text-[10px] text-gray-400 mb-1">
+                    Frame at: <span className="text-orange-400">{settings.source.time.toFixed(1)}s</span>
+                    {videoDuration > 0 && ` / ${videoDuration.toFixed(1)}s`}
+                  </label>
+                  <Slider
+                    value={[settings.source.time]}
+                    onValueChange={(value) => setSettings((prev) => ({ ...prev, source: { ...prev.source, time: value[0] } }))}
+                    min={0}
+                    max={Math.max(0.1, videoDuration - 0.1)}
+                    step={0.1}
+                  />
+                </div>
+              ) : (
+                <div className="grid grid-cols-6 gap-1.5 max-h-40 overflow-y-auto pr-1">
+                  {sceneImages.map((scene, index) => (
+                    <button
+                      key={scene.id}
+                      onClick={() => setSettings((prev) => ({ ...prev, source: { ...prev.source, scene_id: scene.id! } }))}
+                      className={`relative aspect-square rounded overflow-hidden border-2 transition-colors ${
+                        settings.source.scene_id === scene.id ? "border-orange-500" : "border-transparent hover:border-gray-600"
+                      }`}
+                    >
+                      <img src={scene.image_url!} alt="" className="w-full h-full object-cover" />
+                      <span className="absolute bottom-0 left-0 px-1 text-[9px] text-white bg-black/60">{index + 1}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Title */}
+            <div className="space-y-3">
+              <label className="block text-sm font-medium text-gray-300">Title</label>
+              <textarea
+                value={settings.title.text}
+                onChange={(e) => updateTitle({ text: e.target.value })}
+                maxLength={MAX_THUMBNAIL_TITLE_LENGTH}
+                rows={2}
+                placeholder="No title"
+                className="w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-sm text-white focus:outline-none focus:border-orange-500 resize-none"
+              />
+
+              <div className="grid grid-cols-3 gap-2">
+                <select
+                  value={settings.title.font_family}
+                  onChange={(e) => updateTitle({ font_family: e.target.value })}
+                  className={`${selectClass} col-span-2`}
+                >
+                  {Array.from(getFontsByCategory()).map(([category, fonts]) => (
+                    <optgroup key={category} label={category} className="bg-gray-900 text-gray-400">
+                      {fonts.map((font) => (
+                        <option key={font.name} value={font.name}>{font.name}</option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <select
+                  value={settings.title.font_weight}
+                  onChange={(e) => updateTitle({ font_weight: Number(e.target.value) })}
+                  className={selectClass}
+                >
+                  {[400, 500, 600, 700, 800, 900].map((weight) => (
+                    <option key={weight} value={weight}>{weight}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-[10px] text-gray-400 mb-1">
+                    Size: <span className="text-orange-400">{settings.title.size}%</span>
+                  </label>
+                  <Slider
+                    value={[settings.title.size]}
+                    onValueChange={(value) => updateTitle({ size: value[0] })}
+                    min={MIN_THUMBNAIL_TITLE_SIZE}
+                    max={MAX_THUMBNAIL_TITLE_SIZE}
+                    step={1}
+                  />
+                </div>
+                <div className="flex items-end gap-2">
+                  <label className="flex items-center gap-1 text-[10px] text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={settings.title.uppercase}
+                      onChange={(e) => updateTitle({ uppercase: e.target.checked })}
+                      className="accent-orange-500"
+                    />
+                    ABC
+                  </label>
+                  <div className="flex rounded overflow-hidden border border-gray-700 text-[10px]">
+                    {(["top", "center", "bottom"] as ThumbnailTitlePosition[]).map((position) => (
+                      <button
+                        key={position}
+                        onClick={() => updateTitle({ position })}
+                        className={`px-1.5 py-1 capitalize transition-colors ${
+                          settings.title.position === position ? "bg-orange-600 text-white" : "bg-gray-900 text-gray-300 hover:bg-gray-700"
+                        }`}
+                      >
+                        {position}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+
+              {/* Colors */}
+              <div className="flex flex-wrap items-center gap-4">
+                <label className="flex items-center gap-1 text-[10px] text-gray-300">
+                  <input
+                    type="color"
+                    value={settings.title.color}
+                    onChange={(e) => updateTitle({ color: e.target.value })}
+                    className="w-8 h-7 bg-gray-900 border border-gray-700 rounded cursor-pointer"
+                  />
+                  Text
+                </label>
+                <label className="flex items-center gap-1 text-[10px] text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(settings.title.stroke_color)}
+                    onChange={(e) => updateTitle({ stroke_color: e.target.checked ? "#000000" : null })}
+                    className="accent-orange-500"
+                  />
+                  Outline
+                  {settings.title.stroke_color && (
+                    <input
+                      type="color"
+                      value={settings.title.stroke_color}
+                      onChange={(e) => updateTitle({ stroke_color: e.target.value })}
+                      className="w-8 h-7 bg-gray-900 border border-gray-700 rounded cursor-pointer"
+                    />
+                  )}
+                </label>
+                <label className="flex items-center gap-1 text-[10px] text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={Boolean(settings.title.background)}
+                    onChange={(e) => updateTitle({ background: e.target.checked ? "#000000" : null })}
+                    className="accent-orange-500"
+                  />
+                  Band
+                  {settings.title.background && (
+                    <input
+                      type="color"
+                      value={settings.title.background}
+                      onChange={(e) => updateTitle({ background: e.target.value })}
+                      className="w-8 h-7 bg-gray-900 border border-gray-700 rounded cursor-pointer"
+                    />
+                  )}
+                </label>
+              </div>
+            </div>
+
+            {/* Sizes */}
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Export sizes</label>
+              <div className="grid grid-cols-2 gap-1.5">
+                {getAllThumbnailSizes().map((option) => (
+                  <label key={option.id} className="flex items-center gap-2 p-2 bg-gray-800 rounded text-xs text-white cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={settings.sizes.includes(option.id)}
+                      onChange={() => toggleSize(option.id)}
+                      className="accent-orange-500"
+                    />
+                    <span>
+                      {option.name} <span className="text-gray-400">· {option.platforms}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {/* Last export */}
+            {exported.length > 0 && (
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Exported</label>
+                <div className="flex flex-wrap gap-1.5">
+                  {exported.map(([id, url]) => (
+                    <a
+                      key={id}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      download
+                      className="flex items-center gap-1 px-2 py-1 bg-gray-800 hover:bg-gray-700 text-white text-xs rounded transition-colors"
+                    >
+                      <Download className="w-3 h-3" />
+                      {getThumbnailSize(id).name}
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="flex-1 h-9 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleGenerate}
+            disabled={saving || !canGenerate}
+            className="flex-1 h-9 flex items-center justify-center gap-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white text-sm font-medium rounded transition-colors"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {saving ? "Rendering..." : `Export ${settings.sizes.length} thumbnail${settings.sizes.length === 1 ? "" : "s"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from "react";
+import { X, Shuffle } from "lucide-react";
+import {
+  getAllTransitions,
+  getTransitionAnimationClass,
+  DEFAULT_TRANSITION_DURATION,
+  MIN_TRANSITION_DURATION,
+  MAX_TRANSITION_DURATION,
+  type TransitionType,
+} from "../lib/videoTransitions";
+import { Slider } from "./ui/slider";
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "./ui/tooltip";
+
+interface TransitionSelectionModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  currentTransition: TransitionType;
+  currentDuration: number | null;
+  fromImageUrl: string;
+  toImageUrl: string;
+  onSelectTransition: (transitionId: TransitionType, duration: number) => void;
+}
+
+export function TransitionSelectionModal({
+  isOpen,
+  onClose,
+  currentTransition,
+  currentDuration,
+  fromImageUrl,
+  toImageUrl,
+  onSelectTransition,
+}: TransitionSelectionModalProps) {
+  const transitions = getAllTransitions();
+  const [duration, setDuration] = useState(currentDuration || DEFAULT_TRANSITION_DURATION);
+
+  // Reset the slider whenever the modal is opened for another scene boundary
+  useEffect(() => {
+    if (isOpen) {
+      setDuration(currentDuration || DEFAULT_TRANSITION_DURATION);
+    }
+  }, [isOpen, currentDuration]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-2xl max-w-4xl w-full mx-4 p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center gap-2">
+            <Shuffle className="w-6 h-6 text-yellow-400" />
+            <h2 className="text-2xl font-bold text-white">Select Transition</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        {/* Duration */}
+        <div className="mb-6">
+          <label className="block text-sm font-medium text-gray-300 mb-3">
+            Duration: <span className="text-orange-400 font-bold">{duration.toFixed(1)}s</span>
+          </label>
+          <Slider
+            value={[duration]}
+            onValueChange={(value) => setDuration(value[0])}
+            min={MIN_TRANSITION_DURATION}
+            max={MAX_TRANSITION_DURATION}
+            step={0.1}
+            className="w-full"
+          />
+          <p className="text-xs text-gray-500 mt-2">
+            Shortened automatically if a scene is too short for the full transition.
+          </p>
+        </div>
+
+        {/* Transitions Grid */}
+        <TooltipProvider delayDuration={300}>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+            {transitions.map((transition) => (
+              <Tooltip key={transition.id}>
+                <TooltipTrigger asChild>
+                  <button
+                    onClick={() => {
+                      onSelectTransition(transition.id, Math.round(duration * 10) / 10);
+                      onClose();
+                    }}
+                    className={`
+                      relative group rounded-lg overflow-hidden border-2 transition-all
+                      ${
+                        currentTransition === transition.id
+                          ? "border-orange-500 ring-2 ring-orange-500/50"
+                          : "border-gray-700 hover:border-gray-500"
+                      }
+                    `}
+                  >
+              {/* Outgoing scene with the incoming scene animated over it */}
+              <div className="relative aspect-video bg-black overflow-hidden">
+                <img
+                  src={fromImageUrl}
+                  alt="Current scene"
+                  className="absolute inset-0 w-full h-full object-cover"
+                />
+                {transition.id !== "none" && (
+                  <img
+                    src={toImageUrl}
+                    alt={transition.name}
+                    className={`absolute inset-0 w-full h-full object-cover ${getTransitionAnimationClass(transition.id)}`}
+                  />
+                )}
+              </div>
+
+              {/* Transition Label */}
+              <div className="absolute bottom-0 left-0 right-0 bg-black/80 backdrop-blur-sm p-2">
+                <p className="text-white text-sm font-semibold text-center">
+                  {transition.name}
+                </p>
+                {transition.isPro && (
+                  <span className="absolute top-2 right-2 bg-yellow-500 text-black text-xs font-bold px-2 py-1 rounded">
+                    PRO
+                  </span>
+                )}
+              </div>
+
+              {/* Selected Indicator */}
+              {currentTransition === transition.id && (
+                <div className="absolute top-2 left-2 bg-orange-500 text-white rounded-full p-1">
+                  <svg
+                    className="w-4 h-4"
+                    fill="currentColor"
+                    viewBox="0 0 20 20"
+                  >
+                    <path
+                      fillRule="evenodd"
+                      d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                      clipRule="evenodd"
+                    />
+                  </svg>
+                </div>
+              )}
+                  </button>
+                </TooltipTrigger>
+                <TooltipContent>
+                  <p>{transition.description}</p>
+                </TooltipContent>
+              </Tooltip>
+            ))}
+          </div>
+        </TooltipProvider>
+      </div>
+    </div>
+  );
+}
@@ -2,15 +2,30 @@
  * Word-by-Word Animated Caption Component
  *
  * Displays captions with word-by-word highlighting animation
- * synchronized with audio playback.
+ * synchronized with audio playback. The caption animation's keyframes come
+ * from lib/captionAnimations.ts, like the ASS render. With `lines`, the batch
+ * wraps exactly as the render does (layoutCaptionLines in lib/captionLayout.ts).
  */
 
 import React, { useEffect, useState, useMemo } from 'react';
+import {
+  getCaptionAnimation,
+  getCaptionWordKeyframes,
+  getCaptionWordFrame,
+  getTypewriterLetterSeconds,
+  SLIDE_IN_DISTANCE,
+  SLIDE_IN_SECONDS,
+  type CaptionAnimation,
+} from '../lib/captionAnimations';
+import { isWordEmphasized, isWordStressed, getWordEmoji, EMPHASIS_SCALE, EMOJI_FONT } from '../lib/captionEmphasis';
+import { layoutCaptionLines, CAPTION_LINE_HEIGHT } from '../lib/captionLayout';
 
 export interface WordTimestamp {
   word: string;
   start: number;
   end: number;
+  emphasis?: boolean;
+  emoji?: string | null;
 }
 
 interface WordByWordCaptionProps {
@@ -23,6 +38,10 @@ interface WordByWordCaptionProps {
   wordsPerBatch?: number; // Show N words at a time (1-5)
   textTransform?: 'none' | 'uppercase' | 'lowercase' | 'capitalize';
   text?: string; // Optional: full text to detect sentence boundaries
+  animation?: CaptionAnimation;
+  emphasisColor?: string | null; // Color of emphasis-tagged words, null = don't show emphasis tags
+  showEmojis?: boolean;
+  lines?: { maxChars: number; maxLines: number }; // Wrap to the caption box (see resolveCaptionBox)
 }
 
 export const WordByWordCaption = React.memo(function WordByWordCaption({
@@ -35,6 +54,10 @@ export const WordByWordCaption = React.memo(function WordByWordCaption({
   wordsPerBatch = 3, // Default 3 words at a time
   textTransform = 'none',
   text,
+  animation = 'highlight',
+  emphasisColor = null,
+  showEmojis = false,
+  lines,
 }: WordByWordCaptionProps) {
   if (!wordTimestamps || wordTimestamps.length === 0) {
     return null;
@@ -46,6 +69,17 @@ export const WordByWordCaption = React.memo(function WordByWordCaption({
     [wordTimestamps, currentTime]
   );
 
+  // The word being animated stays active until the next one starts, as in the render
+  const spokenWordIndex = useMemo(() => {
+    let index = -1;
+    wordTimestamps.forEach((wt, i) => {
+      if (currentTime >= wt.start) index = i;
+    });
+    return index;
+  }, [wordTimestamps, currentTime]);
+
+  const animationConfig = getCaptionAnimation(animation);
+
   // Apply text transform to words
   const transformWord = useMemo(() => (word: string) => {
     switch (textTransform) {
@@ -134,6 +168,120 @@ export const WordByWordCaption = React.memo(function WordByWordCaption({
   // Get inactive word color (use inactiveColor prop or style.color)
   const inactiveWordColor = inactiveColor || style.color;
 
+  // Slide-in: the batch rises into place from its first word
+  const fontSizePx = parseFloat(String(style.fontSize || '20px')) || 20;
+  const batchStart = visibleWords.length > 0 ? visibleWords[0].start : 0;
+  const slideProgress = animationConfig.slideIn ? Math.max(0, Math.min(1, (currentTime - batchStart) / SLIDE_IN_SECONDS)) : 1;
+  const slideTransform = slideProgress < 1 ? `translateY(${(1 - slideProgress) * SLIDE_IN_DISTANCE * fontSizePx}px)` : undefined;
+
+  // Line breaks of the batch, from the same labels (word + emoji) the render measures
+  const lineLayout = useMemo(() => {
+    if (!lines) return null;
+    const labels = visibleWords.map((wt) => {
+      const emoji = showEmojis ? getWordEmoji(wt) : null;
+      return transformWord(wt.word) + (emoji ? ` ${emoji}` : '');
+    });
+    return layoutCaptionLines(labels, lines.maxChars, wordsPerBatch > 0 ? lines.maxLines : Infinity);
+  }, [lines?.maxChars, lines?.maxLines, visibleWords, showEmojis, transformWord, wordsPerBatch]);
+
+  const fontSize = lineLayout && lineLayout.scale < 1 ? `${fontSizePx * lineLayout.scale}px` : style.fontSize || '20px';
+
+  const wordNodes = visibleWords.map((wt, visibleIndex) => {
+    const actualIndex = wordsPerBatch > 0 ? startIndex + visibleIndex : visibleIndex;
+    const isActive = spokenWordIndex === actualIndex;
+    const isPast = spokenWordIndex > actualIndex;
+    const isFuture = spokenWordIndex < actualIndex;
+    const word = transformWord(wt.word);
+    const emphasized = Boolean(emphasisColor) && isWordEmphasized(wt);
+    const emoji = showEmojis ? getWordEmoji(wt) : null;
+
+    const elapsed = currentTime - wt.start;
+    const frame = isActive ? getCaptionWordFrame(getCaptionWordKeyframes(animationConfig, isWordStressed(wt)), elapsed) : null;
+    const scale = emphasized ? EMPHASIS_SCALE : 1;
+
+    let opacity = 1;
+    if (frame) opacity = frame.opacity;
+    else if (isFuture) opacity = animationConfig.upcoming === 'hidden' ? 0 : animationConfig.upcoming === 'dimmed' ? dimmedOpacity : 1;
+
+    let color = inactiveWordColor;
+    if (emphasized) color = emphasisColor!;
+    else if (isActive || (isPast && animationConfig.spokenHighlight)) color = highlightColor;
+
+    const wordStyle: React.CSSProperties = {
+      opacity,
+      fontWeight: isActive ? 'bold' : style.fontWeight,
+      fontSize,
+      transform: frame ? `scale(${(frame.scaleX / 100) * scale}, ${(frame.scaleY / 100) * scale}) rotate(${frame.rotate}deg)` : 'scale(1)',
+      // The classic highlight eases between words; keyframed animations follow the clock
+      transition: animation === 'highlight' ? 'all 0.15s ease-out' : 'color 0.1s linear',
+      display: 'inline-block',
+      textShadow: style.textShadow,
+      WebkitTextStroke: style.WebkitTextStroke,
+      color,
+    };
+
+    // Karaoke: the highlight sweeps left to right over the word's spoken duration
+    if (isActive && animationConfig.activeWord === 'fill' && !emphasized) {
+      const fill = Math.max(0, Math.min(100, (elapsed / Math.max(0.01, wt.end - wt.start)) * 100));
+      Object.assign(wordStyle, {
+        backgroundImage: `linear-gradient(90deg, ${highlightColor} ${fill}%, ${inactiveWordColor} ${fill}%)`,
+        WebkitBackgroundClip: 'text',
+        backgroundClip: 'text',
+        color: 'transparent',
+        textShadow: 'none',
+        filter: style.textShadow ? 'drop-shadow(2px 2px 2px rgba(0,0,0,0.8))' : undefined,
+      });
+    }
+
+    // Emoji after the word, in the same font as the render
+    const emojiNode = emoji ? <span style={{ fontFamily: `'${EMOJI_FONT}'` }}> {emoji}</span> : null;
+
+    // Typewriter: letters after the typed ones keep their space but don't show yet
+    if (isActive && animationConfig.activeWord === 'type') {
+      const letterSeconds = getTypewriterLetterSeconds(word, wt.end - wt.start);
+      const typed = Math.floor(elapsed / letterSeconds) + 1;
+      return (
+        <span key={actualIndex} style={wordStyle}>
+          {Array.from(word).map((letter, letterIndex) => (
+            <span key={letterIndex} style={{ opacity: letterIndex < typed ? 1 : 0 }}>{letter}</span>
+          ))}
+          {emojiNode}
+        </span>
+      );
+    }
+
+    return (
+      <span
+        key={actualIndex}
+        style={wordStyle}
+      >
+        {word}
+        {emojiNode}
+      </span>
+    );
+  });
+
+  if (lineLayout) {
+    return (
+      <div
+        style={{
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          lineHeight: CAPTION_LINE_HEIGHT,
+          fontFamily: style.fontFamily,
+          transform: slideTransform,
+        }}
+      >
+        {lineLayout.lines.map(([lineStart, lineEnd]) => (
+          <div key={lineStart} style={{ display: 'flex', flexWrap: 'nowrap', gap: '0.5em', justifyContent: 'center' }}>
+            {wordNodes.slice(lineStart, lineEnd)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
   return (
     <div
       style={{
@@ -145,33 +293,10 @@ export const WordByWordCaption = React.memo(function WordByWordCaption({
         maxWidth: '95%',
         lineHeight: '1.5',
         fontFamily: style.fontFamily,
+        transform: slideTransform,
       }}
     >
-      {visibleWords.map((wt, visibleIndex) => {
-        const actualIndex = wordsPerBatch > 0 ? startIndex + visibleIndex : visibleIndex;
-        const isActive = currentWordIndex === actualIndex;
-        const isPast = currentWordIndex > actualIndex;
-        const isFuture = currentWordIndex < actualIndex;
-
-        return (
-          <span
-            key={actualIndex}
-            style={{
-              opacity: isFuture ? dimmedOpacity : 1,
-              fontWeight: isActive ? 'bold' : style.fontWeight,
-              fontSize: style.fontSize || '20px',
-              transform: isActive ? 'scale(1.1)' : 'scale(1)',
-              transition: 'all 0.15s ease-out',
-              display: 'inline-block',
-              textShadow: style.textShadow,
-              WebkitTextStroke: style.WebkitTextStroke,
-              color: isActive ? highlightColor : inactiveWordColor,
-            }}
-          >
-            {transformWord(wt.word)}
-          </span>
-        );
-      })}
+      {wordNodes}
     </div>
   );
 });
@@ -0,0 +1,516 @@
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { X, AudioWaveform, Play, Pause, Scissors, Combine, Trash2, RotateCcw, Loader2 } from "lucide-react";
+import { supabase } from "../lib/supabaseClient";
+import {
+  MIN_WORD_DURATION,
+  WORD_TIMING_STEP,
+  getWordTimingSource,
+  normalizeWordTimings,
+  setWordText,
+  splitWord,
+  mergeWords,
+  deleteWord,
+  moveWordEdge,
+  moveWord,
+  getWordAtTime,
+  type TimedWord,
+  type WordTimingSource,
+} from "../lib/wordTiming";
+import { Slider } from "./ui/slider";
+
+interface WordTimingEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  source: WordTimingSource;
+  id: string;
+  title?: string;
+  // Corrected words, relative to the clip (or the short's window)
+  onSave: (words: TimedWord[]) => Promise<void>;
+}
+
+type DragMode = "start" | "end" | "move";
+
+interface DragState {
+  index: number;
+  mode: DragMode;
+  originX: number;
+  originWords: TimedWord[];
+}
+
+const WAVEFORM_HEIGHT = 96;
+const MIN_ZOOM = 40;
+const MAX_ZOOM = 400;
+const MAX_TIMELINE_WIDTH = 30000;
+
+const formatTime = (seconds: number) => {
+  const m = Math.floor(seconds / 60);
+  const s = seconds - m * 60;
+  return `${m}:${s.toFixed(2).padStart(5, "0")}`;
+};
+
+/**
+ * Caption timeline: fix spelling, split/merge words and drag their start and
+ * end against the narration waveform. Saving only rewrites word timings.
+ */
+export function WordTimingEditorModal({ isOpen, onClose, source, id, title, onSave }: WordTimingEditorModalProps) {
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [initialWords, setInitialWords] = useState<TimedWord[]>([]);
+  const [words, setWords] = useState<TimedWord[]>([]);
+  const [seeded, setSeeded] = useState(false);
+  const [peaks, setPeaks] = useState<number[] | null>(null);
+  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const [windowStart, setWindowStart] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [zoom, setZoom] = useState(120);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draftText, setDraftText] = useState("");
+  const [playhead, setPlayhead] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const audioRef = useRef<HTMLAudioElement | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const stopAtRef = useRef<number | null>(null);
+
+  // Fetch the clip's words, audio window and waveform each time the editor opens
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const load = async () => {
+      setLoading(true);
+      setLoadError(null);
+      setSaveError(null);
+      setSelected(null);
+      setPlayhead(0);
+      try {
+        const { data: { session } } = await supabase.auth.getSession();
+        const params = new URLSearchParams({ source, id });
+        const res = await fetch(`/api/word_timestamps?${params.toString()}`, {
+          headers: { Authorization: `Bearer ${session?.access_token}` },
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to load word timings");
+        if (cancelled) return;
+
+        setInitialWords(data.word_timestamps || []);
+        setWords(data.word_timestamps || []);
+        setSeeded(Boolean(data.seeded));
+        setPeaks(data.peaks || null);
+        setAudioUrl(data.audio_url || null);
+        setWindowStart(data.start || 0);
+        setDuration(data.duration || 0);
+      } catch (err) {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : "Failed to load word timings");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, source, id]);
+
+  const pixelsPerSecond = duration > 0 ? Math.min(zoom, MAX_TIMELINE_WIDTH / duration) : zoom;
+  const timelineWidth = Math.max(1, Math.ceil(duration * pixelsPerSecond));
+
+  // Waveform bars, redrawn when the zoom changes the timeline width
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || peaks.length === 0) return;
+    canvas.width = timelineWidth;
+    canvas.height = WAVEFORM_HEIGHT;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = "#4b5563";
+
+    const mid = WAVEFORM_HEIGHT / 2;
+    for (let x = 0; x < timelineWidth; x++) {
+      const peak = peaks[Math.min(peaks.length - 1, Math.floor((x / timelineWidth) * peaks.length))];
+      const h = Math.max(1, peak * (WAVEFORM_HEIGHT - 4));
+      ctx.fillRect(x, mid - h / 2, 1, h);
+    }
+  }, [peaks, timelineWidth, loading]);
+
+  const stopPlayback = useCallback(() => {
+    audioRef.current?.pause();
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    stopAtRef.current = null;
+    setPlaying(false);
+  }, []);
+
+  useEffect(() => {
+    if (!isOpen) stopPlayback();
+  }, [isOpen, stopPlayback]);
+
+  useEffect(() => stopPlayback, [stopPlayback]);
+
+  // Follow the audio every frame - timeupdate is too coarse for word edges
+  const tick = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const time = audio.currentTime - windowStart;
+    const stopAt = stopAtRef.current ?? duration;
+    if (time >= stopAt || audio.ended) {
+      stopPlayback();
+      setPlayhead(Math.min(stopAt, duration));
+      return;
+    }
+    setPlayhead(Math.max(0, time));
+    frameRef.current = requestAnimationFrame(tick);
+  }, [windowStart, duration, stopPlayback]);
+
+  const play = (from: number, until?: number) => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    stopPlayback();
+    audio.currentTime = windowStart + (from >= duration ? 0 : from);
+    stopAtRef.current = until ?? null;
+    audio.play().then(() => {
+      setPlaying(true);
+      frameRef.current = requestAnimationFrame(tick);
+    }).catch((err) => console.error("❌ Caption timing playback failed:", err));
+  };
+
+  const seek = (time: number) => {
+    const clamped = Math.max(0, Math.min(duration, time));
+    setPlayhead(clamped);
+    if (playing) play(clamped);
+  };
+
+  const selectWord = (index: number | null) => {
+    setSelected(index);
+    setDraftText(index !== null ? words[index]?.word || "" : "");
+  };
+
+  const updateWords = (next: TimedWord[], nextSelected: number | null = selected) => {
+    setWords(next);
+    const index = nextSelected !== null && nextSelected < next.length ? nextSelected : null;
+    setSelected(index);
+    setDraftText(index !== null ? next[index].word : "");
+  };
+
+  // Dragging a word edge or body, measured from where the drag started
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const delta = (e.clientX - drag.originX) / pixelsPerSecond;
+      const word = drag.originWords[drag.index];
+      setWords(drag.mode === "move"
+        ? moveWord(drag.originWords, drag.index, delta, duration)
+        : moveWordEdge(drag.originWords, drag.index, drag.mode, word[drag.mode] + delta, duration));
+    };
+    const handleUp = () => setDrag(null);
+
+    window.addEventListener("pointermove", handleMove);
+    window.addEventListener("pointerup", handleUp);
+    return () => {
+      window.removeEventListener("pointermove", handleMove);
+      window.removeEventListener("pointerup", handleUp);
+    };
+  }, [drag, pixelsPerSecond, duration]);
+
+  if (!isOpen) return null;
+
+  const startDrag = (e: React.PointerEvent, index: number, mode: DragMode) => {
+    e.preventDefault();
+    e.stopPropagation();
+    selectWord(index);
+    setDrag({ index, mode, originX: e.clientX, originWords: words });
+  };
+
+  const handleTimelineClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seek((e.clientX - rect.left) / pixelsPerSecond);
+    selectWord(null);
+  };
+
+  const commitText = () => {
+    if (selected === null || draftText.trim() === words[selected]?.word) return;
+    if (!draftText.trim()) {
+      setDraftText(words[selected].word);
+      return;
+    }
+    updateWords(setWordText(words, selected, draftText));
+  };
+
+  const setWordTime = (edge: "start" | "end", value: number) => {
+    if (selected === null || !Number.isFinite(value)) return;
+    updateWords(moveWordEdge(words, selected, edge, value, duration));
+  };
+
+  const word = selected !== null ? words[selected] : null;
+  const activeIndex = getWordAtTime(words, playhead);
+  const canSplitAtPlayhead = word !== null && playhead > word.start + MIN_WORD_DURATION && playhead < word.end - MIN_WORD_DURATION;
+  const changed = JSON.stringify(words) !== JSON.stringify(initialWords);
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave(normalizeWordTimings(words, duration));
+      onClose();
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : "Failed to save word timings");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="bg-gray-900 rounded-lg shadow-2xl max-w-5xl w-full mx-4 p-6 max-h-[95vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center gap-2">
+            <AudioWaveform className="w-6 h-6 text-orange-400" />
+            <h2 className="text-2xl font-bold text-white">Caption Timing</h2>
+            {title && <span className="text-sm text-gray-400 truncate">{title}</span>}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-400 mb-4">
+          Fix misheard words and drag word edges onto the waveform. The {getWordTimingSource(source).name.toLowerCase()}&apos;s audio stays as it is.
+        </p>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-orange-500" />
+          </div>
+        ) : loadError ? (
+          <p className="text-sm text-red-400 py-8 text-center">{loadError}</p>
+        ) : (
+          <>
+            {seeded && (
+              <div className="mb-4 p-3 bg-orange-900/20 border border-orange-600/50 rounded text-xs text-orange-200">
+                This clip has no aligned captions yet, so its script is spread evenly over the audio. Drag the words into place.
+              </div>
+            )}
+
+            {/* Transport and zoom */}
+            <div className="flex items-center gap-4 mb-3">
+              <button
+                onClick={() => (playing ? stopPlayback() : play(playhead))}
+                disabled={!audioUrl}
+                className="flex items-center gap-1 px-3 py-1.5 rounded bg-orange-600 hover:bg-orange-700 text-white text-sm disabled:opacity-50"
+              >
+                {playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                {playing ? "Pause" : "Play"}
+              </button>
+              <span className="text-sm font-mono text-gray-300">
+                {formatTime(playhead)} / {formatTime(duration)}
+              </span>
+              <div className="flex items-center gap-2 ml-auto w-48">
+                <span className="text-xs text-gray-500">Zoom</span>
+                <Slider
+                  value={[zoom]}
+                  onValueChange={(value) => setZoom(value[0])}
+                  min={MIN_ZOOM}
+                  max={MAX_ZOOM}
+                  step={10}
+                  className="w-full"
+                />
+              </div>
+            </div>
+            {audioUrl && <audio ref={audioRef} src={audioUrl} preload="auto" />}
+            {!audioUrl && (
+              <p className="text-xs text-gray-500 mb-2">No audio file to play or draw for this clip - timings can still be edited by hand.</p>
+            )}
+
+            {/* Timeline */}
+            <div className="overflow-x-auto bg-gray-950 rounded border border-gray-800 mb-4">
+              <div
+                className="relative select-none cursor-pointer"
+                style={{ width: timelineWidth, height: WAVEFORM_HEIGHT + 44 }}
+                onClick={handleTimelineClick}
+              >
+                {peaks && <canvas ref={canvasRef} className="absolute top-0 left-0" style={{ width: timelineWidth, height: WAVEFORM_HEIGHT }} />}
+
+                {/* Seconds ruler */}
+                {Array.from({ length: Math.floor(duration) + 1 }, (_, s) => (
+                  <div
+                    key={s}
+                    className="absolute top-0 h-2 border-l border-gray-700 text-[10px] text-gray-600 pl-0.5"
+                    style={{ left: s * pixelsPerSecond }}
+                  >
+                    {s}s
+                  </div>
+                ))}
+
+                {/* Word blocks */}
+                {words.map((w, i) => (
+                  <div
+                    key={i}
+                    onPointerDown={(e) => startDrag(e, i, "move")}
+                    onClick={(e) => e.stopPropagation()}
+                    onDoubleClick={() => play(w.start, w.end)}
+                    className={`absolute flex items-center justify-center rounded text-xs overflow-hidden cursor-grab border ${
+                      selected === i
+                        ? "bg-orange-600/80 border-orange-300 text-white"
+                        : activeIndex === i
+                          ? "bg-orange-900/70 border-orange-500 text-white"
+                          : "bg-gray-800/80 border-gray-600 text-gray-200"
+                    }`}
+                    style={{
+                      left: w.start * pixelsPerSecond,
+                      width: Math.max(2, (w.end - w.start) * pixelsPerSecond),
+                      top: WAVEFORM_HEIGHT + 8,
+                      height: 28,
+                    }}
+                    title={`${w.word} (${w.start.toFixed(2)}s - ${w.end.toFixed(2)}s)`}
+                  >
+                    <span className="px-1.5 truncate pointer-events-none">{w.word}</span>
+                    <div
+                      onPointerDown={(e) => startDrag(e, i, "start")}
+                      className="absolute left-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/30 hover:bg-white/70"
+                    />
+                    <div
+                      onPointerDown={(e) => startDrag(e, i, "end")}
+                      className="absolute right-0 top-0 h-full w-1.5 cursor-ew-resize bg-white/30 hover:bg-white/70"
+                    />
+                  </div>
+                ))}
+
+                {/* Playhead */}
+                <div
+                  className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+                  style={{ left: playhead * pixelsPerSecond }}
+                />
+              </div>
+            </div>
+
+            {/* Selected word */}
+            {word ? (
+              <div className="p-3 bg-gray-800 rounded space-y-3 mb-4">
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Word</label>
+                    <input
+                      type="text"
+                      value={draftText}
+                      onChange={(e) => setDraftText(e.target.value)}
+                      onBlur={commitText}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitText();
+                      }}
+                      className="w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-orange-500"
+                    />
+                    <p className="text-[10px] text-gray-500 mt-1">Type a space to split it into several words</p>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">Start (s)</label>
+                    <input
+                      type="number"
+                      value={word.start}
+                      step={WORD_TIMING_STEP}
+                      onChange={(e) => setWordTime("start", parseFloat(e.target.value))}
+                      className="w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-orange-500"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-1">End (s)</label>
+                    <input
+                      type="number"
+                      value={word.end}
+                      step={WORD_TIMING_STEP}
+                      onChange={(e) => setWordTime("end", parseFloat(e.target.value))}
+                      className="w-full px-2 py-1.5 bg-gray-900 border border-gray-700 rounded text-white text-sm focus:outline-none focus:border-orange-500"
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    onClick={() => play(word.start, word.end)}
+                    disabled={!audioUrl}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+                  >
+                    <Play className="w-3 h-3" />
+                    Play word
+                  </button>
+                  <button
+                    onClick={() => updateWords(splitWord(words, selected!, undefined, canSplitAtPlayhead ? playhead : undefined))}
+                    disabled={word.word.length < 2}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+                    title={canSplitAtPlayhead ? "Split at the playhead" : "Split in the middle"}
+                  >
+                    <Scissors className="w-3 h-3" />
+                    {canSplitAtPlayhead ? "Split at playhead" : "Split"}
+                  </button>
+                  <button
+                    onClick={() => updateWords(mergeWords(words, selected!))}
+                    disabled={selected! >= words.length - 1}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+                  >
+                    <Combine className="w-3 h-3" />
+                    Merge with next
+                  </button>
+                  <button
+                    onClick={() => updateWords(deleteWord(words, selected!), null)}
+                    className="flex items-center gap-1 px-2 py-1 text-xs rounded bg-gray-700 hover:bg-red-700 text-white"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-gray-500 mb-4">
+                Click a word to edit it, drag its edges to retime it, double-click to hear it. Click the timeline to move the playhead.
+              </p>
+            )}
+
+            {saveError && <p className="text-sm text-red-400 mb-3">{saveError}</p>}
+          </>
+        )}
+
+        {/* Footer */}
+        <div className="flex gap-2">
+          <button
+            onClick={() => updateWords(initialWords, null)}
+            disabled={!changed || saving}
+            className="flex items-center gap-1 px-3 h-9 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 text-sm rounded transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            Reset
+          </button>
+          <button
+            onClick={onClose}
+            className="flex-1 h-9 bg-gray-800 hover:bg-gray-700 text-gray-300 text-sm rounded transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || loading || Boolean(loadError) || (!changed && !seeded) || words.length === 0}
+            className="flex-1 h-9 flex items-center justify-center gap-2 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 text-white text-sm font-medium rounded transition-colors"
+          >
+            {saving && <Loader2 className="w-4 h-4 animate-spin" />}
+            {saving ? "Saving..." : `Save ${words.length} word${words.length === 1 ? "" : "s"}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
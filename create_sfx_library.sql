@@ -0,0 +1,29 @@
+-- Sound effects library and per-scene SFX cues
+-- Run this in your Supabase SQL Editor
+
+-- Library of sound effects, like background_music_library: presets plus user uploads
+CREATE TABLE IF NOT EXISTS sound_effects_library (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  description TEXT,
+  file_url TEXT NOT NULL,
+  duration FLOAT NOT NULL DEFAULT 0,
+  category TEXT NOT NULL DEFAULT 'other', -- whoosh, impact, ui, nature, ambience, human, other
+  notes TEXT,
+  is_preset BOOLEAN NOT NULL DEFAULT false,
+  uploaded_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sound_effects_library_category ON sound_effects_library(category);
+CREATE INDEX IF NOT EXISTS idx_sound_effects_library_uploaded_by ON sound_effects_library(uploaded_by);
+
+-- Uploads go to a public storage bucket named "sound_effects" (create it in Storage).
+-- Presets are rows with is_preset = true, e.g.
+-- INSERT INTO sound_effects_library (name, file_url, duration, category, is_preset)
+-- VALUES ('Soft Whoosh', 'https://.../sound_effects/soft-whoosh.mp3', 0.8, 'whoosh', true);
+
+-- Cues attached to a scene, e.g.
+-- [{"id": "cue-1", "sfx_id": "...", "name": "Soft Whoosh", "url": "https://...", "anchor": "word",
+--   "word_index": 3, "offset": -0.1, "volume": 80, "fade_in": 0, "fade_out": 0.2}]
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS sfx_cues JSONB NOT NULL DEFAULT '[]'::jsonb;
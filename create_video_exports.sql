@@ -0,0 +1,17 @@
+-- Extra export formats (GIF, WebM, MP3/M4A, PNG stills) derived from a finished render
+-- Run this in your Supabase SQL Editor
+
+-- One row per video and format, replaced on every export and deleted when the video is re-rendered.
+-- Files live in the "videos" storage bucket under exports/<story_id>/
+CREATE TABLE IF NOT EXISTS video_exports (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  video_id UUID NOT NULL REFERENCES videos(id) ON DELETE CASCADE,
+  story_id UUID NOT NULL,
+  format TEXT NOT NULL, -- gif, webm, mp3, m4a, png
+  file_url TEXT NOT NULL, -- png: a ZIP of the scene stills
+  size_bytes BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (video_id, format)
+);
+
+CREATE INDEX IF NOT EXISTS idx_video_exports_story_id ON video_exports(story_id);
@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '../lib/supabaseClient';
+import { getCustomFontFaceCSS, type CustomFont } from '../lib/customFonts';
+
+// One shared <style> element, so every page using the hook sees the same @font-face rules
+const STYLE_ELEMENT_ID = 'custom-caption-fonts';
+
+interface CustomFontsData {
+  fonts: CustomFont[];
+  loading: boolean;
+  error: string | null;
+}
+
+/**
+ * The user's uploaded caption fonts, loaded into the page with @font-face so
+ * previews can use them by family name
+ */
+export function useCustomFonts(): CustomFontsData & {
+  refetch: () => Promise<void>;
+  uploadFont: (file: File) => Promise<CustomFont>;
+  deleteFont: (id: string) => Promise<void>;
+} {
+  const [fonts, setFonts] = useState<CustomFont[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const getToken = async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.access_token || null;
+  };
+
+  const fetchFonts = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const token = await getToken();
+      if (!token) {
+        setFonts([]);
+        return;
+      }
+
+      const res = await fetch('/api/custom_fonts', {
+        headers: {
+          'Authorization': `Bearer ${token}`
+        }
+      });
+
+      if (!res.ok) {
+        throw new Error('Failed to fetch fonts');
+      }
+
+      const data = await res.json();
+      setFonts(data.fonts || []);
+    } catch (err: any) {
+      console.error('Error fetching custom fonts:', err);
+      setError(err.message || 'Failed to load fonts');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Throws with the server's message so the caller can show it
+  const uploadFont = async (file: File): Promise<CustomFont> => {
+    const token = await getToken();
+    if (!token) throw new Error('Please log in to continue');
+
+    const formData = new FormData();
+    formData.append('file', file);
+
+    const res = await fetch('/api/custom_fonts', {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${token}` },
+      body: formData,
+    });
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || 'Failed to upload font');
+
+    setFonts((current) => [...current, data.font]);
+    return data.font;
+  };
+
+  const deleteFont = async (id: string): Promise<void> => {
+    const token = await getToken();
+    if (!token) throw new Error('Please log in to continue');
+
+    const res = await fetch(`/api/custom_fonts/${id}`, {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${token}` },
+    });
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}));
+      throw new Error(data.error || 'Failed to delete font');
+    }
+
+    setFonts((current) => current.filter((font) => font.id !== id));
+  };
+
+  useEffect(() => {
+    fetchFonts();
+  }, []);
+
+  useEffect(() => {
+    let style = document.getElementById(STYLE_ELEMENT_ID) as HTMLStyleElement | null;
+    if (!style) {
+      style = document.createElement('style');
+      style.id = STYLE_ELEMENT_ID;
+      document.head.appendChild(style);
+    }
+    style.textContent = getCustomFontFaceCSS(fonts);
+  }, [fonts]);
+
+  return {
+    fonts,
+    loading,
+    error,
+    refetch: fetchFonts,
+    uploadFont,
+    deleteFont,
+  };
+}
@@ -0,0 +1,36 @@
+/**
+ * Next.js server startup hook - starts the background job worker
+ * so queued renders, exports and image/audio batches run (and resume
+ * after a restart) in this process.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== "nodejs") return;
+
+  const { registerJobHandler, startJobWorker } = await import("./lib/jobQueue");
+  const { endJobProgressStreams } = await import("./lib/jobEvents");
+  const { runVideoGeneration } = await import("./lib/videoGeneration");
+  const { runVideoExport } = await import("./lib/videoExport");
+  const { runImageGeneration } = await import("./lib/imageGeneration");
+  const { runAudioGeneration } = await import("./lib/audioGeneration");
+
+  registerJobHandler("video", async (job) => {
+    return runVideoGeneration({ ...job.payload, jobId: job.id, storyId: job.story_id });
+  });
+
+  registerJobHandler("export", async (job) => {
+    await runVideoExport({ ...job.payload, jobId: job.id, storyId: job.story_id });
+  });
+
+  registerJobHandler("images", async (job) => {
+    return runImageGeneration({ ...job.payload, jobId: job.id, storyId: job.story_id });
+  });
+
+  registerJobHandler("audio", async (job) => {
+    return runAudioGeneration({ ...job.payload, jobId: job.id, storyId: job.story_id });
+  });
+
+  // For server.js graceful shutdown
+  global.endJobProgressStreams = endJobProgressStreams;
+
+  startJobWorker();
+}
@@ -0,0 +1,146 @@
+/**
+ * Aspect Ratios
+ * Every output format supported by stories, shorts and UGC, with the
+ * editor preview size and the closest format for assets that only come in
+ * a few shapes (pre-rendered overlays, Kling image-to-video).
+ */
+
+export type AspectRatio = "9:16" | "16:9" | "1:1" | "4:5" | "4:3" | "21:9";
+
+export interface AspectRatioConfig {
+  id: AspectRatio;
+  name: string;
+  platforms: string;
+  /** Editor preview size in CSS pixels - captions are designed at this size and scaled up for the render */
+  preview: { width: number; height: number };
+  /** Tailwind aspect class for thumbnails and cards */
+  className: string;
+  /** Pre-rendered overlay folder (public/overlays/<folder>, overlay_effects/<folder>) */
+  overlayFolder: "9-16" | "16-9" | "1-1";
+  /** Kling image-to-video only accepts these three; the result is cropped to fit */
+  klingAspect: "9:16" | "16:9" | "1:1";
+  /** Caption band (% from bottom) kept clear of platform UI when a batch export repositions captions */
+  captionSafeBottom: { min: number; max: number };
+  /** Floating watermark path: center and swing as fractions of the frame (x = x ± xSwing, y = y ± ySwing) */
+  watermarkMotion: { x: number; xSwing: number; y: number; ySwing: number };
+}
+
+export const DEFAULT_ASPECT_RATIO: AspectRatio = "9:16";
+
+export const ASPECT_RATIOS: Record<AspectRatio, AspectRatioConfig> = {
+  "9:16": {
+    id: "9:16",
+    name: "Portrait",
+    platforms: "TikTok, Reels, Shorts",
+    preview: { width: 280, height: 498 },
+    className: "aspect-[9/16]",
+    overlayFolder: "9-16",
+    klingAspect: "9:16",
+    captionSafeBottom: { min: 12, max: 40 },
+    watermarkMotion: { x: 0.15, xSwing: 0.25, y: 0.2, ySwing: 0.3 },
+  },
+  "16:9": {
+    id: "16:9",
+    name: "Landscape",
+    platforms: "YouTube",
+    preview: { width: 498, height: 280 },
+    className: "aspect-video",
+    overlayFolder: "16-9",
+    klingAspect: "16:9",
+    captionSafeBottom: { min: 6, max: 30 },
+    watermarkMotion: { x: 0.4, xSwing: 0.3, y: 0.35, ySwing: 0.2 },
+  },
+  "1:1": {
+    id: "1:1",
+    name: "Square",
+    platforms: "Instagram, Facebook",
+    preview: { width: 400, height: 400 },
+    className: "aspect-square",
+    overlayFolder: "1-1",
+    klingAspect: "1:1",
+    captionSafeBottom: { min: 8, max: 35 },
+    watermarkMotion: { x: 0.15, xSwing: 0.25, y: 0.2, ySwing: 0.3 },
+  },
+  "4:5": {
+    id: "4:5",
+    name: "Vertical Feed",
+    platforms: "Instagram feed",
+    preview: { width: 336, height: 420 },
+    className: "aspect-[4/5]",
+    overlayFolder: "9-16",
+    klingAspect: "9:16",
+    captionSafeBottom: { min: 10, max: 35 },
+    watermarkMotion: { x: 0.15, xSwing: 0.25, y: 0.2, ySwing: 0.3 },
+  },
+  "4:3": {
+    id: "4:3",
+    name: "Classic",
+    platforms: "Presentations, Facebook",
+    preview: { width: 448, height: 336 },
+    className: "aspect-[4/3]",
+    overlayFolder: "16-9",
+    klingAspect: "16:9",
+    captionSafeBottom: { min: 6, max: 30 },
+    watermarkMotion: { x: 0.35, xSwing: 0.25, y: 0.3, ySwing: 0.2 },
+  },
+  "21:9": {
+    id: "21:9",
+    name: "Cinematic",
+    platforms: "Ultrawide, trailers",
+    preview: { width: 560, height: 240 },
+    className: "aspect-[21/9]",
+    overlayFolder: "16-9",
+    klingAspect: "16:9",
+    captionSafeBottom: { min: 5, max: 25 },
+    watermarkMotion: { x: 0.45, xSwing: 0.3, y: 0.35, ySwing: 0.2 },
+  },
+};
+
+export function isAspectRatio(value: unknown): value is AspectRatio {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(ASPECT_RATIOS, value);
+}
+
+/**
+ * Get aspect ratio config with fallback to 9:16
+ */
+export function getAspectRatioConfig(aspectRatio: string | null | undefined): AspectRatioConfig {
+  return ASPECT_RATIOS[aspectRatio as AspectRatio] || ASPECT_RATIOS[DEFAULT_ASPECT_RATIO];
+}
+
+/**
+ * Orientation to search stock photos and videos in (square counts as landscape)
+ */
+export function getStockOrientation(aspectRatio: string | null | undefined): "landscape" | "portrait" {
+  const { width, height } = getAspectRatioConfig(aspectRatio).preview;
+  return width >= height ? "landscape" : "portrait";
+}
+
+/**
+ * Get all aspect ratios as an array
+ */
+export function getAllAspectRatios(): AspectRatioConfig[] {
+  return Object.values(ASPECT_RATIOS);
+}
+
+/**
+ * Closest supported aspect ratio for a source of the given size
+ * (e.g. uploaded or imported videos)
+ */
+export function getClosestAspectRatio(width: number, height: number): AspectRatio {
+  if (!width || !height) return DEFAULT_ASPECT_RATIO;
+  const ratio = width / height;
+  let closest = DEFAULT_ASPECT_RATIO;
+  let smallestDiff = Infinity;
+
+  for (const config of getAllAspectRatios()) {
+    const [w, h] = config.id.split(":").map(Number);
+    // Compare on a log scale so portrait and landscape are treated symmetrically
+    const diff = Math.abs(Math.log(ratio) - Math.log(w / h));
+    if (diff < smallestDiff) {
+      smallestDiff = diff;
+      closest = config.id;
+    }
+  }
+
+  return closest;
+}
@@ -5,10 +5,31 @@
  * for karaoke-style caption effects.
  */
 
+import {
+  getTextLayerAnimation,
+  getTextLayerTiming,
+  type PlacedTextLayer,
+  type TextLayerFrame,
+} from "./textLayers";
+import {
+  getCaptionAnimation,
+  getCaptionWordKeyframes,
+  getTypewriterLetterSeconds,
+  SLIDE_IN_DISTANCE,
+  SLIDE_IN_SECONDS,
+  type CaptionAnimation,
+  type CaptionKeyframe,
+} from "./captionAnimations";
+import { isWordEmphasized, isWordStressed, getWordEmoji, EMPHASIS_SCALE, EMOJI_FONT } from "./captionEmphasis";
+import { layoutCaptionLines } from "./captionLayout";
+
 export interface WordTimestamp {
   word: string;
   start: number;
   end: number;
+  speaker?: string; // Dialogue scenes: character speaking this word (absent = narrator)
+  emphasis?: boolean; // Caption emphasis tag (lib/captionEmphasis.ts)
+  emoji?: string | null; // Emoji shown after the word
 }
 
 export interface ASSStyle {
@@ -29,6 +50,17 @@ export interface ASSStyle {
   marginR?: number;
 }
 
+/**
+ * Free caption placement (lib/captionLayout.ts): bottom-center anchor in video
+ * pixels, plus the line limits the batch is broken to
+ */
+export interface ASSCaptionPlacement {
+  x: number;
+  y: number;
+  maxChars: number;
+  maxLines: number;
+}
+
 /**
  * Format time in ASS format (H:MM:SS.CC)
  */
@@ -44,7 +76,12 @@ function formatTime(seconds: number): string {
 /**
  * Generate ASS subtitle content with word-by-word highlighting
  *
- * Uses transparency tags to reveal words one at a time
+ * Uses transparency tags to reveal words one at a time, and the caption
+ * animation's keyframes (\t transforms, \kf fills, \k typing) on the
+ * word being spoken. With `tagStyle`, emphasis-tagged words get their own
+ * colour and a larger scale, and emoji tags are drawn after their word.
+ * With `placement`, each batch is positioned with \pos and broken into lines
+ * with \N exactly like the preview, instead of relying on the style margins.
  */
 export function generateWordByWordASS(
   wordTimestamps: WordTimestamp[],
@@ -54,10 +91,35 @@ export function generateWordByWordASS(
   textTransform: 'none' | 'uppercase' | 'lowercase' | 'capitalize' = 'none',
   fullText?: string, // Optional: full text to detect sentence boundaries
   videoWidth: number = 1080, // Actual video width for PlayResX
-  videoHeight: number = 1920 // Actual video height for PlayResY
+  videoHeight: number = 1920, // Actual video height for PlayResY
+  speakerColors?: Record<string, string>, // Optional: ASS colour per dialogue speaker
+  animation: CaptionAnimation = 'highlight',
+  tagStyle?: { emphasisColour: string | null; emojis: boolean },
+  placement?: ASSCaptionPlacement
 ): string {
   if (!wordTimestamps.length) return '';
 
+  const animationConfig = getCaptionAnimation(animation);
+  const karaoke = animationConfig.activeWord === 'fill';
+  // Karaoke text after the filling word is still part of its \k syllable, so it needs both fill colours
+  const setColour = (colour: string) => (karaoke ? `\\1c${colour}\\2c${colour}` : `\\c${colour}`);
+
+  const emphasized = (index: number): boolean => Boolean(tagStyle?.emphasisColour) && isWordEmphasized(wordTimestamps[index]);
+
+  // Base colour of a word - the emphasis colour, the speaker's colour in dialogue, otherwise the style colour
+  const wordColour = (index: number): string => {
+    if (emphasized(index)) return tagStyle!.emphasisColour!;
+    const speaker = wordTimestamps[index].speaker;
+    return (speaker && speakerColors?.[speaker]) || style.primaryColour;
+  };
+
+  // Emoji after the word, in the outline emoji font
+  const wordEmoji = (index: number): string | null => (tagStyle?.emojis ? getWordEmoji(wordTimestamps[index]) : null);
+  const emojiSuffix = (index: number): string => {
+    const emoji = wordEmoji(index);
+    return emoji ? ` {\\fn${EMOJI_FONT}}${emoji}{\\fn${style.fontName}}` : '';
+  };
+
   // Apply text transformation to all words
   const transformWord = (word: string): string => {
     switch (textTransform) {
@@ -99,6 +161,11 @@ export function generateWordByWordASS(
         if (sentenceEndIndices.has(batchEnd - 1)) {
           break; // End batch here, start new batch with next sentence
         }
+
+        // Start a new batch when the speaker changes
+        if (batchEnd < wordTimestamps.length && wordTimestamps[batchEnd].speaker !== wordTimestamps[batchEnd - 1].speaker) {
+          break;
+        }
       }
 
       batches.push([currentBatchStart, batchEnd]);
@@ -110,7 +177,7 @@ export function generateWordByWordASS(
   const header = `[Script Info]
 Title: Word-by-Word Captions
 ScriptType: v4.00+
-WrapStyle: 0
+WrapStyle: ${placement ? 2 : 0}
 PlayResX: ${videoWidth}
 PlayResY: ${videoHeight}
 ScaledBorderAndShadow: yes
@@ -154,23 +221,88 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
     // Build text with only visible words
     let text = '';
 
+    // Free placement: the batch's line breaks (same as the preview) and anchor point
+    const lineStarts = new Set<number>();
+    if (placement) {
+      const labels: string[] = [];
+      for (let j = startIndex; j < endIndex; j++) {
+        const emoji = wordEmoji(j);
+        labels.push(transformWord(wordTimestamps[j].word) + (emoji ? ` ${emoji}` : ''));
+      }
+      // Showing every word at once: wrap freely instead of squeezing into maxLines
+      const { lines, scale } = layoutCaptionLines(labels, placement.maxChars, wordsPerBatch > 0 ? placement.maxLines : Infinity);
+      lines.slice(1).forEach(([lineStart]) => lineStarts.add(startIndex + lineStart));
+      if (scale < 1) text += `{\\fs${Math.round(style.fontSize * scale)}}`;
+    }
+
+    const anchor = placement
+      ? { x: Math.round(placement.x), y: Math.round(placement.y) }
+      : style.alignment === 2
+        ? { x: Math.round((videoWidth + (style.marginL || 10) - (style.marginR || 10)) / 2), y: videoHeight - style.marginV }
+        : null;
+
+    if (anchor && animationConfig.slideIn && i === startIndex) {
+      // Slide-in: the first word of each batch moves the whole block up into place
+      const distance = Math.round(style.fontSize * SLIDE_IN_DISTANCE);
+      text += `{\\an2\\move(${anchor.x},${anchor.y + distance},${anchor.x},${anchor.y},0,${Math.round(SLIDE_IN_SECONDS * 1000)})}`;
+    } else if (placement && anchor) {
+      text += `{\\an2\\pos(${anchor.x},${anchor.y})}`;
+    }
+
     for (let j = startIndex; j < endIndex; j++) {
-      const word = transformWord(wordTimestamps[j].word);
+      if (lineStarts.has(j)) text = text.replace(/ $/, '') + '\\N';
+
+      const label = transformWord(wordTimestamps[j].word);
+      const emoji = emojiSuffix(j);
+      const word = label + emoji;
+      const colour = wordColour(j);
+      // Speaker-coloured words set their colour and reset to the style colour afterwards
+      const colourTag = colour !== style.primaryColour ? `{${setColour(colour)}}` : '';
+      const colourReset = colourTag ? `{${setColour(style.primaryColour)}}` : '';
 
       if (j < i) {
-        // Past words - normal (already spoken)
-        text += word + ' ';
+        // Past words - normal (already spoken), or still highlighted in karaoke
+        if (animationConfig.spokenHighlight && highlightColor && !emphasized(j)) {
+          text += `{${setColour(highlightColor)}}${word}{${setColour(style.primaryColour)}} `;
+        } else {
+          text += colourTag + word + colourReset + ' ';
+        }
       } else if (j === i) {
-        // Current word - highlighted with bold, color, and scale (matches preview scale(1.1))
-        if (highlightColor) {
-          text += `{\\b1\\c${highlightColor}\\fscx110\\fscy110}${word}{\\b0\\c${style.primaryColour}\\fscx100\\fscy100} `;
+        // Current word - highlighted with bold and colour, then the animation's keyframes (matches preview)
+        const activeColour = emphasized(j) ? colour : highlightColor || colour;
+        let keyframes = getCaptionWordKeyframes(animationConfig, isWordStressed(wordTimestamps[j]));
+        if (emphasized(j)) {
+          keyframes = keyframes.map((f) => ({ ...f, scaleX: Math.round(f.scaleX * EMPHASIS_SCALE), scaleY: Math.round(f.scaleY * EMPHASIS_SCALE) }));
+        }
+        const { tags: motionTags, reset: motionReset } = keyframeTags(keyframes);
+        const duration = currentWord.end - currentWord.start;
+
+        if (animationConfig.activeWord === 'fill') {
+          // \kf sweeps from the secondary (unspoken) to the primary (highlight) colour over the word
+          const fill = Math.max(1, Math.round(duration * 100));
+          text += `{\\b1${motionTags}\\1c${activeColour}\\2c${colour}\\kf${fill}}${word}{\\k0\\b0${setColour(style.primaryColour)}${motionReset}} `;
+        } else if (animationConfig.activeWord === 'type') {
+          // Letters after the first stay fully transparent (fill, outline and shadow) until their turn,
+          // then switch on with a 1ms \t - same timing as the preview
+          const letterMs = getTypewriterLetterSeconds(label, duration) * 1000;
+          const letters = Array.from(label).map((letter, k) => {
+            if (k === 0) return letter;
+            const at = Math.round(k * letterMs);
+            return `{\\alpha&HFF&\\t(${at},${at + 1},\\alpha&H00&)}${letter}`;
+          }).join('');
+          text += `{\\b1\\c${activeColour}${motionTags}}${letters}{\\alpha&H00&}${emoji}{\\b0\\c${style.primaryColour}${motionReset}} `;
         } else {
-          text += `{\\b1\\fscx110\\fscy110}${word}{\\b0\\fscx100\\fscy100} `;
+          text += `{\\b1\\c${activeColour}${motionTags}}${word}{\\b0\\c${style.primaryColour}${motionReset}} `;
         }
-      } else {
-        // Future words - dimmed to 60% opacity (matches preview dimmedOpacity=0.6)
+      } else if (animationConfig.upcoming === 'hidden') {
+        // Future words - invisible but still taking their space, so the line doesn't shift
+        text += `${colourTag}{\\alpha&HFF}${word}{\\alpha&H00}${colourReset} `;
+      } else if (animationConfig.upcoming === 'dimmed') {
+        // Future words - dimmed to 60% opacity (matches preview DIMMED_WORD_OPACITY)
         // ASS alpha: 0=opaque, 255=transparent. 40% transparent = 0x66
-        text += `{\\alpha&H66}${word}{\\alpha&H00} `;
+        text += `${colourTag}{\\alpha&H66}${word}{\\alpha&H00}${colourReset} `;
+      } else {
+        text += colourTag + word + colourReset + ' ';
       }
     }
 
@@ -180,6 +312,151 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
   return header + events.join('\n');
 }
 
+/**
+ * Override tags for an active word's keyframes: the first frame as-is, then
+ * one \t per step. `reset` puts the following words back to normal.
+ */
+function keyframeTags(keyframes: CaptionKeyframe[]): { tags: string; reset: string } {
+  const rotates = keyframes.some((f) => f.rotate !== 0);
+  const fades = keyframes.some((f) => f.opacity !== 1);
+  // CSS rotates clockwise, ASS \frz counter-clockwise
+  const frameTags = (f: CaptionKeyframe) =>
+    `\\fscx${f.scaleX}\\fscy${f.scaleY}` + (rotates ? `\\frz${-f.rotate}` : '') + (fades ? `\\alpha${toASSAlpha(f.opacity)}` : '');
+
+  let tags = frameTags(keyframes[0]);
+  for (let k = 1; k < keyframes.length; k++) {
+    tags += `\\t(${Math.round(keyframes[k - 1].at * 1000)},${Math.round(keyframes[k].at * 1000)},${frameTags(keyframes[k])})`;
+  }
+
+  return {
+    tags,
+    reset: '\\fscx100\\fscy100' + (rotates ? '\\frz0' : '') + (fades ? '\\alpha&H00&' : ''),
+  };
+}
+
+/**
+ * Map a CSS font weight to the ASS font name of the matching weight variant, so
+ * the render has the same visual weight as the preview. Bold is also flagged
+ * for fonts without a Bold variant installed.
+ */
+export function getASSFontName(fontFamily: string, fontWeight: number): { fontName: string; bold: number } {
+  if (fontWeight >= 700) return { fontName: `${fontFamily} Bold`, bold: 1 };
+  if (fontWeight >= 600) return { fontName: `${fontFamily} SemiBold`, bold: 0 };
+  if (fontWeight >= 500) return { fontName: `${fontFamily} Medium`, bold: 0 };
+  return { fontName: fontFamily, bold: 0 };
+}
+
+// Hex colour (#RRGGBB) to ASS &HBBGGRR&
+export function hexToASSColour(hex: string): string {
+  const h = hex.replace('#', '');
+  return h.length === 6 ? `&H${h.substring(4, 6)}${h.substring(2, 4)}${h.substring(0, 2)}&` : '&HFFFFFF&';
+}
+
+// 0-1 opacity to ASS alpha (&H00& opaque, &HFF& transparent)
+function toASSAlpha(opacity: number): string {
+  const alpha = Math.round((1 - Math.max(0, Math.min(1, opacity))) * 255);
+  return `&H${alpha.toString(16).toUpperCase().padStart(2, '0')}&`;
+}
+
+/**
+ * Generate ASS for scene text layers (title cards, lower thirds, call-outs).
+ *
+ * Each layer becomes up to three events - in animation, hold, out animation -
+ * using \move for slides and \t for fades and pops, with the same linear
+ * states as getTextLayerFrame() in the preview. `fontScale` converts preview
+ * pixels to video pixels, like the caption font size.
+ */
+export function generateTextLayerASS(
+  placedLayers: PlacedTextLayer[],
+  videoWidth: number,
+  videoHeight: number,
+  fontScale: number
+): string {
+  const shadow = Math.max(1, Math.round(2 * fontScale));
+  const header = `[Script Info]
+Title: Text Layers
+ScriptType: v4.00+
+WrapStyle: 2
+PlayResX: ${videoWidth}
+PlayResY: ${videoHeight}
+ScaledBorderAndShadow: yes
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Text,Arial,20,&H00FFFFFF,&H00FFFFFF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,0,${shadow},5,0,0,0,1
+Style: Box,Arial,20,&H00FFFFFF,&H00FFFFFF,&H00000000,&H00000000,0,0,0,0,100,100,0,0,3,0,0,5,0,0,0,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+`;
+
+  const events: string[] = [];
+
+  placedLayers.forEach(({ layer, offset, sceneDuration }, index) => {
+    const { start, end, animation } = getTextLayerTiming(layer, sceneDuration);
+    if (end - start <= 0) return;
+
+    const fontSize = Math.round(layer.font_size * fontScale);
+    const { fontName, bold } = getASSFontName(layer.font_family, layer.font_weight);
+    const alignment = layer.align === 'left' ? 4 : layer.align === 'right' ? 6 : 5;
+    const x = (layer.x / 100) * videoWidth;
+    const y = (layer.y / 100) * videoHeight;
+    const boxed = Boolean(layer.background);
+    const style = boxed ? 'Box' : 'Text';
+
+    // Braces start override blocks and backslashes start tags, so swap them for lookalikes
+    let text = layer.text.replace(/\\/g, '⧵').replace(/\{/g, '(').replace(/\}/g, ')');
+    if (layer.uppercase) text = text.toUpperCase();
+    text = text.split('\n').join('\\N');
+
+    const baseTags = [
+      `\\an${alignment}`,
+      `\\fn${fontName}`,
+      `\\fs${fontSize}`,
+      `\\b${bold}`,
+      `\\c${hexToASSColour(layer.color)}`,
+      boxed ? `\\3c${hexToASSColour(layer.background!)}\\bord${Math.round(fontSize * 0.25)}` : '',
+    ].join('');
+
+    const alphaTags = (frame: TextLayerFrame) =>
+      `\\1a${toASSAlpha(frame.opacity)}` +
+      (boxed ? `\\3a${toASSAlpha(frame.opacity * layer.background_opacity)}` : `\\4a${toASSAlpha(frame.opacity * 0.5)}`);
+    const point = (frame: TextLayerFrame) =>
+      [Math.round(x + (frame.dx / 100) * videoWidth), Math.round(y + (frame.dy / 100) * videoHeight)];
+
+    const pushEvent = (from: number, to: number, fromFrame: TextLayerFrame, toFrame: TextLayerFrame) => {
+      if (to - from <= 0) return;
+      const duration = Math.round((to - from) * 1000);
+      const [x1, y1] = point(fromFrame);
+      const [x2, y2] = point(toFrame);
+      const position = x1 === x2 && y1 === y2 ? `\\pos(${x1},${y1})` : `\\move(${x1},${y1},${x2},${y2},0,${duration})`;
+
+      let tags = `${baseTags}${position}${alphaTags(fromFrame)}\\fscx${fromFrame.scale}\\fscy${fromFrame.scale}`;
+      if (fromFrame.opacity !== toFrame.opacity || fromFrame.scale !== toFrame.scale) {
+        tags += `\\t(0,${duration},${alphaTags(toFrame)}\\fscx${toFrame.scale}\\fscy${toFrame.scale})`;
+      }
+      // Later layers stack on top, like the preview
+      events.push(`Dialogue: ${index},${formatTime(offset + from)},${formatTime(offset + to)},${style},,0,0,0,,{${tags}}${text}`);
+    };
+
+    // In: from the animation's start state to rest. Out: from rest to the animation's end state.
+    const rest: TextLayerFrame = { visible: true, opacity: 1, dx: 0, dy: 0, scale: 100 };
+    const inEnd = layer.animation_in !== 'none' ? start + animation : start;
+    const outStart = layer.animation_out !== 'none' ? end - animation : end;
+
+    pushEvent(start, inEnd, { ...rest, ...animationState(layer.animation_in) }, rest);
+    pushEvent(inEnd, outStart, rest, rest);
+    pushEvent(outStart, end, rest, { ...rest, ...animationState(layer.animation_out) });
+  });
+
+  return header + events.join('\n');
+}
+
+function animationState(animation: string): Pick<TextLayerFrame, 'opacity' | 'dx' | 'dy' | 'scale'> {
+  const { opacity, dx, dy, scale } = getTextLayerAnimation(animation);
+  return { opacity, dx, dy, scale };
+}
+
 /**
  * Generate simple SRT subtitle (no word-by-word, just scene-level)
  */
@@ -0,0 +1,224 @@
+/**
+ * Story Narration Generation
+ *
+ * Voices every scene with the chosen TTS provider and saves the audio,
+ * duration and word timestamps to the scenes. Runs inside the job worker
+ * (see lib/jobQueue.ts) as the "audio" job type.
+ */
+
+import fs from "fs";
+import path from "path";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { getUserLogger } from "./userLogger";
+import { updateStoryMetadata } from "./updateStoryMetadata";
+import { deductCredits, CREDIT_COSTS } from "./credits";
+import { resolveVoice } from "./ttsProviders";
+import { hasSpeakerTags } from "./dialogue";
+import { normalizeProsody } from "./prosody";
+import { synthesizeNarration } from "./narrationAudio";
+import { updateJobProgress, assertJobActive, JobCancelledError, PermanentJobError } from "./jobQueue";
+import type { WordTimestamp } from "./assSubtitles";
+
+export interface AudioGenerationParams {
+  jobId: string;
+  storyId: string;
+  userId: string;
+  voiceId: string;
+}
+
+export interface AudioGenerationResult {
+  // Stored on the job row for the page
+  summary: {
+    voice_id: string;
+    total_scenes: number;
+    successful_scenes: number;
+  };
+}
+
+/**
+ * Generate narration for every scene of a story. Scenes that fail are
+ * skipped and not charged; anything that stops the whole batch throws so
+ * the job queue can retry it.
+ */
+export async function runAudioGeneration(params: AudioGenerationParams): Promise<AudioGenerationResult> {
+  const { jobId, storyId: story_id, userId } = params;
+  const logger: any = getUserLogger(userId);
+
+  try {
+    const resolvedVoice = resolveVoice(params.voiceId);
+    const voiceId = resolvedVoice.voiceId;
+    if (logger) { logger.info(`[${story_id}] 🎙️ Generating audio with ${voiceId} (${resolvedVoice.provider.name}) (Job ID: ${jobId})`); }
+
+    if (!resolvedVoice.provider.isConfigured()) {
+      throw new PermanentJobError(`${resolvedVoice.provider.name} text-to-speech is not configured on this server`);
+    }
+
+    // 1️⃣ Fetch all scenes for this story
+    const { data: scenes, error: scenesErr } = await supabaseAdmin
+      .from("scenes")
+      .select("id, text, story_id, order, prosody")
+      .eq("story_id", story_id)
+      .order("order", { ascending: true });
+
+    if (scenesErr) throw scenesErr;
+    if (!scenes || scenes.length === 0) throw new Error("No scenes found for this story.");
+
+    if (logger) { logger.info(`[${story_id}] 📚 Found ${scenes.length} scenes to generate audio for`); }
+
+    // Character voices for dialogue scenes ("[Mara]: Who's there?")
+    const { data: story } = await supabaseAdmin
+      .from("stories")
+      .select("character_voices")
+      .eq("id", story_id)
+      .single();
+    const characterVoices = story?.character_voices || null;
+
+    const updatedScenes = [];
+
+    // 2️⃣ Generate audio for each scene
+    for (let i = 0; i < scenes.length; i++) {
+      const scene = scenes[i];
+      if (logger) { logger.info(`[${story_id}] \n🎬 Processing scene ${i + 1}/${scenes.length} (ID: ${scene.id})`); }
+      if (logger) { logger.info(`[${story_id}] 📖 Scene text: "${scene.text.substring(0, 50)}..."`); }
+      await updateJobProgress(jobId, (90 * i) / scenes.length, { stage: "narration", scenes: { done: i, total: scenes.length } });
+
+      try {
+        const tempDir = path.join(process.cwd(), "tmp", scene.id);
+        fs.mkdirSync(tempDir, { recursive: true });
+        const audioPath = path.join(tempDir, `scene-${scene.id}.mp3`);
+        // 3️⃣ Generate audio with the voice's TTS provider (dialogue scenes voice each speaker),
+        // apply the scene's prosody and align word timestamps
+        if (hasSpeakerTags(scene.text)) {
+          if (logger) { logger.info(`[${story_id}] 🗣️ Dialogue scene - voicing each speaker separately`); }
+        } else {
+          if (logger) { logger.info(`[${story_id}] 🧠 Generating TTS with ${resolvedVoice.provider.name} voice: ${resolvedVoice.voice}`); }
+        }
+        const narration = await synthesizeNarration(scene.text, voiceId, audioPath, {
+          speed: 1.0,
+          prosody: normalizeProsody(scene.prosody),
+          characterVoices,
+        }, {
+          info: (msg) => logger?.info(`[${story_id}] ${msg}`),
+          warn: (msg) => logger?.warn(`[${story_id}] ${msg}`),
+        });
+        const duration = narration.duration;
+        const wordTimestamps: WordTimestamp[] | null = narration.wordTimestamps;
+        if (logger) { logger.info(`[${story_id}] ⏱ Audio duration: ${duration.toFixed(2)} seconds, ${wordTimestamps ? wordTimestamps.length : 0} word timestamps`); }
+
+        // 8️⃣ Delete old audio files for this scene (all versions)
+        await assertJobActive(jobId);
+        const oldFilePattern = `scene-${scene.id}`;
+        if (logger) { logger.info(`[${story_id}] 🗑️ Removing any existing audio files for scene: ${oldFilePattern}*`); }
+
+        // List and delete all files matching this scene
+        const { data: existingFiles } = await supabaseAdmin.storage
+          .from("audio")
+          .list();
+
+        if (existingFiles) {
+          const filesToDelete = existingFiles
+            .filter(file => file.name.startsWith(oldFilePattern))
+            .map(file => file.name);
+
+          if (filesToDelete.length > 0) {
+            await supabaseAdmin.storage.from("audio").remove(filesToDelete);
+            if (logger) { logger.info(`[${story_id}] 🗑️ Deleted ${filesToDelete.length} old file(s)`); }
+          }
+        }
+
+        // 9️⃣ Upload new audio to Supabase with timestamp to prevent caching
+        const timestamp = Date.now();
+        const fileName = `scene-${scene.id}-${timestamp}.mp3`;
+        if (logger) { logger.info(`[${story_id}] ☁️ Uploading new audio file: ${fileName}`); }
+        const { error: uploadErr } = await supabaseAdmin.storage
+          .from("audio")
+          .upload(fileName, fs.readFileSync(audioPath), {
+            contentType: "audio/mpeg",
+            upsert: false,
+            cacheControl: 'no-cache, no-store, must-revalidate' // Prevent browser caching
+          });
+        if (uploadErr) throw uploadErr;
+
+        const audioUrl = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/audio/${fileName}`;
+
+        // 🔟 Update scene with audio URL, voice_id, duration, word timestamps
+        const { error: updateErr } = await supabaseAdmin
+          .from("scenes")
+          .update({
+            audio_url: audioUrl,
+            voice_id: voiceId,
+            duration: duration,
+            word_timestamps: wordTimestamps,
+            audio_generated_at: new Date().toISOString()
+          })
+          .eq("id", scene.id);
+
+        if (updateErr) throw updateErr;
+
+        if (logger) { logger.info(`[${story_id}] ✅ Audio generated and saved for scene ${scene.id}`); }
+
+        updatedScenes.push({
+          id: scene.id,
+          order: scene.order,
+          audio_url: audioUrl,
+          duration: duration,
+          voice_id: voiceId,
+          word_timestamps: wordTimestamps
+        });
+
+      } catch (sceneErr: any) {
+        if (sceneErr instanceof JobCancelledError) throw sceneErr;
+        if (logger) { logger.error(`[${story_id}] ❌ Failed to generate audio for scene ${scene.id}: ${sceneErr instanceof Error ? sceneErr.message : String(sceneErr)}`); }
+        // Continue with next scene instead of failing completely
+        updatedScenes.push({
+          id: scene.id,
+          order: scene.order,
+          error: sceneErr.message
+        });
+      }
+    }
+
+    if (logger) { logger.info(`[${story_id}] \n✅ Bulk audio generation completed. ${updatedScenes.filter(s => !('error' in s)).length}/${scenes.length} scenes successful`); }
+
+    // 💳 Deduct credits ONLY for successful scenes
+    await assertJobActive(jobId);
+    const successfulCount = updatedScenes.filter(s => !('error' in s)).length;
+    if (successfulCount > 0 && userId) {
+      const chargeAmount = successfulCount * CREDIT_COSTS.AUDIO_PER_SCENE;
+      if (logger) { logger.info(`[${story_id}] 💳 Deducting ${chargeAmount} credits for ${successfulCount} successful scenes...`); }
+
+      const deductResult = await deductCredits(
+        userId,
+        chargeAmount,
+        'deduction_audio',
+        `Bulk audio generation for ${successfulCount} successful scenes`,
+        story_id
+      );
+
+      if (deductResult.success) {
+        if (logger) { logger.info(`[${story_id}] ✅ Deducted ${chargeAmount} credits. New balance: ${deductResult.newBalance}`); }
+      } else {
+        if (logger) { logger.error(`[${story_id}] ⚠️ Failed to deduct credits: ${deductResult.error}`); }
+        // Audio was generated successfully, so we don't fail the request
+        // Admin can manually adjust credits if needed
+      }
+    }
+
+    // Update story metadata (duration and completion status)
+    await updateJobProgress(jobId, 95, { stage: "finishing", scenes: { done: scenes.length, total: scenes.length } });
+    if (logger) { logger.info(`[${story_id}] 📊 Updating story metadata...`); }
+    await updateStoryMetadata(story_id);
+    if (logger) { logger.info(`[${story_id}] ✅ Story metadata updated`); }
+
+    return {
+      summary: {
+        voice_id: voiceId,
+        total_scenes: scenes.length,
+        successful_scenes: successfulCount,
+      },
+    };
+  } catch (err: any) {
+    if (logger) { logger.error(`[${story_id}] ❌ Error during bulk audio generation: ${err instanceof Error ? err.message : String(err)}`); }
+    throw err;
+  }
+}
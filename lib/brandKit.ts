@@ -0,0 +1,161 @@
+/**
+ * Brand Kit
+ * Per-user branding applied to every render (stories, shorts, UGC): watermark,
+ * logo, brand colors, default caption style and optional intro/outro clips.
+ * Safe to import in both browser and server.
+ */
+
+import { PLANS, type PlanId } from "./creditConstants";
+
+export type WatermarkType = "default" | "text" | "logo" | "none";
+
+export type WatermarkPosition = "floating" | "top-left" | "top-right" | "bottom-left" | "bottom-right" | "center";
+
+export interface BrandWatermark {
+  type: WatermarkType;   // "default" is the floating AiVideoGen.cc text
+  text: string;
+  position: WatermarkPosition;
+  opacity: number;       // 0-1
+  size: number;          // Text: font size in the editor preview (px). Logo: percent of frame width
+}
+
+export interface BrandColors {
+  primary: string;
+  secondary: string;
+  accent: string;
+}
+
+export interface BrandCaptionStyle {
+  fontFamily: string;
+  fontWeight: number;
+  activeColor: string;
+  inactiveColor: string;
+  textTransform: "none" | "uppercase" | "lowercase" | "capitalize";
+}
+
+export interface BrandKit {
+  logo_url: string | null;
+  watermark: BrandWatermark;
+  colors: BrandColors;
+  caption_style: BrandCaptionStyle | null; // null = app defaults
+  intro_url: string | null;
+  outro_url: string | null;
+}
+
+export const WATERMARK_POSITIONS: Record<WatermarkPosition, { id: WatermarkPosition; name: string; x: string; y: string }> = {
+  floating: { id: "floating", name: "Floating", x: "", y: "" }, // Moves along the format's watermarkMotion path
+  "top-left": { id: "top-left", name: "Top left", x: "0.04", y: "0.04" },
+  "top-right": { id: "top-right", name: "Top right", x: "0.96", y: "0.04" },
+  "bottom-left": { id: "bottom-left", name: "Bottom left", x: "0.04", y: "0.96" },
+  "bottom-right": { id: "bottom-right", name: "Bottom right", x: "0.96", y: "0.96" },
+  center: { id: "center", name: "Center", x: "0.5", y: "0.5" },
+};
+
+export const DEFAULT_WATERMARK_TEXT = "AiVideoGen.cc";
+export const MIN_WATERMARK_OPACITY = 0.05;
+export const MAX_WATERMARK_TEXT_LENGTH = 40;
+export const MIN_WATERMARK_SIZE = 8;
+export const MAX_WATERMARK_SIZE = 40;
+export const MAX_BRAND_CLIP_DURATION = 15; // Seconds, for intro and outro clips
+
+export const DEFAULT_BRAND_KIT: BrandKit = {
+  logo_url: null,
+  watermark: {
+    type: "default",
+    text: DEFAULT_WATERMARK_TEXT,
+    position: "floating",
+    opacity: 0.4,
+    size: 14,
+  },
+  colors: {
+    primary: "#02f7f3",
+    secondary: "#FFFFFF",
+    accent: "#f97316",
+  },
+  caption_style: null,
+  intro_url: null,
+  outro_url: null,
+};
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const TEXT_TRANSFORMS = ["none", "uppercase", "lowercase", "capitalize"];
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function getWatermarkPosition(id: string): { id: WatermarkPosition; name: string; x: string; y: string } {
+  return WATERMARK_POSITIONS[id as WatermarkPosition] || WATERMARK_POSITIONS.floating;
+}
+
+export function getAllWatermarkPositions() {
+  return Object.values(WATERMARK_POSITIONS);
+}
+
+/**
+ * Fill in defaults and clamp stored or user input. Unknown or missing fields keep their defaults.
+ */
+export function normalizeBrandKit(input: any): BrandKit {
+  const kit = input && typeof input === "object" && !Array.isArray(input) ? input : {};
+  const wm = kit.watermark && typeof kit.watermark === "object" ? kit.watermark : {};
+  const colors = kit.colors && typeof kit.colors === "object" ? kit.colors : {};
+  const url = (value: any) => (typeof value === "string" && value.trim() ? value.trim() : null);
+  const color = (value: any, fallback: string) => (typeof value === "string" && HEX_COLOR.test(value) ? value : fallback);
+  const num = (value: any, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+  const defaults = DEFAULT_BRAND_KIT.watermark;
+
+  let captionStyle: BrandCaptionStyle | null = null;
+  if (kit.caption_style && typeof kit.caption_style === "object") {
+    const cs = kit.caption_style;
+    captionStyle = {
+      fontFamily: typeof cs.fontFamily === "string" && cs.fontFamily.trim() ? cs.fontFamily.trim() : "Montserrat",
+      fontWeight: Math.round(clamp(num(cs.fontWeight, 600), 100, 900) / 100) * 100,
+      activeColor: color(cs.activeColor, color(colors.primary, DEFAULT_BRAND_KIT.colors.primary)),
+      inactiveColor: color(cs.inactiveColor, color(colors.secondary, DEFAULT_BRAND_KIT.colors.secondary)),
+      textTransform: TEXT_TRANSFORMS.includes(cs.textTransform) ? cs.textTransform : "none",
+    };
+  }
+
+  const logoUrl = url(kit.logo_url);
+  const type: WatermarkType = ["default", "text", "logo", "none"].includes(wm.type) ? wm.type : defaults.type;
+
+  return {
+    logo_url: logoUrl,
+    watermark: {
+      // A logo watermark without a logo falls back to the default
+      type: type === "logo" && !logoUrl ? "default" : type,
+      text: typeof wm.text === "string" && wm.text.trim() ? wm.text.trim().slice(0, MAX_WATERMARK_TEXT_LENGTH) : defaults.text,
+      position: getWatermarkPosition(wm.position).id,
+      opacity: clamp(num(wm.opacity, defaults.opacity), MIN_WATERMARK_OPACITY, 1),
+      size: clamp(num(wm.size, defaults.size), MIN_WATERMARK_SIZE, MAX_WATERMARK_SIZE),
+    },
+    colors: {
+      primary: color(colors.primary, DEFAULT_BRAND_KIT.colors.primary),
+      secondary: color(colors.secondary, DEFAULT_BRAND_KIT.colors.secondary),
+      accent: color(colors.accent, DEFAULT_BRAND_KIT.colors.accent),
+    },
+    caption_style: captionStyle,
+    intro_url: url(kit.intro_url),
+    outro_url: url(kit.outro_url),
+  };
+}
+
+/**
+ * Which watermarks a render draws. The floating AiVideoGen.cc text stays on
+ * plans that can't remove it, next to the user's own watermark if they set one.
+ */
+export function resolveWatermarks(kit: BrandKit, plan: PlanId): { platform: boolean; brand: BrandWatermark | null } {
+  const canRemove = PLANS[plan]?.removeWatermark ?? false;
+  const brand = kit.watermark.type === "text" || kit.watermark.type === "logo" ? kit.watermark : null;
+  return {
+    platform: kit.watermark.type === "default" || !canRemove,
+    brand,
+  };
+}
+
+/**
+ * Caption settings with the brand's caption style filled in for anything the
+ * story or short hasn't set itself.
+ */
+export function applyBrandCaptionDefaults(settings: Record<string, any> | null | undefined, kit: BrandKit): Record<string, any> {
+  if (!kit.caption_style) return settings || {};
+  return { ...kit.caption_style, ...(settings || {}) };
+}
@@ -0,0 +1,314 @@
+/**
+ * Brand kit rendering: load a user's kit, download its assets and build the
+ * FFmpeg watermark filters and intro/outro concat used by story, shorts and
+ * UGC renders. Server only - see lib/brandKit.ts for the shared types.
+ */
+
+import fs from "fs";
+import path from "path";
+import fetch from "node-fetch";
+import ffmpeg from "fluent-ffmpeg";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { getUserPlan } from "./credits";
+import {
+  DEFAULT_BRAND_KIT,
+  DEFAULT_WATERMARK_TEXT,
+  MAX_BRAND_CLIP_DURATION,
+  getWatermarkPosition,
+  normalizeBrandKit,
+  resolveWatermarks,
+  type BrandKit,
+  type BrandWatermark,
+} from "./brandKit";
+import type { PlanId } from "./creditConstants";
+
+type BrandLogger = { info: (msg: string) => void; warn: (msg: string) => void };
+
+export interface LoadedBrandKit {
+  kit: BrandKit;
+  plan: PlanId;
+  watermarks: { platform: boolean; brand: BrandWatermark | null };
+}
+
+export interface BrandAssetPaths {
+  logoPath?: string;
+  introPath?: string;
+  outroPath?: string;
+}
+
+// Path a watermark drifts along when its position is "floating" (lib/aspectRatios.ts watermarkMotion)
+export interface WatermarkMotion {
+  x: number;
+  y: number;
+  xSwing: number;
+  ySwing: number;
+}
+
+/**
+ * A user's brand kit and what their plan allows. Missing kits and lookup errors
+ * give the default kit, so renders never fail over branding.
+ */
+export async function loadBrandKit(userId: string | null | undefined): Promise<LoadedBrandKit> {
+  let kit = DEFAULT_BRAND_KIT;
+  let plan: PlanId = "free";
+
+  if (userId) {
+    const { data, error } = await supabaseAdmin
+      .from("brand_kits")
+      .select("settings")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading brand kit:", error);
+    } else if (data) {
+      kit = normalizeBrandKit(data.settings);
+    }
+    plan = await getUserPlan(userId);
+  }
+
+  return { kit, plan, watermarks: resolveWatermarks(kit, plan) };
+}
+
+async function downloadAsset(url: string, outputPath: string): Promise<void> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+  fs.writeFileSync(outputPath, Buffer.from(await res.arrayBuffer()));
+}
+
+/**
+ * Download the logo (if the watermark uses it) and intro/outro clips into `tmpDir`.
+ * Assets that fail to download are skipped with a warning.
+ */
+export async function downloadBrandAssets(
+  brand: LoadedBrandKit,
+  tmpDir: string,
+  options: { clips?: boolean } = {},
+  logger?: BrandLogger
+): Promise<BrandAssetPaths> {
+  const { kit, watermarks } = brand;
+  const assets: BrandAssetPaths = {};
+  const wanted: { key: keyof BrandAssetPaths; url: string | null; label: string }[] = [
+    { key: "logoPath", url: watermarks.brand?.type === "logo" ? kit.logo_url : null, label: "logo" },
+    { key: "introPath", url: options.clips !== false ? kit.intro_url : null, label: "intro" },
+    { key: "outroPath", url: options.clips !== false ? kit.outro_url : null, label: "outro" },
+  ];
+
+  for (const { key, url, label } of wanted) {
+    if (!url) continue;
+    const filePath = path.join(tmpDir, `brand-${label}${path.extname(url.split("?")[0]) || (label === "logo" ? ".png" : ".mp4")}`);
+    try {
+      await downloadAsset(url, filePath);
+      assets[key] = filePath;
+      logger?.info(`🏷️ Brand ${label} downloaded`);
+    } catch (err: any) {
+      logger?.warn(`⚠️ Skipping brand ${label}: ${err.message}`);
+    }
+  }
+
+  return assets;
+}
+
+// drawtext can't escape a single quote inside a quoted value, so use a typographic one
+const escapeDrawtext = (text: string) => text.replace(/\\/g, "").replace(/'/g, "’");
+
+// Anchor at a fraction of the frame so the mark sits inside the edge at 0 and 1, centered at 0.5
+function positionExpressions(watermark: BrandWatermark, motion: WatermarkMotion, frame: "w" | "W", mark: [string, string]) {
+  const [markW, markH] = mark;
+  const frameW = frame;
+  const frameH = frame === "w" ? "h" : "H";
+
+  if (watermark.position === "floating") {
+    return {
+      x: `${frameW}*${motion.x} + ${frameW}*${motion.xSwing}*sin(2*PI*t/83)`,
+      y: `${frameH}*${motion.y} + ${frameH}*${motion.ySwing}*cos(2*PI*t/97)`,
+    };
+  }
+
+  const { x, y } = getWatermarkPosition(watermark.position);
+  return {
+    x: `${frameW}*${x} - ${markW}*${x}`,
+    y: `${frameH}*${y} - ${markH}*${y}`,
+  };
+}
+
+/**
+ * Filter graph that draws the platform and/or brand watermark over `input`,
+ * ending at `output`. `logoInput` is the input pad of the looped logo image.
+ * Returns [] when there's nothing to draw - map `input` directly in that case.
+ */
+export function buildWatermarkFilters(
+  brand: LoadedBrandKit,
+  input: string,
+  output: string,
+  options: { width: number; fontScale: number; motion: WatermarkMotion; logoInput?: string }
+): string[] {
+  const { watermarks } = brand;
+  const filters: string[] = [];
+  let current = input;
+
+  const step = (filter: string, isLast: boolean) => {
+    const next = isLast ? output : `wm${filters.length}`;
+    filters.push(`[${current}]${filter}[${next}]`);
+    current = next;
+  };
+
+  const brandMark = watermarks.brand?.type === "logo" && !options.logoInput ? null : watermarks.brand;
+
+  if (watermarks.platform) {
+    const platform = DEFAULT_BRAND_KIT.watermark;
+    const fontSize = Math.round(platform.size * options.fontScale);
+    const pos = positionExpressions(platform, options.motion, "w", ["text_w", "text_h"]);
+    step(
+      `drawtext=text='${DEFAULT_WATERMARK_TEXT}':fontsize=${fontSize}:fontcolor=white@${platform.opacity}:x='${pos.x}':y='${pos.y}':shadowcolor=black@0.3:shadowx=1:shadowy=1`,
+      !brandMark
+    );
+  }
+
+  if (brandMark?.type === "text") {
+    const fontSize = Math.round(brandMark.size * options.fontScale);
+    const pos = positionExpressions(brandMark, options.motion, "w", ["text_w", "text_h"]);
+    step(
+      `drawtext=text='${escapeDrawtext(brandMark.text)}':expansion=none:fontsize=${fontSize}:fontcolor=white@${brandMark.opacity.toFixed(2)}:x='${pos.x}':y='${pos.y}':shadowcolor=black@0.3:shadowx=1:shadowy=1`,
+      true
+    );
+  } else if (brandMark?.type === "logo" && options.logoInput) {
+    const logoWidth = Math.max(2, Math.round((options.width * brandMark.size) / 100 / 2) * 2);
+    const pos = positionExpressions(brandMark, options.motion, "W", ["w", "h"]);
+    filters.push(`[${options.logoInput}]scale=${logoWidth}:-1,format=rgba,colorchannelmixer=aa=${brandMark.opacity.toFixed(2)}[brandlogo]`);
+    filters.push(`[${current}][brandlogo]overlay=x='${pos.x}':y='${pos.y}':shortest=1[${output}]`);
+  }
+
+  return filters;
+}
+
+/**
+ * Re-encode a finished video with the watermark filters burned in (audio is copied).
+ * Used where the watermark can't ride along in an existing filter graph (shorts).
+ */
+export async function burnWatermark(
+  inputPath: string,
+  outputPath: string,
+  brand: LoadedBrandKit,
+  assets: BrandAssetPaths,
+  options: { width: number; fontScale: number; motion: WatermarkMotion }
+): Promise<void> {
+  const cmd = ffmpeg().input(inputPath);
+  if (assets.logoPath) cmd.input(assets.logoPath).inputOptions(["-loop 1"]);
+
+  const filters = buildWatermarkFilters(brand, "0:v", "outv", { ...options, logoInput: assets.logoPath ? "1:v" : undefined });
+  if (filters.length === 0) {
+    fs.copyFileSync(inputPath, outputPath);
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    cmd
+      .complexFilter(filters)
+      .outputOptions([
+        "-map [outv]",
+        "-map 0:a?",
+        "-c:v libx264",
+        "-preset fast",
+        "-crf 23",
+        "-pix_fmt yuv420p",
+        "-c:a copy",
+        "-movflags +faststart",
+      ])
+      .save(outputPath)
+      .on("end", () => resolve())
+      .on("error", reject);
+  });
+}
+
+/**
+ * Frame size of a video file (0x0 if it can't be probed)
+ */
+export function getVideoSize(filePath: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      const video = err ? null : (data?.streams || []).find((s) => s.codec_type === "video");
+      resolve({ width: video?.width || 0, height: video?.height || 0 });
+    });
+  });
+}
+
+function probe(filePath: string): Promise<{ duration: number; hasAudio: boolean }> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) return resolve({ duration: 0, hasAudio: false });
+      resolve({
+        duration: data?.format?.duration || 0,
+        hasAudio: (data?.streams || []).some((s) => s.codec_type === "audio"),
+      });
+    });
+  });
+}
+
+/**
+ * Wrap `mainPath` with the brand's intro and/or outro clips, scaled and padded
+ * to the main video's frame. Clips without sound get silence. Returns the
+ * seconds the clips added, and how far the intro pushes the main video back.
+ */
+export async function addIntroOutro(
+  mainPath: string,
+  outputPath: string,
+  assets: BrandAssetPaths,
+  options: { width: number; height: number; crf?: number; preset?: string; audioBitrate?: string },
+  logger?: BrandLogger
+): Promise<{ addedDuration: number; introDuration: number }> {
+  const clips = [assets.introPath, mainPath, assets.outroPath].filter((p): p is string => Boolean(p));
+  const probes = await Promise.all(clips.map(probe));
+  const durations = clips.map((clip, i) => (clip === mainPath ? probes[i].duration : Math.min(probes[i].duration, MAX_BRAND_CLIP_DURATION)));
+  const addedDuration = durations.reduce((sum, d, i) => (clips[i] === mainPath ? sum : sum + d), 0);
+  const introDuration = assets.introPath ? durations[0] : 0;
+
+  const { width, height } = options;
+  const filters: string[] = [];
+  const cmd = ffmpeg();
+  let inputIndex = 0;
+  const segments: string[] = [];
+
+  clips.forEach((clip, i) => {
+    const videoInput = inputIndex++;
+    cmd.input(clip);
+    if (clip !== mainPath) cmd.inputOptions([`-t ${durations[i]}`]);
+
+    filters.push(
+      `[${videoInput}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,fps=30,setsar=1,format=yuv420p[cv${i}]`
+    );
+
+    let audioPad = `${videoInput}:a`;
+    if (!probes[i].hasAudio) {
+      audioPad = `${inputIndex++}:a`;
+      cmd.input("anullsrc=r=48000:cl=stereo").inputOptions(["-f lavfi", `-t ${durations[i]}`]);
+    }
+    filters.push(`[${audioPad}]aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo[ca${i}]`);
+    segments.push(`[cv${i}][ca${i}]`);
+  });
+
+  filters.push(`${segments.join("")}concat=n=${clips.length}:v=1:a=1[branded][brandeda]`);
+
+  await new Promise<void>((resolve, reject) => {
+    cmd
+      .complexFilter(filters)
+      .outputOptions([
+        "-map [branded]",
+        "-map [brandeda]",
+        "-c:v libx264",
+        `-crf ${options.crf ?? 23}`,
+        `-preset ${options.preset ?? "fast"}`,
+        "-pix_fmt yuv420p",
+        "-c:a aac",
+        `-b:a ${options.audioBitrate ?? "256k"}`,
+        "-ar 48000",
+        "-movflags +faststart",
+      ])
+      .save(outputPath)
+      .on("end", () => resolve())
+      .on("error", reject);
+  });
+
+  logger?.info(`🎬 Added brand ${[assets.introPath && "intro", assets.outroPath && "outro"].filter(Boolean).join(" + ")} (${addedDuration.toFixed(1)}s)`);
+  return { addedDuration, introDuration };
+}
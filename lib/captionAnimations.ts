@@ -0,0 +1,201 @@
+/**
+ * Caption Animations
+ * How word-by-word captions move as each word is spoken: the classic
+ * highlight, pop-in, bounce, typewriter reveal, karaoke fill, slide-up and
+ * shake-on-emphasis. The ASS render (generateWordByWordASS) and the preview
+ * (WordByWordCaption) both read the keyframes below, so they move the same way.
+ */
+
+export type CaptionAnimation = "highlight" | "pop" | "bounce" | "typewriter" | "karaoke" | "slide-up" | "shake";
+
+/**
+ * The active word's state `at` seconds after it starts. Scales are percent,
+ * rotation is degrees clockwise, opacity 0-1.
+ */
+export interface CaptionKeyframe {
+  at: number;
+  scaleX: number;
+  scaleY: number;
+  rotate: number;
+  opacity: number;
+}
+
+export interface CaptionAnimationConfig {
+  id: CaptionAnimation;
+  name: string;
+  description: string;
+  upcoming: "dimmed" | "visible" | "hidden";  // Words not spoken yet
+  activeWord: "highlight" | "fill" | "type";  // fill = karaoke sweep, type = letters appear over the word
+  spokenHighlight: boolean;                    // Spoken words keep the highlight color
+  slideIn: boolean;                            // Each batch slides up into place
+  keyframes: CaptionKeyframe[];                // Active word
+  emphasisKeyframes?: CaptionKeyframe[];       // Active word when it's stressed
+}
+
+const frame = (at: number, scale: number, extra: Partial<CaptionKeyframe> = {}): CaptionKeyframe => ({
+  at,
+  scaleX: scale,
+  scaleY: scale,
+  rotate: 0,
+  opacity: 1,
+  ...extra,
+});
+
+export const CAPTION_ANIMATIONS: Record<CaptionAnimation, CaptionAnimationConfig> = {
+  highlight: {
+    id: "highlight",
+    name: "Highlight",
+    description: "Current word bold, colored and 10% larger",
+    upcoming: "dimmed",
+    activeWord: "highlight",
+    spokenHighlight: false,
+    slideIn: false,
+    keyframes: [frame(0, 110)],
+  },
+  pop: {
+    id: "pop",
+    name: "Pop-in",
+    description: "Words pop in from small as they're spoken",
+    upcoming: "hidden",
+    activeWord: "highlight",
+    spokenHighlight: false,
+    slideIn: false,
+    keyframes: [frame(0, 40, { opacity: 0 }), frame(0.12, 120), frame(0.2, 110)],
+  },
+  bounce: {
+    id: "bounce",
+    name: "Bounce",
+    description: "Current word lands with a squash and stretch",
+    upcoming: "dimmed",
+    activeWord: "highlight",
+    spokenHighlight: false,
+    slideIn: false,
+    keyframes: [
+      frame(0, 110, { scaleX: 90, scaleY: 125 }),
+      frame(0.08, 110, { scaleX: 118, scaleY: 96 }),
+      frame(0.16, 110, { scaleX: 106, scaleY: 114 }),
+      frame(0.24, 110),
+    ],
+  },
+  typewriter: {
+    id: "typewriter",
+    name: "Typewriter",
+    description: "Letters type out as each word is spoken",
+    upcoming: "hidden",
+    activeWord: "type",
+    spokenHighlight: false,
+    slideIn: false,
+    keyframes: [frame(0, 100)],
+  },
+  karaoke: {
+    id: "karaoke",
+    name: "Karaoke",
+    description: "Highlight color sweeps through each word",
+    upcoming: "visible",
+    activeWord: "fill",
+    spokenHighlight: true,
+    slideIn: false,
+    keyframes: [frame(0, 100)],
+  },
+  "slide-up": {
+    id: "slide-up",
+    name: "Slide up",
+    description: "Each line slides up, words fade in as spoken",
+    upcoming: "hidden",
+    activeWord: "highlight",
+    spokenHighlight: false,
+    slideIn: true,
+    keyframes: [frame(0, 100, { opacity: 0 }), frame(0.15, 100)],
+  },
+  shake: {
+    id: "shake",
+    name: "Shake on emphasis",
+    description: "Highlight, and emphasized words shake (tagged, SHOUTED or ending in !)",
+    upcoming: "dimmed",
+    activeWord: "highlight",
+    spokenHighlight: false,
+    slideIn: false,
+    keyframes: [frame(0, 110)],
+    emphasisKeyframes: [
+      frame(0, 110),
+      frame(0.05, 115, { rotate: -6 }),
+      frame(0.1, 115, { rotate: 6 }),
+      frame(0.15, 112, { rotate: -4 }),
+      frame(0.2, 112, { rotate: 4 }),
+      frame(0.25, 110),
+    ],
+  },
+};
+
+export const DEFAULT_CAPTION_ANIMATION: CaptionAnimation = "highlight";
+
+// Upcoming words in "dimmed" animations (ASS alpha &H66)
+export const DIMMED_WORD_OPACITY = 0.6;
+
+// slideIn: how far below its place a batch starts, in font heights, and how long it takes
+export const SLIDE_IN_DISTANCE = 0.6;
+export const SLIDE_IN_SECONDS = 0.18;
+
+export function isCaptionAnimation(value: any): value is CaptionAnimation {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CAPTION_ANIMATIONS, value);
+}
+
+export function getCaptionAnimation(id: string | null | undefined): CaptionAnimationConfig {
+  return CAPTION_ANIMATIONS[id as CaptionAnimation] || CAPTION_ANIMATIONS[DEFAULT_CAPTION_ANIMATION];
+}
+
+export function getAllCaptionAnimations(): CaptionAnimationConfig[] {
+  return Object.values(CAPTION_ANIMATIONS);
+}
+
+/**
+ * Words the shake animation stresses in untagged scenes: shouted (all caps,
+ * 2+ letters) or ending in an exclamation mark
+ */
+export function isEmphasisWord(word: string): boolean {
+  if (/!["')\]]*$/.test(word)) return true;
+  const letters = word.replace(/[^A-Za-zÀ-ÖØ-öø-ÿ]/g, "");
+  return letters.length >= 2 && letters === letters.toUpperCase() && letters !== letters.toLowerCase();
+}
+
+/**
+ * The keyframes an active word plays. `stressed` is the word's emphasis tag
+ * where the scene has been tagged (see isWordStressed in lib/captionEmphasis.ts).
+ */
+export function getCaptionWordKeyframes(config: CaptionAnimationConfig, stressed: boolean): CaptionKeyframe[] {
+  return config.emphasisKeyframes && stressed ? config.emphasisKeyframes : config.keyframes;
+}
+
+/**
+ * Interpolated keyframe state `elapsed` seconds into the word (linear, like
+ * ASS \t), holding the last frame once the animation is over
+ */
+export function getCaptionWordFrame(keyframes: CaptionKeyframe[], elapsed: number): CaptionKeyframe {
+  if (elapsed <= keyframes[0].at) return keyframes[0];
+
+  for (let k = 1; k < keyframes.length; k++) {
+    const from = keyframes[k - 1];
+    const to = keyframes[k];
+    if (elapsed < to.at) {
+      const t = (elapsed - from.at) / (to.at - from.at);
+      const mix = (a: number, b: number) => a + (b - a) * t;
+      return {
+        at: elapsed,
+        scaleX: mix(from.scaleX, to.scaleX),
+        scaleY: mix(from.scaleY, to.scaleY),
+        rotate: mix(from.rotate, to.rotate),
+        opacity: mix(from.opacity, to.opacity),
+      };
+    }
+  }
+
+  return keyframes[keyframes.length - 1];
+}
+
+/**
+ * Typewriter: seconds per letter, so the word is typed out over its spoken
+ * duration. Letter n shows from n * this. Whole centiseconds, as ASS \k needs.
+ */
+export function getTypewriterLetterSeconds(word: string, duration: number): number {
+  return Math.max(1, Math.floor((duration * 100) / Math.max(1, Array.from(word).length))) / 100;
+}
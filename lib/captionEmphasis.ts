@@ -0,0 +1,191 @@
+/**
+ * Caption Emphasis & Emojis
+ *
+ * Viral-style captions color a key word of each caption batch and add an
+ * emoji now and then. The tags live on the words themselves in
+ * scenes.word_timestamps ({ word, start, end, emphasis?, emoji? }), so they
+ * go away with the timings when the audio is regenerated.
+ *
+ * Tags come from an LLM pass (lib/captionEmphasisLLM.ts) with the rules below
+ * as fallback, and can be toggled per word in the editor. Both the ASS render
+ * and the preview read them through isWordEmphasized() / getWordEmoji().
+ */
+
+import { isEmphasisWord } from "./captionAnimations";
+
+export interface CaptionWordTags {
+  emphasis?: boolean;
+  emoji?: string | null;
+}
+
+export type CaptionTaggedWord = { word: string; start: number; end: number; speaker?: string } & CaptionWordTags;
+
+export type CaptionTagSource = "ai" | "rules";
+
+// Emphasis words are drawn in the emphasis color and this much larger while spoken
+export const EMPHASIS_SCALE = 1.2;
+export const DEFAULT_EMPHASIS_COLOR = "#FFE600";
+
+// Render font for emojis - libass can't draw color emoji, so captions use the outline set (scripts/setup-fonts.sh)
+export const EMOJI_FONT = "Noto Emoji";
+
+export const MAX_EMOJI_LENGTH = 8;
+
+/**
+ * Words that carry the sentence in short-form captions
+ */
+const POWER_WORDS = new Set([
+  "never", "always", "secret", "secrets", "free", "best", "worst", "only", "must", "stop", "now",
+  "everyone", "nobody", "nothing", "everything", "million", "billion", "insane", "crazy", "shocking",
+  "huge", "massive", "instantly", "guaranteed", "proven", "mistake", "mistakes", "truth", "hack",
+  "hacks", "warning", "danger", "fast", "faster", "easy", "easiest", "impossible", "forever", "first",
+  "last", "new",
+]);
+
+// Keyword stems and the emoji they suggest, first match wins
+const EMOJI_KEYWORDS: Array<[RegExp, string]> = [
+  [/^(money|cash|dollars?|rich|wealth|profit|income|salary|paid|\$)/, "💰"],
+  [/^(fire|hot|lit|viral|trending)/, "🔥"],
+  [/^(love|loves|loved|heart|romance|crush)/, "❤️"],
+  [/^(secret|hidden|mystery|mysterious)/, "🤫"],
+  [/^(shock|shocking|insane|crazy|unbelievable|wow)/, "🤯"],
+  [/^(laugh|funny|hilarious|joke|lol)/, "😂"],
+  [/^(sad|cry|cried|tears|heartbroken)/, "😢"],
+  [/^(idea|smart|genius|brain|think|learn)/, "💡"],
+  [/^(time|clock|hours?|minutes?|late|deadline)/, "⏰"],
+  [/^(win|winner|won|victory|champion|success)/, "🏆"],
+  [/^(grow|growth|increase|rise|rising)$/, "📈"],
+  [/^(danger|warning|careful|mistake|mistakes|wrong)/, "⚠️"],
+  [/^(fast|quick|instantly|speed|rocket|launch)/, "🚀"],
+  [/^(food|eat|eating|hungry|delicious|pizza)/, "🍕"],
+  [/^(phone|app|online|internet|social)/, "📱"],
+  [/^(world|earth|global|travel|country)/, "🌍"],
+  [/^(strong|strength|gym|workout|muscle|power)/, "💪"],
+  [/^(dead|death|kill|killed|murder)/, "💀"],
+  [/^(eyes?|look|watch)$/, "👀"],
+  [/^(stop|never)$/, "🛑"],
+];
+
+/**
+ * Quick picks for the per-word emoji editor
+ */
+export function getEmojiChoices(): string[] {
+  return Array.from(new Set(EMOJI_KEYWORDS.map(([, emoji]) => emoji)));
+}
+
+const clean = (word: string) => word.toLowerCase().replace(/^[^a-z0-9à-öø-ÿ$]+|[^a-z0-9à-öø-ÿ]+$/g, "");
+
+export function isWordEmphasized(word: CaptionWordTags): boolean {
+  return word.emphasis === true;
+}
+
+export function getWordEmoji(word: CaptionWordTags): string | null {
+  return typeof word.emoji === "string" && word.emoji.trim() ? word.emoji.trim() : null;
+}
+
+/**
+ * Whether a word should shake / stand out in animations: its tag when the
+ * scene has been tagged, otherwise the shouting-or-exclaiming heuristic
+ */
+export function isWordStressed(word: CaptionWordTags & { word: string }): boolean {
+  return word.emphasis !== undefined ? word.emphasis === true : isEmphasisWord(word.word);
+}
+
+export function hasCaptionTags(words: CaptionTaggedWord[] | null | undefined): boolean {
+  return Boolean(words?.some((w) => w.emphasis !== undefined || w.emoji !== undefined));
+}
+
+/**
+ * A plausible emoji: short, and not plain letters or digits
+ */
+export function isValidEmoji(value: any): value is string {
+  return typeof value === "string" && value.trim().length > 0 && value.trim().length <= MAX_EMOJI_LENGTH && !/[\w\s]/.test(value.trim());
+}
+
+/**
+ * Caption batches as tagging sees them: up to `wordsPerBatch` words, broken at
+ * sentence ends and speaker changes like the render (0 = whole scene)
+ */
+export function getCaptionBatches(words: Array<{ word: string; speaker?: string }>, wordsPerBatch: number): Array<[number, number]> {
+  const size = wordsPerBatch > 0 ? wordsPerBatch : words.length;
+  const batches: Array<[number, number]> = [];
+  let start = 0;
+
+  while (start < words.length) {
+    let end = start;
+    while (end < words.length && end - start < size) {
+      end++;
+      if (/[.!?]["')\]]*$/.test(words[end - 1].word)) break;
+      if (end < words.length && words[end].speaker !== words[end - 1].speaker) break;
+    }
+    batches.push([start, end]);
+    start = end;
+  }
+
+  return batches;
+}
+
+/**
+ * Rule-based tags: per batch, at most one emphasis word (numbers, shouting,
+ * power words, or words the narration already stresses) and at most one emoji
+ * from the keyword table. Every word gets explicit tags so the scene counts
+ * as tagged.
+ */
+export function tagCaptionWordsByRules<T extends CaptionTaggedWord>(
+  words: T[],
+  options: { wordsPerBatch: number; spokenEmphasis?: string[] }
+): T[] {
+  const spoken = new Set((options.spokenEmphasis || []).map(clean));
+  const score = (word: string): number => {
+    const c = clean(word);
+    if (!c) return 0;
+    if (spoken.has(c)) return 5;
+    if (/\d/.test(word)) return 4;
+    if (isEmphasisWord(word)) return 3;
+    if (POWER_WORDS.has(c)) return 2;
+    if (c.length >= 9) return 1;
+    return 0;
+  };
+
+  const tagged = words.map((w) => ({ ...w, emphasis: false, emoji: null as string | null }));
+
+  for (const [start, end] of getCaptionBatches(words, options.wordsPerBatch)) {
+    let best = -1;
+    let bestScore = 0;
+    for (let i = start; i < end; i++) {
+      const s = score(words[i].word);
+      if (s > bestScore) {
+        best = i;
+        bestScore = s;
+      }
+    }
+    if (best >= 0 && bestScore >= 2) tagged[best].emphasis = true;
+
+    for (let i = start; i < end; i++) {
+      const c = clean(words[i].word);
+      const match = EMOJI_KEYWORDS.find(([pattern]) => pattern.test(c));
+      if (match) {
+        tagged[i].emoji = match[1];
+        break;
+      }
+    }
+  }
+
+  return tagged;
+}
+
+/**
+ * Put edited tags back on a scene's words. `tags` is indexed like the words;
+ * anything that isn't a boolean / emoji is dropped.
+ */
+export function applyCaptionTags<T extends CaptionTaggedWord>(words: T[], tags: Array<CaptionWordTags | null | undefined>): T[] {
+  return words.map((w, i) => {
+    const tag = tags[i];
+    if (!tag) return w;
+    return {
+      ...w,
+      emphasis: typeof tag.emphasis === "boolean" ? tag.emphasis : w.emphasis ?? false,
+      emoji: tag.emoji === null ? null : isValidEmoji(tag.emoji) ? tag.emoji.trim() : w.emoji ?? null,
+    };
+  });
+}
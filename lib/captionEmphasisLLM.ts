@@ -0,0 +1,113 @@
+/**
+ * Caption Emphasis - LLM tagging (server only)
+ *
+ * Asks the model for one key word and an optional emoji per caption batch,
+ * and falls back to the rule-based tags in lib/captionEmphasis.ts when there
+ * is no API key, the request fails or the answer doesn't parse.
+ */
+
+import fetch from "node-fetch";
+import {
+  getCaptionBatches,
+  tagCaptionWordsByRules,
+  isValidEmoji,
+  type CaptionTaggedWord,
+  type CaptionTagSource,
+} from "./captionEmphasis";
+
+const OPENROUTER_URL = "https://openrouter.ai/api/v1/chat/completions";
+const CAPTION_TAGS_MODEL = process.env.CAPTION_TAGS_MODEL || "openai/gpt-4o-mini";
+const REQUEST_TIMEOUT_MS = 20000;
+
+export interface CaptionTaggingResult<T> {
+  words: T[];
+  source: CaptionTagSource;
+}
+
+/**
+ * Tag a scene's words. `useAI: false` skips the model.
+ */
+export async function tagCaptionWords<T extends CaptionTaggedWord>(
+  words: T[],
+  options: { wordsPerBatch: number; spokenEmphasis?: string[]; useAI?: boolean }
+): Promise<CaptionTaggingResult<T>> {
+  const fallback = (): CaptionTaggingResult<T> => ({ words: tagCaptionWordsByRules(words, options), source: "rules" });
+
+  if (words.length === 0 || options.useAI === false || !process.env.OPENROUTER_API_KEY) {
+    return fallback();
+  }
+
+  try {
+    const tagged = await tagWithModel(words, options.wordsPerBatch);
+    return tagged ? { words: tagged, source: "ai" } : fallback();
+  } catch (err: any) {
+    console.warn(`⚠️ Caption tagging model failed, using rules: ${err.message}`);
+    return fallback();
+  }
+}
+
+async function tagWithModel<T extends CaptionTaggedWord>(words: T[], wordsPerBatch: number): Promise<T[] | null> {
+  const batches = getCaptionBatches(words, wordsPerBatch);
+  const listing = batches
+    .map(([start, end], b) => `Batch ${b}: ${words.slice(start, end).map((w, i) => `${start + i}:${w.word}`).join(" ")}`)
+    .join("\n");
+
+  const prompt = `You style viral short-form video captions. Captions are shown a batch of words at a time.
+For each batch, pick at most ONE word to emphasize (the word that carries the meaning - a number, a strong verb, a surprising noun; skip filler words) and optionally ONE emoji that fits the batch, attached to a word in it. Leave batches plain when nothing stands out; use emojis sparingly (at most every other batch).
+
+Words are given as index:word.
+${listing}
+
+Return ONLY valid JSON in this exact format:
+{
+  "batches": [
+    { "batch": 0, "emphasis": 3, "emoji": { "index": 3, "emoji": "🔥" } },
+    { "batch": 1, "emphasis": null, "emoji": null }
+  ]
+}`;
+
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(OPENROUTER_URL, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${process.env.OPENROUTER_API_KEY!}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: CAPTION_TAGS_MODEL,
+        messages: [{ role: "user", content: prompt }],
+        response_format: { type: "json_object" },
+      }),
+      signal: controller.signal as any,
+    });
+
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    const data = (await response.json()) as any;
+    const raw: string = data?.choices?.[0]?.message?.content || "";
+    const parsed = JSON.parse(raw.replace(/```(?:json)?/g, "").trim());
+    if (!Array.isArray(parsed?.batches)) return null;
+
+    const tagged = words.map((w) => ({ ...w, emphasis: false, emoji: null as string | null }));
+
+    // Only trust indices inside the batch the model was answering for
+    for (const answer of parsed.batches) {
+      const batch = batches[answer?.batch];
+      if (!batch) continue;
+      const [start, end] = batch;
+      const inBatch = (index: any) => Number.isInteger(index) && index >= start && index < end;
+
+      if (inBatch(answer.emphasis)) tagged[answer.emphasis].emphasis = true;
+      if (answer.emoji && inBatch(answer.emoji.index) && isValidEmoji(answer.emoji.emoji)) {
+        tagged[answer.emoji.index].emoji = answer.emoji.emoji.trim();
+      }
+    }
+
+    return tagged;
+  } finally {
+    clearTimeout(timeout);
+  }
+}
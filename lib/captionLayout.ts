@@ -0,0 +1,249 @@
+/**
+ * Caption Layout & Platform Safe Zones
+ *
+ * Where the caption block sits (X / Y as % of the frame), how wide it may get
+ * and how many lines it wraps to. The line breaks come from one function,
+ * layoutCaptionLines(), used by both the preview (WordByWordCaption) and the
+ * ASS render, so both wrap the same words onto the same lines.
+ *
+ * Safe zones are the parts of the frame each platform keeps free of its own
+ * UI (TikTok's right-hand buttons, the Reels caption area...). The editor
+ * draws them as guides; with avoidSafeZone the box is kept inside the chosen
+ * platform's safe area in the render too.
+ */
+
+import type { AspectRatio } from "./aspectRatios";
+
+export type SafeZonePlatform = "tiktok" | "reels" | "shorts" | "youtube";
+
+export interface SafeZoneInsets {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+export interface SafeZoneConfig {
+  id: SafeZonePlatform;
+  name: string;
+  description: string;
+  /** Formats the platform's player shows this layout for */
+  aspectRatios: AspectRatio[];
+  /** Frame covered by platform UI, % from each edge */
+  insets: SafeZoneInsets;
+}
+
+export const SAFE_ZONES: Record<SafeZonePlatform, SafeZoneConfig> = {
+  tiktok: {
+    id: "tiktok",
+    name: "TikTok",
+    description: "Action buttons on the right, caption and music bar at the bottom",
+    aspectRatios: ["9:16"],
+    insets: { top: 8, bottom: 20, left: 4, right: 14 },
+  },
+  reels: {
+    id: "reels",
+    name: "Instagram Reels",
+    description: "Tall caption and audio area at the bottom, buttons on the right",
+    aspectRatios: ["9:16", "4:5"],
+    insets: { top: 12, bottom: 24, left: 5, right: 13 },
+  },
+  shorts: {
+    id: "shorts",
+    name: "YouTube Shorts",
+    description: "Title and channel at the bottom, buttons on the right",
+    aspectRatios: ["9:16"],
+    insets: { top: 10, bottom: 18, left: 5, right: 13 },
+  },
+  youtube: {
+    id: "youtube",
+    name: "YouTube",
+    description: "Title bar at the top, progress bar and controls at the bottom",
+    aspectRatios: ["16:9", "21:9", "4:3"],
+    insets: { top: 9, bottom: 13, left: 5, right: 5 },
+  },
+};
+
+export interface CaptionLayout {
+  positionX: number; // Center of the caption block, % from the left
+  positionFromBottom: number; // Bottom of the caption block, % from the bottom
+  maxWidth: number; // % of the frame width
+  maxLines: number; // 1-3
+  safeZone: SafeZonePlatform | null; // Guide shown in the preview
+  avoidSafeZone: boolean; // Keep the block inside the guide's safe area (preview and render)
+}
+
+export const DEFAULT_CAPTION_LAYOUT: CaptionLayout = {
+  positionX: 50,
+  positionFromBottom: 20,
+  maxWidth: 90,
+  maxLines: 2,
+  safeZone: null,
+  avoidSafeZone: false,
+};
+
+export const MIN_CAPTION_WIDTH = 30;
+export const MAX_CAPTION_LINES = 3;
+
+// Line height of the caption block, in ems (matches the preview)
+export const CAPTION_LINE_HEIGHT = 1.4;
+
+// Average glyph width in ems, to fit words to the box width without measuring text
+const CAPTION_CHAR_WIDTH = 0.6;
+
+// Lines that still don't fit in maxLines shrink the font, down to this much
+export const MIN_CAPTION_FONT_SCALE = 0.6;
+
+export function isSafeZonePlatform(value: any): value is SafeZonePlatform {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(SAFE_ZONES, value);
+}
+
+export function getSafeZone(id: string | null | undefined): SafeZoneConfig | null {
+  return SAFE_ZONES[id as SafeZonePlatform] || null;
+}
+
+export function getAllSafeZones(): SafeZoneConfig[] {
+  return Object.values(SAFE_ZONES);
+}
+
+/**
+ * Platforms whose player shows this format - the guides worth offering
+ */
+export function getSafeZonesForAspectRatio(aspectRatio: AspectRatio): SafeZoneConfig[] {
+  return getAllSafeZones().filter((zone) => zone.aspectRatios.includes(aspectRatio));
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const finite = (value: any, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+
+/**
+ * Layout fields of a saved caption_settings object, with defaults for
+ * settings saved before free positioning existed (centered, bottom-anchored)
+ */
+export function normalizeCaptionLayout(settings: any): CaptionLayout {
+  return {
+    positionX: clamp(finite(settings?.positionX, DEFAULT_CAPTION_LAYOUT.positionX), 0, 100),
+    positionFromBottom: clamp(finite(settings?.positionFromBottom, DEFAULT_CAPTION_LAYOUT.positionFromBottom), 0, 100),
+    maxWidth: clamp(finite(settings?.maxWidth, DEFAULT_CAPTION_LAYOUT.maxWidth), MIN_CAPTION_WIDTH, 100),
+    maxLines: clamp(Math.round(finite(settings?.maxLines, DEFAULT_CAPTION_LAYOUT.maxLines)), 1, MAX_CAPTION_LINES),
+    safeZone: isSafeZonePlatform(settings?.safeZone) ? settings.safeZone : null,
+    avoidSafeZone: settings?.avoidSafeZone === true,
+  };
+}
+
+/**
+ * Check the layout fields of caption_settings before saving. Absent fields are
+ * fine (defaults apply); returns an error message or null.
+ */
+export function validateCaptionLayout(settings: any): string | null {
+  const range = (field: string, min: number, max: number) => {
+    const value = settings?.[field];
+    if (value === undefined) return null;
+    return typeof value === "number" && value >= min && value <= max ? null : `${field} must be a number from ${min} to ${max}`;
+  };
+
+  const error =
+    range("positionX", 0, 100) ||
+    range("positionFromBottom", 0, 100) ||
+    range("maxWidth", MIN_CAPTION_WIDTH, 100) ||
+    (settings?.maxLines !== undefined && ![1, 2, 3].includes(settings.maxLines) ? `maxLines must be 1 to ${MAX_CAPTION_LINES}` : null);
+  if (error) return error;
+
+  if (settings?.safeZone !== undefined && settings.safeZone !== null && !isSafeZonePlatform(settings.safeZone)) {
+    return `safeZone must be one of ${Object.keys(SAFE_ZONES).join(", ")} or null`;
+  }
+  if (settings?.avoidSafeZone !== undefined && typeof settings.avoidSafeZone !== "boolean") {
+    return "avoidSafeZone must be boolean";
+  }
+  return null;
+}
+
+export interface CaptionBox {
+  x: number; // Center, % from the left
+  bottom: number; // % from the bottom
+  maxWidth: number; // % of the frame width
+  maxChars: number; // Characters per line at the caption font size
+  maxLines: number;
+}
+
+/**
+ * Where the caption block goes in a frame. `fontSize`, `width` and `height`
+ * just need the same unit (preview CSS pixels or video pixels). The box always
+ * stays on the frame; with avoidSafeZone it also stays inside the platform's
+ * safe area, narrowing and moving as needed (for `aspectRatio` formats the
+ * platform shows - other batch export formats ignore the guide).
+ */
+export function resolveCaptionBox(
+  layout: CaptionLayout,
+  frame: { fontSize: number; width: number; height: number; aspectRatio?: AspectRatio }
+): CaptionBox {
+  // A platform's insets only apply to the formats its player shows
+  const zone = layout.avoidSafeZone ? getSafeZone(layout.safeZone) : null;
+  const avoided = zone && (!frame.aspectRatio || zone.aspectRatios.includes(frame.aspectRatio)) ? zone : null;
+  const insets = avoided?.insets || { top: 0, bottom: 0, left: 0, right: 0 };
+
+  const maxWidth = Math.min(layout.maxWidth, 100 - insets.left - insets.right);
+  const x = clamp(layout.positionX, insets.left + maxWidth / 2, 100 - insets.right - maxWidth / 2);
+
+  // Keep the tallest block (every line in use) under the top inset
+  const blockHeight = ((layout.maxLines * CAPTION_LINE_HEIGHT * frame.fontSize) / frame.height) * 100;
+  const highest = Math.max(insets.bottom, 100 - insets.top - blockHeight);
+  const bottom = clamp(layout.positionFromBottom, insets.bottom, highest);
+
+  // Rounded first so preview and render (same ratio, different pixels) get the same count
+  const chars = Math.round(((maxWidth / 100) * frame.width) / (frame.fontSize * CAPTION_CHAR_WIDTH) * 1000) / 1000;
+
+  return {
+    x: Math.round(x * 100) / 100,
+    bottom: Math.round(bottom * 100) / 100,
+    maxWidth,
+    maxChars: Math.max(1, Math.floor(chars)),
+    maxLines: layout.maxLines,
+  };
+}
+
+/**
+ * Break a caption batch into lines. `labels` are the words as displayed (with
+ * any emoji). Lines are balanced rather than filled greedily; when the words
+ * need more than `maxLines` lines at `maxChars`, they are squeezed into
+ * maxLines and `scale` shrinks the font so the longest line fits.
+ * Returns [start, end) word ranges per line.
+ */
+export function layoutCaptionLines(labels: string[], maxChars: number, maxLines: number): { lines: Array<[number, number]>; scale: number } {
+  if (labels.length === 0) return { lines: [], scale: 1 };
+
+  const wrap = (width: number): Array<[number, number]> => {
+    const lines: Array<[number, number]> = [];
+    let start = 0;
+    let length = 0;
+    labels.forEach((label, i) => {
+      const next = i === start ? label.length : length + 1 + label.length;
+      if (i > start && next > width) {
+        lines.push([start, i]);
+        start = i;
+        length = label.length;
+      } else {
+        length = next;
+      }
+    });
+    lines.push([start, labels.length]);
+    return lines;
+  };
+
+  const lineLength = ([start, end]: [number, number]) => labels.slice(start, end).join(" ").length;
+
+  // As few lines as the box allows, then the narrowest width that keeps that count
+  const count = Math.min(maxLines, wrap(maxChars).length);
+  const total = labels.join(" ").length;
+  let width = Math.max(Math.ceil(total / count), ...labels.map((l) => l.length));
+  let lines = wrap(width);
+  while (lines.length > count) {
+    width++;
+    lines = wrap(width);
+  }
+
+  const longest = Math.max(...lines.map(lineLength));
+  const scale = longest > maxChars ? Math.max(MIN_CAPTION_FONT_SCALE, Math.round((maxChars / longest) * 100) / 100) : 1;
+
+  return { lines, scale };
+}
@@ -10,11 +10,14 @@
  * @version 1.0.0
  */
 
+import type { CaptionAnimation } from './captionAnimations';
+
 export interface CaptionStyle {
   id: string;
   name: string;
   description: string;
   category: 'popular' | 'creative' | 'professional' | 'fun';
+  animation: CaptionAnimation; // Word-by-word animation (lib/captionAnimations.ts)
 
   // CSS Properties for Preview (React/Web)
   fontFamily: string;
@@ -54,6 +57,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'TikTok',
     description: 'Bold white text with black outline - Most popular style',
     category: 'popular',
+    animation: 'pop',
     fontFamily: "'Montserrat', sans-serif",
     fontSize: '1em',
     fontWeight: 900,
@@ -81,6 +85,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Highlight',
     description: 'Yellow highlighter background - Perfect for key points',
     category: 'popular',
+    animation: 'karaoke',
     fontFamily: "'Poppins', sans-serif",
     fontSize: '0.95em',
     fontWeight: 700,
@@ -107,6 +112,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'MrBeast',
     description: 'Giant bold yellow text - High energy & attention-grabbing',
     category: 'popular',
+    animation: 'bounce',
     fontFamily: "'Anton', sans-serif",
     fontSize: '1.3em',
     fontWeight: 400,
@@ -134,6 +140,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Neon Glow',
     description: 'Glowing neon text - Perfect for night/club vibes',
     category: 'creative',
+    animation: 'karaoke',
     fontFamily: "'Montserrat', sans-serif",
     fontSize: '1em',
     fontWeight: 700,
@@ -163,6 +170,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Gradient Pop',
     description: 'Colorful gradient text - Vibrant and eye-catching',
     category: 'creative',
+    animation: 'pop',
     fontFamily: "'Poppins', sans-serif",
     fontSize: '1.1em',
     fontWeight: 800,
@@ -192,6 +200,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Glass',
     description: 'Glassmorphism effect - Modern and sleek',
     category: 'professional',
+    animation: 'slide-up',
     fontFamily: "'Poppins', sans-serif",
     fontSize: '1em',
     fontWeight: 600,
@@ -221,6 +230,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Minimal',
     description: 'Clean and simple - Professional look',
     category: 'professional',
+    animation: 'highlight',
     fontFamily: "'Poppins', sans-serif",
     fontSize: '0.9em',
     fontWeight: 600,
@@ -248,6 +258,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Comic',
     description: 'Comic book style - Fun and playful',
     category: 'fun',
+    animation: 'shake',
     fontFamily: "'Bangers', cursive",
     fontSize: '1.2em',
     fontWeight: 400,
@@ -275,6 +286,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Bubble',
     description: 'Rounded soft bubble - Friendly and approachable',
     category: 'fun',
+    animation: 'bounce',
     fontFamily: "'Fredoka', sans-serif",
     fontSize: '1em',
     fontWeight: 700,
@@ -302,6 +314,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Outlined',
     description: 'Thick outline only - Bold statement',
     category: 'creative',
+    animation: 'typewriter',
     fontFamily: "'Oswald', sans-serif",
     fontSize: '1.1em',
     fontWeight: 700,
@@ -329,6 +342,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Shadow Pop',
     description: 'Heavy drop shadow - 3D depth effect',
     category: 'creative',
+    animation: 'shake',
     fontFamily: "'Righteous', cursive",
     fontSize: '1.1em',
     fontWeight: 400,
@@ -355,6 +369,7 @@ export const CAPTION_STYLES: CaptionStyle[] = [
     name: 'Retro',
     description: '80s/90s style - Nostalgic vibe',
     category: 'fun',
+    animation: 'typewriter',
     fontFamily: "'Rubik Mono One', sans-serif",
     fontSize: '0.95em',
     fontWeight: 400,
@@ -0,0 +1,102 @@
+/**
+ * Scene Clip Cache
+ *
+ * Encoded scene clips keyed by a hash of everything that affects their pixels.
+ * A re-render only re-encodes scenes whose inputs changed, and a retried job
+ * picks up the clips its previous attempt already finished.
+ *
+ * Set CLIP_CACHE_DIR to a persistent volume to keep the cache across deploys.
+ */
+
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import type { MotionPath } from "./motionPath";
+
+// Bump when the clip encoding pipeline changes so stale clips are not reused
+const CLIP_CACHE_VERSION = 3;
+
+const CLIP_CACHE_DIR = process.env.CLIP_CACHE_DIR || path.join(process.cwd(), "tmp", "clip-cache");
+const MAX_AGE_MS = parseInt(process.env.CLIP_CACHE_MAX_AGE_HOURS || "72") * 60 * 60 * 1000;
+
+export interface ClipCacheInputs {
+  mediaUrl: string | null;   // video_url or image_url
+  audioUrl: string | null;
+  // image_generated_at / audio_generated_at - a regenerated image or narration can keep its URL
+  mediaVersion: string | null;
+  audioVersion: string | null;
+  effect: string;
+  motionPath: MotionPath | null;  // Keyframes when effect is "custom"
+  overlays: { url: string; blendMode: string; opacity: number }[]; // Overlay stack, bottom first
+  aspectRatio: string;
+  smartCrop: boolean; // Media cropped from the story's own format (batch export)
+  quality: string;    // Render profile - encoder settings differ per tier
+  width: number;
+  height: number;
+  duration: number;
+}
+
+/**
+ * Content hash for a scene clip
+ */
+export function getClipCacheKey(inputs: ClipCacheInputs): string {
+  const normalized = {
+    v: CLIP_CACHE_VERSION,
+    ...inputs,
+    duration: Math.round(inputs.duration * 1000), // ms precision avoids float noise
+  };
+  return crypto.createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+}
+
+/**
+ * Path of a cached clip, or null on a miss. Hits are touched so pruning
+ * never removes a clip that is in use.
+ */
+export function getCachedClip(key: string): string | null {
+  const clipPath = path.join(CLIP_CACHE_DIR, `${key}.mp4`);
+  if (!fs.existsSync(clipPath)) return null;
+
+  try {
+    const now = new Date();
+    fs.utimesSync(clipPath, now, now);
+  } catch {
+    // Not fatal - only affects pruning order
+  }
+  return clipPath;
+}
+
+/**
+ * Copy a freshly encoded clip into the cache (atomic rename, so a crash
+ * mid-copy never leaves a truncated clip behind)
+ */
+export function storeClip(key: string, clipPath: string): void {
+  fs.mkdirSync(CLIP_CACHE_DIR, { recursive: true });
+  const target = path.join(CLIP_CACHE_DIR, `${key}.mp4`);
+  const partial = `${target}.${process.pid}.partial`;
+  fs.copyFileSync(clipPath, partial);
+  fs.renameSync(partial, target);
+}
+
+/**
+ * Delete clips not used within CLIP_CACHE_MAX_AGE_HOURS (default 72)
+ */
+export function pruneClipCache(): number {
+  if (!fs.existsSync(CLIP_CACHE_DIR)) return 0;
+
+  const cutoff = Date.now() - MAX_AGE_MS;
+  let removed = 0;
+
+  for (const file of fs.readdirSync(CLIP_CACHE_DIR)) {
+    const filePath = path.join(CLIP_CACHE_DIR, file);
+    try {
+      if (fs.statSync(filePath).mtimeMs < cutoff) {
+        fs.unlinkSync(filePath);
+        removed++;
+      }
+    } catch {
+      // Another worker may have removed it already
+    }
+  }
+
+  return removed;
+}
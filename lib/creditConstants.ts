@@ -39,3 +39,15 @@ export type TransactionType =
   | 'ugc_audio_generation'
   | 'ugc_avatar_generation'
   | 'admin_adjustment';
+
+// Plans - everyone starts on free; buying any credit pack moves the account to pro
+export type PlanId = 'free' | 'pro';
+
+export const PLANS: Record<PlanId, { id: PlanId; name: string; removeWatermark: boolean }> = {
+  free: { id: 'free', name: 'Free', removeWatermark: false },
+  pro: { id: 'pro', name: 'Pro', removeWatermark: true },
+};
+
+export function isPlanId(value: unknown): value is PlanId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(PLANS, value);
+}
@@ -1,8 +1,8 @@
 import { supabaseAdmin } from './supabaseAdmin';
-import { CREDIT_COSTS, NEW_USER_CREDITS, type TransactionType, calculateVideoUploadCost } from './creditConstants';
+import { CREDIT_COSTS, NEW_USER_CREDITS, PLANS, isPlanId, type PlanId, type TransactionType, calculateVideoUploadCost } from './creditConstants';
 
 // Re-export for backward compatibility
-export { CREDIT_COSTS, NEW_USER_CREDITS, type TransactionType, calculateVideoUploadCost };
+export { CREDIT_COSTS, NEW_USER_CREDITS, PLANS, type PlanId, type TransactionType, calculateVideoUploadCost };
 
 /**
  * Get user's credit balance
@@ -22,6 +22,24 @@ export async function getUserCredits(userId: string): Promise<number> {
   return data?.balance || 0;
 }
 
+/**
+ * Get user's plan (free if they have no credits row yet)
+ */
+export async function getUserPlan(userId: string): Promise<PlanId> {
+  const { data, error } = await supabaseAdmin
+    .from('user_credits')
+    .select('plan')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error getting user plan:', error);
+    return 'free';
+  }
+
+  return isPlanId(data?.plan) ? data.plan : 'free';
+}
+
 /**
  * Initialize credits for new user
  */
@@ -180,6 +198,18 @@ export async function addCredits(
   // Record the transaction
   await recordTransaction(userId, amount, type, description);
 
+  // Paying customers move to the pro plan
+  if (type === 'purchase') {
+    const { error: planError } = await supabaseAdmin
+      .from('user_credits')
+      .update({ plan: 'pro' })
+      .eq('user_id', userId);
+
+    if (planError) {
+      console.error('Error upgrading user plan:', planError);
+    }
+  }
+
   console.log(`✅ Added ${amount} credits to user ${userId}. New balance: ${newBalance}`);
 
   return {
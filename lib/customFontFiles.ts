@@ -0,0 +1,187 @@
+/**
+ * Custom caption fonts - upload checks and per-job font directories (server
+ * only). Shared types and helpers live in lib/customFonts.ts.
+ */
+
+import fs from "fs";
+import path from "path";
+import fetch from "node-fetch";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { getCustomFontFormat, validateFontName, type CustomFont, type CustomFontFormat } from "./customFonts";
+
+type FontLogger = { info: (msg: string) => void; warn: (msg: string) => void };
+
+export interface FontFileInfo {
+  format: CustomFontFormat;
+  family: string;
+  full_name: string;
+  weight: number;
+  italic: boolean;
+}
+
+// sfnt versions: TrueType outlines (0x00010000 or Apple's 'true') and CFF outlines ('OTTO')
+const SFNT_VERSIONS: Record<number, CustomFontFormat> = {
+  0x00010000: "ttf",
+  0x74727565: "ttf",
+  0x4f54544f: "otf",
+};
+
+// name table IDs
+const NAME_FAMILY = 1;
+const NAME_SUBFAMILY = 2;
+const NAME_FULL = 4;
+const NAME_TYPOGRAPHIC_FAMILY = 16;
+const NAME_TYPOGRAPHIC_SUBFAMILY = 17;
+
+/**
+ * Read the family, full name, weight and style from a TTF/OTF file. Throws
+ * with a user-facing message for anything else (WOFF, collections, corrupt
+ * or unnamed files).
+ */
+export function readFontInfo(buffer: Buffer): FontFileInfo {
+  if (buffer.length < 12) throw new Error("Not a font file");
+
+  const format = SFNT_VERSIONS[buffer.readUInt32BE(0)];
+  if (!format) {
+    const tag = buffer.toString("latin1", 0, 4);
+    if (tag === "wOFF" || tag === "wOF2") throw new Error("WOFF fonts aren't supported - upload the TTF or OTF file");
+    if (tag === "ttcf") throw new Error("Font collections (.ttc) aren't supported - upload a single TTF or OTF file");
+    throw new Error("Not a TTF or OTF font file");
+  }
+
+  const tables = readTableDirectory(buffer);
+  const nameTable = tables.get("name");
+  if (!nameTable) throw new Error("Font has no name table");
+
+  const names = readNames(buffer, nameTable.offset, nameTable.length);
+  const family = (names.get(NAME_TYPOGRAPHIC_FAMILY) || names.get(NAME_FAMILY) || "").trim();
+  const subfamily = (names.get(NAME_TYPOGRAPHIC_SUBFAMILY) || names.get(NAME_SUBFAMILY) || "Regular").trim();
+  const fullName = (names.get(NAME_FULL) || `${family} ${subfamily}`).trim();
+
+  const familyError = validateFontName(family, "Font family");
+  if (familyError) throw new Error(familyError);
+  const fullNameError = validateFontName(fullName, "Full font name");
+  if (fullNameError) throw new Error(fullNameError);
+
+  // OS/2 usWeightClass and fsSelection bit 0 (italic); old fonts without OS/2 read as Regular
+  let weight = 400;
+  let italic = /italic|oblique/i.test(subfamily);
+  const os2 = tables.get("OS/2");
+  if (os2 && os2.length >= 64) {
+    const weightClass = buffer.readUInt16BE(os2.offset + 4);
+    if (weightClass >= 1 && weightClass <= 1000) weight = Math.min(900, Math.max(100, Math.round(weightClass / 100) * 100));
+    italic = (buffer.readUInt16BE(os2.offset + 62) & 1) === 1;
+  }
+
+  return { format, family, full_name: fullName, weight, italic };
+}
+
+function readTableDirectory(buffer: Buffer): Map<string, { offset: number; length: number }> {
+  const numTables = buffer.readUInt16BE(4);
+  if (12 + numTables * 16 > buffer.length) throw new Error("Font file is truncated");
+
+  const tables = new Map<string, { offset: number; length: number }>();
+  for (let i = 0; i < numTables; i++) {
+    const record = 12 + i * 16;
+    const tag = buffer.toString("latin1", record, record + 4);
+    const offset = buffer.readUInt32BE(record + 8);
+    const length = buffer.readUInt32BE(record + 12);
+    if (offset + length > buffer.length) throw new Error("Font file is truncated");
+    tables.set(tag, { offset, length });
+  }
+  return tables;
+}
+
+// English names, Windows (UTF-16BE) records first, then Unicode, then Mac Roman
+function readNames(buffer: Buffer, tableOffset: number, tableLength: number): Map<number, string> {
+  if (tableLength < 6) return new Map();
+  const count = buffer.readUInt16BE(tableOffset + 2);
+  const storage = tableOffset + buffer.readUInt16BE(tableOffset + 4);
+
+  const ranked = new Map<number, { rank: number; value: string }>();
+  for (let i = 0; i < count; i++) {
+    const record = tableOffset + 6 + i * 12;
+    if (record + 12 > tableOffset + tableLength) break;
+
+    const platformId = buffer.readUInt16BE(record);
+    const languageId = buffer.readUInt16BE(record + 4);
+    const nameId = buffer.readUInt16BE(record + 6);
+    const length = buffer.readUInt16BE(record + 8);
+    const start = storage + buffer.readUInt16BE(record + 10);
+    if (start + length > buffer.length) continue;
+
+    let rank: number;
+    let value: string;
+    if (platformId === 3 || platformId === 0) {
+      rank = platformId === 3 ? (languageId === 0x409 ? 0 : 2) : 1;
+      // Copied first - swap16 works in place
+      value = Buffer.from(buffer.subarray(start, start + length - (length % 2))).swap16().toString("utf16le");
+    } else if (platformId === 1 && languageId === 0) {
+      rank = 3;
+      value = buffer.toString("latin1", start, start + length);
+    } else {
+      continue;
+    }
+
+    const current = ranked.get(nameId);
+    if (value.trim() && (!current || rank < current.rank)) ranked.set(nameId, { rank, value });
+  }
+
+  return new Map(Array.from(ranked.entries()).map(([nameId, { value }]) => [nameId, value]));
+}
+
+/**
+ * A user's uploaded fonts. Lookup errors give none, so renders fall back to
+ * the built-in fonts instead of failing.
+ */
+export async function loadCustomFonts(userId: string | null | undefined): Promise<CustomFont[]> {
+  if (!userId) return [];
+
+  const { data, error } = await supabaseAdmin
+    .from("custom_fonts")
+    .select("id, family, full_name, weight, italic, format, file_url, created_at")
+    .eq("user_id", userId)
+    .order("family", { ascending: true })
+    .order("weight", { ascending: true });
+
+  if (error) {
+    console.error("Error loading custom fonts:", error);
+    return [];
+  }
+  return (data || []) as CustomFont[];
+}
+
+/**
+ * Download every face of the given families into `<tmpDir>/fonts` for the
+ * subtitles filter's fontsdir - per job, so concurrent renders never share a
+ * font setup. The project fonts (fonts.conf) stay available next to them.
+ * Returns the directory, or null when none of the families are custom.
+ */
+export async function prepareCustomFontsDir(
+  fonts: CustomFont[],
+  families: Array<string | null | undefined>,
+  tmpDir: string,
+  logger?: FontLogger
+): Promise<string | null> {
+  const wanted = fonts.filter((font) => families.includes(font.family));
+  if (wanted.length === 0) return null;
+
+  const fontsDir = path.join(tmpDir, "fonts");
+  fs.mkdirSync(fontsDir, { recursive: true });
+
+  let downloaded = 0;
+  for (const font of wanted) {
+    try {
+      const res = await fetch(font.file_url);
+      if (!res.ok) throw new Error(`HTTP ${res.status}: ${res.statusText}`);
+      fs.writeFileSync(path.join(fontsDir, `${font.id}${getCustomFontFormat(font.format).extension}`), Buffer.from(await res.arrayBuffer()));
+      downloaded++;
+    } catch (err: any) {
+      logger?.warn(`⚠️ Skipping font "${font.full_name}": ${err.message}`);
+    }
+  }
+
+  if (downloaded === 0) return null;
+  logger?.info(`🔤 ${downloaded} custom font file(s) ready: ${Array.from(new Set(wanted.map((font) => font.family))).join(", ")}`);
+  return fontsDir;
+}
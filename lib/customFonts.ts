@@ -0,0 +1,139 @@
+/**
+ * Custom Caption Fonts
+ *
+ * Users upload their own TTF/OTF brand fonts next to the built-in
+ * CAPTION_FONTS (lib/fonts.ts). Each upload is one face (family + weight +
+ * style) read from the font file's own name table, so the family the editor
+ * shows is the one libass finds at render time.
+ *
+ * The preview loads them with @font-face (getCustomFontFaceCSS); renders copy
+ * the faces a job needs into a per-job fonts directory handed to the FFmpeg
+ * subtitles filter (lib/customFontFiles.ts, server only).
+ * Safe to import in both browser and server.
+ */
+
+import { CAPTION_FONTS } from "./fonts";
+
+export type CustomFontFormat = "ttf" | "otf";
+
+export interface CustomFontFormatConfig {
+  id: CustomFontFormat;
+  name: string;
+  extension: string;
+  contentType: string;
+  cssFormat: string; // @font-face src format()
+}
+
+export const CUSTOM_FONT_FORMATS: Record<CustomFontFormat, CustomFontFormatConfig> = {
+  ttf: {
+    id: "ttf",
+    name: "TrueType",
+    extension: ".ttf",
+    contentType: "font/ttf",
+    cssFormat: "truetype",
+  },
+  otf: {
+    id: "otf",
+    name: "OpenType (CFF)",
+    extension: ".otf",
+    contentType: "font/otf",
+    cssFormat: "opentype",
+  },
+};
+
+export const MAX_CUSTOM_FONT_SIZE = 10 * 1024 * 1024;
+export const MAX_CUSTOM_FONTS = 50;
+export const MAX_FONT_NAME_LENGTH = 64;
+
+export interface CustomFont {
+  id: string;
+  family: string;     // Typographic family from the font file, used as fontFamily in caption settings
+  full_name: string;  // e.g. "Acme Sans SemiBold" - the name libass is asked for
+  weight: number;     // OS/2 usWeightClass, 100-900
+  italic: boolean;
+  format: CustomFontFormat;
+  file_url: string;
+  created_at?: string;
+}
+
+export function isCustomFontFormat(value: any): value is CustomFontFormat {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(CUSTOM_FONT_FORMATS, value);
+}
+
+export function getCustomFontFormat(id: string): CustomFontFormatConfig {
+  return CUSTOM_FONT_FORMATS[id as CustomFontFormat] || CUSTOM_FONT_FORMATS.ttf;
+}
+
+export function getAllCustomFontFormats(): CustomFontFormatConfig[] {
+  return Object.values(CUSTOM_FONT_FORMATS);
+}
+
+/**
+ * Check a family or full name read from an uploaded font. Names end up in ASS
+ * style lines and CSS, so separators and escapes are refused. Returns an error
+ * message or null.
+ */
+export function validateFontName(name: string, label = "Font name"): string | null {
+  if (!name.trim()) return `${label} is empty`;
+  if (name.length > MAX_FONT_NAME_LENGTH) return `${label} is longer than ${MAX_FONT_NAME_LENGTH} characters`;
+  if (/[,{}\\"';<>\u0000-\u001f]/.test(name)) return `${label} "${name}" contains characters captions can't use`;
+  if (CAPTION_FONTS.some((font) => font.name.toLowerCase() === name.trim().toLowerCase())) {
+    return `"${name}" is already a built-in caption font`;
+  }
+  return null;
+}
+
+/**
+ * Uploaded families, alphabetically, for the font pickers
+ */
+export function getCustomFontFamilies(fonts: CustomFont[]): string[] {
+  return Array.from(new Set(fonts.map((font) => font.family))).sort((a, b) => a.localeCompare(b));
+}
+
+export function isCustomFontFamily(fonts: CustomFont[], family: string | null | undefined): boolean {
+  return Boolean(family) && fonts.some((font) => font.family === family);
+}
+
+/**
+ * The uploaded face closest to a CSS weight (upright preferred), as the
+ * browser would pick it
+ */
+export function getClosestCustomFont(fonts: CustomFont[], family: string, weight: number): CustomFont | null {
+  const faces = fonts.filter((font) => font.family === family);
+  if (faces.length === 0) return null;
+
+  const upright = faces.filter((font) => !font.italic);
+  const candidates = upright.length > 0 ? upright : faces;
+  return candidates.reduce((best, font) =>
+    Math.abs(font.weight - weight) < Math.abs(best.weight - weight) ? font : best
+  );
+}
+
+/**
+ * ASS font name and bold flag for a custom family - the closest face's full
+ * name, so libass loads that exact file. Asking for bold from a family with
+ * no heavy face falls back to libass's synthetic bold. Null when the family
+ * isn't one of the user's uploads (use getASSFontName).
+ */
+export function getCustomASSFontName(fonts: CustomFont[], family: string, weight: number): { fontName: string; bold: number } | null {
+  const font = getClosestCustomFont(fonts, family, weight);
+  if (!font) return null;
+  return { fontName: font.full_name, bold: weight >= 700 && font.weight < 600 ? 1 : 0 };
+}
+
+/**
+ * @font-face rules that make the uploads usable by name in the editor preview
+ */
+export function getCustomFontFaceCSS(fonts: CustomFont[]): string {
+  return fonts
+    .map((font) => [
+      "@font-face {",
+      `  font-family: "${font.family}";`,
+      `  src: url("${font.file_url}") format("${getCustomFontFormat(font.format).cssFormat}");`,
+      `  font-weight: ${font.weight};`,
+      `  font-style: ${font.italic ? "italic" : "normal"};`,
+      "  font-display: swap;",
+      "}",
+    ].join("\n"))
+    .join("\n");
+}
@@ -0,0 +1,144 @@
+/**
+ * Multi-speaker Dialogue
+ *
+ * Scene text can hand lines to characters with speaker tags:
+ *
+ *   The door creaked open. [Mara]: Who's there? [Old Tom]: Only me, child.
+ *
+ * Text before the first tag (or after a "[Narrator]:" tag) is read by
+ * the scene's narrator voice. Speaker names match characters in the story's
+ * character_library case-insensitively, and each character's voice comes from
+ * the story's character_voices map ({ "Mara": "nova", "Old Tom": "elevenlabs:..." }).
+ */
+
+export interface DialogueSegment {
+  speaker: string | null; // null = narrator
+  text: string;
+}
+
+export type CharacterVoices = Record<string, string>;
+
+export const NARRATOR_SPEAKER = "Narrator";
+
+// "[Name]:" followed by the line - the colon keeps "[sighs]"-style asides out of it
+const SPEAKER_TAG_REGEX = /\[([^\[\]\n]{1,40})\]:/g;
+
+// Caption colors per speaker in order of first appearance (hex RGB, narrator keeps the caption color)
+export const SPEAKER_COLORS = ["#4FC3F7", "#FFB74D", "#AED581", "#F06292", "#BA68C8", "#FFF176"];
+
+function isNarrator(speaker: string): boolean {
+  return speaker.trim().toLowerCase() === NARRATOR_SPEAKER.toLowerCase();
+}
+
+/**
+ * Whether scene text contains any speaker tags
+ */
+export function hasSpeakerTags(text: string | null | undefined): boolean {
+  if (!text) return false;
+  SPEAKER_TAG_REGEX.lastIndex = 0;
+  return SPEAKER_TAG_REGEX.test(text);
+}
+
+/**
+ * Split scene text into narrator and character lines
+ */
+export function parseDialogue(text: string): DialogueSegment[] {
+  const segments: DialogueSegment[] = [];
+  let speaker: string | null = null;
+  let lastIndex = 0;
+
+  const push = (chunk: string) => {
+    const trimmed = chunk.replace(/\s+/g, " ").trim();
+    if (trimmed) segments.push({ speaker, text: trimmed });
+  };
+
+  SPEAKER_TAG_REGEX.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = SPEAKER_TAG_REGEX.exec(text)) !== null) {
+    push(text.slice(lastIndex, match.index));
+    const name = match[1].trim();
+    speaker = isNarrator(name) ? null : name;
+    lastIndex = match.index + match[0].length;
+  }
+  push(text.slice(lastIndex));
+
+  // Merge consecutive lines from the same speaker so each is synthesized once
+  return segments.reduce<DialogueSegment[]>((merged, segment) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`;
+    } else {
+      merged.push({ ...segment });
+    }
+    return merged;
+  }, []);
+}
+
+/**
+ * Scene text without speaker tags - what is actually spoken and captioned
+ */
+export function stripSpeakerTags(text: string | null | undefined): string {
+  if (!text) return "";
+  return text.replace(SPEAKER_TAG_REGEX, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Distinct speakers in order of first appearance (narrator excluded)
+ */
+export function getSpeakers(text: string): string[] {
+  const speakers: string[] = [];
+  for (const segment of parseDialogue(text)) {
+    if (segment.speaker && !speakers.some((s) => s.toLowerCase() === segment.speaker!.toLowerCase())) {
+      speakers.push(segment.speaker);
+    }
+  }
+  return speakers;
+}
+
+/**
+ * Voice for a speaker, falling back to the narrator voice for unknown characters
+ */
+export function getSpeakerVoice(
+  speaker: string | null,
+  characterVoices: CharacterVoices | null | undefined,
+  narratorVoiceId: string
+): string {
+  if (!speaker || !characterVoices) return narratorVoiceId;
+  const key = Object.keys(characterVoices).find((name) => name.toLowerCase() === speaker.toLowerCase());
+  return (key && characterVoices[key]) || narratorVoiceId;
+}
+
+/**
+ * Keep only string voice assignments with non-empty names. Returns null if
+ * the input isn't an object.
+ */
+export function normalizeCharacterVoices(input: any): CharacterVoices | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+  const voices: CharacterVoices = {};
+  for (const [name, voiceId] of Object.entries(input)) {
+    if (name.trim() && typeof voiceId === "string" && voiceId.trim()) {
+      voices[name.trim()] = voiceId.trim();
+    }
+  }
+  return voices;
+}
+
+/**
+ * Tag word timestamps of a whole scene with their speaker, by word position
+ * in each line. Used when the scene is aligned in one pass (synthetic timing,
+ * re-alignment) rather than line by line.
+ */
+export function assignSpeakers<T extends { word: string }>(wordTimestamps: T[], text: string): (T & { speaker?: string })[] {
+  if (!hasSpeakerTags(text)) return wordTimestamps;
+
+  const speakerByWord: (string | null)[] = [];
+  for (const segment of parseDialogue(text)) {
+    const count = segment.text.split(/\s+/).filter(Boolean).length;
+    for (let i = 0; i < count; i++) speakerByWord.push(segment.speaker);
+  }
+
+  return wordTimestamps.map((wt, i) => {
+    const speaker = speakerByWord[Math.min(i, speakerByWord.length - 1)];
+    return speaker ? { ...wt, speaker } : wt;
+  });
+}
@@ -0,0 +1,143 @@
+/**
+ * Dialogue audio: synthesize each speaker's lines with their own voice, align
+ * each line separately and stitch them into one narration track. Word
+ * timestamps are offset onto the stitched timeline and tagged with the speaker
+ * so captions can be colored per character.
+ *
+ * Each line is spoken at the requested speed - natively where the line's
+ * provider can, with atempo during stitching for the rest.
+ */
+
+import fs from "fs";
+import path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { resolveVoice, getNativeSpeed, synthesizeSpeech, type TTSSynthesisOptions } from "./ttsProviders";
+import { parseDialogue, getSpeakerVoice, type CharacterVoices } from "./dialogue";
+import { applyPronunciations, mapToSourceWords, type PronunciationOverride } from "./prosody";
+import { alignWords, atempoChain } from "./prosodyAudio";
+import type { WordTimestamp } from "./assSubtitles";
+
+export interface DialogueAudioResult {
+  audioPath: string;
+  duration: number;
+  wordTimestamps: WordTimestamp[];
+  speakers: string[];
+}
+
+function ffprobeAsync(filePath: string): Promise<ffmpeg.FfprobeData> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => (err ? reject(err) : resolve(data)));
+  });
+}
+
+/**
+ * Spread words evenly over a line when forced alignment fails, so the line
+ * still gets captions in the right speaker's color
+ */
+function estimateWordTimestamps(text: string, duration: number): WordTimestamp[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const step = words.length ? duration / words.length : 0;
+  return words.map((word, i) => ({ word, start: i * step, end: (i + 1) * step }));
+}
+
+/**
+ * Synthesize tagged scene text into a single MP3 at `outputPath`
+ */
+export async function synthesizeDialogue(
+  text: string,
+  narratorVoiceId: string,
+  characterVoices: CharacterVoices | null | undefined,
+  outputPath: string,
+  options: TTSSynthesisOptions = {},
+  logger?: { info: (msg: string) => void; warn: (msg: string) => void },
+  pronunciations: PronunciationOverride[] = []
+): Promise<DialogueAudioResult> {
+  const segments = parseDialogue(text);
+  if (segments.length === 0) throw new Error("Scene has no text to narrate");
+
+  const workDir = path.join(path.dirname(outputPath), `dialogue-${path.basename(outputPath, ".mp3")}`);
+  fs.mkdirSync(workDir, { recursive: true });
+
+  try {
+    const segmentPaths: string[] = [];
+    const segmentTempos: number[] = [];
+    const wordTimestamps: WordTimestamp[] = [];
+    const speakers: string[] = [];
+    let offset = 0;
+
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      const voiceId = getSpeakerVoice(segment.speaker, characterVoices, narratorVoiceId);
+      const speakerLabel = segment.speaker || "Narrator";
+      logger?.info(`🗣️ Line ${i + 1}/${segments.length} - ${speakerLabel} (${voiceId})`);
+
+      // Voices on different providers clamp speed differently - stretch the remainder when stitching
+      const requestedSpeed = options.speed ?? 1.0;
+      const nativeSpeed = getNativeSpeed(resolveVoice(voiceId).provider, requestedSpeed);
+      const tempo = requestedSpeed / nativeSpeed;
+
+      const sourceWords = segment.text.split(/\s+/).filter(Boolean);
+      const spoken = applyPronunciations(sourceWords, pronunciations);
+      const spokenText = spoken.words.join(" ");
+
+      const { audio } = await synthesizeSpeech(voiceId, spokenText, { ...options, speed: nativeSpeed });
+      const segmentPath = path.join(workDir, `line-${i}.mp3`);
+      fs.writeFileSync(segmentPath, audio);
+      segmentPaths.push(segmentPath);
+      segmentTempos.push(tempo);
+
+      const info = await ffprobeAsync(segmentPath);
+      const synthesizedDuration = info.format?.duration || 0;
+      const duration = synthesizedDuration / tempo;
+
+      let lineWords: WordTimestamp[];
+      try {
+        lineWords = mapToSourceWords(await alignWords(segmentPath, spokenText), spoken.sourceIndex, sourceWords);
+      } catch (alignErr: any) {
+        logger?.warn(`⚠️ Alignment failed for line ${i + 1}, estimating word timing: ${alignErr.message}`);
+        lineWords = estimateWordTimestamps(segment.text, synthesizedDuration);
+      }
+
+      for (const word of lineWords) {
+        wordTimestamps.push({
+          ...word,
+          start: word.start / tempo + offset,
+          end: word.end / tempo + offset,
+          ...(segment.speaker ? { speaker: segment.speaker } : {}),
+        });
+      }
+
+      if (segment.speaker && !speakers.includes(segment.speaker)) speakers.push(segment.speaker);
+      offset += duration;
+    }
+
+    // Providers return different sample rates/layouts, so normalize before concatenating
+    await new Promise<void>((resolve, reject) => {
+      const cmd = ffmpeg();
+      segmentPaths.forEach((p) => cmd.input(p));
+      const normalize = segmentPaths
+        .map((_, i) =>
+          `[${i}:a]${["aresample=44100", "aformat=sample_fmts=fltp:channel_layouts=mono", ...atempoChain(segmentTempos[i])].join(",")}[a${i}]`
+        )
+        .join(";");
+      const concatInputs = segmentPaths.map((_, i) => `[a${i}]`).join("");
+      cmd
+        .complexFilter(`${normalize};${concatInputs}concat=n=${segmentPaths.length}:v=0:a=1[out]`)
+        .outputOptions(["-map [out]", "-c:a libmp3lame", "-b:a 192k"])
+        .output(outputPath)
+        .on("end", () => resolve())
+        .on("error", (err) => reject(err))
+        .run();
+    });
+
+    const info = await ffprobeAsync(outputPath);
+    return {
+      audioPath: outputPath,
+      duration: info.format?.duration || offset,
+      wordTimestamps,
+      speakers,
+    };
+  } finally {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Export Formats
+ * Extra files derived from a finished render by an "export" job (see
+ * lib/videoExport.ts): a short GIF or a WebM for previews, the soundtrack
+ * as MP3/M4A for podcast use and a pack of per-scene PNG stills. Each one
+ * is stored in video_exports next to the MP4 it came from.
+ */
+
+export type ExportFormat = "gif" | "webm" | "mp3" | "m4a" | "png";
+
+export type ExportKind = "video" | "audio" | "images";
+
+export interface ExportFormatConfig {
+  id: ExportFormat;
+  name: string;
+  description: string;
+  kind: ExportKind;
+  extension: string;
+  contentType: string;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, ExportFormatConfig> = {
+  gif: {
+    id: "gif",
+    name: "GIF",
+    description: "First 15 seconds, 480px wide - for previews and chat",
+    kind: "video",
+    extension: "gif",
+    contentType: "image/gif",
+  },
+  webm: {
+    id: "webm",
+    name: "WebM",
+    description: "VP9 + Opus, smaller than the MP4 - for web embeds",
+    kind: "video",
+    extension: "webm",
+    contentType: "video/webm",
+  },
+  mp3: {
+    id: "mp3",
+    name: "MP3",
+    description: "Narration and music only - for podcasts",
+    kind: "audio",
+    extension: "mp3",
+    contentType: "audio/mpeg",
+  },
+  m4a: {
+    id: "m4a",
+    name: "M4A",
+    description: "Narration and music only, AAC - for Apple Podcasts",
+    kind: "audio",
+    extension: "m4a",
+    contentType: "audio/mp4",
+  },
+  png: {
+    id: "png",
+    name: "PNG stills",
+    description: "One full-size still per scene from the finished video, as a ZIP",
+    kind: "images",
+    extension: "zip",
+    contentType: "application/zip",
+  },
+};
+
+// GIFs grow fast - previews only need the opening seconds
+export const GIF_MAX_SECONDS = 15;
+export const GIF_WIDTH = 480;
+export const GIF_FPS = 12;
+
+/**
+ * A stored export (video_exports row)
+ */
+export interface VideoExport {
+  id: string;
+  video_id: string;
+  story_id: string;
+  format: ExportFormat;
+  file_url: string;
+  size_bytes: number | null;
+  created_at: string;
+}
+
+export function isExportFormat(value: any): value is ExportFormat {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(EXPORT_FORMATS, value);
+}
+
+export function getExportFormat(id: string): ExportFormatConfig {
+  return EXPORT_FORMATS[id as ExportFormat] || EXPORT_FORMATS.gif;
+}
+
+export function getAllExportFormats(): ExportFormatConfig[] {
+  return Object.values(EXPORT_FORMATS);
+}
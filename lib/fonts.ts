@@ -7,6 +7,8 @@
  * 2. Run: node scripts/generate-font-install.js
  * 3. Copy the output to nixpacks.toml [phases.install] section
  * 4. The validation script will check if all fonts are configured
+ *
+ * Fonts users upload themselves need no build step - see lib/customFonts.ts.
  */
 
 export interface FontConfig {
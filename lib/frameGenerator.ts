@@ -7,6 +7,7 @@ import sharp from "sharp";
 import path from "path";
 import fs from "fs";
 import { EffectType } from "./videoEffects";
+import { interpolateMotionPath, type MotionPath } from "./motionPath";
 
 interface FrameGenerationOptions {
   imagePath: string;
@@ -15,6 +16,7 @@ interface FrameGenerationOptions {
   height: number;
   duration: number;
   effectType: EffectType;
+  motionPath?: MotionPath | null; // Required for "custom"
   fps?: number;
 }
 
@@ -25,7 +27,7 @@ interface FrameGenerationOptions {
 export async function generateEffectFrames(
   options: FrameGenerationOptions
 ): Promise<string> {
-  const { imagePath, outputDir, width, height, duration, effectType, fps = 30 } = options;
+  const { imagePath, outputDir, width, height, duration, effectType, motionPath, fps = 30 } = options;
 
   // Create output directory with robust error handling
   try {
@@ -77,37 +79,57 @@ export async function generateEffectFrames(
         // Work with the pre-resized buffer
         let frameImage = sharp(resizedBuffer);
 
-    // Calculate the extract region based on zoom and pan
-    // Ensure zoom is valid (never less than 1.0)
-    const safeZoom = Math.max(1.0, transform.zoom);
-
-    // When zoom = 1.0, we extract the center portion of size width x height
-    // When zoom = 1.1, we extract a smaller portion (shows more detail)
-    let extractWidth = Math.round(width / safeZoom);
-    let extractHeight = Math.round(height / safeZoom);
-
-    // Ensure extract dimensions are positive and don't exceed working area
-    extractWidth = Math.max(1, Math.min(extractWidth, workingWidth));
-    extractHeight = Math.max(1, Math.min(extractHeight, workingHeight));
-
-    // Center the extract region and apply pan offset
-    const centerX = (workingWidth - extractWidth) / 2;
-    const centerY = (workingHeight - extractHeight) / 2;
-
-    // Clamp pan values to stay within reasonable bounds
-    const maxPanX = (workingWidth - extractWidth) / 2;
-    const maxPanY = (workingHeight - extractHeight) / 2;
-    const safePanX = Math.max(-maxPanX, Math.min(transform.panX, maxPanX));
-    const safePanY = Math.max(-maxPanY, Math.min(transform.panY, maxPanY));
-
-    const extractLeft = Math.round(centerX + safePanX);
-    const extractTop = Math.round(centerY + safePanY);
-
-    // Final safety clamps to ensure we never go out of bounds
-    const safeLeft = Math.max(0, Math.min(extractLeft, workingWidth - 1));
-    const safeTop = Math.max(0, Math.min(extractTop, workingHeight - 1));
-    const safeWidth = Math.max(1, Math.min(extractWidth, workingWidth - safeLeft));
-    const safeHeight = Math.max(1, Math.min(extractHeight, workingHeight - safeTop));
+    let safeLeft: number;
+    let safeTop: number;
+    let safeWidth: number;
+    let safeHeight: number;
+    let safeZoom: number;
+    let extractWidth: number;
+    let extractHeight: number;
+
+    if (effectType === "custom" && motionPath) {
+      // Custom path: rectangles are normalized to the working area, which has the output's aspect ratio
+      const point = interpolateMotionPath(motionPath, progress);
+      safeZoom = point.zoom;
+      extractWidth = Math.max(1, Math.min(workingWidth, Math.round(workingWidth / point.zoom)));
+      extractHeight = Math.max(1, Math.min(workingHeight, Math.round(workingHeight / point.zoom)));
+      safeLeft = Math.max(0, Math.min(Math.round(point.x * workingWidth), workingWidth - extractWidth));
+      safeTop = Math.max(0, Math.min(Math.round(point.y * workingHeight), workingHeight - extractHeight));
+      safeWidth = extractWidth;
+      safeHeight = extractHeight;
+    } else {
+      // Calculate the extract region based on zoom and pan
+      // Ensure zoom is valid (never less than 1.0)
+      safeZoom = Math.max(1.0, transform.zoom);
+
+      // When zoom = 1.0, we extract the center portion of size width x height
+      // When zoom = 1.1, we extract a smaller portion (shows more detail)
+      extractWidth = Math.round(width / safeZoom);
+      extractHeight = Math.round(height / safeZoom);
+
+      // Ensure extract dimensions are positive and don't exceed working area
+      extractWidth = Math.max(1, Math.min(extractWidth, workingWidth));
+      extractHeight = Math.max(1, Math.min(extractHeight, workingHeight));
+
+      // Center the extract region and apply pan offset
+      const centerX = (workingWidth - extractWidth) / 2;
+      const centerY = (workingHeight - extractHeight) / 2;
+
+      // Clamp pan values to stay within reasonable bounds
+      const maxPanX = (workingWidth - extractWidth) / 2;
+      const maxPanY = (workingHeight - extractHeight) / 2;
+      const safePanX = Math.max(-maxPanX, Math.min(transform.panX, maxPanX));
+      const safePanY = Math.max(-maxPanY, Math.min(transform.panY, maxPanY));
+
+      const extractLeft = Math.round(centerX + safePanX);
+      const extractTop = Math.round(centerY + safePanY);
+
+      // Final safety clamps to ensure we never go out of bounds
+      safeLeft = Math.max(0, Math.min(extractLeft, workingWidth - 1));
+      safeTop = Math.max(0, Math.min(extractTop, workingHeight - 1));
+      safeWidth = Math.max(1, Math.min(extractWidth, workingWidth - safeLeft));
+      safeHeight = Math.max(1, Math.min(extractHeight, workingHeight - safeTop));
+    }
 
     // Validate extract parameters before attempting extraction
     if (safeWidth <= 0 || safeHeight <= 0 || safeLeft < 0 || safeTop < 0) {
@@ -0,0 +1,156 @@
+/**
+ * Job Progress Bus
+ * In-process publish/subscribe behind /api/job_progress. Queued jobs also
+ * write their progress to the job row (lib/jobQueue.ts), so a web instance
+ * that isn't running the worker can still follow them; short cuts run
+ * inside their API request, so only the instance serving that request can
+ * stream them.
+ */
+
+import { EventEmitter } from "events";
+import {
+  getJobStage,
+  estimateEtaSeconds,
+  isFinalJobProgress,
+  type JobProgressDetail,
+  type JobProgressEvent,
+  type JobProgressStatus,
+  type JobProgressType,
+} from "./jobProgress";
+
+declare global {
+  // Shared by the worker (loaded from instrumentation.ts) and the API routes, which are bundled separately
+  var jobProgressBus: { emitter: EventEmitter; latest: Map<string, JobProgressEvent> } | undefined;
+  var endJobProgressStreams: (() => void) | undefined;
+}
+
+const FINISHED_RETENTION_MS = 60000; // Keep a finished job's last event for streams that connect late
+const PROGRESS_ID_PATTERN = /^[\w-]{8,80}$/;
+const SHUTDOWN_EVENT = "server:shutdown"; // Can't collide with a job or progress ID
+
+function getBus() {
+  if (!global.jobProgressBus) {
+    const emitter = new EventEmitter();
+    emitter.setMaxListeners(0);
+    global.jobProgressBus = { emitter, latest: new Map() };
+  }
+  return global.jobProgressBus;
+}
+
+export function isValidProgressId(id: any): id is string {
+  return typeof id === "string" && PROGRESS_ID_PATTERN.test(id);
+}
+
+/**
+ * Assemble an event; the stage name and ETA are derived from the rest
+ */
+export function buildJobProgressEvent(params: {
+  id: string;
+  type: JobProgressType;
+  status: JobProgressStatus;
+  progress: number;
+  detail?: JobProgressDetail | null;
+  startedAt?: string | null;
+  error?: string | null;
+  result?: Record<string, any> | null;
+}): JobProgressEvent {
+  const { status, detail } = params;
+  const progress = Math.max(0, Math.min(100, Math.round(params.progress)));
+  const stage = status === "completed" ? "completed" : status === "failed" ? "failed" : detail?.stage || (status === "queued" ? "queued" : "preparing");
+  const startedAt = params.startedAt || null;
+
+  return {
+    id: params.id,
+    type: params.type,
+    status,
+    progress,
+    stage,
+    stage_name: getJobStage(stage).name,
+    scenes: detail?.scenes || null,
+    ffmpeg: detail?.ffmpeg || null,
+    message: detail?.message || null,
+    started_at: startedAt,
+    eta_seconds: status === "processing" ? estimateEtaSeconds(startedAt, progress) : null,
+    error: params.error || null,
+    result: params.result || null,
+  };
+}
+
+export function publishJobProgress(event: JobProgressEvent): void {
+  const bus = getBus();
+  bus.latest.set(event.id, event);
+  bus.emitter.emit(event.id, event);
+
+  if (isFinalJobProgress(event)) {
+    setTimeout(() => {
+      if (bus.latest.get(event.id) === event) bus.latest.delete(event.id);
+    }, FINISHED_RETENTION_MS);
+  }
+}
+
+/**
+ * Listen for a job's events. Returns a function that stops listening.
+ */
+export function subscribeJobProgress(id: string, listener: (event: JobProgressEvent) => void): () => void {
+  const { emitter } = getBus();
+  emitter.on(id, listener);
+  return () => {
+    emitter.off(id, listener);
+  };
+}
+
+/**
+ * Run `listener` when the server starts shutting down. Returns a function
+ * that stops listening.
+ */
+export function onJobProgressShutdown(listener: () => void): () => void {
+  const { emitter } = getBus();
+  emitter.on(SHUTDOWN_EVENT, listener);
+  return () => {
+    emitter.off(SHUTDOWN_EVENT, listener);
+  };
+}
+
+/**
+ * Close every open progress stream - server.js calls this on shutdown, as
+ * open streams would keep the HTTP server from closing
+ */
+export function endJobProgressStreams(): void {
+  getBus().emitter.emit(SHUTDOWN_EVENT);
+}
+
+export function getLatestJobProgress(id: string): JobProgressEvent | null {
+  return getBus().latest.get(id) || null;
+}
+
+export interface ProgressReporter {
+  update: (progress: number, detail: JobProgressDetail) => void;
+  complete: (result?: Record<string, any>) => void;
+  fail: (error: string) => void;
+}
+
+/**
+ * Progress for work that runs inside an API request, published under the
+ * progress_id the page sent. Without a valid progress_id nothing is published.
+ */
+export function createProgressReporter(progressId: any, type: JobProgressType): ProgressReporter {
+  if (!isValidProgressId(progressId)) {
+    return { update: () => {}, complete: () => {}, fail: () => {} };
+  }
+
+  const startedAt = new Date().toISOString();
+  let lastProgress = 0;
+
+  return {
+    update: (progress, detail) => {
+      lastProgress = progress;
+      publishJobProgress(buildJobProgressEvent({ id: progressId, type, status: "processing", progress, detail, startedAt }));
+    },
+    complete: (result) => {
+      publishJobProgress(buildJobProgressEvent({ id: progressId, type, status: "completed", progress: 100, startedAt, result }));
+    },
+    fail: (error) => {
+      publishJobProgress(buildJobProgressEvent({ id: progressId, type, status: "failed", progress: lastProgress, startedAt, error }));
+    },
+  };
+}
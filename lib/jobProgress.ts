@@ -0,0 +1,203 @@
+/**
+ * Job Progress
+ * Live progress for video renders and exports, image and audio generation
+ * and short cuts, streamed to the editor over Server-Sent Events by
+ * /api/job_progress. Queued jobs (renders, exports, images, audio) are
+ * addressed by their job ID; short cuts run inside their request and
+ * publish under a progress_id chosen by the page that started them.
+ */
+
+export type JobProgressType = "video" | "export" | "images" | "audio" | "short";
+
+export type JobProgressStatus = "queued" | "processing" | "completed" | "failed";
+
+export type JobStage =
+  | "queued"
+  | "preparing"
+  | "downloading"
+  | "clips"
+  | "transitions"
+  | "captions"
+  | "concat"
+  | "audio"
+  | "music"
+  | "mastering"
+  | "muxing"
+  | "uploading"
+  | "finishing"
+  | "describing"
+  | "reference"
+  | "images"
+  | "saving"
+  | "narration"
+  | "cutting"
+  | "branding"
+  | "converting"
+  | "stills"
+  | "completed"
+  | "failed";
+
+export interface JobStageConfig {
+  id: JobStage;
+  name: string;
+}
+
+export const JOB_STAGES: Record<JobStage, JobStageConfig> = {
+  queued: { id: "queued", name: "Waiting in queue" },
+  preparing: { id: "preparing", name: "Preparing" },
+  downloading: { id: "downloading", name: "Downloading media" },
+  clips: { id: "clips", name: "Rendering scenes" },
+  transitions: { id: "transitions", name: "Building transitions" },
+  captions: { id: "captions", name: "Laying out captions" },
+  concat: { id: "concat", name: "Encoding video" },
+  audio: { id: "audio", name: "Leveling narration" },
+  music: { id: "music", name: "Mixing music" },
+  mastering: { id: "mastering", name: "Mastering audio" },
+  muxing: { id: "muxing", name: "Adding the soundtrack" },
+  uploading: { id: "uploading", name: "Uploading" },
+  finishing: { id: "finishing", name: "Finishing up" },
+  describing: { id: "describing", name: "Writing scene descriptions" },
+  reference: { id: "reference", name: "Drawing the reference sheet" },
+  images: { id: "images", name: "Generating images" },
+  saving: { id: "saving", name: "Saving images" },
+  narration: { id: "narration", name: "Generating narration" },
+  cutting: { id: "cutting", name: "Cutting the clip" },
+  branding: { id: "branding", name: "Applying brand kit" },
+  converting: { id: "converting", name: "Converting" },
+  stills: { id: "stills", name: "Saving scene stills" },
+  completed: { id: "completed", name: "Done" },
+  failed: { id: "failed", name: "Failed" },
+};
+
+/**
+ * Where a job is, beyond its overall percentage
+ */
+export interface JobProgressDetail {
+  stage: JobStage;
+  scenes?: { done: number; total: number } | null;  // Scenes finished in the current stage
+  ffmpeg?: { time: number; duration: number } | null;  // Seconds encoded by the running FFmpeg pass, out of its output length
+  message?: string | null;
+}
+
+export interface JobProgressEvent {
+  id: string;               // Job ID (renders) or progress_id
+  type: JobProgressType;
+  status: JobProgressStatus;
+  progress: number;         // 0-100
+  stage: JobStage;
+  stage_name: string;
+  scenes: { done: number; total: number } | null;
+  ffmpeg: { time: number; duration: number } | null;
+  message: string | null;
+  started_at: string | null;
+  eta_seconds: number | null;
+  error: string | null;
+  result: Record<string, any> | null;  // Completed jobs: what the job returned (video_url, duration...)
+}
+
+export function getJobStage(id: string | null | undefined): JobStageConfig {
+  return JOB_STAGES[id as JobStage] || JOB_STAGES.preparing;
+}
+
+export function getAllJobStages(): JobStageConfig[] {
+  return Object.values(JOB_STAGES);
+}
+
+export function isFinalJobProgress(event: Pick<JobProgressEvent, "status">): boolean {
+  return event.status === "completed" || event.status === "failed";
+}
+
+/**
+ * Seconds left, assuming the rest of the job runs at the pace so far. Null
+ * until there's enough progress for the estimate to mean anything.
+ */
+export function estimateEtaSeconds(startedAt: string | null, progress: number, now: number = Date.now()): number | null {
+  if (!startedAt || progress < 3 || progress >= 100) return null;
+  const elapsed = (now - new Date(startedAt).getTime()) / 1000;
+  if (!Number.isFinite(elapsed) || elapsed <= 0) return null;
+  return Math.round((elapsed * (100 - progress)) / progress);
+}
+
+/**
+ * "00:01:23.45" (FFmpeg's time= and fluent-ffmpeg's timemark) in seconds
+ */
+export function parseFFmpegTime(timemark: string | null | undefined): number | null {
+  const match = /(\d+):(\d{2}):(\d{2}(?:\.\d+)?)/.exec(timemark || "");
+  if (!match) return null;
+  return parseInt(match[1]) * 3600 + parseInt(match[2]) * 60 + parseFloat(match[3]);
+}
+
+/**
+ * "2m 05s" / "40s"
+ */
+export function formatEta(seconds: number | null): string {
+  if (seconds === null) return "";
+  const s = Math.max(0, Math.round(seconds));
+  return s >= 60 ? `${Math.floor(s / 60)}m ${String(s % 60).padStart(2, "0")}s` : `${s}s`;
+}
+
+/**
+ * One-line status for progress UIs: "Rendering scenes · 3/8 · ~1m 10s left"
+ */
+export function describeJobProgress(event: JobProgressEvent): string {
+  const parts = [event.stage_name];
+  if (event.scenes && event.scenes.total > 0) parts.push(`${event.scenes.done}/${event.scenes.total}`);
+  if (event.eta_seconds !== null && !isFinalJobProgress(event)) parts.push(`~${formatEta(event.eta_seconds)} left`);
+  return parts.join(" · ");
+}
+
+export function createProgressId(): string {
+  return `progress-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Browser: follow a job until it completes or fails. `onError` is called if
+ * the stream can't be opened (unknown job) or drops for good. Returns a
+ * function that stops listening.
+ */
+export function subscribeToJobProgress(
+  query: { job_id: string } | { progress_id: string; type: JobProgressType },
+  onEvent: (event: JobProgressEvent) => void,
+  onError?: () => void
+): () => void {
+  const params = new URLSearchParams(query as Record<string, string>);
+  const source = new EventSource(`/api/job_progress?${params.toString()}`);
+  let closed = false;
+
+  const close = () => {
+    closed = true;
+    source.close();
+  };
+
+  source.onmessage = (message) => {
+    const event = JSON.parse(message.data) as JobProgressEvent;
+    if (isFinalJobProgress(event)) close();
+    onEvent(event);
+  };
+
+  // EventSource reconnects by itself after a dropped connection; CLOSED means it gave up
+  source.onerror = () => {
+    if (!closed && source.readyState === EventSource.CLOSED) {
+      closed = true;
+      onError?.();
+    }
+  };
+
+  return close;
+}
+
+/**
+ * Browser: subscribeToJobProgress for a queued job, as a promise of its last
+ * event (completed or failed). Rejects if the stream drops for good.
+ */
+export function waitForJobProgress(
+  jobId: string,
+  onEvent?: (event: JobProgressEvent) => void
+): Promise<JobProgressEvent> {
+  return new Promise((resolve, reject) => {
+    subscribeToJobProgress({ job_id: jobId }, (event) => {
+      onEvent?.(event);
+      if (isFinalJobProgress(event)) resolve(event);
+    }, () => reject(new Error("Lost connection to the server")));
+  });
+}
@@ -0,0 +1,386 @@
+/**
+ * Durable Job Queue
+ *
+ * Background jobs persisted in the video_generation_jobs table (see
+ * add_job_queue.sql). API routes enqueue work and return immediately; the
+ * worker started from instrumentation.ts claims jobs, heartbeats while they
+ * run, retries failures with exponential backoff and reclaims jobs whose
+ * worker died (deploy, crash) once their lease expires.
+ */
+
+import os from "os";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { buildJobProgressEvent, publishJobProgress } from "./jobEvents";
+import type { JobProgressDetail, JobProgressEvent } from "./jobProgress";
+
+declare global {
+  var isShuttingDown: boolean | undefined;
+  var releaseActiveJobs: (() => Promise<void>) | undefined;
+}
+
+export type JobType = "video" | "export" | "images" | "audio";
+
+export type JobStatus = "queued" | "processing" | "completed" | "failed";
+
+export interface QueuedJob {
+  id: string;
+  story_id: string;
+  job_type: JobType;
+  payload: any;
+  attempts: number;
+  max_attempts: number;
+  started_at: string | null;
+}
+
+/**
+ * A handler receives the claimed job and may return extra column values
+ * to store with the completed status (e.g. video_url, duration).
+ * Throwing marks the attempt as failed.
+ */
+export type JobHandler = (job: QueuedJob) => Promise<Record<string, any> | void>;
+
+const JOBS_TABLE = "video_generation_jobs";
+const WORKER_ID = `${os.hostname()}-${process.pid}`;
+const WORKER_CONCURRENCY = parseInt(process.env.JOB_WORKER_CONCURRENCY || "2");
+const POLL_INTERVAL_MS = 5000;
+const HEARTBEAT_INTERVAL_MS = 15000;
+const LEASE_SECONDS = 90; // No heartbeat for this long = worker is gone, job can be reclaimed
+const BASE_RETRY_DELAY_MS = 30000;
+const MAX_RETRY_DELAY_MS = 10 * 60 * 1000;
+const PROGRESS_WRITE_INTERVAL_MS = 2000; // FFmpeg time updates arrive several times a second; the row only needs the latest
+
+const handlers = new Map<JobType, JobHandler>();
+const activeJobs = new Map<string, QueuedJob>();
+const lastProgressWrites = new Map<string, { at: number; progress: number; stage: string | null }>();
+let workerStarted = false;
+let polling = false;
+
+/**
+ * Thrown by assertJobActive when the job was cancelled (clear_video_job) or
+ * reclaimed by another worker while this one was running it. Not retried.
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+    Object.setPrototypeOf(this, JobCancelledError.prototype); // keeps instanceof working when compiled to ES5
+  }
+}
+
+/**
+ * Thrown by a handler for failures another attempt can't fix (e.g. the input
+ * has nothing to export). The job fails at once with this message.
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentJobError";
+    Object.setPrototypeOf(this, PermanentJobError.prototype);
+  }
+}
+
+/**
+ * Register the function that runs jobs of a given type
+ */
+export function registerJobHandler(type: JobType, handler: JobHandler): void {
+  handlers.set(type, handler);
+}
+
+/**
+ * Add a job to the queue. Returns the job ID for status polling.
+ */
+export async function enqueueJob(params: {
+  type: JobType;
+  storyId: string;
+  payload?: any;
+  maxAttempts?: number;
+}): Promise<string> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabaseAdmin
+    .from(JOBS_TABLE)
+    .insert({
+      story_id: params.storyId,
+      job_type: params.type,
+      payload: params.payload ?? null,
+      status: "queued",
+      progress: 0,
+      attempts: 0,
+      max_attempts: params.maxAttempts ?? 3,
+      run_after: now,
+      // Queued since; claiming the job resets it to when the attempt started
+      started_at: now,
+    })
+    .select("id")
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to enqueue ${params.type} job: ${error?.message}`);
+  }
+
+  return data.id;
+}
+
+/**
+ * Update job progress (0-100) and, optionally, the stage it's in. Streamed
+ * live to /api/job_progress and stored on the row (at most every couple of
+ * seconds within a stage). Also counts as a heartbeat.
+ */
+export async function updateJobProgress(jobId: string | null, progress: number, detail?: JobProgressDetail) {
+  if (!jobId) return; // Skip if jobId is null
+
+  const job = activeJobs.get(jobId);
+  publishJobProgress(buildJobProgressEvent({
+    id: jobId,
+    type: job?.job_type || "video",
+    status: "processing",
+    progress,
+    detail,
+    startedAt: job?.started_at,
+  }));
+
+  const stage = detail?.stage || null;
+  const last = lastProgressWrites.get(jobId);
+  if (last && last.progress === progress && last.stage === stage && Date.now() - last.at < PROGRESS_WRITE_INTERVAL_MS) {
+    return;
+  }
+  lastProgressWrites.set(jobId, { at: Date.now(), progress, stage });
+
+  try {
+    await supabaseAdmin
+      .from(JOBS_TABLE)
+      .update({
+        progress,
+        heartbeat_at: new Date().toISOString(),
+        ...(detail ? { stage: detail.stage, progress_detail: { scenes: detail.scenes ?? null, ffmpeg: detail.ffmpeg ?? null, message: detail.message ?? null } } : {}),
+      })
+      .eq("id", jobId);
+  } catch (err) {
+    console.warn("Failed to update job progress:", err);
+  }
+}
+
+/**
+ * Throw JobCancelledError unless this worker still holds the job. Handlers
+ * call it before steps that can't be undone (uploads, charging credits).
+ */
+export async function assertJobActive(jobId: string | null): Promise<void> {
+  if (!jobId) return;
+
+  const { data, error } = await supabaseAdmin
+    .from(JOBS_TABLE)
+    .select("status, locked_by")
+    .eq("id", jobId)
+    .maybeSingle();
+
+  // A failed lookup is not a cancellation - carry on rather than throw away a finished render
+  if (error) {
+    console.warn(`⚠️ Could not check status of job ${jobId}: ${error.message}`);
+    return;
+  }
+  if (!data || data.status !== "processing" || data.locked_by !== WORKER_ID) {
+    throw new JobCancelledError(jobId);
+  }
+}
+
+/**
+ * A job row as a progress event, for streams that can't hear the worker
+ * (it runs in another process) and for the first event of every stream.
+ */
+export function jobRowToProgressEvent(row: any): JobProgressEvent {
+  const status = row.status as JobStatus;
+  const detail = row.progress_detail || {};
+  return buildJobProgressEvent({
+    id: row.id,
+    type: row.job_type || "video",
+    status,
+    progress: status === "completed" ? 100 : row.progress || 0,
+    detail: status === "processing" && row.stage ? { stage: row.stage, scenes: detail.scenes, ffmpeg: detail.ffmpeg, message: detail.message } : null,
+    startedAt: row.started_at,
+    // A queued job with an error is waiting to retry after a failed attempt
+    error: row.error,
+    result: status === "completed" ? getJobResult(row) : null,
+  });
+}
+
+/**
+ * What a finished job hands back to the page: the columns its handler
+ * returned (video_url, duration...) and the payload it was started with
+ */
+function getJobResult(row: any): Record<string, any> {
+  const { id, story_id, job_type, status, progress, stage, progress_detail, attempts, max_attempts, run_after, locked_by, heartbeat_at, error, ...result } = row;
+  return result;
+}
+
+/**
+ * Backoff before retry N (1-based): 30s, 60s, 120s ... capped at 10 minutes
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempt - 1)), MAX_RETRY_DELAY_MS);
+}
+
+/**
+ * Start polling for jobs in this process. Safe to call more than once.
+ * Set JOB_WORKER_ENABLED=false to run a web-only instance.
+ */
+export function startJobWorker(): void {
+  if (workerStarted || process.env.JOB_WORKER_ENABLED === "false") return;
+  workerStarted = true;
+
+  // server.js calls this during graceful shutdown so a deploy hands jobs
+  // to the next instance instead of waiting for the lease to expire
+  global.releaseActiveJobs = releaseActiveJobs;
+
+  console.log(`🧵 Job worker ${WORKER_ID} started (concurrency: ${WORKER_CONCURRENCY}, types: ${Array.from(handlers.keys()).join(", ")})`);
+
+  setInterval(() => {
+    void poll();
+  }, POLL_INTERVAL_MS);
+  void poll();
+}
+
+async function poll(): Promise<void> {
+  if (polling || global.isShuttingDown || handlers.size === 0) return;
+  polling = true;
+
+  try {
+    while (activeJobs.size < WORKER_CONCURRENCY && !global.isShuttingDown) {
+      const job = await claimNextJob();
+      if (!job) break;
+
+      if (job.attempts > job.max_attempts) {
+        // Reclaimed after its worker died on the final attempt
+        await finishJob(job, {
+          status: "failed",
+          completed_at: new Date().toISOString(),
+          error: `Job abandoned after ${job.max_attempts} attempts`,
+        });
+        continue;
+      }
+
+      activeJobs.set(job.id, job);
+      void runJob(job);
+    }
+  } catch (err: any) {
+    console.error(`❌ Job worker poll failed: ${err.message || err}`);
+  } finally {
+    polling = false;
+  }
+}
+
+async function claimNextJob(): Promise<QueuedJob | null> {
+  const { data, error } = await supabaseAdmin.rpc("claim_generation_job", {
+    p_worker_id: WORKER_ID,
+    p_job_types: Array.from(handlers.keys()),
+    p_lease_seconds: LEASE_SECONDS,
+  });
+
+  if (error) throw new Error(`Failed to claim job: ${error.message}`);
+  if (!data || data.length === 0) return null;
+
+  return data[0] as QueuedJob;
+}
+
+async function runJob(job: QueuedJob): Promise<void> {
+  const handler = handlers.get(job.job_type)!;
+  console.log(`🧵 Running ${job.job_type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  const heartbeat = setInterval(() => {
+    void supabaseAdmin
+      .from(JOBS_TABLE)
+      .update({ heartbeat_at: new Date().toISOString() })
+      .eq("id", job.id)
+      .eq("locked_by", WORKER_ID)
+      .then(({ error }) => {
+        if (error) console.warn(`⚠️ Heartbeat failed for job ${job.id}: ${error.message}`);
+      });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  try {
+    const result = await handler(job);
+
+    const completed = {
+      ...(result || {}),
+      status: "completed",
+      progress: 100,
+      completed_at: new Date().toISOString(),
+      error: null,
+    };
+    await finishJob(job, completed);
+    publishJobProgress(jobRowToProgressEvent({ ...job, ...completed }));
+    console.log(`✅ Job ${job.id} completed`);
+  } catch (err: any) {
+    const message = err?.message || "Unknown error";
+
+    if (err instanceof JobCancelledError) {
+      // The row already says why (cleared by the user, or running elsewhere)
+      console.log(`🛑 Job ${job.id} stopped: no longer held by this worker`);
+    } else if (job.attempts < job.max_attempts && !(err instanceof PermanentJobError)) {
+      const delayMs = getRetryDelayMs(job.attempts);
+      await finishJob(job, {
+        status: "queued",
+        progress: 0,
+        run_after: new Date(Date.now() + delayMs).toISOString(),
+        error: message,
+      });
+      publishJobProgress(buildJobProgressEvent({
+        id: job.id,
+        type: job.job_type,
+        status: "queued",
+        progress: 0,
+        detail: { stage: "queued", message: `Attempt ${job.attempts} failed, retrying in ${Math.round(delayMs / 1000)}s` },
+        error: message,
+      }));
+      console.warn(`⚠️ Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${Math.round(delayMs / 1000)}s: ${message}`);
+    } else {
+      await finishJob(job, {
+        status: "failed",
+        completed_at: new Date().toISOString(),
+        error: message,
+      });
+      publishJobProgress(buildJobProgressEvent({ id: job.id, type: job.job_type, status: "failed", progress: 0, startedAt: job.started_at, error: message }));
+      console.error(`❌ Job ${job.id} failed after ${job.attempts} attempts: ${message}`);
+    }
+  } finally {
+    clearInterval(heartbeat);
+    activeJobs.delete(job.id);
+    lastProgressWrites.delete(job.id);
+  }
+}
+
+/**
+ * Write the outcome of an attempt. Scoped to this worker's lock so a job
+ * cancelled by the user (clear_video_job) or reclaimed elsewhere is left alone.
+ */
+async function finishJob(job: QueuedJob, update: Record<string, any>): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from(JOBS_TABLE)
+    .update({ ...update, locked_by: null })
+    .eq("id", job.id)
+    .eq("locked_by", WORKER_ID)
+    .eq("status", "processing");
+
+  if (error) {
+    console.error(`❌ Failed to update job ${job.id}: ${error.message}`);
+  }
+}
+
+/**
+ * Put every job this worker is running back on the queue. The interrupted
+ * attempt is not counted against max_attempts.
+ */
+async function releaseActiveJobs(): Promise<void> {
+  if (activeJobs.size === 0) return;
+  console.log(`🧵 Releasing ${activeJobs.size} active job(s) back to the queue`);
+
+  await Promise.all(
+    Array.from(activeJobs.values()).map((job) =>
+      finishJob(job, {
+        status: "queued",
+        progress: 0,
+        attempts: Math.max(0, job.attempts - 1),
+        run_after: new Date().toISOString(),
+      })
+    )
+  );
+  activeJobs.clear();
+}
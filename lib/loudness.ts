@@ -0,0 +1,73 @@
+/**
+ * Loudness Targets
+ * EBU R128 loudness normalization (FFmpeg loudnorm, two-pass) to the level
+ * each platform expects, with true-peak limiting
+ */
+
+export type LoudnessTargetId = "social" | "podcast" | "broadcast";
+
+export interface LoudnessTarget {
+  id: LoudnessTargetId;
+  name: string;
+  description: string;
+  integrated: number; // LUFS
+  truePeak: number;   // dBTP ceiling
+  lra: number;        // Loudness range (LU)
+}
+
+export interface LoudnessMeasurement {
+  integrated: number; // LUFS
+  truePeak: number;   // dBTP
+  lra: number;        // LU
+  threshold: number;  // LUFS
+}
+
+export interface LoudnessReport {
+  target: LoudnessTargetId;
+  target_lufs: number;
+  measured: LoudnessMeasurement;  // Final master before normalization
+  output: LoudnessMeasurement;    // Final master as delivered
+}
+
+export const DEFAULT_LOUDNESS_TARGET: LoudnessTargetId = "social";
+
+export const LOUDNESS_TARGETS: Record<LoudnessTargetId, LoudnessTarget> = {
+  social: {
+    id: "social",
+    name: "YouTube / TikTok (-14 LUFS)",
+    description: "Streaming and social platforms normalize to about -14 LUFS",
+    integrated: -14,
+    truePeak: -1,
+    lra: 11,
+  },
+
+  podcast: {
+    id: "podcast",
+    name: "Podcast (-16 LUFS)",
+    description: "Spoken word for podcast apps and Apple's -16 LUFS guideline",
+    integrated: -16,
+    truePeak: -1.5,
+    lra: 11,
+  },
+
+  broadcast: {
+    id: "broadcast",
+    name: "Broadcast (-23 LUFS)",
+    description: "EBU R128 broadcast delivery",
+    integrated: -23,
+    truePeak: -1,
+    lra: 15,
+  },
+};
+
+export function isLoudnessTarget(value: unknown): value is LoudnessTargetId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(LOUDNESS_TARGETS, value);
+}
+
+export function getLoudnessTarget(id: string | null | undefined): LoudnessTarget {
+  return isLoudnessTarget(id) ? LOUDNESS_TARGETS[id] : LOUDNESS_TARGETS[DEFAULT_LOUDNESS_TARGET];
+}
+
+export function getAllLoudnessTargets(): LoudnessTarget[] {
+  return Object.values(LOUDNESS_TARGETS);
+}
@@ -0,0 +1,67 @@
+/**
+ * Loudness measurement and normalization filters (FFmpeg loudnorm, two-pass).
+ * Server-only - targets live in lib/loudness.ts so the editor can list them.
+ */
+
+import { spawn } from "child_process";
+import type { LoudnessMeasurement, LoudnessTarget } from "./loudness";
+
+function runLoudnorm(inputPath: string, filter: string): Promise<LoudnessMeasurement> {
+  return new Promise((resolve, reject) => {
+    const args = ["-hide_banner", "-nostats", "-i", inputPath, "-vn", "-af", filter, "-f", "null", "-"];
+    const ff = spawn("ffmpeg", args, { stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+
+    ff.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    ff.on("close", (code) => {
+      if (code !== 0) return reject(new Error(`loudnorm analysis exited with code ${code}`));
+
+      // loudnorm prints its stats as the last JSON object on stderr
+      const json = stderr.slice(stderr.lastIndexOf("{"), stderr.lastIndexOf("}") + 1);
+      try {
+        const stats = JSON.parse(json);
+        resolve({
+          integrated: parseFloat(stats.input_i),
+          truePeak: parseFloat(stats.input_tp),
+          lra: parseFloat(stats.input_lra),
+          threshold: parseFloat(stats.input_thresh),
+        });
+      } catch {
+        reject(new Error("Could not parse loudnorm measurement"));
+      }
+    });
+
+    ff.on("error", (err) => reject(err));
+  });
+}
+
+/**
+ * First pass: measure integrated loudness, true peak and loudness range
+ */
+export function measureLoudness(inputPath: string, target: LoudnessTarget): Promise<LoudnessMeasurement> {
+  return runLoudnorm(inputPath, `loudnorm=I=${target.integrated}:TP=${target.truePeak}:LRA=${target.lra}:print_format=json`);
+}
+
+/**
+ * Second pass filter: linear gain to the target using the first-pass
+ * measurement, with loudnorm's true-peak limiter catching anything over the ceiling.
+ * Silent input (-inf) can't be measured, so it gets a plain limiter instead.
+ */
+export function getLoudnormFilter(target: LoudnessTarget, measured: LoudnessMeasurement): string {
+  if (!Number.isFinite(measured.integrated) || !Number.isFinite(measured.truePeak)) {
+    return `alimiter=limit=${Math.pow(10, target.truePeak / 20).toFixed(4)}`;
+  }
+  return [
+    `loudnorm=I=${target.integrated}`,
+    `TP=${target.truePeak}`,
+    `LRA=${target.lra}`,
+    `measured_I=${measured.integrated}`,
+    `measured_TP=${measured.truePeak}`,
+    `measured_LRA=${measured.lra}`,
+    `measured_thresh=${measured.threshold}`,
+    "linear=true",
+  ].join(":");
+}
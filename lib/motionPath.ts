@@ -0,0 +1,236 @@
+/**
+ * Custom Motion Paths (user-defined Ken Burns)
+ *
+ * A motion path is a list of keyframes, each framing a crop rectangle of the
+ * scene image. Rectangles are normalized (0-1) to the image as it appears in
+ * the output frame (cover-fit to the video's aspect ratio), so the same path
+ * renders identically in the browser preview, the FFmpeg zoompan filter and
+ * the Sharp frame generator.
+ *
+ * Between keyframes the zoom (1 / rect width) and the rectangle's top-left
+ * corner are interpolated linearly, shaped by the easing of the segment.
+ */
+
+export type MotionEasing = "linear" | "ease_in" | "ease_out" | "ease_in_out";
+
+export interface CropRect {
+  x: number;      // Left edge, 0-1
+  y: number;      // Top edge, 0-1
+  width: number;  // 0-1 (width === height keeps the frame's aspect ratio)
+  height: number; // 0-1
+}
+
+export interface MotionKeyframe {
+  time: number;          // Position in the scene, 0 (start) to 1 (end)
+  rect: CropRect;
+  easing?: MotionEasing; // Easing from this keyframe to the next (default ease_in_out)
+}
+
+export interface MotionPath {
+  keyframes: MotionKeyframe[];
+}
+
+export const MIN_RECT_SIZE = 0.2; // Max 5x zoom
+export const MAX_KEYFRAMES = 6;
+
+export const MOTION_EASINGS: { id: MotionEasing; name: string }[] = [
+  { id: "linear", name: "Linear" },
+  { id: "ease_in", name: "Ease In" },
+  { id: "ease_out", name: "Ease Out" },
+  { id: "ease_in_out", name: "Ease In & Out" },
+];
+
+/**
+ * Default path: full frame slowly pushing in on the center
+ */
+export function getDefaultMotionPath(): MotionPath {
+  return {
+    keyframes: [
+      { time: 0, rect: { x: 0, y: 0, width: 1, height: 1 }, easing: "ease_in_out" },
+      { time: 1, rect: { x: 0.1, y: 0.1, width: 0.8, height: 0.8 } },
+    ],
+  };
+}
+
+/**
+ * Clamp a rectangle inside the frame, keeping it square in normalized units
+ */
+export function clampRect(rect: CropRect): CropRect {
+  const size = Math.max(MIN_RECT_SIZE, Math.min(1, rect.width));
+  return {
+    x: Math.max(0, Math.min(1 - size, rect.x)),
+    y: Math.max(0, Math.min(1 - size, rect.y)),
+    width: size,
+    height: size,
+  };
+}
+
+/**
+ * Validate and normalize a motion path from user input.
+ * Returns null if it can't be used.
+ */
+export function normalizeMotionPath(input: any): MotionPath | null {
+  if (!input || !Array.isArray(input.keyframes)) return null;
+
+  const keyframes: MotionKeyframe[] = [];
+  for (const kf of input.keyframes) {
+    const rect = kf?.rect;
+    if (
+      typeof kf?.time !== "number" ||
+      !rect ||
+      ![rect.x, rect.y, rect.width].every((v: any) => typeof v === "number" && Number.isFinite(v))
+    ) {
+      return null;
+    }
+    keyframes.push({
+      time: Math.max(0, Math.min(1, kf.time)),
+      rect: clampRect(rect),
+      easing: MOTION_EASINGS.some((e) => e.id === kf.easing) ? kf.easing : "ease_in_out",
+    });
+  }
+
+  if (keyframes.length < 2 || keyframes.length > MAX_KEYFRAMES) return null;
+
+  keyframes.sort((a, b) => a.time - b.time);
+  keyframes[0].time = 0;
+  keyframes[keyframes.length - 1].time = 1;
+
+  return { keyframes };
+}
+
+function applyEasing(easing: MotionEasing | undefined, p: number): number {
+  switch (easing) {
+    case "linear":
+      return p;
+    case "ease_in":
+      return p * p;
+    case "ease_out":
+      return p * (2 - p);
+    case "ease_in_out":
+    default:
+      return (1 - Math.cos(Math.PI * p)) / 2;
+  }
+}
+
+/**
+ * Zoom and top-left corner at a point in the scene (progress 0-1)
+ */
+export function interpolateMotionPath(
+  motionPath: MotionPath,
+  progress: number
+): { zoom: number; x: number; y: number } {
+  const keyframes = motionPath.keyframes;
+  const t = Math.max(0, Math.min(1, progress));
+
+  let i = 0;
+  while (i < keyframes.length - 2 && t > keyframes[i + 1].time) i++;
+
+  const from = keyframes[i];
+  const to = keyframes[i + 1];
+  const span = to.time - from.time;
+  const p = span > 0 ? Math.max(0, Math.min(1, (t - from.time) / span)) : 1;
+  const e = applyEasing(from.easing, p);
+
+  const fromZoom = 1 / from.rect.width;
+  const toZoom = 1 / to.rect.width;
+
+  return {
+    zoom: fromZoom + (toZoom - fromZoom) * e,
+    x: from.rect.x + (to.rect.x - from.rect.x) * e,
+    y: from.rect.y + (to.rect.y - from.rect.y) * e,
+  };
+}
+
+/**
+ * FFmpeg easing expression for progress expression p (0-1)
+ */
+function easingExpr(easing: MotionEasing | undefined, p: string): string {
+  switch (easing) {
+    case "linear":
+      return p;
+    case "ease_in":
+      return `(${p})*(${p})`;
+    case "ease_out":
+      return `(${p})*(2-(${p}))`;
+    case "ease_in_out":
+    default:
+      return `(1-cos(PI*(${p})))/2`;
+  }
+}
+
+/**
+ * Build the FFmpeg filter for a motion path. The image is first cover-fit to
+ * the output size so normalized rectangles match the editor, then zoompan
+ * walks the keyframes frame by frame.
+ */
+export function buildMotionPathFilter(
+  motionPath: MotionPath,
+  width: number,
+  height: number,
+  duration: number
+): string {
+  const fps = 30;
+  const totalFrames = Math.max(1, Math.round(duration * fps));
+  const progressDiv = Math.max(1, totalFrames - 1);
+  const keyframes = motionPath.keyframes;
+
+  // Nested if() per segment: value(on) for zoom, x (fraction) and y (fraction)
+  const buildExpr = (value: (kf: MotionKeyframe) => number): string => {
+    let expr = value(keyframes[keyframes.length - 1]).toFixed(5);
+    for (let i = keyframes.length - 2; i >= 0; i--) {
+      const from = keyframes[i];
+      const to = keyframes[i + 1];
+      const startFrame = from.time * progressDiv;
+      const endFrame = to.time * progressDiv;
+      const span = Math.max(1, endFrame - startFrame);
+      const p = `clip((on-${startFrame.toFixed(2)})/${span.toFixed(2)},0,1)`;
+      const a = value(from);
+      const b = value(to);
+      const segment = `${a.toFixed(5)}+(${(b - a).toFixed(5)})*${easingExpr(from.easing, p)}`;
+      expr = `if(lte(on,${endFrame.toFixed(2)}),${segment},${expr})`;
+    }
+    return expr;
+  };
+
+  const zoomExpr = buildExpr((kf) => 1 / kf.rect.width);
+  const xExpr = buildExpr((kf) => kf.rect.x);
+  const yExpr = buildExpr((kf) => kf.rect.y);
+
+  return (
+    `scale=${width}:${height}:force_original_aspect_ratio=increase:flags=lanczos,crop=${width}:${height},` +
+    `zoompan=z='${zoomExpr}':x='iw*(${xExpr})':y='ih*(${yExpr})':d=${totalFrames}:s=${width}x${height}:fps=${fps}`
+  );
+}
+
+function cssEasing(easing: MotionEasing | undefined): string {
+  // Cubic-bezier approximations of the curves used in the render
+  switch (easing) {
+    case "linear":
+      return "linear";
+    case "ease_in":
+      return "cubic-bezier(0.11, 0, 0.5, 0)";
+    case "ease_out":
+      return "cubic-bezier(0.5, 1, 0.89, 1)";
+    case "ease_in_out":
+    default:
+      return "cubic-bezier(0.37, 0, 0.63, 1)";
+  }
+}
+
+/**
+ * CSS @keyframes for previewing a motion path on an object-cover image.
+ * Use with transform-origin: 0 0.
+ */
+export function getMotionPathCSSKeyframes(motionPath: MotionPath, animationName: string): string {
+  const steps = motionPath.keyframes
+    .map((kf) => {
+      const zoom = 1 / kf.rect.width;
+      return (
+        `${(kf.time * 100).toFixed(2)}% { ` +
+        `transform: scale(${zoom.toFixed(5)}) translate(${(-kf.rect.x * 100).toFixed(3)}%, ${(-kf.rect.y * 100).toFixed(3)}%); ` +
+        `animation-timing-function: ${cssEasing(kf.easing)}; }`
+      );
+    })
+    .join(" ");
+  return `@keyframes ${animationName} { ${steps} }`;
+}
@@ -0,0 +1,143 @@
+/**
+ * Background Music Mix
+ * Ducking (a gain envelope over the narration's speech, see
+ * lib/musicMixAudio.ts) and fades for the background music track. Shared by
+ * story renders, shorts and UGC videos.
+ */
+
+export interface MusicMixSettings {
+  duck_enabled: boolean;
+  duck_depth: number;  // dB the music drops while the narration is speaking
+  attack: number;      // ms to duck once speech starts
+  release: number;     // ms to recover once speech stops
+  fade_in: number;     // Seconds
+  fade_out: number;    // Seconds
+}
+
+export const MIN_DUCK_DEPTH = 0;
+export const MAX_DUCK_DEPTH = 30;
+export const MIN_DUCK_ATTACK = 5;
+export const MAX_DUCK_ATTACK = 1000;
+export const MIN_DUCK_RELEASE = 50;
+export const MAX_DUCK_RELEASE = 5000;
+export const MAX_MUSIC_FADE = 10;
+
+export const DEFAULT_MUSIC_MIX: MusicMixSettings = {
+  duck_enabled: true,
+  duck_depth: 12,
+  attack: 50,
+  release: 400,
+  fade_in: 1,
+  fade_out: 2,
+};
+
+// Narration level above which the music ducks, so breaths and room tone don't trigger it
+export const DUCK_THRESHOLD_DB = -36;
+// Pauses shorter than this don't count as the narration stopping
+export const DUCK_MIN_PAUSE = 0.3;
+
+/**
+ * Stretch of the narration with speech in it, in seconds
+ */
+export interface SpeechWindow {
+  start: number;
+  end: number;
+}
+
+// Sidechain inputs must share a format, and tracks come from different sources
+export const MIX_FORMAT = "aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo";
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Fill in defaults and clamp user input. Unknown or missing fields keep their defaults.
+ */
+export function normalizeMusicMix(input: any): MusicMixSettings {
+  const settings = input && typeof input === "object" && !Array.isArray(input) ? input : {};
+  const num = (value: any, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+
+  return {
+    duck_enabled: typeof settings.duck_enabled === "boolean" ? settings.duck_enabled : DEFAULT_MUSIC_MIX.duck_enabled,
+    duck_depth: clamp(num(settings.duck_depth, DEFAULT_MUSIC_MIX.duck_depth), MIN_DUCK_DEPTH, MAX_DUCK_DEPTH),
+    attack: Math.round(clamp(num(settings.attack, DEFAULT_MUSIC_MIX.attack), MIN_DUCK_ATTACK, MAX_DUCK_ATTACK)),
+    release: Math.round(clamp(num(settings.release, DEFAULT_MUSIC_MIX.release), MIN_DUCK_RELEASE, MAX_DUCK_RELEASE)),
+    fade_in: clamp(num(settings.fade_in, DEFAULT_MUSIC_MIX.fade_in), 0, MAX_MUSIC_FADE),
+    fade_out: clamp(num(settings.fade_out, DEFAULT_MUSIC_MIX.fade_out), 0, MAX_MUSIC_FADE),
+  };
+}
+
+/**
+ * Check user input before saving. Returns an error message, or null if it's usable.
+ */
+export function validateMusicMix(input: any): string | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return "mix must be an object";
+  if (input.duck_enabled !== undefined && typeof input.duck_enabled !== "boolean") return "mix.duck_enabled must be boolean";
+
+  const ranges: Record<string, [number, number]> = {
+    duck_depth: [MIN_DUCK_DEPTH, MAX_DUCK_DEPTH],
+    attack: [MIN_DUCK_ATTACK, MAX_DUCK_ATTACK],
+    release: [MIN_DUCK_RELEASE, MAX_DUCK_RELEASE],
+    fade_in: [0, MAX_MUSIC_FADE],
+    fade_out: [0, MAX_MUSIC_FADE],
+  };
+  for (const [key, [min, max]] of Object.entries(ranges)) {
+    const value = input[key];
+    if (value !== undefined && (typeof value !== "number" || value < min || value > max)) {
+      return `mix.${key} must be ${min}-${max}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * FFmpeg filter graph that loops, levels, fades and ducks the music under the
+ * voice, then mixes the two. `voice` and `music` are input pads (e.g. "0:a"),
+ * `output` is the label of the mixed result. `speech` is where the voice
+ * speaks (detectSpeechWindows) - the music sits exactly duck_depth dB lower
+ * there, ramping down over `attack` and back up over `release`.
+ */
+export function buildMusicMixFilters(
+  voice: string,
+  music: string,
+  output: string,
+  volumePercent: number,
+  duration: number,
+  settings: MusicMixSettings,
+  speech: SpeechWindow[]
+): string[] {
+  const musicChain = [MIX_FORMAT, `aloop=loop=-1:size=2e+09`, `atrim=duration=${duration.toFixed(3)}`, `volume=${(volumePercent / 100).toFixed(3)}`];
+  if (settings.fade_in > 0) musicChain.push(`afade=t=in:st=0:d=${settings.fade_in}`);
+  if (settings.fade_out > 0) {
+    const fadeOut = Math.min(settings.fade_out, duration);
+    musicChain.push(`afade=t=out:st=${Math.max(0, duration - fadeOut).toFixed(3)}:d=${fadeOut}`);
+  }
+
+  if (settings.duck_enabled && settings.duck_depth > 0 && speech.length > 0) {
+    musicChain.push(`volume='pow(10,-${settings.duck_depth}*${buildDuckEnvelope(speech, settings.attack / 1000, settings.release / 1000)}/20)':eval=frame`);
+  }
+
+  return [
+    `[${music}]${musicChain.join(",")}[bg]`,
+    `[${voice}][bg]amix=inputs=2:duration=first:dropout_transition=2:normalize=0[${output}]`,
+  ];
+}
+
+/**
+ * FFmpeg expression of t: 0 with no speech, 1 fully ducked. Each window ramps
+ * up over `attack` from its start and down over `release` after its end;
+ * overlapping windows take the larger value. The max() calls are paired up
+ * as a balanced tree so long narrations don't nest hundreds deep.
+ */
+function buildDuckEnvelope(speech: SpeechWindow[], attack: number, release: number): string {
+  const terms = speech.map(({ start, end }) =>
+    `min(clip((t-${start.toFixed(3)})/${attack.toFixed(3)},0,1),clip((${(end + release).toFixed(3)}-t)/${release.toFixed(3)},0,1))`
+  );
+  while (terms.length > 1) {
+    const paired: string[] = [];
+    for (let i = 0; i < terms.length; i += 2) {
+      paired.push(i + 1 < terms.length ? `max(${terms[i]},${terms[i + 1]})` : terms[i]);
+    }
+    terms.splice(0, terms.length, ...paired);
+  }
+  return terms[0];
+}
@@ -0,0 +1,53 @@
+/**
+ * Speech detection for music ducking (FFmpeg silencedetect).
+ * Server-only - the mix settings and filters live in lib/musicMix.ts.
+ */
+
+import { spawn } from "child_process";
+import { DUCK_THRESHOLD_DB, DUCK_MIN_PAUSE, type SpeechWindow } from "./musicMix";
+
+/**
+ * Where the voice track speaks, as the gaps between its silences. A track
+ * that never falls silent is one window; a silent one has none.
+ */
+export function detectSpeechWindows(inputPath: string, duration: number): Promise<SpeechWindow[]> {
+  return new Promise((resolve, reject) => {
+    const args = [
+      "-hide_banner", "-nostats",
+      "-i", inputPath,
+      "-vn",
+      "-af", `silencedetect=noise=${DUCK_THRESHOLD_DB}dB:d=${DUCK_MIN_PAUSE}`,
+      "-f", "null", "-",
+    ];
+    const ff = spawn("ffmpeg", args, { stdio: ["ignore", "ignore", "pipe"] });
+    let stderr = "";
+
+    ff.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    ff.on("close", (code) => {
+      if (code !== 0) return reject(new Error(`silencedetect exited with code ${code}`));
+
+      const windows: SpeechWindow[] = [];
+      let speechStart: number | null = 0;
+      const pattern = /silence_(start|end): (-?[\d.]+)/g;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(stderr))) {
+        const time = Math.max(0, Math.min(duration, parseFloat(match[2])));
+        if (match[1] === "start") {
+          if (speechStart !== null && time > speechStart) windows.push({ start: speechStart, end: time });
+          speechStart = null;
+        } else {
+          speechStart = time;
+        }
+      }
+      // Speaking (or no silence at all) through to the end
+      if (speechStart !== null && duration > speechStart) windows.push({ start: speechStart, end: duration });
+
+      resolve(windows);
+    });
+
+    ff.on("error", (err) => reject(err));
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * Scene narration: synthesize a scene's text with its voice (or per-character
+ * voices for dialogue), honor the scene's prosody and return word timestamps
+ * that match the final audio.
+ *
+ * Prosody is applied natively where the provider supports it (speed within
+ * its range, ElevenLabs <break> tags) and by FFmpeg post-processing otherwise.
+ */
+
+import fs from "fs";
+import ffmpeg from "fluent-ffmpeg";
+import { resolveVoice, getNativeSpeed, synthesizeSpeech } from "./ttsProviders";
+import { hasSpeakerTags, type CharacterVoices } from "./dialogue";
+import { synthesizeDialogue } from "./dialogueAudio";
+import {
+  DEFAULT_PROSODY,
+  getSpokenWords,
+  applyPronunciations,
+  insertBreakTags,
+  mapToSourceWords,
+  needsProsodyPostProcessing,
+  type SceneProsody,
+} from "./prosody";
+import { alignWords, applyProsody } from "./prosodyAudio";
+import type { WordTimestamp } from "./assSubtitles";
+
+export interface NarrationOptions {
+  speed?: number;                        // Multiplied with the scene's prosody speed
+  prosody?: SceneProsody | null;
+  characterVoices?: CharacterVoices | null;
+}
+
+export interface NarrationResult {
+  duration: number;
+  wordTimestamps: WordTimestamp[] | null; // null if alignment failed
+  speakers: string[];                     // Characters voiced (dialogue scenes)
+}
+
+type NarrationLogger = { info: (msg: string) => void; warn: (msg: string) => void };
+
+function ffprobeAsync(filePath: string): Promise<ffmpeg.FfprobeData> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => (err ? reject(err) : resolve(data)));
+  });
+}
+
+/**
+ * Synthesize scene text into an MP3 at `outputPath`
+ */
+export async function synthesizeNarration(
+  text: string,
+  voiceId: string,
+  outputPath: string,
+  options: NarrationOptions = {},
+  logger?: NarrationLogger
+): Promise<NarrationResult> {
+  const prosody = options.prosody || DEFAULT_PROSODY;
+  const requestedSpeed = (options.speed ?? 1.0) * prosody.speed;
+  const rawPath = outputPath.replace(/\.mp3$/, "-raw.mp3");
+
+  let wordTimestamps: WordTimestamp[] | null = null;
+  let speakers: string[] = [];
+  let residualSpeed = 1.0;
+  let nativePauses = false;
+
+  if (hasSpeakerTags(text)) {
+    // Each line handles its own speed; pauses always go through FFmpeg since they span lines
+    const dialogue = await synthesizeDialogue(
+      text,
+      voiceId,
+      options.characterVoices,
+      rawPath,
+      { speed: requestedSpeed },
+      logger,
+      prosody.pronunciations
+    );
+    wordTimestamps = dialogue.wordTimestamps;
+    speakers = dialogue.speakers;
+  } else {
+    const { provider } = resolveVoice(voiceId);
+    const nativeSpeed = getNativeSpeed(provider, requestedSpeed);
+    residualSpeed = requestedSpeed / nativeSpeed;
+    nativePauses = provider.supportsBreaks && prosody.pauses.length > 0;
+
+    const sourceWords = getSpokenWords(text);
+    const spoken = applyPronunciations(sourceWords, prosody.pronunciations);
+    const rewritten = prosody.pronunciations.length > 0 || nativePauses;
+    const alignText = rewritten ? spoken.words.join(" ") : text;
+    const ttsText = nativePauses ? insertBreakTags(spoken.words, spoken.sourceIndex, prosody.pauses) : alignText;
+
+    if (prosody.pronunciations.length > 0) logger?.info(`🔤 Applying ${prosody.pronunciations.length} pronunciation override(s)`);
+    if (nativePauses) logger?.info(`⏸️ Inserting ${prosody.pauses.length} pause(s) as ${provider.name} break tags`);
+
+    const { audio } = await synthesizeSpeech(voiceId, ttsText, { speed: nativeSpeed });
+    fs.writeFileSync(rawPath, audio);
+
+    try {
+      const aligned = await alignWords(rawPath, alignText);
+      wordTimestamps = rewritten ? mapToSourceWords(aligned, spoken.sourceIndex, sourceWords) : aligned;
+    } catch (alignErr: any) {
+      logger?.warn(`⚠️ Word alignment failed, continuing without timestamps: ${alignErr.message}`);
+    }
+  }
+
+  if (needsProsodyPostProcessing(prosody, residualSpeed, nativePauses)) {
+    logger?.info(
+      `🎚️ Applying prosody (pitch ${prosody.pitch}st, ${prosody.emphasis.length} emphasized word(s), ` +
+        `${nativePauses ? 0 : prosody.pauses.length} pause(s), residual speed ${residualSpeed.toFixed(2)}x)`
+    );
+    const processed = await applyProsody(rawPath, outputPath, wordTimestamps, prosody, { residualSpeed, nativePauses });
+    fs.unlinkSync(rawPath);
+    return { duration: processed.duration, wordTimestamps: processed.wordTimestamps, speakers };
+  }
+
+  fs.renameSync(rawPath, outputPath);
+  const info = await ffprobeAsync(outputPath);
+  return { duration: info.format?.duration || 0, wordTimestamps, speakers };
+}
@@ -0,0 +1,168 @@
+/**
+ * Overlay Blending
+ * How overlay effects (dust, light leaks, snow, film grain...) are composited
+ * over a scene. Each overlay_effects category has a default blend mode and
+ * opacity; a scene can stack several overlays and override either per overlay.
+ *
+ * FFmpeg's blend all_opacity and CSS opacity + mix-blend-mode both mix the
+ * blended result back with the scene by the same amount, so the preview and
+ * the render match.
+ */
+
+export type OverlayBlendMode =
+  | "normal"
+  | "screen"
+  | "overlay"
+  | "multiply"
+  | "add"
+  | "lighten"
+  | "darken"
+  | "soft-light"
+  | "color-dodge";
+
+export interface OverlayBlendModeConfig {
+  id: OverlayBlendMode;
+  name: string;
+  description: string;
+  ffmpeg: string; // blend filter all_mode
+  css: string;    // mix-blend-mode
+}
+
+export const OVERLAY_BLEND_MODES: Record<OverlayBlendMode, OverlayBlendModeConfig> = {
+  normal: { id: "normal", name: "Normal", description: "Covers the scene", ffmpeg: "normal", css: "normal" },
+  screen: { id: "screen", name: "Screen", description: "Lightens, black disappears", ffmpeg: "screen", css: "screen" },
+  overlay: { id: "overlay", name: "Overlay", description: "Adds contrast and texture", ffmpeg: "overlay", css: "overlay" },
+  multiply: { id: "multiply", name: "Multiply", description: "Darkens, white disappears", ffmpeg: "multiply", css: "multiply" },
+  add: { id: "add", name: "Add", description: "Bright glow, can clip highlights", ffmpeg: "addition", css: "plus-lighter" },
+  lighten: { id: "lighten", name: "Lighten", description: "Keeps the lighter pixel", ffmpeg: "lighten", css: "lighten" },
+  darken: { id: "darken", name: "Darken", description: "Keeps the darker pixel", ffmpeg: "darken", css: "darken" },
+  "soft-light": { id: "soft-light", name: "Soft light", description: "Gentle texture", ffmpeg: "softlight", css: "soft-light" },
+  "color-dodge": { id: "color-dodge", name: "Color dodge", description: "Intense highlights", ffmpeg: "dodge", css: "color-dodge" },
+};
+
+// Default compositing per overlay_effects category
+export const OVERLAY_CATEGORY_BLEND: Record<string, { blendMode: OverlayBlendMode; opacity: number }> = {
+  dust: { blendMode: "screen", opacity: 0.8 },
+  "light-leak": { blendMode: "screen", opacity: 0.9 },
+  rays: { blendMode: "add", opacity: 0.6 },
+  particles: { blendMode: "screen", opacity: 1.0 },
+  snow: { blendMode: "screen", opacity: 1.0 },
+  rain: { blendMode: "screen", opacity: 0.8 },
+  bokeh: { blendMode: "lighten", opacity: 0.8 },
+  fire: { blendMode: "add", opacity: 0.8 },
+  "film-grain": { blendMode: "overlay", opacity: 0.5 },
+  grunge: { blendMode: "multiply", opacity: 0.7 },
+  scratches: { blendMode: "multiply", opacity: 0.6 },
+  vignette: { blendMode: "multiply", opacity: 0.8 },
+  other: { blendMode: "screen", opacity: 1.0 },
+};
+
+/**
+ * An overlay on a scene. Null blend_mode / opacity use the category default.
+ */
+export interface SceneOverlay {
+  overlay_id: string;
+  overlay_url: string;
+  blend_mode: OverlayBlendMode | null;
+  opacity: number | null; // 0-1
+}
+
+export const MAX_OVERLAYS_PER_SCENE = 3;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function getOverlayBlendMode(id: string): OverlayBlendModeConfig {
+  return OVERLAY_BLEND_MODES[id as OverlayBlendMode] || OVERLAY_BLEND_MODES.screen;
+}
+
+export function getAllOverlayBlendModes(): OverlayBlendModeConfig[] {
+  return Object.values(OVERLAY_BLEND_MODES);
+}
+
+/**
+ * Default blend for a category. Categories are free text in overlay_effects,
+ * so "Light Leaks" and "light_leak" both find "light-leak".
+ */
+export function getOverlayCategoryBlend(category: string | null | undefined): { blendMode: OverlayBlendMode; opacity: number } {
+  const key = (category || "").trim().toLowerCase().replace(/[\s_]+/g, "-");
+  return OVERLAY_CATEGORY_BLEND[key] || OVERLAY_CATEGORY_BLEND[key.replace(/s$/, "")] || OVERLAY_CATEGORY_BLEND.other;
+}
+
+/**
+ * The blend mode and opacity an overlay is drawn with
+ */
+export function resolveOverlayBlend(overlay: SceneOverlay, category: string | null | undefined): { blendMode: OverlayBlendMode; opacity: number } {
+  const defaults = getOverlayCategoryBlend(category);
+  return {
+    blendMode: overlay.blend_mode ?? defaults.blendMode,
+    opacity: overlay.opacity ?? defaults.opacity,
+  };
+}
+
+/**
+ * Clean up a scene's overlay stack from user input. Returns null if `input` isn't an array.
+ */
+export function normalizeSceneOverlays(input: any): SceneOverlay[] | null {
+  if (input === null || input === undefined) return [];
+  if (!Array.isArray(input)) return null;
+
+  return input
+    .filter((o) => o && typeof o === "object" && typeof o.overlay_id === "string" && o.overlay_id && typeof o.overlay_url === "string" && o.overlay_url)
+    .slice(0, MAX_OVERLAYS_PER_SCENE)
+    .map((o): SceneOverlay => ({
+      overlay_id: o.overlay_id,
+      overlay_url: o.overlay_url,
+      blend_mode: Object.prototype.hasOwnProperty.call(OVERLAY_BLEND_MODES, o.blend_mode) ? o.blend_mode : null,
+      opacity: typeof o.opacity === "number" && Number.isFinite(o.opacity) ? clamp(o.opacity, 0, 1) : null,
+    }));
+}
+
+/**
+ * A scene's overlays, bottom first. Scenes saved before stacking have a single
+ * overlay_id / overlay_url in their effects, drawn with the category default.
+ */
+export function getSceneOverlays(effects: any): SceneOverlay[] {
+  if (!effects || typeof effects !== "object") return [];
+  if (Array.isArray(effects.overlays)) return normalizeSceneOverlays(effects.overlays) || [];
+  if (effects.overlay_id && effects.overlay_url) {
+    return [{ overlay_id: effects.overlay_id, overlay_url: effects.overlay_url, blend_mode: null, opacity: null }];
+  }
+  return [];
+}
+
+/**
+ * An overlay ready to composite: `input` is its FFmpeg input pad (e.g. "1:v")
+ */
+export interface OverlayLayerInput {
+  input: string;
+  blendMode: OverlayBlendMode;
+  opacity: number;
+}
+
+/**
+ * FFmpeg filter graph that fills the frame with each overlay (cropping to the
+ * format) and blends them over `base` in order. `base` must already be gbrp
+ * at width x height; the result is converted back to yuv420p.
+ */
+export function buildOverlayBlendFilters(
+  base: string,
+  overlays: OverlayLayerInput[],
+  width: number,
+  height: number,
+  output: string
+): string[] {
+  const filters: string[] = [];
+  let current = base;
+
+  overlays.forEach((overlay, i) => {
+    filters.push(
+      `[${overlay.input}]fps=30,scale=${width}:${height}:force_original_aspect_ratio=increase:flags=lanczos,crop=${width}:${height},setsar=1,format=gbrp[ov${i}]`
+    );
+    const next = `blended${i}`;
+    filters.push(`[${current}][ov${i}]blend=all_mode=${getOverlayBlendMode(overlay.blendMode).ffmpeg}:all_opacity=${overlay.opacity.toFixed(2)}[${next}]`);
+    current = next;
+  });
+
+  filters.push(`[${current}]format=yuv420p[${output}]`);
+  return filters;
+}
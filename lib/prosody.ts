@@ -0,0 +1,187 @@
+/**
+ * Scene Prosody
+ *
+ * Per-scene narration controls stored on scenes.prosody:
+ * - speed: pace multiplier, applied natively by the TTS provider where it can
+ *   and with FFmpeg atempo for the rest
+ * - pitch: semitones up/down (FFmpeg - no provider we use shifts pitch)
+ * - emphasis: words spoken slower and louder wherever they occur
+ * - pauses: silence after a given word (ElevenLabs <break> tags, otherwise
+ *   silence inserted into the audio)
+ * - pronunciations: say a word differently ("GIF" -> "jif") while captions
+ *   keep the original spelling
+ *
+ * Word positions (pauses) index the spoken words of the scene - the text with
+ * speaker tags removed, split on whitespace.
+ */
+
+import { stripSpeakerTags } from "./dialogue";
+
+export interface ScenePause {
+  after: number;    // Index of the spoken word the pause follows
+  duration: number; // Seconds
+}
+
+export interface PronunciationOverride {
+  word: string; // As written in the scene
+  say: string;  // What the narrator should say instead
+}
+
+export interface SceneProsody {
+  speed: number;
+  pitch: number;
+  emphasis: string[];
+  pauses: ScenePause[];
+  pronunciations: PronunciationOverride[];
+}
+
+export const MIN_PROSODY_SPEED = 0.5;
+export const MAX_PROSODY_SPEED = 2.0;
+export const MIN_PROSODY_PITCH = -6;
+export const MAX_PROSODY_PITCH = 6;
+export const MAX_PAUSE_DURATION = 3.0;
+
+// How emphasized words are stretched and boosted
+export const EMPHASIS_TEMPO = 0.85;
+export const EMPHASIS_VOLUME = 1.3;
+
+export const DEFAULT_PROSODY: SceneProsody = {
+  speed: 1.0,
+  pitch: 0,
+  emphasis: [],
+  pauses: [],
+  pronunciations: [],
+};
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+/**
+ * Words as they're spoken and captioned (speaker tags removed)
+ */
+export function getSpokenWords(text: string | null | undefined): string[] {
+  return stripSpeakerTags(text).split(/\s+/).filter(Boolean);
+}
+
+/**
+ * Compare words ignoring case and surrounding punctuation
+ */
+export function normalizeWord(word: string): string {
+  return word.toLowerCase().replace(/^[^a-z0-9\u00C0-\u024F]+|[^a-z0-9\u00C0-\u024F]+$/g, "");
+}
+
+/**
+ * Validate and normalize prosody from user input. Returns null if it can't be used.
+ */
+export function normalizeProsody(input: any): SceneProsody | null {
+  if (!input || typeof input !== "object" || Array.isArray(input)) return null;
+
+  const speed = typeof input.speed === "number" && Number.isFinite(input.speed) ? input.speed : 1.0;
+  const pitch = typeof input.pitch === "number" && Number.isFinite(input.pitch) ? input.pitch : 0;
+
+  const emphasis: string[] = Array.isArray(input.emphasis)
+    ? Array.from(new Set<string>(input.emphasis.filter((w: any) => typeof w === "string").map(normalizeWord).filter(Boolean)))
+    : [];
+
+  const pauses: ScenePause[] = Array.isArray(input.pauses)
+    ? input.pauses
+        .filter((p: any) => Number.isInteger(p?.after) && p.after >= 0 && typeof p?.duration === "number" && p.duration > 0)
+        .map((p: any) => ({ after: p.after, duration: Math.round(clamp(p.duration, 0.1, MAX_PAUSE_DURATION) * 10) / 10 }))
+        .sort((a: ScenePause, b: ScenePause) => a.after - b.after)
+    : [];
+
+  const pronunciations: PronunciationOverride[] = Array.isArray(input.pronunciations)
+    ? input.pronunciations
+        .filter((p: any) => typeof p?.word === "string" && typeof p?.say === "string" && normalizeWord(p.word) && p.say.trim())
+        .map((p: any) => ({ word: p.word.trim(), say: p.say.trim() }))
+    : [];
+
+  return {
+    speed: Math.round(clamp(speed, MIN_PROSODY_SPEED, MAX_PROSODY_SPEED) * 100) / 100,
+    pitch: Math.round(clamp(pitch, MIN_PROSODY_PITCH, MAX_PROSODY_PITCH) * 10) / 10,
+    emphasis,
+    pauses,
+    pronunciations,
+  };
+}
+
+/**
+ * Whether the audio needs FFmpeg post-processing after synthesis
+ */
+export function needsProsodyPostProcessing(prosody: SceneProsody, residualSpeed: number, nativePauses: boolean): boolean {
+  return (
+    prosody.pitch !== 0 ||
+    Math.abs(residualSpeed - 1) > 0.01 ||
+    prosody.emphasis.length > 0 ||
+    (!nativePauses && prosody.pauses.length > 0)
+  );
+}
+
+/**
+ * Replace words that have pronunciation overrides. `sourceIndex` maps each
+ * word of the returned text back to the word it came from, so alignment
+ * against the spoken text can be mapped onto the original captions.
+ */
+export function applyPronunciations(
+  words: string[],
+  overrides: PronunciationOverride[]
+): { words: string[]; sourceIndex: number[] } {
+  const lookup = new Map(overrides.map((o) => [normalizeWord(o.word), o.say]));
+  const out: string[] = [];
+  const sourceIndex: number[] = [];
+
+  words.forEach((word, i) => {
+    const say = lookup.get(normalizeWord(word));
+    if (!say) {
+      out.push(word);
+      sourceIndex.push(i);
+      return;
+    }
+    // Keep trailing punctuation so sentence pauses survive the substitution
+    const trailing = word.match(/[^A-Za-z0-9\u00C0-\u024F]+$/)?.[0] || "";
+    const replacement = say.split(/\s+/).filter(Boolean);
+    replacement.forEach((w, j) => {
+      out.push(j === replacement.length - 1 ? w + trailing : w);
+      sourceIndex.push(i);
+    });
+  });
+
+  return { words: out, sourceIndex };
+}
+
+/**
+ * Insert SSML <break> tags for providers that honor them natively
+ */
+export function insertBreakTags(words: string[], sourceIndex: number[], pauses: ScenePause[]): string {
+  const pauseAfter = new Map(pauses.map((p) => [p.after, p.duration]));
+  return words
+    .map((word, i) => {
+      const isLastOfSource = sourceIndex[i + 1] !== sourceIndex[i];
+      const pause = isLastOfSource ? pauseAfter.get(sourceIndex[i]) : undefined;
+      return pause ? `${word} <break time="${pause.toFixed(1)}s" />` : word;
+    })
+    .join(" ");
+}
+
+/**
+ * Map timestamps aligned against pronunciation-substituted text back onto the
+ * original words. Falls back to the aligned words if the counts don't line up.
+ */
+export function mapToSourceWords<T extends { word: string; start: number; end: number }>(
+  aligned: T[],
+  sourceIndex: number[],
+  sourceWords: string[]
+): T[] {
+  if (aligned.length !== sourceIndex.length) return aligned;
+
+  const mapped: T[] = [];
+  aligned.forEach((wt, i) => {
+    const source = sourceIndex[i];
+    const previous = mapped[mapped.length - 1];
+    if (i > 0 && sourceIndex[i - 1] === source && previous) {
+      previous.end = wt.end;
+    } else {
+      mapped.push({ ...wt, word: sourceWords[source] });
+    }
+  });
+  return mapped;
+}
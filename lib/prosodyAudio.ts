@@ -0,0 +1,188 @@
+/**
+ * Prosody post-processing for narration audio. Anything the TTS provider
+ * couldn't do natively is applied with FFmpeg:
+ * - emphasis: the word's span is slowed (atempo) and boosted
+ * - pauses: silence spliced in after the word
+ * - pitch: asetrate + atempo, which shifts pitch while keeping duration
+ * - remaining speed: atempo over the whole track
+ *
+ * Word timestamps are remapped through the same edits so captions stay in sync.
+ */
+
+import ffmpeg from "fluent-ffmpeg";
+import * as Echogarden from "echogarden";
+import type { WordTimestamp } from "./assSubtitles";
+import { EMPHASIS_TEMPO, EMPHASIS_VOLUME, normalizeWord, type SceneProsody } from "./prosody";
+
+const SAMPLE_RATE = 44100;
+
+interface AudioPiece {
+  start: number;     // Source time (silence pieces have start === end)
+  end: number;
+  stretch: number;   // Output duration / source duration
+  emphasized: boolean;
+  silence: number;   // Seconds of silence (silence pieces only)
+}
+
+function ffprobeAsync(filePath: string): Promise<ffmpeg.FfprobeData> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => (err ? reject(err) : resolve(data)));
+  });
+}
+
+/**
+ * atempo only accepts 0.5-2.0 per instance, so chain it for larger changes
+ */
+export function atempoChain(factor: number): string[] {
+  const filters: string[] = [];
+  let remaining = factor;
+  while (remaining > 2.0) {
+    filters.push("atempo=2.0");
+    remaining /= 2.0;
+  }
+  while (remaining < 0.5) {
+    filters.push("atempo=0.5");
+    remaining /= 0.5;
+  }
+  if (Math.abs(remaining - 1) > 0.001) filters.push(`atempo=${remaining.toFixed(4)}`);
+  return filters;
+}
+
+/**
+ * Forced alignment of narration audio against the text that was spoken
+ */
+export async function alignWords(audioPath: string, text: string): Promise<WordTimestamp[]> {
+  const alignment = await Echogarden.align(audioPath, text, { engine: "dtw", language: "en" });
+  return alignment.wordTimeline.map((entry: any) => ({
+    word: entry.text,
+    start: entry.startTime,
+    end: entry.endTime,
+  }));
+}
+
+/**
+ * Split the track at emphasized words and pause points
+ */
+function buildPieces(
+  duration: number,
+  wordTimestamps: WordTimestamp[],
+  prosody: SceneProsody,
+  includePauses: boolean
+): AudioPiece[] {
+  const emphasis = new Set(prosody.emphasis);
+  const pauseAfter = new Map(includePauses ? prosody.pauses.map((p) => [p.after, p.duration]) : []);
+  const pieces: AudioPiece[] = [];
+  let cursor = 0;
+
+  const pushAudio = (end: number, emphasized: boolean) => {
+    if (end - cursor < 0.001) return;
+    pieces.push({ start: cursor, end, stretch: emphasized ? 1 / EMPHASIS_TEMPO : 1, emphasized, silence: 0 });
+    cursor = end;
+  };
+
+  wordTimestamps.forEach((wt, i) => {
+    if (emphasis.has(normalizeWord(wt.word))) {
+      pushAudio(Math.max(cursor, wt.start), false);
+      pushAudio(Math.max(cursor, wt.end), true);
+    }
+    const pause = pauseAfter.get(i);
+    if (pause) {
+      pushAudio(Math.max(cursor, wt.end), false);
+      pieces.push({ start: cursor, end: cursor, stretch: 1, emphasized: false, silence: pause });
+    }
+  });
+  pushAudio(duration, false);
+
+  return pieces;
+}
+
+/**
+ * Map a source time onto the edited timeline
+ */
+function mapTime(t: number, pieces: AudioPiece[]): number {
+  let out = 0;
+  for (const piece of pieces) {
+    if (piece.silence > 0) {
+      // Only reached when t lies past the word the pause follows
+      out += piece.silence;
+      continue;
+    }
+    if (t <= piece.start) break;
+    const within = Math.min(t, piece.end) - piece.start;
+    out += within * piece.stretch;
+    if (t <= piece.end) break;
+  }
+  return out;
+}
+
+/**
+ * Apply prosody to `inputPath` and write the result to `outputPath`.
+ * Pass null timestamps if alignment failed - emphasis and pauses are then skipped.
+ */
+export async function applyProsody(
+  inputPath: string,
+  outputPath: string,
+  wordTimestamps: WordTimestamp[] | null,
+  prosody: SceneProsody,
+  options: { residualSpeed: number; nativePauses: boolean }
+): Promise<{ duration: number; wordTimestamps: WordTimestamp[] | null }> {
+  const info = await ffprobeAsync(inputPath);
+  const sourceDuration = info.format?.duration || 0;
+
+  const pieces = wordTimestamps
+    ? buildPieces(sourceDuration, wordTimestamps, prosody, !options.nativePauses)
+    : [{ start: 0, end: sourceDuration, stretch: 1, emphasized: false, silence: 0 }];
+
+  // Per-piece trims (emphasis slowed and boosted, pauses as generated silence)
+  const audioPieces = pieces.filter((p) => p.silence === 0);
+  const filters: string[] = [
+    `[0:a]aresample=${SAMPLE_RATE},aformat=sample_fmts=fltp:channel_layouts=mono,asplit=${Math.max(1, audioPieces.length)}${audioPieces.map((_, i) => `[src${i}]`).join("")}`,
+  ];
+  let audioIndex = 0;
+  pieces.forEach((piece, i) => {
+    if (piece.silence > 0) {
+      filters.push(`anullsrc=r=${SAMPLE_RATE}:cl=mono,atrim=duration=${piece.silence.toFixed(3)},aformat=sample_fmts=fltp:channel_layouts=mono[p${i}]`);
+      return;
+    }
+    const chain = [`atrim=start=${piece.start.toFixed(4)}:end=${piece.end.toFixed(4)}`, "asetpts=PTS-STARTPTS"];
+    if (piece.emphasized) chain.push(`atempo=${EMPHASIS_TEMPO}`, `volume=${EMPHASIS_VOLUME}`);
+    filters.push(`[src${audioIndex++}]${chain.join(",")}[p${i}]`);
+  });
+
+  // Whole-track pitch and speed
+  const pitchFactor = Math.pow(2, prosody.pitch / 12);
+  const trackChain: string[] = [];
+  if (prosody.pitch !== 0) {
+    trackChain.push(`asetrate=${Math.round(SAMPLE_RATE * pitchFactor)}`, `aresample=${SAMPLE_RATE}`, ...atempoChain(1 / pitchFactor));
+  }
+  trackChain.push(...atempoChain(options.residualSpeed));
+
+  filters.push(
+    `${pieces.map((_, i) => `[p${i}]`).join("")}concat=n=${pieces.length}:v=0:a=1` +
+      (trackChain.length ? `,${trackChain.join(",")}` : "") +
+      "[out]"
+  );
+
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(inputPath)
+      .complexFilter(filters.join(";"))
+      .outputOptions(["-map [out]", "-c:a libmp3lame", "-b:a 192k"])
+      .output(outputPath)
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+
+  const outInfo = await ffprobeAsync(outputPath);
+  const duration = outInfo.format?.duration || 0;
+
+  const remapped = wordTimestamps
+    ? wordTimestamps.map((wt) => ({
+        ...wt,
+        start: mapTime(wt.start, pieces) / options.residualSpeed,
+        end: mapTime(wt.end, pieces) / options.residualSpeed,
+      }))
+    : null;
+
+  return { duration, wordTimestamps: remapped };
+}
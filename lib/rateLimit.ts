@@ -86,6 +86,9 @@ export const RateLimits = {
   // Audio generation
   AUDIO_GENERATION: { interval: 60000, maxRequests: 5 }, // 5 batches/min
 
+  // Caption emphasis/emoji tagging (LLM call per story)
+  CAPTION_TAGGING: { interval: 60000, maxRequests: 10 }, // 10 runs/min
+
   // Auth endpoints (prevent brute force)
   AUTH: { interval: 300000, maxRequests: 10 }, // 10 attempts/5min
 
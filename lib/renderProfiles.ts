@@ -0,0 +1,111 @@
+/**
+ * Render Quality Profiles
+ * Output resolution and encoder settings for each quality tier
+ */
+
+export type RenderQuality = "draft" | "720p" | "1080p" | "4k";
+
+export interface RenderProfile {
+  id: RenderQuality;
+  name: string;
+  description: string;
+  shortSide: number;    // Pixels on the shorter edge of the frame
+  squareSide: number;   // Edge of 1:1 frames
+  crf: number;          // Final encode
+  preset: string;
+  clipCrf: number;      // Intermediate per-scene clips (re-encoded at concat, so kept higher quality)
+  clipPreset: string;
+  audioBitrate: string;
+}
+
+export const DEFAULT_RENDER_QUALITY: RenderQuality = "4k";
+
+export const RENDER_PROFILES: Record<RenderQuality, RenderProfile> = {
+  draft: {
+    id: "draft",
+    name: "Draft (540p)",
+    description: "Fast, small file for reviewing timing and edits",
+    shortSide: 540,
+    squareSide: 540,
+    crf: 28,
+    preset: "ultrafast",
+    clipCrf: 24,
+    clipPreset: "ultrafast",
+    audioBitrate: "128k",
+  },
+
+  "720p": {
+    id: "720p",
+    name: "HD (720p)",
+    description: "Good for quick sharing and messaging apps",
+    shortSide: 720,
+    squareSide: 720,
+    crf: 22,
+    preset: "fast",
+    clipCrf: 19,
+    clipPreset: "veryfast",
+    audioBitrate: "192k",
+  },
+
+  "1080p": {
+    id: "1080p",
+    name: "Full HD (1080p)",
+    description: "Standard quality for TikTok, Reels and YouTube",
+    shortSide: 1080,
+    squareSide: 1080,
+    crf: 20,
+    preset: "fast",
+    clipCrf: 17,
+    clipPreset: "fast",
+    audioBitrate: "256k",
+  },
+
+  "4k": {
+    id: "4k",
+    name: "Ultra HD (4K)",
+    description: "Maximum quality - slowest render and largest file",
+    shortSide: 2160,
+    squareSide: 3840, // Square 4K has always been rendered at 3840x3840
+    crf: 18,
+    preset: "fast",
+    clipCrf: 15,
+    clipPreset: "medium",
+    audioBitrate: "256k",
+  },
+};
+
+/**
+ * Get profile by ID with fallback to the default quality
+ */
+export function getRenderProfile(quality: string | null | undefined): RenderProfile {
+  return RENDER_PROFILES[quality as RenderQuality] || RENDER_PROFILES[DEFAULT_RENDER_QUALITY];
+}
+
+/**
+ * Get all profiles as an array (lowest to highest quality)
+ */
+export function getAllRenderProfiles(): RenderProfile[] {
+  return Object.values(RENDER_PROFILES);
+}
+
+/**
+ * Output dimensions for an aspect ratio ("9:16") at a quality tier.
+ * Both edges are rounded to even numbers as required by yuv420p.
+ */
+export function getRenderDimensions(aspectRatio: string, quality: string | null | undefined): { width: number; height: number } {
+  const profile = getRenderProfile(quality);
+  const [ratioW, ratioH] = aspectRatio.split(":").map(Number);
+  const even = (n: number) => Math.round(n / 2) * 2;
+
+  if (!ratioW || !ratioH) {
+    return { width: profile.shortSide, height: even((profile.shortSide * 16) / 9) };
+  }
+
+  if (ratioW === ratioH) {
+    return { width: profile.squareSide, height: profile.squareSide };
+  }
+  if (ratioW >= ratioH) {
+    return { width: even((profile.shortSide * ratioW) / ratioH), height: profile.shortSide };
+  }
+  return { width: profile.shortSide, height: even((profile.shortSide * ratioH) / ratioW) };
+}
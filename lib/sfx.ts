@@ -0,0 +1,131 @@
+/**
+ * Sound Effects
+ * Timed SFX cues on a scene, anchored to a word of the narration or to a time
+ * offset from the start of the scene. Clips come from sound_effects_library.
+ */
+
+import type { WordTimestamp } from "./assSubtitles";
+import { MIX_FORMAT } from "./musicMix";
+
+export type SfxCategory = "whoosh" | "impact" | "ui" | "nature" | "ambience" | "human" | "other";
+
+export type SfxAnchor = "word" | "time";
+
+export interface SfxCue {
+  id: string;
+  sfx_id: string;         // sound_effects_library row
+  name: string;
+  url: string;
+  anchor: SfxAnchor;
+  word_index: number | null; // Spoken word the cue starts on (anchor "word")
+  offset: number;         // Seconds from the word's start, or from the scene start (anchor "time")
+  volume: number;         // Percent
+  fade_in: number;        // Seconds
+  fade_out: number;       // Seconds
+}
+
+export const SFX_CATEGORIES: Record<SfxCategory, { id: SfxCategory; name: string }> = {
+  whoosh: { id: "whoosh", name: "Whooshes & Transitions" },
+  impact: { id: "impact", name: "Impacts & Hits" },
+  ui: { id: "ui", name: "UI & Clicks" },
+  nature: { id: "nature", name: "Nature" },
+  ambience: { id: "ambience", name: "Ambience" },
+  human: { id: "human", name: "Human & Crowd" },
+  other: { id: "other", name: "Other" },
+};
+
+export const MAX_SFX_CUES_PER_SCENE = 20;
+export const MIN_SFX_OFFSET = -5;
+export const MAX_SFX_OFFSET = 60;
+export const MAX_SFX_VOLUME = 200;
+export const MAX_SFX_FADE = 5;
+export const DEFAULT_SFX_VOLUME = 80;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function getSfxCategory(id: string): { id: SfxCategory; name: string } {
+  return SFX_CATEGORIES[id as SfxCategory] || SFX_CATEGORIES.other;
+}
+
+export function getAllSfxCategories(): { id: SfxCategory; name: string }[] {
+  return Object.values(SFX_CATEGORIES);
+}
+
+/**
+ * Clean up a scene's cue list from user input. Cues without a clip are dropped,
+ * everything else is clamped to usable ranges. Returns null if `input` isn't an array.
+ */
+export function normalizeSfxCues(input: any): SfxCue[] | null {
+  if (input === null || input === undefined) return [];
+  if (!Array.isArray(input)) return null;
+
+  const num = (value: any, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+
+  return input
+    .filter((cue) => cue && typeof cue === "object" && typeof cue.url === "string" && cue.url)
+    .slice(0, MAX_SFX_CUES_PER_SCENE)
+    .map((cue, i): SfxCue => {
+      const wordIndex = typeof cue.word_index === "number" && cue.word_index >= 0 ? Math.floor(cue.word_index) : null;
+      const anchor: SfxAnchor = cue.anchor === "word" && wordIndex !== null ? "word" : "time";
+      return {
+        id: typeof cue.id === "string" && cue.id ? cue.id : `cue-${Date.now()}-${i}`,
+        sfx_id: typeof cue.sfx_id === "string" ? cue.sfx_id : "",
+        name: typeof cue.name === "string" && cue.name.trim() ? cue.name.trim() : "Sound effect",
+        url: cue.url,
+        anchor,
+        word_index: anchor === "word" ? wordIndex : null,
+        offset: clamp(num(cue.offset, 0), anchor === "word" ? MIN_SFX_OFFSET : 0, MAX_SFX_OFFSET),
+        volume: Math.round(clamp(num(cue.volume, DEFAULT_SFX_VOLUME), 0, MAX_SFX_VOLUME)),
+        fade_in: clamp(num(cue.fade_in, 0), 0, MAX_SFX_FADE),
+        fade_out: clamp(num(cue.fade_out, 0), 0, MAX_SFX_FADE),
+      };
+    });
+}
+
+/**
+ * Seconds from the start of the scene at which a cue plays. Word-anchored cues
+ * follow the narration's word timestamps; if the word no longer exists (the
+ * text was edited) the offset counts from the scene start instead.
+ */
+export function getCueStartTime(cue: SfxCue, wordTimestamps: WordTimestamp[] | null | undefined): number {
+  if (cue.anchor === "word" && cue.word_index !== null && wordTimestamps?.[cue.word_index]) {
+    return Math.max(0, wordTimestamps[cue.word_index].start + cue.offset);
+  }
+  return Math.max(0, cue.offset);
+}
+
+/**
+ * A cue placed on the story timeline, with its clip downloaded. `start` is in
+ * seconds from the start of the video, `duration` is the clip length (0 if unknown).
+ */
+export interface PlacedSfxCue {
+  input: string;
+  start: number;
+  duration: number;
+  volume: number;
+  fade_in: number;
+  fade_out: number;
+}
+
+/**
+ * FFmpeg filter graph that levels, fades and delays each cue onto the timeline
+ * and mixes them over `base` (e.g. "0:a"). The result keeps the base's length.
+ */
+export function buildSfxMixFilters(base: string, cues: PlacedSfxCue[], output: string): string[] {
+  const filters = [`[${base}]${MIX_FORMAT}[sfxbed]`];
+
+  cues.forEach((cue, i) => {
+    const chain = [MIX_FORMAT, `volume=${(cue.volume / 100).toFixed(3)}`];
+    if (cue.fade_in > 0) chain.push(`afade=t=in:st=0:d=${cue.fade_in}`);
+    if (cue.fade_out > 0 && cue.duration > 0) {
+      const fadeOut = Math.min(cue.fade_out, cue.duration);
+      chain.push(`afade=t=out:st=${Math.max(0, cue.duration - fadeOut).toFixed(3)}:d=${fadeOut}`);
+    }
+    chain.push(`adelay=${Math.round(cue.start * 1000)}:all=1`);
+    filters.push(`[${cue.input}]${chain.join(",")}[sfx${i}]`);
+  });
+
+  const inputs = ["[sfxbed]", ...cues.map((_, i) => `[sfx${i}]`)].join("");
+  filters.push(`${inputs}amix=inputs=${cues.length + 1}:duration=first:dropout_transition=0:normalize=0[${output}]`);
+  return filters;
+}
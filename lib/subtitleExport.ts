@@ -0,0 +1,331 @@
+/**
+ * Subtitle Export
+ * Sidecar caption files (SRT, WebVTT, ASS) built from the stored
+ * word_timestamps of a story, short or UGC video, for uploading soft
+ * captions to YouTube and other platforms. Served by /api/export_subtitles.
+ *
+ * SRT and VTT get readable cues of a sentence or a line; VTT can also carry
+ * word-level timing (karaoke timestamps). ASS is the same word-by-word file
+ * that is burned into renders, styled from the caption settings.
+ */
+
+import { generateWordByWordASS, getASSFontName, hexToASSColour, type WordTimestamp } from "./assSubtitles";
+import { SPEAKER_COLORS } from "./dialogue";
+import { getCaptionAnimation } from "./captionAnimations";
+import { DEFAULT_EMPHASIS_COLOR } from "./captionEmphasis";
+import { normalizeCaptionLayout, resolveCaptionBox } from "./captionLayout";
+
+export type SubtitleFormat = "srt" | "vtt" | "ass";
+
+export type SubtitleSource = "story" | "short" | "ugc";
+
+export interface SubtitleFormatConfig {
+  id: SubtitleFormat;
+  name: string;
+  description: string;
+  extension: string;
+  contentType: string;
+}
+
+export const SUBTITLE_FORMATS: Record<SubtitleFormat, SubtitleFormatConfig> = {
+  srt: {
+    id: "srt",
+    name: "SRT",
+    description: "SubRip - accepted everywhere (YouTube, Facebook, LinkedIn)",
+    extension: "srt",
+    contentType: "application/x-subrip",
+  },
+  vtt: {
+    id: "vtt",
+    name: "WebVTT",
+    description: "Web captions, optionally with word-level timing",
+    extension: "vtt",
+    contentType: "text/vtt",
+  },
+  ass: {
+    id: "ass",
+    name: "ASS",
+    description: "Styled word-by-word captions, as burned into the video",
+    extension: "ass",
+    contentType: "text/x-ssa",
+  },
+};
+
+/**
+ * The choices download menus offer - VTT twice, with and without word timing
+ */
+export const SUBTITLE_DOWNLOAD_OPTIONS: Array<{ id: string; label: string; format: SubtitleFormat; wordTiming: boolean }> = [
+  { id: "srt", label: "SRT", format: "srt", wordTiming: false },
+  { id: "vtt", label: "WebVTT", format: "vtt", wordTiming: false },
+  { id: "vtt-words", label: "WebVTT (word timing)", format: "vtt", wordTiming: true },
+  { id: "ass", label: "ASS (styled)", format: "ass", wordTiming: false },
+];
+
+/**
+ * One caption on screen. `words` carries the per-word timing when the
+ * text came from word_timestamps.
+ */
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string;
+  words?: WordTimestamp[];
+}
+
+/**
+ * A stretch of the timeline: a scene or clip with its offset in the video
+ */
+export interface SubtitleSegment {
+  offset: number;
+  duration: number;
+  text: string;                           // Spoken text (speaker tags stripped)
+  words: WordTimestamp[] | null;          // Relative to the segment start
+}
+
+const MAX_CUE_CHARS = 84;        // Two lines of 42, the usual broadcast limit
+const MAX_CUE_SECONDS = 6;
+const MIN_CUE_SECONDS = 0.8;
+const PAUSE_BREAK_SECONDS = 1;   // A pause this long starts a new cue
+
+export function isSubtitleFormat(value: any): value is SubtitleFormat {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(SUBTITLE_FORMATS, value);
+}
+
+export function getSubtitleFormat(id: string): SubtitleFormatConfig {
+  return SUBTITLE_FORMATS[id as SubtitleFormat] || SUBTITLE_FORMATS.srt;
+}
+
+export function getAllSubtitleFormats(): SubtitleFormatConfig[] {
+  return Object.values(SUBTITLE_FORMATS);
+}
+
+/**
+ * All words on the video's timeline, segments laid end to end - the same
+ * timing the render uses for burned-in captions
+ */
+export function getTimelineWords(segments: SubtitleSegment[]): WordTimestamp[] {
+  const words: WordTimestamp[] = [];
+  for (const segment of segments) {
+    for (const word of segment.words || []) {
+      words.push({ ...word, start: word.start + segment.offset, end: word.end + segment.offset });
+    }
+  }
+  return words;
+}
+
+/**
+ * Readable cues: words grouped until a sentence ends, the speaker changes,
+ * the speaker pauses or the cue gets too long. Segments without word
+ * timestamps become one cue over their whole duration.
+ */
+export function buildSubtitleCues(segments: SubtitleSegment[]): SubtitleCue[] {
+  const cues: SubtitleCue[] = [];
+
+  for (const segment of segments) {
+    if (!segment.words?.length) {
+      if (segment.text.trim() && segment.duration > 0) {
+        cues.push({ start: segment.offset, end: segment.offset + segment.duration, text: segment.text.trim() });
+      }
+      continue;
+    }
+
+    let current: WordTimestamp[] = [];
+    const flush = () => {
+      if (current.length === 0) return;
+      cues.push({
+        start: current[0].start + segment.offset,
+        end: current[current.length - 1].end + segment.offset,
+        text: current.map((w) => w.word).join(" "),
+        ...(current[0].speaker ? { speaker: current[0].speaker } : {}),
+        words: current.map((w) => ({ ...w, start: w.start + segment.offset, end: w.end + segment.offset })),
+      });
+      current = [];
+    };
+
+    for (const word of segment.words) {
+      const previous = current[current.length - 1];
+      if (previous) {
+        const text = [...current, word].map((w) => w.word).join(" ");
+        if (
+          word.speaker !== previous.speaker ||
+          word.start - previous.end >= PAUSE_BREAK_SECONDS ||
+          text.length > MAX_CUE_CHARS ||
+          word.end - current[0].start > MAX_CUE_SECONDS
+        ) {
+          flush();
+        }
+      }
+
+      current.push(word);
+      if (/[.!?]["')\]]*$/.test(word.word)) flush();
+    }
+    flush();
+  }
+
+  // Short cues linger a little, but never into the next one
+  return cues.map((cue, i) => {
+    const next = cues[i + 1];
+    const end = Math.max(cue.end, cue.start + MIN_CUE_SECONDS);
+    return { ...cue, end: next ? Math.min(end, next.start) : end };
+  });
+}
+
+/**
+ * "00:01:02,345" (SRT) or "00:01:02.345" (VTT)
+ */
+function formatTimestamp(seconds: number, separator: "," | "."): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const secs = Math.floor((totalMs % 60000) / 1000);
+  const millis = totalMs % 1000;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}:${String(secs).padStart(2, "0")}${separator}${String(millis).padStart(3, "0")}`;
+}
+
+/**
+ * Break a cue's text into at most two lines of roughly equal length
+ */
+function wrapCueText(text: string): string {
+  if (text.length <= MAX_CUE_CHARS / 2) return text;
+
+  const words = text.split(" ");
+  let best = text;
+  let bestDiff = Infinity;
+  for (let i = 1; i < words.length; i++) {
+    const first = words.slice(0, i).join(" ");
+    const second = words.slice(i).join(" ");
+    const diff = Math.abs(first.length - second.length);
+    if (diff < bestDiff) {
+      bestDiff = diff;
+      best = `${first}\n${second}`;
+    }
+  }
+  return best;
+}
+
+export function generateSRT(cues: SubtitleCue[]): string {
+  return cues
+    .map((cue, i) => {
+      const text = cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+      return `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${wrapCueText(text)}\n`;
+    })
+    .join("\n");
+}
+
+const escapeVTT = (text: string) => text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+/**
+ * WebVTT. With `wordTiming`, every word after the first is preceded by its
+ * start time (<00:00:01.200>), which players use to reveal or highlight words.
+ */
+export function generateVTT(cues: SubtitleCue[], options: { wordTiming?: boolean } = {}): string {
+  const body = cues.map((cue) => {
+    let text: string;
+    if (options.wordTiming && cue.words?.length) {
+      text = cue.words
+        .map((word, i) => (i === 0 ? escapeVTT(word.word) : `<${formatTimestamp(word.start, ".")}>${escapeVTT(word.word)}`))
+        .join(" ");
+    } else {
+      text = wrapCueText(escapeVTT(cue.text));
+    }
+    if (cue.speaker) text = `<v ${escapeVTT(cue.speaker)}>${text}`;
+    return `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${text}\n`;
+  });
+
+  return `WEBVTT\n\n${body.join("\n")}`;
+}
+
+/**
+ * Standalone ASS in the caption style (the caption settings saved with the
+ * story, short or UGC video). `fontScale` converts the editor preview's font
+ * size to the video's, as in the render.
+ */
+export function generateCaptionASS(
+  words: WordTimestamp[],
+  captions: any,
+  options: { width: number; height: number; fontScale: number; fullText?: string }
+): string {
+  const { width, height, fontScale } = options;
+  const { fontName, bold } = getASSFontName(captions?.fontFamily || "Montserrat", captions?.fontWeight || 600);
+  const fontSize = Math.round((captions?.fontSize || 20) * fontScale);
+  const box = resolveCaptionBox(normalizeCaptionLayout(captions), { fontSize, width, height });
+  const toColour = (hex: string) => hexToASSColour(hex).replace(/&$/, "");
+
+  // Dialogue: each character gets a caption color in order of first line
+  const speakerColors: Record<string, string> = {};
+  if (captions?.speakerColors !== false) {
+    for (const word of words) {
+      if (word.speaker && !speakerColors[word.speaker]) {
+        speakerColors[word.speaker] = toColour(SPEAKER_COLORS[Object.keys(speakerColors).length % SPEAKER_COLORS.length]);
+      }
+    }
+  }
+
+  return generateWordByWordASS(
+    words,
+    {
+      name: "Custom",
+      fontName,
+      fontSize,
+      primaryColour: toColour(captions?.inactiveColor || "#FFFFFF"),
+      bold,
+      italic: 0,
+      outline: 0,
+      shadow: 3,
+      alignment: 2,
+      marginV: Math.round((box.bottom / 100) * height),
+    },
+    toColour(captions?.activeColor || "#FFEB3B"),
+    captions?.wordsPerBatch || 0,
+    captions?.textTransform || "none",
+    options.fullText,
+    width,
+    height,
+    speakerColors,
+    getCaptionAnimation(captions?.animation).id,
+    {
+      emphasisColour: captions?.emphasis !== false ? toColour(captions?.emphasisColor || DEFAULT_EMPHASIS_COLOR) : null,
+      emojis: captions?.emojis !== false,
+    },
+    {
+      x: Math.round((box.x / 100) * width),
+      y: Math.round(height - (box.bottom / 100) * height),
+      maxChars: box.maxChars,
+      maxLines: box.maxLines,
+    }
+  );
+}
+
+/**
+ * Browser: fetch a subtitle file from /api/export_subtitles and save it
+ */
+export async function downloadSubtitles(
+  query: { source: SubtitleSource; id: string; format: SubtitleFormat; word_timing?: boolean },
+  accessToken: string,
+  fileName: string
+): Promise<void> {
+  const params = new URLSearchParams({
+    source: query.source,
+    id: query.id,
+    format: query.format,
+    ...(query.word_timing ? { word_timing: "1" } : {}),
+  });
+  const res = await fetch(`/api/export_subtitles?${params.toString()}`, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || "Failed to export subtitles");
+  }
+
+  const url = window.URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = `${fileName}.${getSubtitleFormat(query.format).extension}`;
+  document.body.appendChild(a);
+  a.click();
+  window.URL.revokeObjectURL(url);
+  document.body.removeChild(a);
+}
@@ -0,0 +1,252 @@
+/**
+ * Text Layers
+ * Designed text on a scene besides the captions: title cards, lower thirds,
+ * call-outs and "Part 2" cards. Each layer has its own font, position,
+ * timing relative to the scene and an in/out animation. The preview and the
+ * ASS render both take their animation state from getTextLayerFrame() so they
+ * move the same way.
+ */
+
+import { CAPTION_FONTS } from "./fonts";
+
+export type TextLayerPreset = "title" | "lower-third" | "callout" | "part-card" | "custom";
+
+export type TextLayerAnimation = "none" | "fade" | "slide-up" | "slide-down" | "slide-left" | "slide-right" | "pop";
+
+export type TextLayerAlign = "left" | "center" | "right";
+
+export interface TextLayer {
+  id: string;
+  preset: TextLayerPreset;
+  text: string;               // Newlines start a new line
+  font_family: string;        // One of CAPTION_FONTS
+  font_weight: number;        // 100-900
+  font_size: number;          // Preview pixels, scaled like the captions when rendering
+  color: string;              // Hex
+  background: string | null;  // Hex box behind the text, null = no box (drop shadow instead)
+  background_opacity: number; // 0-1
+  uppercase: boolean;
+  align: TextLayerAlign;      // Which side of the text sits on (x, y)
+  x: number;                  // Percent of frame width
+  y: number;                  // Percent of frame height, text is vertically centered on it
+  start: number;              // Seconds from the start of the scene
+  duration: number | null;    // Seconds on screen, null = until the scene ends
+  animation_in: TextLayerAnimation;
+  animation_out: TextLayerAnimation;
+  animation_duration: number; // Seconds for each of the in and out animations
+}
+
+/**
+ * Where an animation starts from (in) or ends at (out). Offsets are percent of
+ * the frame, scale is percent of the text's size.
+ */
+export interface TextLayerAnimationConfig {
+  id: TextLayerAnimation;
+  name: string;
+  opacity: number;
+  dx: number;
+  dy: number;
+  scale: number;
+}
+
+export const TEXT_LAYER_ANIMATIONS: Record<TextLayerAnimation, TextLayerAnimationConfig> = {
+  none: { id: "none", name: "None", opacity: 1, dx: 0, dy: 0, scale: 100 },
+  fade: { id: "fade", name: "Fade", opacity: 0, dx: 0, dy: 0, scale: 100 },
+  "slide-up": { id: "slide-up", name: "Slide up", opacity: 0, dx: 0, dy: 8, scale: 100 },
+  "slide-down": { id: "slide-down", name: "Slide down", opacity: 0, dx: 0, dy: -8, scale: 100 },
+  "slide-left": { id: "slide-left", name: "Slide left", opacity: 0, dx: 15, dy: 0, scale: 100 },
+  "slide-right": { id: "slide-right", name: "Slide right", opacity: 0, dx: -15, dy: 0, scale: 100 },
+  pop: { id: "pop", name: "Pop", opacity: 0, dx: 0, dy: 0, scale: 40 },
+};
+
+type TextLayerStyle = Omit<TextLayer, "id" | "preset" | "text" | "start" | "duration">;
+
+export const TEXT_LAYER_PRESETS: Record<TextLayerPreset, { id: TextLayerPreset; name: string; placeholder: string; style: TextLayerStyle }> = {
+  title: {
+    id: "title",
+    name: "Title card",
+    placeholder: "Chapter One",
+    style: {
+      font_family: "Bebas Neue", font_weight: 400, font_size: 34, color: "#FFFFFF", background: null, background_opacity: 0,
+      uppercase: true, align: "center", x: 50, y: 40, animation_in: "pop", animation_out: "fade", animation_duration: 0.4,
+    },
+  },
+  "lower-third": {
+    id: "lower-third",
+    name: "Lower third",
+    placeholder: "Jane Doe\nFounder",
+    style: {
+      font_family: "Montserrat", font_weight: 700, font_size: 14, color: "#FFFFFF", background: "#000000", background_opacity: 0.7,
+      uppercase: false, align: "left", x: 6, y: 72, animation_in: "slide-right", animation_out: "slide-left", animation_duration: 0.4,
+    },
+  },
+  callout: {
+    id: "callout",
+    name: "Call-out",
+    placeholder: "Only $19",
+    style: {
+      font_family: "Poppins", font_weight: 800, font_size: 22, color: "#000000", background: "#FFEB3B", background_opacity: 1,
+      uppercase: false, align: "center", x: 70, y: 25, animation_in: "pop", animation_out: "pop", animation_duration: 0.3,
+    },
+  },
+  "part-card": {
+    id: "part-card",
+    name: "Part card",
+    placeholder: "Part 2",
+    style: {
+      font_family: "Montserrat", font_weight: 800, font_size: 26, color: "#FFFFFF", background: "#f97316", background_opacity: 1,
+      uppercase: true, align: "center", x: 50, y: 12, animation_in: "slide-down", animation_out: "fade", animation_duration: 0.4,
+    },
+  },
+  custom: {
+    id: "custom",
+    name: "Custom",
+    placeholder: "Your text",
+    style: {
+      font_family: "Montserrat", font_weight: 600, font_size: 20, color: "#FFFFFF", background: null, background_opacity: 0,
+      uppercase: false, align: "center", x: 50, y: 50, animation_in: "fade", animation_out: "fade", animation_duration: 0.3,
+    },
+  },
+};
+
+export const MAX_TEXT_LAYERS_PER_SCENE = 10;
+export const MAX_TEXT_LAYER_LENGTH = 200;
+export const MIN_TEXT_LAYER_FONT_SIZE = 8;
+export const MAX_TEXT_LAYER_FONT_SIZE = 96;
+export const MAX_TEXT_LAYER_START = 60;
+export const MIN_TEXT_LAYER_DURATION = 0.2;
+export const MAX_TEXT_LAYER_ANIMATION = 2;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function getTextLayerAnimation(id: string): TextLayerAnimationConfig {
+  return TEXT_LAYER_ANIMATIONS[id as TextLayerAnimation] || TEXT_LAYER_ANIMATIONS.none;
+}
+
+export function getAllTextLayerAnimations(): TextLayerAnimationConfig[] {
+  return Object.values(TEXT_LAYER_ANIMATIONS);
+}
+
+export function getTextLayerPreset(id: string) {
+  return TEXT_LAYER_PRESETS[id as TextLayerPreset] || TEXT_LAYER_PRESETS.custom;
+}
+
+export function getAllTextLayerPresets() {
+  return Object.values(TEXT_LAYER_PRESETS);
+}
+
+/**
+ * A new layer from a preset, shown for the whole scene
+ */
+export function createTextLayer(preset: TextLayerPreset): TextLayer {
+  const config = getTextLayerPreset(preset);
+  return {
+    id: `text-${Date.now()}`,
+    preset: config.id,
+    text: config.placeholder,
+    start: 0,
+    duration: null,
+    ...config.style,
+  };
+}
+
+/**
+ * Clean up a scene's text layers from user input. Layers without text are
+ * dropped, everything else falls back to its preset and is clamped to usable
+ * ranges. Returns null if `input` isn't an array.
+ */
+export function normalizeTextLayers(input: any): TextLayer[] | null {
+  if (input === null || input === undefined) return [];
+  if (!Array.isArray(input)) return null;
+
+  const num = (value: any, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+  const color = (value: any, fallback: string) => (typeof value === "string" && HEX_COLOR.test(value) ? value : fallback);
+  const animation = (value: any, fallback: TextLayerAnimation) => (Object.prototype.hasOwnProperty.call(TEXT_LAYER_ANIMATIONS, value) ? value : fallback);
+
+  return input
+    .filter((layer) => layer && typeof layer === "object" && typeof layer.text === "string" && layer.text.trim())
+    .slice(0, MAX_TEXT_LAYERS_PER_SCENE)
+    .map((layer, i): TextLayer => {
+      const preset = getTextLayerPreset(layer.preset);
+      const defaults = preset.style;
+      const font = CAPTION_FONTS.find((f) => f.name === layer.font_family);
+      const background = layer.background === null ? null : color(layer.background, defaults.background ?? "");
+      return {
+        id: typeof layer.id === "string" && layer.id ? layer.id : `text-${Date.now()}-${i}`,
+        preset: preset.id,
+        text: layer.text.trim().slice(0, MAX_TEXT_LAYER_LENGTH),
+        font_family: font ? font.name : defaults.font_family,
+        font_weight: Math.round(clamp(num(layer.font_weight, defaults.font_weight), 100, 900) / 100) * 100,
+        font_size: Math.round(clamp(num(layer.font_size, defaults.font_size), MIN_TEXT_LAYER_FONT_SIZE, MAX_TEXT_LAYER_FONT_SIZE)),
+        color: color(layer.color, defaults.color),
+        background: background || null,
+        background_opacity: clamp(num(layer.background_opacity, defaults.background_opacity), 0, 1),
+        uppercase: typeof layer.uppercase === "boolean" ? layer.uppercase : defaults.uppercase,
+        align: ["left", "center", "right"].includes(layer.align) ? layer.align : defaults.align,
+        x: clamp(num(layer.x, defaults.x), 0, 100),
+        y: clamp(num(layer.y, defaults.y), 0, 100),
+        start: clamp(num(layer.start, 0), 0, MAX_TEXT_LAYER_START),
+        duration: layer.duration === null || layer.duration === undefined ? null : Math.max(MIN_TEXT_LAYER_DURATION, num(layer.duration, MIN_TEXT_LAYER_DURATION)),
+        animation_in: animation(layer.animation_in, defaults.animation_in),
+        animation_out: animation(layer.animation_out, defaults.animation_out),
+        animation_duration: clamp(num(layer.animation_duration, defaults.animation_duration), 0, MAX_TEXT_LAYER_ANIMATION),
+      };
+    });
+}
+
+/**
+ * When a layer is on screen, in seconds from the start of the scene. Layers are
+ * cut off at the end of the scene; the in and out animations share the time
+ * on screen if it's too short for both.
+ */
+export function getTextLayerTiming(layer: TextLayer, sceneDuration: number): { start: number; end: number; animation: number } {
+  const start = Math.min(layer.start, sceneDuration);
+  const end = Math.min(sceneDuration, layer.duration === null ? sceneDuration : start + layer.duration);
+  return { start, end, animation: Math.min(layer.animation_duration, Math.max(0, end - start) / 2) };
+}
+
+export interface TextLayerFrame {
+  visible: boolean;
+  opacity: number; // 0-1
+  dx: number;      // Percent of frame width
+  dy: number;      // Percent of frame height
+  scale: number;   // Percent
+}
+
+/**
+ * Animation state of a layer `time` seconds into the scene. Animations are
+ * linear, matching the ASS \move and \t tags the render uses.
+ */
+export function getTextLayerFrame(layer: TextLayer, time: number, sceneDuration: number): TextLayerFrame {
+  const { start, end, animation } = getTextLayerTiming(layer, sceneDuration);
+  const rest: TextLayerFrame = { visible: true, opacity: 1, dx: 0, dy: 0, scale: 100 };
+  if (time < start || time >= end) return { ...rest, visible: false };
+
+  const mix = (from: TextLayerAnimationConfig, progress: number): TextLayerFrame => ({
+    visible: true,
+    opacity: from.opacity + (1 - from.opacity) * progress,
+    dx: from.dx * (1 - progress),
+    dy: from.dy * (1 - progress),
+    scale: from.scale + (100 - from.scale) * progress,
+  });
+
+  if (animation > 0 && layer.animation_in !== "none" && time < start + animation) {
+    return mix(getTextLayerAnimation(layer.animation_in), (time - start) / animation);
+  }
+  if (animation > 0 && layer.animation_out !== "none" && time > end - animation) {
+    return mix(getTextLayerAnimation(layer.animation_out), (end - time) / animation);
+  }
+  return rest;
+}
+
+/**
+ * A layer placed on the story timeline: `offset` is the start of its scene
+ * in seconds from the start of the video.
+ */
+export interface PlacedTextLayer {
+  layer: TextLayer;
+  offset: number;
+  sceneDuration: number;
+}
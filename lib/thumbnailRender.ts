@@ -0,0 +1,93 @@
+/**
+ * Thumbnail rendering: grab the source picture (a frame of the rendered video
+ * or a scene image) and draw the title over it with Sharp. Server only - see
+ * lib/thumbnails.ts for the shared settings and title layout.
+ */
+
+import fs from "fs";
+import path from "path";
+import fetch from "node-fetch";
+import ffmpeg from "fluent-ffmpeg";
+import sharp from "sharp";
+import { getThumbnailTitleLayout, type ThumbnailSizeConfig, type ThumbnailTitle } from "./thumbnails";
+
+const TITLE_STROKE_WIDTH = 0.08; // Of the font size
+const TITLE_BAND_PADDING = 0.3;  // Of the font size, above and below the lines
+
+/**
+ * Save the frame `time` seconds into a video (local path or URL) as PNG
+ */
+export async function extractVideoFrame(videoUrl: string, time: number, outputPath: string): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    ffmpeg(videoUrl)
+      .seekInput(Math.max(0, time))
+      .outputOptions(["-frames:v 1"])
+      .output(outputPath)
+      .on("end", () => resolve())
+      .on("error", (err: any) => reject(err))
+      .run();
+  });
+
+  // Seeking past the end finishes without writing anything
+  if (!fs.existsSync(outputPath)) {
+    throw new Error(`No frame at ${time.toFixed(1)}s - pick a time within the video`);
+  }
+}
+
+export async function downloadImage(url: string, outputPath: string): Promise<void> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to download image: HTTP ${res.status}`);
+  fs.writeFileSync(outputPath, Buffer.from(await res.arrayBuffer()));
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/**
+ * SVG with just the title, the size of the thumbnail
+ */
+function buildTitleSvg(title: ThumbnailTitle, width: number, height: number): string | null {
+  const layout = getThumbnailTitleLayout(title, width, height);
+  if (!layout) return null;
+
+  const { lines, fontSize, lineHeight, top } = layout;
+  const parts: string[] = [];
+
+  if (title.background) {
+    const padding = fontSize * TITLE_BAND_PADDING;
+    parts.push(`<rect x="0" y="${(top - padding).toFixed(1)}" width="${width}" height="${(lineHeight * lines.length + padding * 2).toFixed(1)}" fill="${title.background}"/>`);
+  }
+
+  // Baseline sits where CSS puts it in a line box of lineHeight
+  const tspans = lines.map((line, i) => {
+    const baseline = top + lineHeight * i + (lineHeight - fontSize) / 2 + fontSize * 0.8;
+    return `<tspan x="${width / 2}" y="${baseline.toFixed(1)}">${escapeXml(line)}</tspan>`;
+  });
+
+  const stroke = title.stroke_color
+    ? ` stroke="${title.stroke_color}" stroke-width="${(fontSize * TITLE_STROKE_WIDTH).toFixed(1)}" stroke-linejoin="round" paint-order="stroke"`
+    : "";
+
+  parts.push(
+    `<text text-anchor="middle" font-family="${escapeXml(title.font_family)}" font-weight="${title.font_weight}" font-size="${fontSize.toFixed(1)}" fill="${title.color}"${stroke}>${tspans.join("")}</text>`
+  );
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}">${parts.join("")}</svg>`;
+}
+
+/**
+ * Crop the source to the size (around its most interesting region) and draw the title. Returns a JPEG.
+ */
+export async function renderThumbnail(sourcePath: string, size: ThumbnailSizeConfig, title: ThumbnailTitle): Promise<Buffer> {
+  // Title fonts come from the project fonts directory, like the captions
+  process.env.FONTCONFIG_FILE = path.join(process.cwd(), "fonts.conf");
+
+  const image = sharp(sourcePath).resize(size.width, size.height, { fit: "cover", position: sharp.strategy.attention });
+
+  const svg = buildTitleSvg(title, size.width, size.height);
+  if (svg) {
+    image.composite([{ input: Buffer.from(svg), top: 0, left: 0 }]);
+  }
+
+  return image.jpeg({ quality: 90, mozjpeg: true }).toBuffer();
+}
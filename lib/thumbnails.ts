@@ -0,0 +1,200 @@
+/**
+ * Thumbnails
+ * Cover art for finished videos: a frame from the rendered video or one of
+ * the story's scene images, with an optional bold title, exported at the
+ * sizes each platform asks for. The editor preview and the server render
+ * both lay the title out with getThumbnailTitleLayout() so line breaks match.
+ */
+
+import { CAPTION_FONTS } from "./fonts";
+
+export type ThumbnailSize = "youtube" | "vertical" | "portrait" | "square";
+
+export interface ThumbnailSizeConfig {
+  id: ThumbnailSize;
+  name: string;
+  platforms: string;
+  width: number;
+  height: number;
+}
+
+export const THUMBNAIL_SIZES: Record<ThumbnailSize, ThumbnailSizeConfig> = {
+  youtube: { id: "youtube", name: "16:9", platforms: "YouTube", width: 1280, height: 720 },
+  vertical: { id: "vertical", name: "9:16", platforms: "TikTok, Reels, Shorts", width: 1080, height: 1920 },
+  portrait: { id: "portrait", name: "4:5", platforms: "Instagram feed", width: 1080, height: 1350 },
+  square: { id: "square", name: "1:1", platforms: "Instagram, X", width: 1080, height: 1080 },
+};
+
+export type ThumbnailSourceType = "frame" | "scene";
+
+/**
+ * Where the picture comes from: a moment in the rendered video, or a scene's image
+ */
+export interface ThumbnailSource {
+  type: ThumbnailSourceType;
+  time: number;             // Seconds into the video (frame)
+  scene_id: string | null;  // Scene whose image is used (scene)
+}
+
+export type ThumbnailTitlePosition = "top" | "center" | "bottom";
+
+export interface ThumbnailTitle {
+  text: string;               // Empty = no title
+  font_family: string;        // One of CAPTION_FONTS
+  font_weight: number;        // 100-900
+  size: number;               // Percent of the thumbnail's short edge
+  color: string;              // Hex
+  stroke_color: string | null; // Hex outline, null = none
+  background: string | null;  // Hex band behind the title, null = none
+  position: ThumbnailTitlePosition;
+  uppercase: boolean;
+}
+
+export interface ThumbnailSettings {
+  source: ThumbnailSource;
+  title: ThumbnailTitle;
+  sizes: ThumbnailSize[];
+}
+
+export const DEFAULT_THUMBNAIL_TITLE: ThumbnailTitle = {
+  text: "",
+  font_family: "Bebas Neue",
+  font_weight: 800,
+  size: 14,
+  color: "#FFFFFF",
+  stroke_color: "#000000",
+  background: null,
+  position: "bottom",
+  uppercase: true,
+};
+
+export const MAX_THUMBNAIL_TITLE_LENGTH = 80;
+export const MIN_THUMBNAIL_TITLE_SIZE = 5;
+export const MAX_THUMBNAIL_TITLE_SIZE = 25;
+
+const HEX_COLOR = /^#[0-9a-fA-F]{6}$/;
+const MAX_TITLE_LINES = 3;
+const TITLE_MARGIN = 0.06;      // Of the short edge, between the title and the frame edge
+const TITLE_LINE_HEIGHT = 1.1;
+const AVERAGE_CHAR_WIDTH = 0.55; // Of the font size - good enough to wrap bold display fonts
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+export function getThumbnailSize(id: string): ThumbnailSizeConfig {
+  return THUMBNAIL_SIZES[id as ThumbnailSize] || THUMBNAIL_SIZES.youtube;
+}
+
+export function getAllThumbnailSizes(): ThumbnailSizeConfig[] {
+  return Object.values(THUMBNAIL_SIZES);
+}
+
+/**
+ * The size that matches a video's aspect ratio - its thumbnail_url is exported at this size
+ */
+export function getThumbnailSizeForAspectRatio(aspectRatio: string | null | undefined): ThumbnailSize {
+  if (aspectRatio === "9:16") return "vertical";
+  if (aspectRatio === "4:5") return "portrait";
+  if (aspectRatio === "1:1") return "square";
+  return "youtube";
+}
+
+export function getDefaultThumbnailSettings(aspectRatio?: string | null): ThumbnailSettings {
+  const size = getThumbnailSizeForAspectRatio(aspectRatio);
+  return {
+    source: { type: "frame", time: 0, scene_id: null },
+    title: DEFAULT_THUMBNAIL_TITLE,
+    sizes: size === "youtube" ? ["youtube"] : [size, "youtube"],
+  };
+}
+
+/**
+ * Clean up thumbnail settings from user input. Returns null if `input` isn't an object.
+ */
+export function normalizeThumbnailSettings(input: any): ThumbnailSettings | null {
+  if (!input || typeof input !== "object") return null;
+
+  const num = (value: any, fallback: number) => (typeof value === "number" && Number.isFinite(value) ? value : fallback);
+  const color = (value: any, fallback: string | null) => (value === null ? null : typeof value === "string" && HEX_COLOR.test(value) ? value : fallback);
+
+  const source = input.source || {};
+  const title = input.title || {};
+  const font = CAPTION_FONTS.find((f) => f.name === title.font_family);
+  const sizes = Array.isArray(input.sizes)
+    ? Array.from(new Set(input.sizes.filter((size: any) => Object.prototype.hasOwnProperty.call(THUMBNAIL_SIZES, size)))) as ThumbnailSize[]
+    : [];
+
+  return {
+    source: {
+      type: source.type === "scene" ? "scene" : "frame",
+      time: Math.max(0, num(source.time, 0)),
+      scene_id: typeof source.scene_id === "string" && source.scene_id ? source.scene_id : null,
+    },
+    title: {
+      text: typeof title.text === "string" ? title.text.trim().slice(0, MAX_THUMBNAIL_TITLE_LENGTH) : "",
+      font_family: font ? font.name : DEFAULT_THUMBNAIL_TITLE.font_family,
+      font_weight: Math.round(clamp(num(title.font_weight, DEFAULT_THUMBNAIL_TITLE.font_weight), 100, 900) / 100) * 100,
+      size: clamp(num(title.size, DEFAULT_THUMBNAIL_TITLE.size), MIN_THUMBNAIL_TITLE_SIZE, MAX_THUMBNAIL_TITLE_SIZE),
+      color: color(title.color, DEFAULT_THUMBNAIL_TITLE.color) || DEFAULT_THUMBNAIL_TITLE.color,
+      stroke_color: color(title.stroke_color, DEFAULT_THUMBNAIL_TITLE.stroke_color),
+      background: color(title.background, null),
+      position: ["top", "center", "bottom"].includes(title.position) ? title.position : DEFAULT_THUMBNAIL_TITLE.position,
+      uppercase: typeof title.uppercase === "boolean" ? title.uppercase : DEFAULT_THUMBNAIL_TITLE.uppercase,
+    },
+    sizes: sizes.length > 0 ? sizes : ["youtube"],
+  };
+}
+
+export interface ThumbnailTitleLayout {
+  lines: string[];
+  fontSize: number;   // Pixels at the given width x height
+  lineHeight: number; // Pixels
+  top: number;        // Pixels from the top of the frame to the first line's box
+  margin: number;     // Pixels
+}
+
+/**
+ * Lines, size and placement of the title on a width x height thumbnail. Long
+ * titles shrink to fit in MAX_TITLE_LINES lines.
+ */
+export function getThumbnailTitleLayout(title: ThumbnailTitle, width: number, height: number): ThumbnailTitleLayout | null {
+  const text = (title.uppercase ? title.text.toUpperCase() : title.text).trim();
+  if (!text) return null;
+
+  const shortEdge = Math.min(width, height);
+  const margin = shortEdge * TITLE_MARGIN;
+  const maxWidth = width - margin * 2;
+  let fontSize = (shortEdge * title.size) / 100;
+  let lines = wrapTitle(text, Math.max(1, Math.floor(maxWidth / (fontSize * AVERAGE_CHAR_WIDTH))));
+
+  while (lines.length > MAX_TITLE_LINES && fontSize > (shortEdge * MIN_THUMBNAIL_TITLE_SIZE) / 100) {
+    fontSize *= 0.9;
+    lines = wrapTitle(text, Math.max(1, Math.floor(maxWidth / (fontSize * AVERAGE_CHAR_WIDTH))));
+  }
+
+  const lineHeight = fontSize * TITLE_LINE_HEIGHT;
+  const blockHeight = lineHeight * lines.length;
+  const top = title.position === "top"
+    ? margin
+    : title.position === "center"
+      ? (height - blockHeight) / 2
+      : height - margin - blockHeight;
+
+  return { lines, fontSize, lineHeight, top, margin };
+}
+
+function wrapTitle(text: string, maxChars: number): string[] {
+  const lines: string[] = [];
+  for (const paragraph of text.split("\n")) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      if (line && (line + " " + word).length > maxChars) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = line ? `${line} ${word}` : word;
+      }
+    }
+    if (line) lines.push(line);
+  }
+  return lines;
+}
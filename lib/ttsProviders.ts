@@ -0,0 +1,365 @@
+/**
+ * Text-to-Speech Providers
+ *
+ * Every narration endpoint synthesizes through this module. A voice ID carries
+ * its provider as a prefix ("elevenlabs:21m00Tcm4TlvDq8ikWAM", "kokoro:Heart");
+ * bare IDs are OpenAI voices, which keeps existing stories working. Because the
+ * story's default voice_id and each scene's voice_id are resolved separately,
+ * a story can use one provider while individual scenes use another.
+ *
+ * Providers are enabled by configuration:
+ * - openai:     OPENAI_API_KEY (model from AUDIO_MODEL)
+ * - elevenlabs: ELEVENLABS_API_KEY (model from ELEVENLABS_MODEL)
+ * - kokoro / piper: listed in LOCAL_TTS_ENGINES (e.g. "kokoro,piper"), run
+ *   offline through Echogarden - models are downloaded on first use
+ */
+
+import fetch from "node-fetch";
+import * as Echogarden from "echogarden";
+
+export type TTSProviderId = "openai" | "elevenlabs" | "kokoro" | "piper";
+
+export interface TTSVoice {
+  id: string;               // Voice ID as stored on stories and scenes (provider-prefixed unless OpenAI)
+  name: string;
+  provider: TTSProviderId;
+  provider_name: string;
+  preview_url?: string;
+  labels?: Record<string, any>;
+}
+
+export interface TTSSynthesisOptions {
+  speed?: number;    // 1.0 = natural pace, clamped to what the provider supports
+  preview?: boolean; // Faster/cheaper model for voice samples
+}
+
+export interface TTSProvider {
+  id: TTSProviderId;
+  name: string;
+  description: string;
+  defaultVoice: string;
+  /** Speeds the engine accepts natively - anything beyond is applied with FFmpeg */
+  speedRange: [number, number];
+  /** Honors SSML <break time="..."/> tags in the input text */
+  supportsBreaks: boolean;
+  isConfigured: () => boolean;
+  listVoices: () => Promise<TTSVoice[]>;
+  /** Returns MP3 audio */
+  synthesize: (text: string, voice: string, options: TTSSynthesisOptions) => Promise<Buffer>;
+}
+
+export interface ResolvedVoice {
+  provider: TTSProvider;
+  voice: string;   // Provider's own voice name/ID
+  voiceId: string; // Canonical ID to store on the scene
+}
+
+export const DEFAULT_VOICE_ID = "alloy";
+
+const OPENAI_TTS_API = "https://api.openai.com/v1/audio/speech";
+const ELEVENLABS_API = "https://api.elevenlabs.io/v1";
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL;
+
+const clamp = (value: number, min: number, max: number) => Math.max(min, Math.min(max, value));
+
+const OPENAI_SPEED_RANGE: [number, number] = [0.25, 4.0];
+const ELEVENLABS_SPEED_RANGE: [number, number] = [0.7, 1.2];
+const ECHOGARDEN_SPEED_RANGE: [number, number] = [0.5, 2.0];
+
+// OpenAI TTS voices with preview samples stored in Supabase
+const OPENAI_VOICES: { id: string; name: string; labels: Record<string, string> }[] = [
+  { id: "alloy", name: "Alloy", labels: { accent: "neutral", gender: "neutral", description: "Balanced and versatile voice", use_case: "General narration" } },
+  { id: "echo", name: "Echo", labels: { accent: "american", gender: "male", description: "Clear male voice", use_case: "Professional narration" } },
+  { id: "fable", name: "Fable", labels: { accent: "british", gender: "male", description: "Expressive British accent", use_case: "Storytelling" } },
+  { id: "onyx", name: "Onyx", labels: { accent: "american", gender: "male", description: "Deep, authoritative male voice", use_case: "Documentary style" } },
+  { id: "nova", name: "Nova", labels: { accent: "american", gender: "female", description: "Warm, friendly female voice", use_case: "Conversational narration" } },
+  { id: "shimmer", name: "Shimmer", labels: { accent: "american", gender: "female", description: "Soft, gentle female voice", use_case: "Calm storytelling" } },
+  { id: "ash", name: "Ash", labels: { accent: "british", gender: "neutral", description: "Professional British voice", use_case: "Business narration" } },
+  { id: "coral", name: "Coral", labels: { accent: "american", gender: "female", description: "Bright, energetic female voice", use_case: "Upbeat content" } },
+  { id: "sage", name: "Sage", labels: { accent: "american", gender: "neutral", description: "Wise, measured voice", use_case: "Educational content" } },
+];
+
+// Stories created before the switch to OpenAI still reference ElevenLabs IDs.
+// They play on ElevenLabs when it's configured, otherwise on the closest OpenAI voice.
+const LEGACY_ELEVENLABS_VOICES: { [key: string]: string } = {
+  "21m00Tcm4TlvDq8ikWAM": "alloy",   // Rachel
+  "EXAVITQu4vr4xnSDxMaL": "nova",    // Bella
+  "ErXwobaYiN019PkySvjV": "shimmer", // Antoni
+  "MF3mGyEYCl7XYWbV9V6O": "echo",    // Elli
+  "TxGEqnHWrfWFTfGW9XjX": "fable",   // Josh
+  "VR6AewLTigWG4xSOukaG": "onyx",    // Arnold
+  "pNInz6obpgDQGcFmaJgB": "shimmer", // Adam
+  "yoZ06aMxZJJ28mfd3POQ": "nova",    // Sam
+};
+
+function getLocalEngines(): string[] {
+  return (process.env.LOCAL_TTS_ENGINES || "")
+    .split(",")
+    .map((engine) => engine.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+/**
+ * Synthesize with an offline Echogarden engine and encode to MP3
+ */
+async function synthesizeWithEchogarden(
+  engine: "kokoro" | "vits",
+  text: string,
+  voice: string,
+  speed: number
+): Promise<Buffer> {
+  const result = await Echogarden.synthesize(text, {
+    engine,
+    voice,
+    speed: clamp(speed, ...ECHOGARDEN_SPEED_RANGE),
+    outputAudioFormat: { codec: "mp3" },
+  });
+
+  if (!(result.audio instanceof Uint8Array)) {
+    throw new Error(`Echogarden ${engine} returned unencoded audio`);
+  }
+  return Buffer.from(result.audio);
+}
+
+async function listEchogardenVoices(engine: "kokoro" | "vits", provider: TTSProviderId, providerName: string): Promise<TTSVoice[]> {
+  const { voiceList } = await Echogarden.requestVoiceList({ engine });
+  return voiceList
+    .filter((voice) => voice.languages.some((lang) => lang.toLowerCase().startsWith("en")))
+    .map((voice) => {
+      const id = `${provider}:${voice.name}`;
+      return {
+        id,
+        name: voice.name,
+        provider,
+        provider_name: providerName,
+        preview_url: `/api/preview_voice?voice=${encodeURIComponent(id)}`,
+        labels: {
+          accent: voice.languages[0],
+          gender: voice.gender !== "unknown" ? voice.gender : undefined,
+          use_case: "Offline narration",
+        },
+      };
+    });
+}
+
+export const TTS_PROVIDERS: Record<TTSProviderId, TTSProvider> = {
+  openai: {
+    id: "openai",
+    name: "OpenAI",
+    description: "OpenAI TTS voices",
+    defaultVoice: DEFAULT_VOICE_ID,
+    speedRange: OPENAI_SPEED_RANGE,
+    supportsBreaks: false,
+    isConfigured: () => !!process.env.OPENAI_API_KEY,
+    listVoices: async () =>
+      OPENAI_VOICES.map((voice) => ({
+        ...voice,
+        provider: "openai" as const,
+        provider_name: "OpenAI",
+        preview_url: `${SUPABASE_URL}/storage/v1/object/public/samples/voice-preview-${voice.id}.mp3`,
+      })),
+    synthesize: async (text, voice, options) => {
+      const model = options.preview ? "tts-1" : process.env.AUDIO_MODEL || "tts-1-hd";
+      const res = await fetch(OPENAI_TTS_API, {
+        method: "POST",
+        headers: {
+          "Authorization": `Bearer ${process.env.OPENAI_API_KEY!}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          input: text,
+          voice,
+          response_format: "mp3",
+          speed: clamp(options.speed ?? 1.0, ...OPENAI_SPEED_RANGE),
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`OpenAI TTS failed: ${await res.text()}`);
+      }
+      return Buffer.from(await res.arrayBuffer());
+    },
+  },
+
+  elevenlabs: {
+    id: "elevenlabs",
+    name: "ElevenLabs",
+    description: "ElevenLabs voices, including cloned voices on the account",
+    defaultVoice: "21m00Tcm4TlvDq8ikWAM",
+    speedRange: ELEVENLABS_SPEED_RANGE,
+    supportsBreaks: true,
+    isConfigured: () => !!process.env.ELEVENLABS_API_KEY,
+    listVoices: async () => {
+      const res = await fetch(`${ELEVENLABS_API}/voices`, {
+        headers: { "xi-api-key": process.env.ELEVENLABS_API_KEY! },
+      });
+      if (!res.ok) {
+        throw new Error(`ElevenLabs voices request failed: ${await res.text()}`);
+      }
+      const data: any = await res.json();
+      return (data.voices || []).map((voice: any) => {
+        const id = `elevenlabs:${voice.voice_id}`;
+        return {
+          id,
+          name: voice.name,
+          provider: "elevenlabs" as const,
+          provider_name: "ElevenLabs",
+          preview_url: voice.preview_url || `/api/preview_voice?voice=${encodeURIComponent(id)}`,
+          labels: voice.labels,
+        };
+      });
+    },
+    synthesize: async (text, voice, options) => {
+      const model = options.preview
+        ? "eleven_flash_v2_5"
+        : process.env.ELEVENLABS_MODEL || "eleven_multilingual_v2";
+      const res = await fetch(`${ELEVENLABS_API}/text-to-speech/${encodeURIComponent(voice)}?output_format=mp3_44100_128`, {
+        method: "POST",
+        headers: {
+          "xi-api-key": process.env.ELEVENLABS_API_KEY!,
+          "Content-Type": "application/json",
+          "Accept": "audio/mpeg",
+        },
+        body: JSON.stringify({
+          text,
+          model_id: model,
+          voice_settings: {
+            stability: 0.5,
+            similarity_boost: 0.75,
+            speed: clamp(options.speed ?? 1.0, ...ELEVENLABS_SPEED_RANGE),
+          },
+        }),
+      });
+
+      if (!res.ok) {
+        throw new Error(`ElevenLabs TTS failed: ${await res.text()}`);
+      }
+      return Buffer.from(await res.arrayBuffer());
+    },
+  },
+
+  kokoro: {
+    id: "kokoro",
+    name: "Kokoro (offline)",
+    description: "Kokoro 82M running locally - no API costs",
+    defaultVoice: "Heart",
+    speedRange: ECHOGARDEN_SPEED_RANGE,
+    supportsBreaks: false,
+    isConfigured: () => getLocalEngines().includes("kokoro"),
+    listVoices: () => listEchogardenVoices("kokoro", "kokoro", "Kokoro"),
+    synthesize: (text, voice, options) => synthesizeWithEchogarden("kokoro", text, voice, options.speed ?? 1.0),
+  },
+
+  piper: {
+    id: "piper",
+    name: "Piper (offline)",
+    description: "Piper VITS voices running locally - no API costs",
+    defaultVoice: "en_US-amy-medium",
+    speedRange: ECHOGARDEN_SPEED_RANGE,
+    supportsBreaks: false,
+    isConfigured: () => getLocalEngines().includes("piper"),
+    listVoices: () => listEchogardenVoices("vits", "piper", "Piper"),
+    synthesize: (text, voice, options) => synthesizeWithEchogarden("vits", text, voice, options.speed ?? 1.0),
+  },
+};
+
+export function isTTSProviderId(value: unknown): value is TTSProviderId {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(TTS_PROVIDERS, value);
+}
+
+/**
+ * Get provider by ID with fallback to OpenAI
+ */
+export function getTTSProvider(providerId: string | null | undefined): TTSProvider {
+  return TTS_PROVIDERS[providerId as TTSProviderId] || TTS_PROVIDERS.openai;
+}
+
+/**
+ * Get all providers as an array
+ */
+export function getAllTTSProviders(): TTSProvider[] {
+  return Object.values(TTS_PROVIDERS);
+}
+
+/**
+ * Providers with the keys/engines they need in this environment
+ */
+export function getConfiguredTTSProviders(): TTSProvider[] {
+  return getAllTTSProviders().filter((provider) => provider.isConfigured());
+}
+
+/**
+ * Work out which provider and voice a stored voice ID refers to.
+ * Unknown bare IDs fall back to `fallbackVoiceId` (OpenAI).
+ */
+export function resolveVoice(voiceId: string | null | undefined, fallbackVoiceId: string = DEFAULT_VOICE_ID): ResolvedVoice {
+  const id = (voiceId || "").trim();
+  const separator = id.indexOf(":");
+
+  if (separator > 0) {
+    const providerId = id.slice(0, separator);
+    const voice = id.slice(separator + 1);
+    if (isTTSProviderId(providerId) && voice) {
+      const provider = TTS_PROVIDERS[providerId];
+      return { provider, voice, voiceId: providerId === "openai" ? voice : id };
+    }
+  }
+
+  if (Object.prototype.hasOwnProperty.call(LEGACY_ELEVENLABS_VOICES, id)) {
+    if (TTS_PROVIDERS.elevenlabs.isConfigured()) {
+      return { provider: TTS_PROVIDERS.elevenlabs, voice: id, voiceId: `elevenlabs:${id}` };
+    }
+    const voice = LEGACY_ELEVENLABS_VOICES[id];
+    return { provider: TTS_PROVIDERS.openai, voice, voiceId: voice };
+  }
+
+  if (OPENAI_VOICES.some((voice) => voice.id === id)) {
+    return { provider: TTS_PROVIDERS.openai, voice: id, voiceId: id };
+  }
+
+  return resolveVoice(fallbackVoiceId === id ? DEFAULT_VOICE_ID : fallbackVoiceId);
+}
+
+/**
+ * Speed the provider will actually apply for a requested speed
+ */
+export function getNativeSpeed(provider: TTSProvider, speed: number): number {
+  return clamp(speed, ...provider.speedRange);
+}
+
+/**
+ * Synthesize text to MP3 with whichever provider the voice belongs to
+ */
+export async function synthesizeSpeech(
+  voiceId: string | null | undefined,
+  text: string,
+  options: TTSSynthesisOptions = {},
+  fallbackVoiceId?: string
+): Promise<ResolvedVoice & { audio: Buffer }> {
+  const resolved = resolveVoice(voiceId, fallbackVoiceId);
+  if (!resolved.provider.isConfigured()) {
+    throw new Error(`${resolved.provider.name} text-to-speech is not configured on this server`);
+  }
+
+  const audio = await resolved.provider.synthesize(text, resolved.voice, options);
+  return { ...resolved, audio };
+}
+
+/**
+ * Voices from every configured provider. A provider that fails to list
+ * (bad key, network) is skipped so the others are still available.
+ */
+export async function listAllVoices(): Promise<TTSVoice[]> {
+  const results = await Promise.all(
+    getConfiguredTTSProviders().map(async (provider) => {
+      try {
+        return await provider.listVoices();
+      } catch (err: any) {
+        console.error(`⚠️ Failed to list ${provider.name} voices: ${err.message}`);
+        return [];
+      }
+    })
+  );
+  return results.flat();
+}
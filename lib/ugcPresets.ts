@@ -4,6 +4,8 @@
  * Optimized for viral short-form content (TikTok/Instagram/YouTube Shorts style)
  */
 
+import { DEFAULT_MUSIC_MIX } from "./musicMix";
+
 export const UGC_DEFAULTS = {
   // Video settings
   aspect_ratio: '9:16' as const,
@@ -31,6 +33,11 @@ export const UGC_DEFAULTS = {
   // Audio settings
   background_music_enabled: false,
   background_music_volume: 20,
+  background_music_mix: {
+    ...DEFAULT_MUSIC_MIX,
+    duck_depth: 15, // Voice-first content - keep music well under the narration
+    fade_in: 0,     // Short-form hooks start immediately
+  },
 
   // Watermark
   watermark_enabled: true
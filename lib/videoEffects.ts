@@ -3,6 +3,8 @@
  * Defines all available motion effects and their FFmpeg filter configurations
  */
 
+import { buildMotionPathFilter, type MotionPath } from "./motionPath";
+
 export type EffectType =
   | "none"
   | "floating"
@@ -11,7 +13,8 @@ export type EffectType =
   | "pan_left"
   | "pan_right"
   | "zoom_pan"
-  | "zoom_out_pan";
+  | "zoom_out_pan"
+  | "custom";
 
 export interface VideoEffect {
   id: EffectType;
@@ -23,8 +26,9 @@ export interface VideoEffect {
    * @param width Video width in pixels
    * @param height Video height in pixels
    * @param duration Scene duration in seconds
+   * @param motionPath User-defined keyframes (only used by "custom")
    */
-  getFilter: (width: number, height: number, duration: number) => string;
+  getFilter: (width: number, height: number, duration: number, motionPath?: MotionPath | null) => string;
 }
 
 export const VIDEO_EFFECTS: Record<EffectType, VideoEffect> = {
@@ -132,6 +136,17 @@ export const VIDEO_EFFECTS: Record<EffectType, VideoEffect> = {
       return `zoompan=z='1.08-0.08*(1-cos(PI*on/${progressDiv}))':x='iw/2-(iw/zoom/2)-(${panRange})*(2*(on/${progressDiv})-1)':y='ih/2-(ih/zoom/2)':d=${totalFrames}:s=${w}x${h}:fps=${fps}`;
     },
   },
+
+  custom: {
+    id: "custom",
+    name: "Custom Path",
+    description: "Frame the start and end shot yourself",
+    isPro: false,
+    getFilter: (w, h, duration, motionPath) => {
+      // Without a saved path the scene renders static
+      return motionPath ? buildMotionPathFilter(motionPath, w, h, duration) : "";
+    },
+  },
 };
 
 /**
@@ -161,6 +176,7 @@ export function getEffectAnimationClass(effectId: string): string {
     pan_right: "animate-pan-right",
     zoom_pan: "animate-zoom-pan",
     zoom_out_pan: "animate-zoom-out-pan",
+    custom: "", // Previewed with per-scene keyframes (getMotionPathCSSKeyframes)
   };
   return animations[effectId as EffectType] || "";
 }
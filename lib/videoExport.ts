@@ -0,0 +1,278 @@
+/**
+ * Video Export Jobs
+ *
+ * Derives the extra formats in lib/exportFormats.ts from a finished render
+ * and saves them to video_exports. Runs inside the job worker (see
+ * lib/jobQueue.ts) as the "export" job type.
+ */
+
+import fs from "fs";
+import path from "path";
+import fetch from "node-fetch";
+import ffmpeg from "fluent-ffmpeg";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { getUserLogger } from "./userLogger";
+import { updateJobProgress, PermanentJobError } from "./jobQueue";
+import { parseFFmpegTime } from "./jobProgress";
+import { extractVideoFrame } from "./thumbnailRender";
+import { createZipArchive, type ZipEntry } from "./zipArchive";
+import { getExportFormat, GIF_MAX_SECONDS, GIF_WIDTH, GIF_FPS, type ExportFormat, type VideoExport } from "./exportFormats";
+
+export interface VideoExportParams {
+  jobId: string;
+  storyId: string;
+  videoId: string;
+  format: ExportFormat;
+  userId: string;
+}
+
+const EXPORTS_BUCKET = "videos";
+
+/**
+ * Build one export of a saved video. Throws on failure so the job queue can
+ * retry it; the tmp directory is keyed by job ID and wiped before every attempt.
+ */
+export async function runVideoExport(params: VideoExportParams): Promise<void> {
+  const { jobId, storyId: story_id, videoId, userId } = params;
+  const format = getExportFormat(params.format);
+  const logger = getUserLogger(userId);
+  const tmpDir = path.join(process.cwd(), "tmp", jobId);
+
+  try {
+    if (fs.existsSync(tmpDir)) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+    fs.mkdirSync(tmpDir, { recursive: true });
+
+    await updateJobProgress(jobId, 5, { stage: "preparing" });
+
+    const { data: video, error: videoErr } = await supabaseAdmin
+      .from("videos")
+      .select("id, video_url, duration, aspect_ratio, scene_timeline")
+      .eq("id", videoId)
+      .single();
+
+    if (videoErr || !video) throw new Error("Video not found - it may have been deleted");
+
+    logger.info(`[${story_id}] 📦 Exporting ${video.aspect_ratio} video as ${format.name} (Job ID: ${jobId})`);
+
+    const timestamp = Date.now();
+    const folder = `exports/${story_id}`;
+    let fileUrl: string | null = null;
+    let sizeBytes = 0;
+
+    if (format.kind === "images") {
+      // 🖼️ One still per scene, taken from the render so captions, overlays and branding match,
+      // at the middle of each scene as the render laid them out
+      const timeline: Array<{ start: number; duration: number }> = Array.isArray(video.scene_timeline) ? video.scene_timeline : [];
+      if (timeline.length === 0) {
+        throw new PermanentJobError("This video was rendered before scene timings were saved - render it again to export stills");
+      }
+
+      await updateJobProgress(jobId, 10, { stage: "downloading" });
+      const inputPath = path.join(tmpDir, "source.mp4");
+      await downloadFile(video.video_url, inputPath);
+
+      const entries: ZipEntry[] = [];
+      for (let i = 0; i < timeline.length; i++) {
+        const midpoint = timeline[i].start + timeline[i].duration / 2;
+        await updateJobProgress(jobId, 20 + (70 * i) / timeline.length, { stage: "stills", scenes: { done: i, total: timeline.length } });
+
+        const framePath = path.join(tmpDir, `scene-${i + 1}.png`);
+        try {
+          await extractVideoFrame(inputPath, midpoint, framePath);
+        } catch (err: any) {
+          logger.warn(`[${story_id}] ⚠️ No frame for scene ${i + 1} at ${midpoint.toFixed(1)}s, skipping its still: ${err.message}`);
+          continue;
+        }
+        entries.push({ name: `scene-${String(i + 1).padStart(2, "0")}.png`, data: fs.readFileSync(framePath) });
+      }
+
+      if (entries.length === 0) throw new Error("Could not take a still of any scene");
+
+      const buffer = createZipArchive(entries);
+      const fileName = `${folder}/${video.id}-stills-${timestamp}.${format.extension}`;
+      await updateJobProgress(jobId, 90, { stage: "uploading" });
+      await uploadExportFile(fileName, buffer, format.contentType);
+      fileUrl = getPublicUrl(fileName);
+      sizeBytes = buffer.length;
+      logger.info(`[${story_id}] ✅ Exported ${entries.length} scene still(s) → ${fileUrl}`);
+    } else {
+      // 🎞️ Transcode the render
+      await updateJobProgress(jobId, 10, { stage: "downloading" });
+      const inputPath = path.join(tmpDir, "source.mp4");
+      await downloadFile(video.video_url, inputPath);
+
+      // Renders without narration or music have no audio stream - another attempt won't add one
+      if (format.kind === "audio" && !(await hasAudioStream(inputPath))) {
+        throw new PermanentJobError("This video has no sound to export - add narration or music and render it again");
+      }
+
+      const outputPath = path.join(tmpDir, `export.${format.extension}`);
+      const duration = format.id === "gif" ? Math.min(GIF_MAX_SECONDS, video.duration || GIF_MAX_SECONDS) : video.duration || 0;
+
+      await updateJobProgress(jobId, 20, { stage: "converting" });
+      await transcode(inputPath, outputPath, format.id, (time) => {
+        if (duration > 0) {
+          void updateJobProgress(jobId, 20 + 70 * Math.min(1, time / duration), { stage: "converting", ffmpeg: { time, duration } });
+        }
+      });
+
+      const buffer = fs.readFileSync(outputPath);
+      const fileName = `${folder}/${video.id}-${timestamp}.${format.extension}`;
+      await updateJobProgress(jobId, 90, { stage: "uploading" });
+      await uploadExportFile(fileName, buffer, format.contentType);
+      fileUrl = getPublicUrl(fileName);
+      sizeBytes = buffer.length;
+      logger.info(`[${story_id}] ✅ Exported ${format.name} (${(sizeBytes / 1024 / 1024).toFixed(1)} MB) → ${fileUrl}`);
+    }
+
+    await updateJobProgress(jobId, 95, { stage: "finishing" });
+
+    // One export per video and format - replace the previous one
+    const { data: previous } = await supabaseAdmin
+      .from("video_exports")
+      .select("id, file_url")
+      .eq("video_id", video.id)
+      .eq("format", format.id)
+      .maybeSingle();
+
+    const { error: upsertErr } = await supabaseAdmin
+      .from("video_exports")
+      .upsert(
+        {
+          video_id: video.id,
+          story_id,
+          format: format.id,
+          file_url: fileUrl,
+          size_bytes: sizeBytes,
+          created_at: new Date().toISOString(),
+        },
+        { onConflict: "video_id,format" }
+      );
+
+    if (upsertErr) throw upsertErr;
+
+    if (previous) {
+      await removeExportFiles([previous], logger, story_id);
+    }
+
+    try {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    } catch {}
+  } catch (err: any) {
+    console.error(`[${story_id}] Error exporting video:`, err);
+
+    try {
+      if (fs.existsSync(tmpDir)) {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    } catch {}
+
+    // Let the job queue decide between retry and failure
+    throw err;
+  }
+}
+
+/**
+ * Delete the exports of videos that were re-rendered - they show the old cut
+ */
+export async function removeVideoExports(videoIds: string[], logger: ReturnType<typeof getUserLogger>, storyId: string): Promise<void> {
+  if (videoIds.length === 0) return;
+
+  const { data: exports } = await supabaseAdmin
+    .from("video_exports")
+    .select("id, file_url")
+    .in("video_id", videoIds);
+
+  if (!exports?.length) return;
+
+  await supabaseAdmin.from("video_exports").delete().in("id", exports.map((e) => e.id));
+  await removeExportFiles(exports, logger, storyId);
+  logger.info(`[${storyId}] 🧹 Removed ${exports.length} export(s) of the previous render`);
+}
+
+async function removeExportFiles(
+  exports: Array<Pick<VideoExport, "file_url">>,
+  logger: ReturnType<typeof getUserLogger>,
+  storyId: string
+): Promise<void> {
+  const paths = exports
+    .map((e) => e.file_url.split(`/${EXPORTS_BUCKET}/`)[1])
+    .filter((p): p is string => Boolean(p));
+
+  if (paths.length === 0) return;
+
+  const { error } = await supabaseAdmin.storage.from(EXPORTS_BUCKET).remove(paths);
+  if (error) logger.warn(`[${storyId}] ⚠️ Failed to delete old export files: ${error.message}`);
+}
+
+function transcode(inputPath: string, outputPath: string, format: ExportFormat, onProgress: (seconds: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const command = ffmpeg(inputPath);
+
+    switch (format) {
+      case "gif":
+        // Palette from the clip itself keeps gradients from banding
+        command
+          .duration(GIF_MAX_SECONDS)
+          .complexFilter(`fps=${GIF_FPS},scale=${GIF_WIDTH}:-2:flags=lanczos,split[a][b];[a]palettegen=stats_mode=diff[p];[b][p]paletteuse=dither=bayer:bayer_scale=5`)
+          .outputOptions(["-an", "-loop 0"]);
+        break;
+      case "webm":
+        command
+          .videoCodec("libvpx-vp9")
+          .audioCodec("libopus")
+          .outputOptions(["-crf 34", "-b:v 0", "-row-mt 1", "-deadline good", "-cpu-used 4", "-b:a 96k"]);
+        break;
+      case "mp3":
+        command.noVideo().audioCodec("libmp3lame").audioBitrate("192k");
+        break;
+      case "m4a":
+        command.noVideo().audioCodec("aac").audioBitrate("192k").outputOptions(["-movflags +faststart"]);
+        break;
+      default:
+        return reject(new Error(`${format} is not a transcoded format`));
+    }
+
+    command
+      .output(outputPath)
+      .on("progress", (p: any) => {
+        const seconds = parseFFmpegTime(p.timemark);
+        if (seconds !== null) onProgress(seconds);
+      })
+      .on("end", () => resolve())
+      .on("error", (err) => reject(err))
+      .run();
+  });
+}
+
+function hasAudioStream(filePath: string): Promise<boolean> {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) return reject(err);
+      resolve((data?.streams || []).some((s) => s.codec_type === "audio"));
+    });
+  });
+}
+
+async function downloadFile(url: string, outputPath: string): Promise<void> {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Failed to download video: HTTP ${res.status}`);
+  fs.writeFileSync(outputPath, Buffer.from(await res.arrayBuffer()));
+}
+
+async function uploadExportFile(fileName: string, buffer: Buffer, contentType: string): Promise<void> {
+  const { error } = await supabaseAdmin.storage
+    .from(EXPORTS_BUCKET)
+    .upload(fileName, buffer, {
+      contentType,
+      upsert: true,
+    });
+
+  if (error) throw error;
+}
+
+function getPublicUrl(fileName: string): string {
+  return `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/${EXPORTS_BUCKET}/${fileName}`;
+}
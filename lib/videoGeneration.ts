@@ -0,0 +1,1744 @@
+import fetch from "node-fetch";
+import fs from "fs";
+import path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import sharp from "sharp";
+import { spawn } from "child_process";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { getUserLogger } from "./userLogger";
+import { generateWordByWordASS, generateTextLayerASS, generateSimpleSRT, getASSFontName, type WordTimestamp, type ASSCaptionPlacement } from "./assSubtitles";
+import { normalizeCaptionLayout, resolveCaptionBox } from "./captionLayout";
+import { getCaptionAnimation } from "./captionAnimations";
+import { DEFAULT_EMPHASIS_COLOR } from "./captionEmphasis";
+import { stripSpeakerTags, SPEAKER_COLORS } from "./dialogue";
+import { updateStoryMetadata } from "./updateStoryMetadata";
+import { getEffect } from "./videoEffects";
+import { normalizeMotionPath } from "./motionPath";
+import { getRenderProfile, getRenderDimensions, type RenderQuality } from "./renderProfiles";
+import { getAspectRatioConfig, type AspectRatio, type AspectRatioConfig } from "./aspectRatios";
+import { getTransition, clampTransitionDuration, buildTransitionFilter, type TransitionClip } from "./videoTransitions";
+import { deductCredits, CREDIT_COSTS } from "./credits";
+import { updateJobProgress, assertJobActive } from "./jobQueue";
+import { parseFFmpegTime, type JobProgressDetail } from "./jobProgress";
+import { getClipCacheKey, getCachedClip, storeClip, pruneClipCache } from "./clipCache";
+import { normalizeMusicMix, buildMusicMixFilters, type SpeechWindow } from "./musicMix";
+import { detectSpeechWindows } from "./musicMixAudio";
+import { normalizeSfxCues, getCueStartTime, buildSfxMixFilters, type PlacedSfxCue } from "./sfx";
+import { normalizeTextLayers, type PlacedTextLayer } from "./textLayers";
+import { getSceneOverlays, resolveOverlayBlend, buildOverlayBlendFilters, type OverlayBlendMode } from "./overlayBlend";
+import { getLoudnessTarget, type LoudnessReport } from "./loudness";
+import { measureLoudness, getLoudnormFilter } from "./loudnessAudio";
+import { loadBrandKit, downloadBrandAssets, buildWatermarkFilters, addIntroOutro } from "./brandKitRender";
+import { getCustomASSFontName } from "./customFonts";
+import { loadCustomFonts, prepareCustomFontsDir } from "./customFontFiles";
+import { removeVideoExports } from "./videoExport";
+
+/**
+ * Story Video Renderer
+ *
+ * Assembles scene media, narration, captions, watermark and background music
+ * into the final MP4. Runs inside the job worker (see lib/jobQueue.ts) so a
+ * render survives the request that enqueued it.
+ */
+
+// --- Convert hex color to ASS color format ---
+function convertHexToASSColor(hex: string): string {
+  // Remove # if present
+  hex = hex.replace('#', '');
+
+  // ASS format is &HBBGGRR (reversed RGB)
+  if (hex.length === 6) {
+    const r = hex.substring(0, 2);
+    const g = hex.substring(2, 4);
+    const b = hex.substring(4, 6);
+    return `&H${b}${g}${r}`;
+  }
+
+  // Default white if invalid
+  return '&HFFFFFF';
+}
+
+// --- Safe ffprobe helper ---
+async function getAudioDuration(filePath: string): Promise<number> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) {
+        console.warn("⚠️ ffprobe failed, using default 30s duration", err);
+        return resolve(30);
+      }
+      const duration = data?.format?.duration || 0;
+      resolve(duration > 1 ? duration : 30); // fallback to 30s if weird
+    });
+  });
+}
+
+// Clip length for fades - unlike getAudioDuration, short clips are real (sound effects)
+async function getClipDuration(filePath: string): Promise<number> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, data) => resolve(err ? 0 : data?.format?.duration || 0));
+  });
+}
+
+// ============================================================================
+// BACKGROUND VIDEO GENERATION FUNCTION
+// ============================================================================
+
+export interface VideoGenParams {
+  jobId: string;
+  storyId: string;
+  aspectRatio: string;
+  captions: any;
+  backgroundMusic: any;
+  userId: string;
+  storyTitle: string;
+  quality?: RenderQuality;
+  preview?: boolean;  // Draft-quality review render - not saved to videos, no credits charged
+  formats?: AspectRatio[];  // Batch export - every format rendered by this job (default: aspectRatio only)
+  loudnessTarget?: string;  // See lib/loudness.ts (default: -14 LUFS)
+}
+
+export interface VideoGenResult {
+  video_url: string;
+  duration: number;
+  loudness: LoudnessReport | null;  // null when the story has no audio
+}
+
+/**
+ * Render a story to MP4, once per requested format. Media and narration are
+ * prepared once and shared; each format gets its own clips, captions and
+ * videos row. Throws on failure so the job queue can retry it; the tmp
+ * directory is keyed by job ID and wiped before every attempt.
+ */
+export async function runVideoGeneration(params: VideoGenParams): Promise<VideoGenResult> {
+  const { jobId, storyId: story_id, aspectRatio: aspect_ratio, captions, backgroundMusic: background_music, userId, storyTitle, preview } = params;
+  const quality: RenderQuality = preview ? "draft" : getRenderProfile(params.quality).id;
+  const profile = getRenderProfile(quality);
+  const loudnessTarget = getLoudnessTarget(params.loudnessTarget);
+
+  // The story's own format - captions and watermark were laid out in its editor preview
+  const designConfig = getAspectRatioConfig(aspect_ratio);
+  const formats: AspectRatio[] = preview || !params.formats?.length
+    ? [designConfig.id]
+    : Array.from(new Set(params.formats.map((format) => getAspectRatioConfig(format).id)));
+
+  // Configure fontconfig to use project fonts directory
+  const projectRoot = path.resolve(process.cwd());
+  const fontConfigFile = path.join(projectRoot, 'fonts.conf');
+  process.env.FONTCONFIG_FILE = fontConfigFile;
+
+  const tmpDir = path.join(process.cwd(), "tmp", jobId);
+
+  try {
+    // A retried attempt starts from a clean slate
+    if (fs.existsSync(tmpDir)) {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+    fs.mkdirSync(tmpDir, { recursive: true });
+
+    await updateJobProgress(jobId, 5, { stage: "preparing" });
+
+    const logger = getUserLogger(userId);
+
+    const prunedClips = pruneClipCache();
+    if (prunedClips > 0) {
+      logger.info(`[${story_id}] 🧹 Pruned ${prunedClips} expired clip(s) from cache`);
+    }
+
+    logger.info(`[${story_id}] 🎬 Starting background video generation (Job ID: ${jobId})`);
+    logger.info(`[${story_id}] 📐 Aspect ratio: ${aspect_ratio || '9:16'}, quality: ${profile.name}${preview ? ' (preview render)' : ''}`);
+    if (formats.length > 1 || formats[0] !== designConfig.id) {
+      logger.info(`[${story_id}] 🗂️ Batch export: ${formats.join(', ')}`);
+    }
+    if (background_music?.enabled) {
+      logger.info(`[${story_id}] 🎵 Background music enabled at ${background_music.volume}% volume`);
+    }
+
+    // 🏷️ Brand kit - watermark, logo and intro/outro (preview renders skip the clips)
+    const brand = await loadBrandKit(userId);
+    const brandAssets = await downloadBrandAssets(brand, tmpDir, { clips: !preview }, {
+      info: (msg) => logger.info(`[${story_id}] ${msg}`),
+      warn: (msg) => logger.warn(`[${story_id}] ${msg}`),
+    });
+    logger.info(`[${story_id}] 🏷️ Watermark: ${brand.watermarks.platform ? 'AiVideoGen.cc' : 'none'}${brand.watermarks.brand ? ` + brand ${brand.watermarks.brand.type}` : ''} (${brand.plan} plan)`);
+
+    // 🔤 Uploaded caption fonts - copied into this job's own fonts directory for libass
+    const customFonts = captions?.enabled ? await loadCustomFonts(userId) : [];
+    const customFontsDir = await prepareCustomFontsDir(customFonts, [captions?.fontFamily], tmpDir, {
+      info: (msg) => logger.info(`[${story_id}] ${msg}`),
+      warn: (msg) => logger.warn(`[${story_id}] ${msg}`),
+    });
+
+    await updateJobProgress(jobId, 10, { stage: "preparing" });
+
+    // 1️⃣ Fetch scenes with images, videos, audio, word timestamps, and effects
+    const { data: scenes, error: sceneErr } = await supabaseAdmin
+      .from("scenes")
+      .select("id, order, text, image_url, video_url, audio_url, image_generated_at, audio_generated_at, word_timestamps, effects, duration, sfx_cues, text_layers")
+      .eq("story_id", story_id)
+      .order("order", { ascending: true });
+
+    if (sceneErr || !scenes?.length) throw new Error("No scenes found for this story");
+    logger.info(`[${story_id}] 📚 Found ${scenes.length} scenes`);
+
+    // Log media URLs for debugging
+    scenes.forEach((s, i) => {
+      logger.info(`[${story_id}] 📋 Scene ${i + 1}: video_url=${s.video_url ? 'YES' : 'NO'}, image_url=${s.image_url ? 'YES' : 'NO'}`);
+    });
+
+    await updateJobProgress(jobId, 15, { stage: "downloading", scenes: { done: 0, total: scenes.length } });
+
+    type FormatLayout = {
+      config: AspectRatioConfig;
+      width: number;
+      height: number;
+      fontSizeScalingFactor: number;
+      smartCrop: boolean;  // Scene media was made for another format and has to be cropped
+      slug: string;        // "9:16" -> "9x16" for file names
+    };
+
+    const formatLayouts: FormatLayout[] = formats.map((format) => {
+      const config = getAspectRatioConfig(format);
+
+      // Get video dimensions based on aspect ratio and quality tier (see lib/renderProfiles.ts)
+      const { width, height } = getRenderDimensions(config.id, quality);
+
+      // Captions are sized in the story's editor preview (getPreviewDimensions in [id].tsx uses the
+      // same lib/aspectRatios.ts config). Scaling by the short edge keeps them the same relative size
+      // in every format - for the story's own format this equals video width / preview width.
+      const designPreview = designConfig.preview;
+      const fontSizeScalingFactor = Math.min(width, height) / Math.min(designPreview.width, designPreview.height);
+
+      return {
+        config,
+        width,
+        height,
+        fontSizeScalingFactor,
+        smartCrop: config.id !== designConfig.id,
+        slug: config.id.replace(':', 'x'),
+      };
+    });
+
+
+    // Preload overlay categories in a single query
+    const overlayIds = Array.from(
+      new Set(
+        scenes
+          .flatMap((scene) => getSceneOverlays(scene.effects).map((overlay) => overlay.overlay_id))
+      )
+    );
+
+    const overlayCategoryMap = new Map<string, string>();
+    if (overlayIds.length > 0) {
+      const { data: overlayRecords, error: overlayErr } = await supabaseAdmin
+        .from("overlay_effects")
+        .select("id, category")
+        .in("id", overlayIds);
+
+      if (overlayErr) {
+        logger.warn(`[${story_id}] ⚠️ Failed to preload overlay metadata: ${overlayErr.message}`);
+      } else if (overlayRecords) {
+        overlayRecords.forEach((record) => {
+          overlayCategoryMap.set(record.id, record.category || "other");
+        });
+      }
+    }
+
+    // 2️⃣ Verify media (images or videos) exist in scenes
+    const scenesWithMedia = scenes.filter(s => s.image_url || s.video_url);
+    logger.info(`[${story_id}] 🎬 Found ${scenesWithMedia.length} scenes with media out of ${scenes.length} total`);
+    if (!scenesWithMedia.length) throw new Error("No media (images or videos) found for this story");
+
+    // 3️⃣ Download all media files and get audio durations (parallel batches)
+    type SceneMedia = {
+      sceneIndex: number;
+      duration: number;
+      imagePath?: string;
+      videoPath?: string;
+      audioPath?: string;
+      overlays?: { path: string; blendMode: OverlayBlendMode; opacity: number }[]; // Bottom first
+      cacheKey: string;
+      cachedClipPath?: string;
+    };
+
+    // Everything that affects a scene clip's pixels in one format (see lib/clipCache.ts)
+    const getSceneCacheKey = (scene: typeof scenes[number], layout: FormatLayout) =>
+      getClipCacheKey({
+        mediaUrl: scene.video_url || scene.image_url || null,
+        audioUrl: scene.audio_url || null,
+        mediaVersion: scene.video_url ? null : (scene as any).image_generated_at || null,
+        audioVersion: (scene as any).audio_generated_at || null,
+        effect: (scene.effects as any)?.motion || "none",
+        motionPath: (scene.effects as any)?.motion === "custom" ? normalizeMotionPath((scene.effects as any)?.motion_path) : null,
+        overlays: getSceneOverlays(scene.effects).map((overlay) => ({
+          url: overlay.overlay_url,
+          ...resolveOverlayBlend(overlay, overlayCategoryMap.get(overlay.overlay_id)),
+        })),
+        aspectRatio: layout.config.id,
+        smartCrop: layout.smartCrop,
+        quality,
+        width: layout.width,
+        height: layout.height,
+        duration: (scene as any).duration || 5,
+      });
+
+    const mediaPathResults: SceneMedia[] = new Array(scenes.length);
+
+    // Pre-rendered overlays only exist for 9:16, 16:9 and 1:1 - other formats use the closest and crop to fill
+    const resolveLocalOverlay = (
+      overlayUrl: string | null | undefined,
+      overlayId: string | null | undefined,
+      aspectFolder: AspectRatioConfig["overlayFolder"]
+    ) => {
+      if (!overlayUrl || !overlayId) return null;
+      const fileName = overlayUrl.split("/").pop() || "";
+      const overlayName = fileName.replace(/\.(webm|mp4)$/, "");
+      const overlaysDir = path.join(process.cwd(), "public", "overlays");
+      const candidates: string[] = [];
+
+      if (aspectFolder === "1-1") {
+        candidates.push(
+          path.join(overlaysDir, `${overlayName}.mp4`),
+          path.join(overlaysDir, `${overlayName}.webm`)
+        );
+      } else {
+        candidates.push(
+          path.join(overlaysDir, aspectFolder, `${overlayName}.mp4`),
+          path.join(overlaysDir, aspectFolder, `${overlayName}.webm`)
+        );
+      }
+
+      // Fallback to root overlays folder if aspect-specific file missing
+      candidates.push(
+        path.join(overlaysDir, `${overlayName}.mp4`),
+        path.join(overlaysDir, `${overlayName}.webm`)
+      );
+
+      for (const candidatePath of candidates) {
+        if (fs.existsSync(candidatePath)) {
+          const localPathDisplay = aspectFolder === "1-1" ? overlayName : `${aspectFolder}/${overlayName}`;
+          logger.info(`[${story_id}] ✅ Using local overlay: ${localPathDisplay} (${path.basename(candidatePath)})`);
+          return {
+            path: candidatePath,
+            category: overlayCategoryMap.get(overlayId) || "other"
+          };
+        }
+      }
+
+      logger.warn(`[${story_id}] ⚠️ Local overlay not found: ${overlayName} for aspect ${aspectFolder}`);
+      return null;
+    };
+
+    const downloadSceneMedia = async (scene: typeof scenes[number], index: number): Promise<SceneMedia> => {
+      // Cache keys are filled in per format when its clips are rendered
+      const sceneFiles: SceneMedia = {
+        sceneIndex: index,
+        duration: (scene as any).duration || 5,
+        cacheKey: "",
+      };
+      const allFormatsCached = Boolean(scene.video_url || scene.image_url) &&
+        formatLayouts.every((layout) => getCachedClip(getSceneCacheKey(scene, layout)));
+
+      // Download video or image (skipped when the encoded clip is cached for every format)
+      if (allFormatsCached) {
+        logger.info(`[${story_id}] ♻️ Scene ${index + 1} unchanged - reusing cached clip${formatLayouts.length > 1 ? 's' : ''}`);
+      } else if (scene.video_url) {
+        try {
+          const videoRes = await fetch(scene.video_url);
+          if (!videoRes.ok) {
+            throw new Error(`HTTP ${videoRes.status}: ${videoRes.statusText}`);
+          }
+          const buf = Buffer.from(await videoRes.arrayBuffer());
+          const videoPath = path.join(tmpDir, `scene-${index}-video.mp4`);
+          fs.writeFileSync(videoPath, buf);
+          sceneFiles.videoPath = videoPath;
+          logger.info(`[${story_id}] 🎥 Scene ${index + 1} video downloaded successfully`);
+        } catch (err: any) {
+          logger.error(`[${story_id}] ❌ Failed to download video for scene ${index + 1}: ${err.message}`);
+          logger.warn(`[${story_id}] ⚠️ Scene ${index + 1} will be skipped in video generation`);
+        }
+      } else if (scene.image_url) {
+        try {
+          const imgRes = await fetch(scene.image_url);
+          if (!imgRes.ok) {
+            throw new Error(`HTTP ${imgRes.status}: ${imgRes.statusText}`);
+          }
+          const buf = Buffer.from(await imgRes.arrayBuffer());
+          const imgPath = path.join(tmpDir, `scene-${index}.png`);
+          fs.writeFileSync(imgPath, buf);
+          sceneFiles.imagePath = imgPath;
+          logger.info(`[${story_id}] 🖼️ Scene ${index + 1} image downloaded successfully`);
+        } catch (err: any) {
+          logger.error(`[${story_id}] ❌ Failed to download image for scene ${index + 1}: ${err.message}`);
+          logger.warn(`[${story_id}] ⚠️ Scene ${index + 1} will be skipped in video generation`);
+        }
+      } else {
+        logger.info(`[${story_id}] 📝 Scene ${index + 1} has no media - will be text-only`);
+      }
+
+      if (scene.audio_url) {
+        const audioRes = await fetch(scene.audio_url);
+        const audioBuffer = Buffer.from(await audioRes.arrayBuffer());
+        const audioPath = path.join(tmpDir, `scene-${index}-audio.mp3`);
+        fs.writeFileSync(audioPath, audioBuffer);
+        sceneFiles.audioPath = audioPath;
+        logger.info(`[${story_id}] 🎵 Scene ${index + 1} audio downloaded`);
+      }
+
+      logger.info(`[${story_id}] ⏱️ Scene ${index + 1} duration: ${sceneFiles.duration.toFixed(2)}s`);
+
+      return sceneFiles;
+    };
+
+    const downloadConcurrency = 5;
+    const activeDownloads = new Set<Promise<void>>();
+    const downloadPromises: Promise<void>[] = [];
+    let downloadedScenes = 0;
+
+    for (let index = 0; index < scenes.length; index++) {
+      const scene = scenes[index];
+      const downloadPromise = downloadSceneMedia(scene, index).then(async (sceneFiles) => {
+        mediaPathResults[index] = sceneFiles;
+        downloadedScenes++;
+        await updateJobProgress(jobId, Math.floor(15 + (15 * downloadedScenes) / scenes.length), {
+          stage: "downloading",
+          scenes: { done: downloadedScenes, total: scenes.length },
+        });
+      });
+      activeDownloads.add(downloadPromise);
+      downloadPromises.push(downloadPromise);
+      downloadPromise.finally(() => activeDownloads.delete(downloadPromise));
+
+      if (activeDownloads.size >= downloadConcurrency) {
+        await Promise.race(activeDownloads);
+      }
+    }
+
+    await Promise.all(downloadPromises);
+
+    const mediaPaths = mediaPathResults.map((scene) => scene!);
+
+    logger.info(`[${story_id}] 🖼️ Downloaded media for ${mediaPaths.length} scenes`);
+    logger.info(`[${story_id}] ⏱️ Scene timing: ${mediaPaths.map(s => `Scene ${s.sceneIndex + 1}: ${s.duration.toFixed(2)}s`).join(', ')}`);
+
+    // 6️⃣ Get old videos for cleanup later (after successful generation)
+    const { data: oldVideos } = await supabaseAdmin
+      .from("videos")
+      .select("id, video_url, aspect_ratio")
+      .eq("story_id", story_id);
+
+    await updateJobProgress(jobId, 35, { stage: "clips", scenes: { done: 0, total: mediaPaths.length } });
+
+    // Save an encoded clip for reuse; a cache write failure never fails the render
+    const cacheSceneClip = (cacheKey: string, clipPath: string, sceneIndex: number) => {
+      try {
+        storeClip(cacheKey, clipPath);
+      } catch (err: any) {
+        logger.warn(`[${story_id}] ⚠️ Failed to cache clip for scene ${sceneIndex + 1}: ${err.message}`);
+      }
+    };
+
+    // Each format renders its own silent video track (clips, transitions, captions, watermark);
+    // the narration and music track built afterwards is shared by all of them
+    const formatRenders: { layout: FormatLayout; videoOnlyPath: string }[] = [];
+
+    for (let formatIndex = 0; formatIndex < formatLayouts.length; formatIndex++) {
+      const layout = formatLayouts[formatIndex];
+      const { width, height, fontSizeScalingFactor } = layout;
+      const selectedAspect = layout.config.id;
+
+      // Clip encoding and concat share the 35-72% progress range between formats
+      const formatProgress = (fraction: number, detail: JobProgressDetail) =>
+        updateJobProgress(jobId, Math.floor(35 + (37 * (formatIndex + fraction)) / formatLayouts.length), {
+          ...detail,
+          message: detail.message || (formatLayouts.length > 1 ? `${selectedAspect} (${formatIndex + 1}/${formatLayouts.length})` : null),
+        });
+
+      logger.info(`[${story_id}] 🎞️ Rendering video at ${width}x${height} (${selectedAspect}), font scale: ${fontSizeScalingFactor.toFixed(2)}x`);
+
+      // 7️⃣ Per-format scene inputs: cached clip, overlay variant and smart-cropped image
+      const formatScenes: SceneMedia[] = [];
+      for (const media of mediaPaths) {
+        const scene = scenes[media.sceneIndex];
+        const sceneFiles: SceneMedia = { ...media, cacheKey: getSceneCacheKey(scene, layout) };
+        const cachedClipPath = (scene.video_url || scene.image_url) ? getCachedClip(sceneFiles.cacheKey) : null;
+
+        if (cachedClipPath) {
+          sceneFiles.cachedClipPath = cachedClipPath;
+          logger.info(`[${story_id}] ♻️ Scene ${media.sceneIndex + 1} unchanged - reusing cached ${selectedAspect} clip`);
+          formatScenes.push(sceneFiles);
+          continue;
+        }
+
+        // 🎭 Overlay stack - each with its own (or its category's) blend mode and opacity
+        sceneFiles.overlays = [];
+        for (const overlay of getSceneOverlays(scene.effects)) {
+          const overlayInfo = resolveLocalOverlay(overlay.overlay_url, overlay.overlay_id, layout.config.overlayFolder);
+          if (overlayInfo) {
+            sceneFiles.overlays.push({ path: overlayInfo.path, ...resolveOverlayBlend(overlay, overlayInfo.category) });
+          }
+        }
+
+        // ✂️ Images were generated for the story's own format - crop around the most
+        // interesting region (Sharp attention strategy) instead of letterboxing
+        if (layout.smartCrop && media.imagePath) {
+          const croppedPath = path.join(tmpDir, `scene-${media.sceneIndex}-${layout.slug}.png`);
+          await sharp(media.imagePath)
+            .resize(width, height, { fit: "cover", position: sharp.strategy.attention })
+            .png()
+            .toFile(croppedPath);
+          sceneFiles.imagePath = croppedPath;
+          logger.info(`[${story_id}] ✂️ Scene ${media.sceneIndex + 1} image smart-cropped to ${selectedAspect}`);
+        }
+
+        formatScenes.push(sceneFiles);
+      }
+
+      // 8️⃣ Generate individual scene clips with precise timing and effects (PARALLEL)
+      const videoClips: string[] = new Array(mediaPaths.length);
+      const audioClips: string[] = new Array(mediaPaths.length);
+      let completedScenes = 0;
+      let cachedScenes = 0;
+
+      // Helper function to process a single scene
+      const processScene = async (scene: typeof mediaPaths[0]) => {
+        // ♻️ Unchanged scene - reuse the clip encoded by an earlier render
+        if (scene.cachedClipPath) {
+          videoClips[scene.sceneIndex] = scene.cachedClipPath;
+          if (scene.audioPath) {
+            audioClips[scene.sceneIndex] = scene.audioPath;
+          }
+          cachedScenes++;
+          completedScenes++;
+          await formatProgress((completedScenes / mediaPaths.length) * 0.55, { stage: "clips", scenes: { done: completedScenes, total: mediaPaths.length } });
+          return;
+        }
+
+        // Skip scenes without media (need either video or image)
+        if (!scene.videoPath && !scene.imagePath) return;
+
+        const clipPath = path.join(tmpDir, `clip-${scene.sceneIndex}.mp4`);
+        if (fs.existsSync(clipPath)) {
+          try {
+            fs.unlinkSync(clipPath);
+          } catch (err: any) {
+            logger.warn(`[${story_id}] ⚠️ Failed to remove stale clip ${clipPath}: ${err.message}`);
+          }
+        }
+
+        // Get effect for this scene
+        const sceneData = scenes[scene.sceneIndex];
+        const effectId = sceneData.effects?.motion || "none";
+        const effect = getEffect(effectId);
+
+        // 🎥 If scene has an uploaded video, use it directly
+        if (scene.videoPath) {
+          logger.info(`[${story_id}] 🎥 Scene ${scene.sceneIndex + 1}: Using uploaded video (${scene.duration.toFixed(2)}s)`);
+
+          // Get source video duration to check if we need to extend
+          const sourceVideoDuration = await new Promise<number>((resolve) => {
+            ffmpeg.ffprobe(scene.videoPath!, (err, metadata) => {
+              if (err || !metadata?.format?.duration) {
+                resolve(10); // Default to 10s if can't probe
+              } else {
+                resolve(metadata.format.duration);
+              }
+            });
+          });
+
+          const requiredDuration = scene.duration;
+          const needsExtension = sourceVideoDuration < requiredDuration;
+          const extensionDuration = needsExtension ? requiredDuration - sourceVideoDuration : 0;
+
+          if (needsExtension) {
+            logger.info(`[${story_id}] 📏 Source video is ${sourceVideoDuration.toFixed(2)}s, need ${requiredDuration.toFixed(2)}s - extending last frame by ${extensionDuration.toFixed(2)}s`);
+          }
+
+          // Build video filters with high-quality lanczos upscaling for 4K
+          // (batch export formats fill the frame with a center crop instead of letterboxing)
+          const videoFilters = layout.smartCrop
+            ? [
+                `scale=${width}:${height}:force_original_aspect_ratio=increase:flags=lanczos`,
+                `crop=${width}:${height}`
+              ]
+            : [
+                `scale=${width}:${height}:force_original_aspect_ratio=decrease:flags=lanczos`,
+                `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`
+              ];
+
+          // Add tpad filter to extend with last frame if needed
+          if (needsExtension) {
+            videoFilters.push(`tpad=stop_mode=clone:stop_duration=${extensionDuration}`);
+          }
+
+          // Trim/resize video to match story dimensions and duration
+          await new Promise<void>((resolve, reject) => {
+            const cmd = ffmpeg(scene.videoPath!)
+              .setStartTime(0)
+              .videoFilters(videoFilters)
+              .videoCodec('libx264')
+              .noAudio() // Strip audio (already extracted separately during upload)
+              .outputOptions([
+                '-y',
+                '-pix_fmt yuv420p',
+                `-preset ${profile.clipPreset}`,
+                `-crf ${profile.clipCrf}`,
+              ]);
+
+            // Only set duration if we're trimming (not extending)
+            if (!needsExtension) {
+              cmd.setDuration(scene.duration);
+            }
+
+            cmd.save(clipPath)
+              .on('end', () => {
+                logger.info(`[${story_id}] ✅ Scene ${scene.sceneIndex + 1} video processed to ${scene.duration.toFixed(2)}s${needsExtension ? ' (extended)' : ''}`);
+                resolve();
+              })
+              .on('error', (err: any) => {
+                logger.error(`[${story_id}] ❌ Error processing video for scene ${scene.sceneIndex + 1}: ${err.message}`);
+                reject(err);
+              });
+          });
+
+          cacheSceneClip(scene.cacheKey, clipPath, scene.sceneIndex);
+          videoClips[scene.sceneIndex] = clipPath;
+          if (scene.audioPath) {
+            audioClips[scene.sceneIndex] = scene.audioPath;
+          }
+
+          // Update progress
+          completedScenes++;
+          await formatProgress((completedScenes / mediaPaths.length) * 0.55, { stage: "clips", scenes: { done: completedScenes, total: mediaPaths.length } });
+
+          return; // Skip image processing for video clips
+        }
+
+        logger.info(`[${story_id}] 🎬 Scene ${scene.sceneIndex + 1}: Applying "${effect.name}" effect`);
+
+        // Use FFmpeg zoompan filter for motion effects
+        if (effectId !== "none" && scene.imagePath) {
+          const motionPath = effectId === "custom" ? normalizeMotionPath((sceneData.effects as any)?.motion_path) : null;
+          const effectFilter = effect.getFilter(width, height, scene.duration, motionPath);
+          logger.info(`[${story_id}] 🌀 Applying FFmpeg motion filter: ${effectFilter || "none"}`);
+
+          const baseFilter = effectFilter
+            ? `${effectFilter},setsar=1,format=gbrp`
+            : `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,fps=30,setsar=1,format=gbrp`;
+
+          const sceneOverlays = scene.overlays || [];
+
+          if (sceneOverlays.length > 0) {
+            sceneOverlays.forEach((overlay) => {
+              logger.info(`[${story_id}] 🎭 Applying overlay with FFmpeg zoompan: ${overlay.path}`);
+              logger.info(`[${story_id}]    Using ${overlay.blendMode} mode with ${overlay.opacity} opacity`);
+            });
+
+            const compositeFilter = [
+              `[0:v]${baseFilter}[bg]`,
+              ...buildOverlayBlendFilters(
+                "bg",
+                sceneOverlays.map((overlay, i) => ({ input: `${i + 1}:v`, blendMode: overlay.blendMode, opacity: overlay.opacity })),
+                width,
+                height,
+                "comp"
+              ),
+            ].join(";");
+
+            const args = [
+              "-i",
+              scene.imagePath!,
+              ...sceneOverlays.flatMap((overlay) => ["-stream_loop", "-1", "-i", overlay.path]),
+              "-y",
+              "-filter_complex",
+              compositeFilter,
+              "-map",
+              "[comp]",
+              "-an",
+              "-vcodec",
+              "libx264",
+              "-pix_fmt",
+              "yuv420p",
+              "-color_primaries",
+              "bt709",
+              "-color_trc",
+              "bt709",
+              "-colorspace",
+              "bt709",
+              "-t",
+              `${scene.duration}`,
+              "-r",
+              "30",
+              "-preset",
+              profile.clipPreset,
+              "-crf",
+              `${profile.clipCrf}`,
+              clipPath,
+            ];
+
+            await runFFmpegCommand(args, logger, story_id, (time) => {
+              void formatProgress((completedScenes / mediaPaths.length) * 0.55, {
+                stage: "clips",
+                scenes: { done: completedScenes, total: mediaPaths.length },
+                ffmpeg: { time, duration: scene.duration },
+                message: `Scene ${scene.sceneIndex + 1}`,
+              });
+            });
+            logger.info(`[${story_id}] ✅ Motion clip saved: ${clipPath}`);
+          } else {
+            await new Promise<void>((resolve, reject) => {
+              const cmd = ffmpeg()
+                .input(scene.imagePath!)
+                .inputOptions(["-loop", "1", "-framerate", "15"]) // Loop image for duration
+                .videoFilters(baseFilter)
+                .noAudio()
+                .videoCodec("libx264")
+                .outputOptions([
+                  "-y",
+                  "-pix_fmt",
+                  "yuv420p",
+                  "-t",
+                  `${scene.duration}`,
+                  "-r",
+                  "30",
+                  "-preset",
+                  profile.clipPreset,
+                  "-crf",
+                  `${profile.clipCrf}`,
+                ])
+                .save(clipPath)
+                .on("end", () => {
+                  logger.info(`[${story_id}] ✅ Motion clip saved: ${clipPath}`);
+                  resolve();
+                })
+                .on("error", (err: any) => {
+                  logger.error(`[${story_id}] ❌ Motion effect failed: ${err.message}`);
+                  reject(err);
+                });
+            });
+          }
+        } else {
+          // No motion effect - use static image with simple scaling
+
+          // Skip scene if no image exists
+          if (!scene.imagePath) {
+            logger.warn(`[${story_id}] ⚠️ Scene ${scene.sceneIndex + 1} has no image - skipping video generation for this scene`);
+            return;
+          }
+
+          const videoFilter = `scale=${width}:${height}:force_original_aspect_ratio=decrease,pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black`;
+
+          // Check if scene has overlays
+          const sceneOverlays = scene.overlays || [];
+          if (sceneOverlays.length > 0) {
+            // Apply overlays using proper alpha compositing
+            await new Promise<void>((resolve, reject) => {
+              sceneOverlays.forEach((overlay) => {
+                logger.info(`[${story_id}] 🎭 Applying overlay to static image: ${overlay.path}`);
+                logger.info(`[${story_id}]    Using ${overlay.blendMode} mode (${overlay.opacity} opacity)`);
+              });
+
+              // Smart scaling strategy for all aspect ratios:
+              // Scale so smallest dimension fills frame, center the overlay, allow natural overflow
+              // This works for 9:16, 16:9, and 1:1 without extreme zoom or gaps
+              // Blend in RGB using gbrp format (no colorkey), overlays stacked bottom first
+              const filterComplex = [
+                `[0:v]${videoFilter},fps=30,setsar=1,format=gbrp[bg]`,
+                ...buildOverlayBlendFilters(
+                  "bg",
+                  sceneOverlays.map((overlay, i) => ({ input: `${i + 1}:v`, blendMode: overlay.blendMode, opacity: overlay.opacity })),
+                  width,
+                  height,
+                  "comp"
+                ),
+              ].join(";");
+
+              logger.info(`[${story_id}]    Filter: ${filterComplex}`);
+
+              let cmd = ffmpeg()
+                .input(scene.imagePath!) // Input 0: image
+                .inputOptions(["-loop", "1", "-framerate", "15"]);
+              sceneOverlays.forEach((overlay) => {
+                cmd = cmd.input(overlay.path).inputOptions(["-stream_loop", "-1"]); // Loop overlays to match duration
+              });
+              cmd = cmd
+                .videoCodec("libx264")
+                .noAudio()
+                .complexFilter(filterComplex, "comp")
+                .outputOptions([
+                  "-y",
+                  "-pix_fmt yuv420p",
+                  "-color_primaries bt709",
+                  "-color_trc bt709",
+                  "-colorspace bt709",
+                  `-t ${scene.duration}`,
+                  "-r 30",
+                  `-preset ${profile.clipPreset}`,
+                  `-crf ${profile.clipCrf}`,
+                ])
+                .save(clipPath);
+
+              cmd.on("start", (cmdLine) => {
+                logger.info(`[${story_id}] 🚀 FFmpeg command: ${cmdLine}`);
+              });
+
+              cmd.on("end", () => {
+                logger.info(`[${story_id}] ✅ Overlay applied successfully`);
+                resolve();
+              });
+
+              cmd.on("error", (err: any) => {
+                logger.error(`[${story_id}] ❌ Overlay failed: ${err.message}`);
+                reject(err);
+              });
+            });
+          } else {
+            // No overlay - simple static image
+            await new Promise<void>((resolve, reject) => {
+              ffmpeg()
+                .input(scene.imagePath!)
+                .inputOptions(["-loop", "1", "-framerate", "15"]) // Loop image for duration
+                .videoCodec("libx264")
+                .noAudio()
+                .outputOptions([
+                  "-y",
+                  "-pix_fmt yuv420p",
+                  `-vf ${videoFilter}`,
+                  `-t ${scene.duration}`,
+                  "-r 30", // Smooth playback for overlays
+                  `-preset ${profile.clipPreset}`, // Match effect clips preset
+                  `-crf ${profile.clipCrf}`, // Match effect clips quality
+                ])
+                .save(clipPath)
+                .on("end", () => resolve())
+                .on("error", (err: any) => reject(err));
+            });
+          }
+        }
+
+        cacheSceneClip(scene.cacheKey, clipPath, scene.sceneIndex);
+        videoClips[scene.sceneIndex] = clipPath;
+
+        // If scene has audio, add it to audio clips list
+        if (scene.audioPath) {
+          audioClips[scene.sceneIndex] = scene.audioPath;
+        }
+
+        // Update progress for each scene processed (first 55% of this format's range)
+        completedScenes++;
+        await formatProgress((completedScenes / mediaPaths.length) * 0.55, { stage: "clips", scenes: { done: completedScenes, total: mediaPaths.length } });
+      };
+
+      // Process scenes in parallel (max 5 at a time)
+      logger.info(`[${story_id}] 🚀 Processing ${mediaPaths.length} scenes in parallel (max 5 concurrent)...`);
+      const batchSize = 5;
+      for (let i = 0; i < formatScenes.length; i += batchSize) {
+        const batch = formatScenes.slice(i, i + batchSize);
+        await Promise.all(batch.map(scene => processScene(scene)));
+      }
+
+      // Filter out undefined values (scenes that were skipped)
+      const filteredVideoClips = videoClips.filter(c => c !== undefined);
+      const filteredAudioClips = audioClips.filter(c => c !== undefined);
+
+      logger.info(`[${story_id}] ✅ Generated ${filteredVideoClips.length} video clips in parallel (${cachedScenes} reused from cache)`);
+
+      // Transitions are stored on the outgoing scene (effects.transition = into the next scene)
+      const clipScenes = mediaPaths.filter((scene) => videoClips[scene.sceneIndex] !== undefined);
+      const transitionClips: TransitionClip[] = clipScenes.map((scene, i) => {
+        const sceneEffects = (scenes[scene.sceneIndex].effects || {}) as any;
+        const nextScene = clipScenes[i + 1];
+        return {
+          duration: scene.duration,
+          transition: nextScene ? getTransition(sceneEffects.transition).id : "none",
+          transitionDuration: nextScene
+            ? clampTransitionDuration(sceneEffects.transition_duration, scene.duration, nextScene.duration)
+            : 0,
+        };
+      });
+
+      await formatProgress(0.68, { stage: "transitions" });
+
+      // 9️⃣ Combine all video clips
+      const videoOnlyPath = path.join(tmpDir, `video-only-${story_id}-${layout.slug}.mp4`);
+
+      await formatProgress(0.73, { stage: "captions" });
+
+      // If captions are enabled, generate ASS subtitle file with word-by-word animation
+      let captionFilter = "";
+      if (captions?.enabled) {
+        logger.info(`[${story_id}] 🎨 Generating captions with style: ${captions.style}, position: ${captions.position}`);
+
+        // Collect all word timestamps and full text from all scenes
+        const allWordTimestamps: WordTimestamp[] = [];
+        const allSceneTexts: string[] = [];
+        let timeOffset = 0;
+
+        for (const scene of mediaPaths) {
+          const sceneData = scenes[scene.sceneIndex];
+          const spokenText = stripSpeakerTags(sceneData.text);
+          allSceneTexts.push(spokenText); // Collect text for sentence boundary detection
+
+          if (sceneData.word_timestamps && Array.isArray(sceneData.word_timestamps)) {
+            // Use existing timestamps from database
+            // These are either:
+            // 1. Audio-aligned timestamps (if audio was generated via Echogarden)
+            // 2. Synthetic timestamps (generated at scene creation time)
+            sceneData.word_timestamps.forEach((wt: any) => {
+              allWordTimestamps.push({
+                word: wt.word,
+                start: wt.start + timeOffset,
+                end: wt.end + timeOffset,
+                ...(wt.speaker ? { speaker: wt.speaker } : {}),
+                ...(wt.emphasis ? { emphasis: true } : {}),
+                ...(wt.emoji ? { emoji: wt.emoji } : {})
+              });
+            });
+          } else {
+            // Fallback: Generate synthetic word timestamps (for backwards compatibility with old scenes)
+            const words = spokenText.split(/\s+/);
+            const wordsPerSecond = 2; // Reading speed (same as duration calculation)
+            const wordDuration = 1 / wordsPerSecond;
+
+            words.forEach((word: string, i: number) => {
+              const start = timeOffset + (i * wordDuration);
+              const end = start + wordDuration;
+              allWordTimestamps.push({
+                word: word,
+                start: start,
+                end: end
+              });
+            });
+          }
+          timeOffset += scene.duration;
+        }
+
+        // Combine all scene texts for sentence boundary detection
+        const fullText = allSceneTexts.join(' ');
+
+        // Dialogue scenes: each character gets a caption color in order of first line
+        const speakerColors: Record<string, string> = {};
+        if (captions.speakerColors !== false) {
+          for (const wt of allWordTimestamps) {
+            if (wt.speaker && !speakerColors[wt.speaker]) {
+              const index = Object.keys(speakerColors).length % SPEAKER_COLORS.length;
+              speakerColors[wt.speaker] = convertHexToASSColor(SPEAKER_COLORS[index]);
+            }
+          }
+          if (Object.keys(speakerColors).length > 0) {
+            logger.info(`[${story_id}] 🗣️ Coloring captions per speaker: ${Object.keys(speakerColors).join(", ")}`);
+          }
+        }
+
+        logger.info(`[${story_id}] 📝 Collected ${allWordTimestamps.length} word timestamps from ${mediaPaths.length} scenes`);
+
+        // Use word-by-word ASS if we have timestamps, otherwise fallback to simple SRT
+        const assPath = path.join(tmpDir, `subtitles-${story_id}-${layout.slug}.ass`);
+
+        if (allWordTimestamps.length > 0) {
+          // Create custom ASS style from caption settings
+          const captionLayout = normalizeCaptionLayout(captions);
+          let positionFromBottom = captionLayout.positionFromBottom;
+
+          // Batch export: keep captions inside this format's safe band, clear of platform UI
+          if (layout.smartCrop) {
+            const { min, max } = layout.config.captionSafeBottom;
+            positionFromBottom = Math.min(max, Math.max(min, positionFromBottom));
+          }
+
+          // Calculate marginV based on percentage from bottom
+          // For 9:16 video (1080x1920), convert percentage to pixels
+          // marginV represents distance from bottom edge
+          const videoHeight = height; // Use actual video height
+          const marginV = Math.round((positionFromBottom / 100) * videoHeight);
+
+          // Scale font size to match preview appearance
+          const previewFontSize = captions.fontSize || 20;
+          const scaledFontSize = Math.round(previewFontSize * fontSizeScalingFactor);
+
+          // Map CSS font weight to ASS font name with weight variant
+          // This ensures the same visual weight as preview
+          const fontWeight = captions.fontWeight || 600;
+          // Uploaded fonts are asked for by the closest face's full name (lib/customFonts.ts)
+          const { fontName: fontNameWithWeight, bold: assBold } =
+            (customFontsDir && getCustomASSFontName(customFonts, captions.fontFamily, fontWeight)) ||
+            getASSFontName(captions.fontFamily || 'Montserrat', fontWeight);
+
+          const assStyle: any = {
+            name: 'Custom',
+            fontName: fontNameWithWeight,
+            fontSize: scaledFontSize,
+            primaryColour: convertHexToASSColor(captions.inactiveColor || '#FFFFFF'),
+            bold: assBold,
+            italic: 0,
+            outline: 0, // No outline - matches preview's clean text
+            shadow: 3, // Drop shadow - matches preview's textShadow
+            alignment: 2, // Bottom center
+            marginV: marginV,
+          };
+
+          logger.info(`[${story_id}] 📏 Font: "${fontNameWithWeight}", size: ${previewFontSize}px (preview) → ${scaledFontSize}pt (video) [${fontSizeScalingFactor.toFixed(2)}x scale]`);
+          logger.info(`[${story_id}] 📏 Font weight: ${fontWeight} (CSS) → "${fontNameWithWeight}" (ASS), bold=${assBold}`);
+          logger.info(`[${story_id}] 📐 ASS subtitle resolution: ${width}x${height}, marginV: ${marginV}px (${positionFromBottom}% from bottom)`);
+
+          // Same box and line breaks as the editor preview (lib/captionLayout.ts)
+          const captionBox = resolveCaptionBox(
+            { ...captionLayout, positionFromBottom },
+            { fontSize: scaledFontSize, width, height, aspectRatio: layout.config.id }
+          );
+          const placement: ASSCaptionPlacement = {
+            x: Math.round((captionBox.x / 100) * width),
+            y: Math.round(height - (captionBox.bottom / 100) * height),
+            maxChars: captionBox.maxChars,
+            maxLines: captionBox.maxLines,
+          };
+          logger.info(`[${story_id}] 📐 Caption box: ${captionBox.x}% x, ${captionBox.bottom}% from bottom, ${captionBox.maxWidth}% wide (${captionBox.maxChars} chars), up to ${captionBox.maxLines} line(s)${captionLayout.avoidSafeZone && captionLayout.safeZone ? `, inside ${captionLayout.safeZone} safe zone` : ''}`);
+
+          // Generate ASS with word-by-word animation and custom highlight color
+          const highlightColor = convertHexToASSColor(captions.activeColor || '#FFEB3B');
+          const wordsPerBatch = captions.wordsPerBatch || 0; // 0 = show all words
+          const textTransform = captions.textTransform || 'none';
+          const animation = getCaptionAnimation(captions.animation).id;
+          // Emphasis/emoji tags on the words (see /api/generate_caption_tags)
+          const tagStyle = {
+            emphasisColour: captions.emphasis !== false ? convertHexToASSColor(captions.emphasisColor || DEFAULT_EMPHASIS_COLOR) : null,
+            emojis: captions.emojis !== false,
+          };
+
+          const assContent = generateWordByWordASS(
+            allWordTimestamps,
+            assStyle,
+            highlightColor,
+            wordsPerBatch,
+            textTransform,
+            fullText,
+            width,  // Pass actual video width for correct PlayResX
+            height, // Pass actual video height for correct PlayResY
+            speakerColors,
+            animation,
+            tagStyle,
+            placement
+          );
+          fs.writeFileSync(assPath, assContent);
+          logger.info(`[${story_id}] ✅ Generated word-by-word ASS subtitles with ${wordsPerBatch > 0 ? wordsPerBatch + ' words per batch' : 'all words'}, transform: ${textTransform}, animation: ${animation}`);
+        } else {
+          // Fallback to simple SRT if no word timestamps
+          logger.warn(`[${story_id}] ⚠️ No word timestamps available, using simple scene-level captions`);
+          const srtPath = path.join(tmpDir, `subtitles-${story_id}-${layout.slug}.srt`);
+          fs.writeFileSync(
+            srtPath,
+            generateSimpleSRT(mediaPaths.map(scene => ({ text: stripSpeakerTags(scenes[scene.sceneIndex].text), duration: scene.duration }))),
+            'utf-8'
+          );
+          // Convert SRT to ASS for consistency (will use simple display)
+          // For now, just use SRT path
+          logger.info(`[${story_id}] ✅ Generated simple SRT subtitles: ${srtPath}`);
+        }
+
+        // Escape the ASS path for FFmpeg
+        const escapedAssPath = assPath.replace(/\\/g, '\\\\').replace(/:/g, '\\\\:');
+        captionFilter = escapedAssPath;
+        if (customFontsDir) {
+          captionFilter += `:fontsdir=${customFontsDir.replace(/\\/g, '\\\\').replace(/:/g, '\\\\:')}`;
+        }
+
+        logger.info(`[${story_id}] 📝 Caption file ready: ${assPath}`);
+      }
+
+      // 🔤 Text layers (title cards, lower thirds, call-outs) - their own ASS file, drawn over the captions
+      let textLayerFilter = "";
+      const placedTextLayers: PlacedTextLayer[] = [];
+      let textLayerOffset = 0;
+      for (const scene of mediaPaths) {
+        const layers = normalizeTextLayers((scenes[scene.sceneIndex] as any).text_layers) || [];
+        layers.forEach((layer) => placedTextLayers.push({ layer, offset: textLayerOffset, sceneDuration: scene.duration }));
+        textLayerOffset += scene.duration;
+      }
+      if (placedTextLayers.length > 0) {
+        const textLayerPath = path.join(tmpDir, `text-layers-${story_id}-${layout.slug}.ass`);
+        fs.writeFileSync(textLayerPath, generateTextLayerASS(placedTextLayers, width, height, fontSizeScalingFactor));
+        textLayerFilter = textLayerPath.replace(/\\/g, '\\\\').replace(/:/g, '\\\\:');
+        logger.info(`[${story_id}] 🔤 Generated ${placedTextLayers.length} text layer(s): ${textLayerPath}`);
+      }
+
+      await formatProgress(0.81, { stage: "concat" });
+
+      // Transitions pad the outgoing clip by their own length (buildTransitionFilter), so the output is still the clips added up
+      const encodedDuration = transitionClips.reduce((sum, clip) => sum + clip.duration, 0);
+
+      await new Promise<void>((resolve, reject) => {
+        // Use concat FILTER instead of concat demuxer to properly handle videos with different frame rates
+        logger.info(`[${story_id}] 🎬 Concatenating ${filteredVideoClips.length} video clips with concat filter...`);
+
+        // Build FFmpeg command with each clip as a separate input
+        let cmd = ffmpeg();
+        filteredVideoClips.forEach((clipPath) => {
+          cmd = cmd.input(clipPath);
+        });
+
+        // Build concat filter: [0:v][1:v]concat=n=2:v=1:a=0[concatv]
+        const concatInputs = filteredVideoClips.map((_, i) => `[${i}:v]`).join('');
+        let concatFilterStr = `${concatInputs}concat=n=${filteredVideoClips.length}:v=1:a=0[concatv]`;
+
+        // 🔀 Scene transitions - xfade chain instead of a plain concat when any scene has one
+        if (transitionClips.some((clip) => getTransition(clip.transition).xfade && clip.transitionDuration > 0)) {
+          concatFilterStr = buildTransitionFilter(transitionClips, "concatv");
+          transitionClips.forEach((clip, i) => {
+            if (i < transitionClips.length - 1 && clip.transition !== "none") {
+              logger.info(`[${story_id}] 🔀 Transition after clip ${i + 1}: ${clip.transition} (${clip.transitionDuration.toFixed(2)}s)`);
+            }
+          });
+        }
+
+        // 🏷️ Watermarks - the floating AiVideoGen.cc text unless the plan lets the brand kit remove it,
+        // plus the user's own text or logo. Sizes are preview pixels, scaled like the captions.
+        // Floating marks follow the format's path (lib/aspectRatios.ts) so they stay above the caption band.
+        let logoInput: string | undefined;
+        if (brandAssets.logoPath) {
+          cmd = cmd.input(brandAssets.logoPath).inputOptions(["-loop 1"]);
+          logoInput = `${filteredVideoClips.length}:v`;
+        }
+
+        // Build complete filter chain: concat -> subtitles (optional) -> text layers (optional) -> watermarks (optional) -> output
+        const filterParts = [concatFilterStr];
+        let videoLabel = "concatv";
+        if (captionFilter) {
+          filterParts.push(`[${videoLabel}]subtitles=${captionFilter}[captioned]`);
+          videoLabel = "captioned";
+        }
+        if (textLayerFilter) {
+          filterParts.push(`[${videoLabel}]subtitles=${textLayerFilter}[texted]`);
+          videoLabel = "texted";
+        }
+        const watermarkFilters = buildWatermarkFilters(brand, videoLabel, "outv", {
+          width: layout.width,
+          fontScale: fontSizeScalingFactor,
+          motion: layout.config.watermarkMotion,
+          logoInput,
+        });
+        filterParts.push(...(watermarkFilters.length > 0 ? watermarkFilters : [`[${videoLabel}]null[outv]`]));
+        const filterComplex = filterParts.join(";");
+        logger.info(`[${story_id}] 🏷️ Adding concat${captionFilter ? ' + captions' : ''}${textLayerFilter ? ' + text layers' : ''}${watermarkFilters.length ? ' + watermark' : ''} to video`);
+
+        cmd
+          .complexFilter(filterComplex)
+          .outputOptions([
+            "-map [outv]",
+            "-c:v libx264",
+            `-crf ${profile.crf}`,
+            `-preset ${profile.preset}`,
+            "-pix_fmt yuv420p",
+            "-movflags +faststart",
+          ])
+          .save(videoOnlyPath)
+          .on("start", (cmdLine) => {
+            logger.info(`[${story_id}] 🚀 FFmpeg concat filter: ${cmdLine.substring(0, 200)}...`);
+          })
+          .on("progress", (p: any) => {
+            const time = parseFFmpegTime(p.timemark);
+            if (time === null || encodedDuration <= 0) return;
+            void formatProgress(0.81 + 0.19 * Math.min(1, time / encodedDuration), { stage: "concat", ffmpeg: { time, duration: encodedDuration } });
+          })
+          .on("end", () => {
+            logger.info(`[${story_id}] ✅ Video clips concatenated with filters applied`);
+            resolve();
+          })
+          .on("error", (err: any) => {
+            logger.error(`[${story_id}] ❌ FFmpeg concat failed: ${err.message}`);
+            reject(err);
+          });
+      });
+
+      formatRenders.push({ layout, videoOnlyPath });
+      await formatProgress(1, { stage: "concat" });
+    }
+
+    // 🔟 Create final videos - video tracks already have correct timing, just add the audio track
+
+    // Concat all scene audio files into one track
+    const sceneSfxCues = mediaPaths.map((scene) => normalizeSfxCues((scenes[scene.sceneIndex] as any).sfx_cues) || []);
+    const hasSfx = sceneSfxCues.some((cues) => cues.length > 0);
+    // Sound effects need a track to play on even when no scene is narrated - silent scenes are filled below
+    const hasAudio = mediaPaths.some(s => s.audioPath) || hasSfx;
+    let finalAudioTrack: string | null = null;
+    let loudnessReport: LoudnessReport | null = null;
+
+    if (hasAudio) {
+      await updateJobProgress(jobId, 72, { stage: "audio" });
+
+      // Pad each scene's audio to match its video duration, then concat
+      const paddedAudioFiles: string[] = [];
+
+      for (let i = 0; i < mediaPaths.length; i++) {
+        const scene = mediaPaths[i];
+
+        if (scene.audioPath) {
+          // Level each scene to the target first, so TTS voices and uploaded-video audio match
+          const sceneLoudness = await measureLoudness(scene.audioPath, loudnessTarget);
+          logger.info(`[${story_id}] 🔊 Scene ${i + 1} loudness: ${sceneLoudness.integrated.toFixed(1)} LUFS, ${sceneLoudness.truePeak.toFixed(1)} dBTP`);
+
+          // Pad audio to match scene duration
+          const paddedAudioPath = path.join(tmpDir, `padded-audio-${i}.m4a`);
+          await new Promise<void>((resolve, reject) => {
+            ffmpeg(scene.audioPath!)
+              .audioFilters([
+                getLoudnormFilter(loudnessTarget, sceneLoudness),
+                `apad=whole_dur=${scene.duration}` // Pad with silence to match video duration
+              ])
+              .audioCodec("aac")
+              .audioBitrate("256k")
+              .audioChannels(2)
+              .audioFrequency(48000)
+              .save(paddedAudioPath)
+              .on("end", () => resolve())
+              .on("error", reject);
+          });
+          paddedAudioFiles.push(paddedAudioPath);
+          logger.info(`[${story_id}] 🎵 Scene ${i + 1} audio padded to ${scene.duration.toFixed(2)}s`);
+        } else {
+          // No audio for this scene - create silence
+          const silencePath = path.join(tmpDir, `silence-${i}.m4a`);
+          await new Promise<void>((resolve, reject) => {
+            ffmpeg()
+              .input('anullsrc=r=48000:cl=stereo')
+              .inputOptions(['-f lavfi'])
+              .duration(scene.duration)
+              .audioCodec("aac")
+              .audioBitrate("256k")
+              .save(silencePath)
+              .on("end", () => resolve())
+              .on("error", reject);
+          });
+          paddedAudioFiles.push(silencePath);
+          logger.info(`[${story_id}] 🔇 Scene ${i + 1} silence created for ${scene.duration.toFixed(2)}s`);
+        }
+      }
+
+      // Create concat file for padded audio
+      const audioConcat = path.join(tmpDir, "audio-concat.txt");
+      fs.writeFileSync(audioConcat, paddedAudioFiles.map(p => `file '${p}'`).join("\n"));
+
+      // Concat audio files (narration) with high quality settings and normalization
+      const mergedNarrationAudio = path.join(tmpDir, "merged-narration.m4a");
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg()
+          .input(audioConcat)
+          .inputOptions(["-f concat", "-safe 0"])
+          .audioFilters([
+            "acompressor=threshold=-18dB:ratio=3:attack=5:release=50" // Gentle compression for consistent levels
+          ])
+          .audioCodec("aac")
+          .audioBitrate("256k") // High quality audio bitrate
+          .audioChannels(2) // Stereo
+          .audioFrequency(48000) // 48kHz sample rate for better quality
+          .save(mergedNarrationAudio)
+          .on("end", () => resolve())
+          .on("error", reject);
+      });
+
+      logger.info(`[${story_id}] 🎵 Concatenated all scene audio files (per-scene loudness normalization + gentle compression for clarity)`);
+
+      await updateJobProgress(jobId, 75, { stage: "audio" });
+
+      finalAudioTrack = mergedNarrationAudio;
+
+      // Mix background music if enabled and volume > 0
+      if (background_music?.enabled && background_music?.music_url && (background_music.volume ?? 30) > 0) {
+        logger.info(`[${story_id}] 🎵 Downloading background music...`);
+
+        await updateJobProgress(jobId, 77, { stage: "music" });
+
+        const bgMusicPath = path.join(tmpDir, "background-music.mp3");
+        const bgRes = await fetch(background_music.music_url);
+        const bgBuffer = Buffer.from(await bgRes.arrayBuffer());
+        fs.writeFileSync(bgMusicPath, bgBuffer);
+
+        // Get total video duration
+        const totalDuration = mediaPaths.reduce((sum, scene) => sum + scene.duration, 0);
+        // Use nullish coalescing to properly handle 0 volume (0 || 30 = 30, but 0 ?? 30 = 0)
+        const bgVolume = background_music.volume ?? 30;
+        const musicMix = normalizeMusicMix(background_music.mix);
+
+        logger.info(`[${story_id}] 🎵 Mixing background music (${bgVolume}% volume) with narration for ${totalDuration.toFixed(2)}s`);
+        let speech: SpeechWindow[] = [];
+        if (musicMix.duck_enabled && musicMix.duck_depth > 0) {
+          speech = await detectSpeechWindows(mergedNarrationAudio, totalDuration);
+          logger.info(`[${story_id}] 🦆 Ducking music ${musicMix.duck_depth}dB under ${speech.length} stretch(es) of narration (attack ${musicMix.attack}ms, release ${musicMix.release}ms)`);
+        }
+
+        // Mix background music with narration
+        const mixedAudio = path.join(tmpDir, "mixed-audio.m4a");
+        await new Promise<void>((resolve, reject) => {
+          const cmd = ffmpeg()
+            .input(mergedNarrationAudio) // Input 0: Narration
+            .input(bgMusicPath) // Input 1: Background music
+            // Loop, level, fade and duck the music, then mix - no normalization to preserve dynamics
+            .complexFilter(buildMusicMixFilters("0:a", "1:a", "mixed", bgVolume, totalDuration, musicMix, speech))
+            .outputOptions([
+              "-map [mixed]",
+              `-t ${totalDuration}`, // Trim to video duration
+              "-c:a aac",
+              "-b:a 256k", // High quality audio bitrate
+              "-ar 48000" // 48kHz sample rate
+            ])
+            .save(mixedAudio);
+
+          cmd.on("start", (cmdLine) => logger.info(`[${story_id}] 🚀 FFmpeg mixing: ${cmdLine}`));
+          cmd.on("end", () => {
+            logger.info(`[${story_id}] ✅ Background music mixed with narration`);
+            resolve();
+          });
+          cmd.on("error", (err: any) => {
+            logger.error(`[${story_id}] ❌ FFmpeg mixing failed: ${err.message}`);
+            reject(err);
+          });
+        });
+
+        finalAudioTrack = mixedAudio;
+
+        await updateJobProgress(jobId, 80, { stage: "mastering" });
+      }
+
+      // Lay the scenes' sound effects over narration and music, before mastering so they're leveled with the mix
+      if (hasSfx) {
+        const totalDuration = mediaPaths.reduce((sum, scene) => sum + scene.duration, 0);
+        const clipPaths = new Map<string, { path: string; duration: number } | null>();
+        const placedCues: PlacedSfxCue[] = [];
+        const cueInputs: string[] = [];
+        let sceneStart = 0;
+
+        for (let i = 0; i < mediaPaths.length; i++) {
+          const wordTimestamps = scenes[mediaPaths[i].sceneIndex].word_timestamps as WordTimestamp[] | null;
+
+          for (const cue of sceneSfxCues[i]) {
+            if (!clipPaths.has(cue.url)) {
+              try {
+                const sfxRes = await fetch(cue.url);
+                if (!sfxRes.ok) throw new Error(`HTTP ${sfxRes.status}: ${sfxRes.statusText}`);
+                const clipPath = path.join(tmpDir, `sfx-${clipPaths.size}${path.extname(cue.url.split("?")[0]) || ".mp3"}`);
+                fs.writeFileSync(clipPath, Buffer.from(await sfxRes.arrayBuffer()));
+                clipPaths.set(cue.url, { path: clipPath, duration: await getClipDuration(clipPath) });
+              } catch (err: any) {
+                logger.warn(`[${story_id}] ⚠️ Skipping sound effect "${cue.name}" on scene ${i + 1}: ${err.message}`);
+                clipPaths.set(cue.url, null);
+              }
+            }
+
+            const clip = clipPaths.get(cue.url);
+            const start = sceneStart + getCueStartTime(cue, wordTimestamps);
+            if (!clip || start >= totalDuration) continue;
+
+            cueInputs.push(clip.path);
+            placedCues.push({
+              input: `${cueInputs.length}:a`, // Input 0 is the mix so far
+              start,
+              duration: clip.duration,
+              volume: cue.volume,
+              fade_in: cue.fade_in,
+              fade_out: cue.fade_out,
+            });
+          }
+          sceneStart += mediaPaths[i].duration;
+        }
+
+        if (placedCues.length > 0) {
+          logger.info(`[${story_id}] 💥 Mixing ${placedCues.length} sound effect cue(s) into the audio track`);
+          const sfxAudio = path.join(tmpDir, "sfx-audio.m4a");
+          await new Promise<void>((resolve, reject) => {
+            const cmd = ffmpeg().input(finalAudioTrack!);
+            cueInputs.forEach((clipPath) => cmd.input(clipPath));
+            cmd
+              .complexFilter(buildSfxMixFilters("0:a", placedCues, "withsfx"))
+              .outputOptions([
+                "-map [withsfx]",
+                `-t ${totalDuration}`,
+                "-c:a aac",
+                "-b:a 256k",
+                "-ar 48000"
+              ])
+              .save(sfxAudio)
+              .on("end", () => resolve())
+              .on("error", (err: any) => {
+                logger.error(`[${story_id}] ❌ FFmpeg sound effects mix failed: ${err.message}`);
+                reject(err);
+              });
+          });
+          finalAudioTrack = sfxAudio;
+        }
+      }
+
+      // Master: two-pass loudness normalization of the full mix, with true-peak limiting
+      logger.info(`[${story_id}] 🔊 Normalizing master to ${loudnessTarget.integrated} LUFS / ${loudnessTarget.truePeak} dBTP (${loudnessTarget.name})`);
+      const masterMeasured = await measureLoudness(finalAudioTrack, loudnessTarget);
+      const masteredAudio = path.join(tmpDir, "mastered-audio.m4a");
+      await new Promise<void>((resolve, reject) => {
+        ffmpeg(finalAudioTrack!)
+          .audioFilters([getLoudnormFilter(loudnessTarget, masterMeasured)])
+          .audioCodec("aac")
+          .audioBitrate("256k")
+          .audioChannels(2)
+          .audioFrequency(48000) // loudnorm works at 192kHz internally
+          .save(masteredAudio)
+          .on("end", () => resolve())
+          .on("error", reject);
+      });
+      const masterOutput = await measureLoudness(masteredAudio, loudnessTarget);
+      finalAudioTrack = masteredAudio;
+
+      loudnessReport = {
+        target: loudnessTarget.id,
+        target_lufs: loudnessTarget.integrated,
+        measured: masterMeasured,
+        output: masterOutput,
+      };
+      logger.info(`[${story_id}] ✅ Master loudness ${masterMeasured.integrated.toFixed(1)} → ${masterOutput.integrated.toFixed(1)} LUFS, true peak ${masterOutput.truePeak.toFixed(1)} dBTP`);
+    }
+
+    // Combine each format's video with the final audio track
+    await updateJobProgress(jobId, 82, { stage: "muxing" });
+
+    const finalVideos: { layout: FormatLayout; path: string }[] = [];
+    let brandClipDuration = 0;
+    let introDuration = 0; // Scenes start this late in the final video (scene_timeline)
+    for (const { layout, videoOnlyPath } of formatRenders) {
+      const finalVideo = path.join(tmpDir, `final-video-${story_id}-${layout.slug}.mp4`);
+
+      if (finalAudioTrack) {
+        await new Promise<void>((resolve, reject) => {
+          ffmpeg()
+            .input(videoOnlyPath)
+            .input(finalAudioTrack!)
+            .outputOptions([
+              "-c:v copy",  // Copy video without re-encoding
+              "-c:a aac",
+              `-b:a ${profile.audioBitrate}`,
+              "-ar 48000",  // 48kHz sample rate
+              "-map 0:v:0",
+              "-map 1:a:0",
+              "-shortest",  // End when shortest stream ends
+              "-movflags +faststart"
+            ])
+            .save(finalVideo)
+            .on("start", (cmd: any) => logger.info(`[${story_id}] 🚀 FFmpeg final merge (${layout.config.id}): ${cmd}`))
+            .on("end", () => {
+              logger.info(`[${story_id}] ✅ Final ${layout.config.id} video with audio track created`);
+              resolve();
+            })
+            .on("error", (err: any) => {
+              logger.error(`[${story_id}] ❌ FFmpeg failed: ${err.message}`);
+              reject(err);
+            });
+        });
+      } else {
+        // No audio, just use video as is
+        fs.copyFileSync(videoOnlyPath, finalVideo);
+        logger.info(`[${story_id}] ✅ Video-only ${layout.config.id} (no audio)`);
+      }
+
+      // 🎬 Brand intro/outro around the finished video
+      if (brandAssets.introPath || brandAssets.outroPath) {
+        const brandedVideo = path.join(tmpDir, `branded-video-${story_id}-${layout.slug}.mp4`);
+        ({ addedDuration: brandClipDuration, introDuration } = await addIntroOutro(
+          finalVideo,
+          brandedVideo,
+          brandAssets,
+          { width: layout.width, height: layout.height, crf: profile.crf, preset: profile.preset, audioBitrate: profile.audioBitrate },
+          { info: (msg) => logger.info(`[${story_id}] ${msg}`), warn: (msg) => logger.warn(`[${story_id}] ${msg}`) }
+        ));
+        finalVideos.push({ layout, path: brandedVideo });
+        continue;
+      }
+
+      finalVideos.push({ layout, path: finalVideo });
+    }
+
+    // 🛑 Cleared by the user while rendering - don't replace their video or charge for it
+    await assertJobActive(jobId);
+    await updateJobProgress(jobId, 85, { stage: "uploading" });
+
+    // 11️⃣ Upload final videos
+    const totalDuration = mediaPaths.reduce((sum, scene) => sum + scene.duration, 0) + brandClipDuration;
+
+    // 👀 Preview renders are for review only - they never replace the story's video or cost credits
+    if (preview) {
+      const buffer = fs.readFileSync(finalVideos[0].path);
+      const { width, height } = finalVideos[0].layout;
+      const previewFileName = `${userId}/previews/${story_id}.mp4`;
+      const { error: previewUploadErr } = await supabaseAdmin.storage
+        .from("videos")
+        .upload(previewFileName, buffer, {
+          contentType: "video/mp4",
+          upsert: true,
+        });
+
+      if (previewUploadErr) throw previewUploadErr;
+
+      // Same path on every preview, so bust CDN/browser caches
+      const previewUrl = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/videos/${previewFileName}?v=${Date.now()}`;
+      logger.info(`[${story_id}] 👀 Uploaded preview render → ${previewUrl} (${totalDuration.toFixed(1)}s, ${width}x${height})`);
+
+      await supabaseAdmin.from("analytics_events").insert({
+        user_id: userId,
+        event_name: 'video_preview_generated',
+        event_data: {
+          story_id,
+          duration: totalDuration,
+          aspect_ratio: aspect_ratio || '9:16'
+        }
+      });
+
+      try {
+        if (fs.existsSync(tmpDir)) {
+          fs.rmSync(tmpDir, { recursive: true, force: true });
+        }
+      } catch (cleanupErr: any) {
+        console.error(`[${story_id}] ⚠️ Failed to cleanup temp directory: ${cleanupErr.message}`);
+      }
+
+      return { video_url: previewUrl, duration: totalDuration, loudness: loudnessReport };
+    }
+
+    // Determine storage path based on video type
+    // Check if this is a UGC video by querying ugc_videos table
+    const { data: ugcCheck } = await supabaseAdmin
+      .from('ugc_videos')
+      .select('id')
+      .eq('id', story_id)
+      .single();
+
+    const isUGCVideo = !!ugcCheck;
+
+    // Where each scene plays in the uploaded video (after the brand intro), for stills and caption exports
+    let timelineOffset = introDuration;
+    const sceneTimeline = mediaPaths.map((scene) => {
+      const entry = { start: Number(timelineOffset.toFixed(3)), duration: Number(scene.duration.toFixed(3)) };
+      timelineOffset += scene.duration;
+      return entry;
+    });
+    const uploadedFileNames: string[] = [];
+    let primaryUrl: string | null = null;
+
+    for (const { layout, path: finalVideo } of finalVideos) {
+      await assertJobActive(jobId);
+      const buffer = fs.readFileSync(finalVideo);
+      const isDesignFormat = layout.config.id === designConfig.id;
+
+      let fileName: string;
+      if (isUGCVideo) {
+        // UGC videos: {user_id}/ugc/{ugc_video_id}/video.mp4 (other formats: video-{format}.mp4)
+        fileName = `${userId}/ugc/${story_id}/${isDesignFormat ? 'video' : `video-${layout.slug}`}.mp4`;
+        logger.info(`[${story_id}] 📁 UGC video path: ${fileName}`);
+      } else {
+        // Regular stories: {user_id}/stories/{story_id}/video-{timestamp}-{format}.mp4
+        fileName = `${userId}/stories/${story_id}/video-${Date.now()}-${layout.slug}.mp4`;
+        logger.info(`[${story_id}] 📁 Story video path: ${fileName}`);
+      }
+
+      const { error: uploadErr } = await supabaseAdmin.storage
+      .from("videos")
+      .upload(fileName, buffer, {
+          contentType: "video/mp4",
+          upsert: true,
+      });
+
+      if (uploadErr) throw uploadErr;
+      uploadedFileNames.push(fileName);
+
+      const publicUrl = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/videos/${fileName}`;
+
+      // 12️⃣ Save video metadata and mark as valid
+      const { error: upsertErr } = await supabaseAdmin
+      .from("videos")
+      .upsert(
+          {
+          story_id,
+          aspect_ratio: layout.config.id,
+          video_url: publicUrl,
+          is_valid: true,  // Mark video as valid
+          duration: totalDuration,
+          scene_timeline: sceneTimeline,
+          created_at: new Date().toISOString(),
+          },
+          { onConflict: "story_id,aspect_ratio" } // ensures one video per story and format
+      );
+
+      if (upsertErr) throw upsertErr;
+
+      logger.info(`[${story_id}] ☁️ Uploaded ${layout.config.id} video → ${publicUrl} (${totalDuration.toFixed(1)}s total)`);
+
+      if (isDesignFormat || !primaryUrl) {
+        primaryUrl = publicUrl;
+      }
+
+      // 📹 If this is a UGC video, also update the ugc_videos table
+      if (isUGCVideo && isDesignFormat) {
+        const { error: ugcUpdateErr } = await supabaseAdmin
+          .from('ugc_videos')
+          .update({
+            video_url: publicUrl,
+            duration: totalDuration,
+            status: 'completed'
+          })
+          .eq('id', story_id);
+
+        if (ugcUpdateErr) {
+          logger.warn(`[${story_id}] ⚠️ Failed to update UGC video record: ${ugcUpdateErr.message}`);
+        } else {
+          logger.info(`[${story_id}] ✅ Updated UGC video record with video URL`);
+        }
+      }
+    }
+
+    // 🧹 Clean up old videos of the re-rendered formats ONLY after the new ones are uploaded and saved
+    // (rows from before batch export have no aspect_ratio and belong to the story's own format)
+    const replacedVideos = (oldVideos || []).filter((v) =>
+      formats.includes(getAspectRatioConfig(v.aspect_ratio || designConfig.id).id)
+    );
+    if (replacedVideos.length) {
+      logger.info(`[${story_id}] 🧹 Cleaning up ${replacedVideos.length} old video(s)...`);
+      const paths = replacedVideos
+        .map((v) => {
+          try {
+            return v.video_url.split("/videos/")[1];
+          } catch (err) {
+            return null;
+          }
+        })
+        .filter((p): p is string => p !== null && !uploadedFileNames.includes(p)); // Don't delete the videos we just uploaded
+
+      if (paths.length > 0) {
+        const { error: delErr } = await supabaseAdmin.storage.from("videos").remove(paths);
+        if (delErr) {
+          logger.warn(`[${story_id}] ⚠️ Error deleting old videos: ${delErr.message}`);
+        } else {
+          logger.info(`[${story_id}] ✅ Deleted ${paths.length} old video file(s) from storage`);
+        }
+      }
+
+      // GIF/WebM/audio/stills exports were made from the old cut
+      await removeVideoExports(replacedVideos.map((v) => v.id), logger, story_id);
+    }
+
+    await updateJobProgress(jobId, 95, { stage: "finishing" });
+
+    // Update story metadata (completion status)
+    logger.info(`[${story_id}] 📊 Updating story metadata...`);
+    await updateStoryMetadata(story_id);
+    logger.info(`[${story_id}] ✅ Story metadata updated`);
+
+    // 💳 Deduct credits AFTER successful video generation (one render per format)
+    await assertJobActive(jobId);
+    const creditCost = CREDIT_COSTS.VIDEO_GENERATION * formats.length;
+    if (creditCost > 0) {
+      logger.info(`[${story_id}] 💳 Deducting ${creditCost} credit after successful generation...`);
+      const deductResult = await deductCredits(
+        userId,
+        creditCost,
+        'deduction_video',
+        `Video generation for story: ${storyTitle || story_id}${formats.length > 1 ? ` (${formats.join(', ')})` : ''}`,
+        story_id
+      );
+
+      if (!deductResult.success) {
+        logger.error(`[${story_id}] ⚠️ Failed to deduct credits after generation: ${deductResult.error}`);
+        // Video was generated successfully, so we don't fail the request
+        // Admin can manually adjust credits if needed
+      } else {
+        logger.info(`[${story_id}] ✅ Deducted ${creditCost} credit. New balance: ${deductResult.newBalance}`);
+      }
+    } else {
+      logger.info(`[${story_id}] ✅ Video generation is currently free (0 credits)`);
+    }
+
+    // Track analytics event
+    await supabaseAdmin.from("analytics_events").insert({
+      user_id: userId,
+      event_name: 'video_generated',
+      event_data: {
+        story_id,
+        duration: totalDuration,
+        aspect_ratio: aspect_ratio || '9:16',
+        formats,
+        quality
+      }
+    });
+
+    // Cleanup temp directory
+    try {
+      if (fs.existsSync(tmpDir)) {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+        logger.info(`[${story_id}] 🧹 Cleaned up temp directory ${tmpDir}`);
+      }
+    } catch (cleanupErr: any) {
+      console.error(`[${story_id}] ⚠️ Failed to cleanup temp directory: ${cleanupErr.message}`);
+    }
+
+    return { video_url: primaryUrl!, duration: totalDuration, loudness: loudnessReport };
+
+  } catch (err: any) {
+    console.error(`[${story_id}] Error generating video:`, err);
+
+    // Cleanup temp directory on error
+    try {
+      if (fs.existsSync(tmpDir)) {
+        fs.rmSync(tmpDir, { recursive: true, force: true });
+      }
+    } catch {}
+
+    // Let the job queue decide between retry and failure
+    throw err;
+  }
+}
+
+function runFFmpegCommand(
+  args: string[],
+  logger: ReturnType<typeof getUserLogger>,
+  storyId: string,
+  onProgress?: (seconds: number) => void
+) {
+  const finalArgs = [...args];
+  if (!finalArgs.includes("-hide_banner")) {
+    finalArgs.unshift("-hide_banner");
+  }
+  if (!finalArgs.includes("-loglevel")) {
+    finalArgs.unshift("error");
+    finalArgs.unshift("-loglevel");
+  }
+  // -stats still prints "frame=... time=00:00:04.20 ..." lines at loglevel error
+  if (onProgress && !finalArgs.includes("-stats")) {
+    finalArgs.unshift("-stats");
+  }
+
+  return new Promise<void>((resolve, reject) => {
+    logger.info(`[${storyId}] 🚀 ffmpeg ${finalArgs.join(" ")}`);
+    const ff = spawn("ffmpeg", finalArgs, { stdio: ["ignore", "pipe", "pipe"] });
+
+    ff.stderr.on("data", (data) => {
+      // Stats lines end in \r, not \n
+      for (const line of data.toString().split(/[\r\n]+/)) {
+        const trimmed = line.trim();
+        if (!trimmed) continue;
+
+        const time = /^frame=.*time=(\S+)/.exec(trimmed);
+        if (time) {
+          const seconds = parseFFmpegTime(time[1]);
+          if (seconds !== null) onProgress?.(seconds);
+          continue;
+        }
+
+        logger.info(`[${storyId}] ffmpeg: ${trimmed}`);
+      }
+    });
+
+    ff.on("close", (code) => {
+      if (code === 0) {
+        resolve();
+      } else {
+        reject(new Error(`ffmpeg exited with code ${code}`));
+      }
+    });
+
+    ff.on("error", (err) => {
+      reject(err);
+    });
+  });
+}
@@ -0,0 +1,173 @@
+/**
+ * Video Transitions Library
+ * Defines the transitions between scenes and builds the FFmpeg xfade filter chain
+ */
+
+export type TransitionType =
+  | "none"
+  | "crossfade"
+  | "dip_to_black"
+  | "slide"
+  | "wipe"
+  | "zoom_through";
+
+export interface VideoTransition {
+  id: TransitionType;
+  name: string;
+  description: string;
+  isPro: boolean;
+  /** FFmpeg xfade transition name (null = hard cut) */
+  xfade: string | null;
+}
+
+export const DEFAULT_TRANSITION_DURATION = 0.5; // seconds
+export const MIN_TRANSITION_DURATION = 0.2;
+export const MAX_TRANSITION_DURATION = 1.5;
+
+export const VIDEO_TRANSITIONS: Record<TransitionType, VideoTransition> = {
+  none: {
+    id: "none",
+    name: "Cut",
+    description: "Hard cut to the next scene",
+    isPro: false,
+    xfade: null,
+  },
+
+  crossfade: {
+    id: "crossfade",
+    name: "Crossfade",
+    description: "Blend smoothly into the next scene",
+    isPro: false,
+    xfade: "fade",
+  },
+
+  dip_to_black: {
+    id: "dip_to_black",
+    name: "Dip to Black",
+    description: "Fade out to black, then fade in",
+    isPro: false,
+    xfade: "fadeblack",
+  },
+
+  slide: {
+    id: "slide",
+    name: "Slide",
+    description: "Next scene slides in from the right",
+    isPro: false,
+    xfade: "slideleft",
+  },
+
+  wipe: {
+    id: "wipe",
+    name: "Wipe",
+    description: "Next scene wipes across from the right",
+    isPro: false,
+    xfade: "wipeleft",
+  },
+
+  zoom_through: {
+    id: "zoom_through",
+    name: "Zoom Through",
+    description: "Zoom into the current scene to reveal the next",
+    isPro: false,
+    xfade: "zoomin",
+  },
+};
+
+/**
+ * Get transition by ID with fallback to "none"
+ */
+export function getTransition(transitionId: string | null | undefined): VideoTransition {
+  return VIDEO_TRANSITIONS[transitionId as TransitionType] || VIDEO_TRANSITIONS.none;
+}
+
+/**
+ * Get all available transitions as an array
+ */
+export function getAllTransitions(): VideoTransition[] {
+  return Object.values(VIDEO_TRANSITIONS);
+}
+
+/**
+ * Clamp a transition duration so it never takes more than half of either
+ * adjacent scene
+ */
+export function clampTransitionDuration(
+  duration: number | null | undefined,
+  outgoingSceneDuration: number,
+  incomingSceneDuration: number
+): number {
+  const requested = typeof duration === "number" && duration > 0 ? duration : DEFAULT_TRANSITION_DURATION;
+  const sceneLimit = Math.min(outgoingSceneDuration, incomingSceneDuration) / 2;
+  return Math.max(0, Math.min(requested, MAX_TRANSITION_DURATION, sceneLimit));
+}
+
+export interface TransitionClip {
+  duration: number;           // Scene duration in seconds
+  transition: TransitionType; // Transition into the next clip
+  transitionDuration: number; // Already clamped
+}
+
+/**
+ * Build a filter_complex chain that joins clips (inputs 0..n-1) with their
+ * transitions and writes the result to [outputLabel].
+ *
+ * Each clip that transitions out is extended by its transition duration
+ * (last frame held), and the xfade starts exactly where the next scene
+ * starts. Every scene therefore keeps its original start time and the total
+ * length stays the sum of the scene durations, so the narration track and
+ * caption timestamps line up without any changes.
+ */
+export function buildTransitionFilter(clips: TransitionClip[], outputLabel: string): string {
+  const filters: string[] = [];
+
+  // xfade needs identical frame rate, pixel format, SAR and timebase on both inputs
+  clips.forEach((clip, i) => {
+    const isLast = i === clips.length - 1;
+    const xfade = getTransition(clip.transition).xfade;
+    const hold = !isLast && xfade && clip.transitionDuration > 0
+      ? `,tpad=stop_mode=clone:stop_duration=${clip.transitionDuration.toFixed(3)}`
+      : "";
+    filters.push(`[${i}:v]fps=30,format=yuv420p,setsar=1,settb=AVTB${hold}[tv${i}]`);
+  });
+
+  let current = "tv0";
+  let offset = 0;
+
+  for (let i = 1; i < clips.length; i++) {
+    const prev = clips[i - 1];
+    const xfade = getTransition(prev.transition).xfade;
+    offset += prev.duration;
+    const next = i === clips.length - 1 ? outputLabel : `tx${i}`;
+
+    if (xfade && prev.transitionDuration > 0) {
+      filters.push(
+        `[${current}][tv${i}]xfade=transition=${xfade}:duration=${prev.transitionDuration.toFixed(3)}:offset=${offset.toFixed(3)}[${next}]`
+      );
+    } else {
+      filters.push(`[${current}][tv${i}]concat=n=2:v=1:a=0[${next}]`);
+    }
+    current = next;
+  }
+
+  if (clips.length === 1) {
+    filters.push(`[tv0]null[${outputLabel}]`);
+  }
+
+  return filters.join(";");
+}
+
+/**
+ * Get CSS animation class for transition preview (applied to the incoming scene)
+ */
+export function getTransitionAnimationClass(transitionId: string): string {
+  const animations: Record<TransitionType, string> = {
+    none: "",
+    crossfade: "animate-transition-crossfade",
+    dip_to_black: "animate-transition-dip-to-black",
+    slide: "animate-transition-slide",
+    wipe: "animate-transition-wipe",
+    zoom_through: "animate-transition-zoom-through",
+  };
+  return animations[transitionId as TransitionType] || "";
+}
@@ -0,0 +1,279 @@
+/**
+ * Word Timing Editor
+ *
+ * Manual corrections to caption word timings: fix a word's spelling, split or
+ * merge words and move their start/end against the narration waveform. Edits
+ * only rewrite word_timestamps (scenes, shorts, ugc_clips) - the audio is
+ * never touched. Per-word tags (speaker, emphasis, emoji) ride along.
+ *
+ * Shorts keep their timings relative to the parent video, so the editor works
+ * on the short's window and spliceWordTimings() puts the result back.
+ * Waveform peaks and source loading live in lib/wordTimingAudio.ts (server).
+ */
+
+import { isValidEmoji, type CaptionTaggedWord } from "./captionEmphasis";
+
+export type WordTimingSource = "scene" | "short" | "ugc_clip";
+
+export type TimedWord = CaptionTaggedWord;
+
+export interface WordTimingSourceConfig {
+  id: WordTimingSource;
+  name: string;
+  description: string;
+}
+
+export const WORD_TIMING_SOURCES: Record<WordTimingSource, WordTimingSourceConfig> = {
+  scene: {
+    id: "scene",
+    name: "Story scene",
+    description: "Aligned narration of one scene",
+  },
+  short: {
+    id: "short",
+    name: "Short",
+    description: "Transcript slice of the parent video",
+  },
+  ugc_clip: {
+    id: "ugc_clip",
+    name: "UGC clip",
+    description: "Voiceover of one UGC clip",
+  },
+};
+
+// Shortest word the editor allows, and the drag / nudge granularity
+export const MIN_WORD_DURATION = 0.05;
+export const WORD_TIMING_STEP = 0.01;
+
+export const MAX_TIMED_WORDS = 5000;
+export const MAX_TIMED_WORD_LENGTH = 64;
+
+export const DEFAULT_WAVEFORM_POINTS = 1000;
+export const MAX_WAVEFORM_POINTS = 4000;
+
+export function isWordTimingSource(value: any): value is WordTimingSource {
+  return typeof value === "string" && Object.prototype.hasOwnProperty.call(WORD_TIMING_SOURCES, value);
+}
+
+export function getWordTimingSource(id: string): WordTimingSourceConfig {
+  return WORD_TIMING_SOURCES[id as WordTimingSource] || WORD_TIMING_SOURCES.scene;
+}
+
+export function getAllWordTimingSources(): WordTimingSourceConfig[] {
+  return Object.values(WORD_TIMING_SOURCES);
+}
+
+export const roundTime = (seconds: number) => Math.round(seconds * 1000) / 1000;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Check edited words from the client before they are saved. Returns an error
+ * message, or null when every entry is a word with finite times.
+ */
+export function validateWordTimings(words: any): string | null {
+  if (!Array.isArray(words)) return "word_timestamps must be an array";
+  if (words.length > MAX_TIMED_WORDS) return `at most ${MAX_TIMED_WORDS} words`;
+
+  for (let i = 0; i < words.length; i++) {
+    const w = words[i];
+    if (!w || typeof w.word !== "string" || !w.word.trim()) return `word ${i + 1} is empty`;
+    if (w.word.trim().length > MAX_TIMED_WORD_LENGTH) return `word ${i + 1} is longer than ${MAX_TIMED_WORD_LENGTH} characters`;
+    if (!Number.isFinite(w.start) || !Number.isFinite(w.end)) return `word ${i + 1} needs numeric start and end times`;
+    if (w.end < w.start) return `word ${i + 1} ends before it starts`;
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the fields a caption word carries (after validateWordTimings)
+ */
+export function cleanTimedWord(w: any): TimedWord {
+  return {
+    word: String(w.word).trim(),
+    start: Number(w.start),
+    end: Number(w.end),
+    ...(typeof w.speaker === "string" ? { speaker: w.speaker } : {}),
+    ...(typeof w.emphasis === "boolean" ? { emphasis: w.emphasis } : {}),
+    ...(w.emoji === null || isValidEmoji(w.emoji) ? { emoji: w.emoji === null ? null : w.emoji.trim() } : {}),
+  };
+}
+
+/**
+ * Sort, trim and clamp words so they play in order inside [0, duration]:
+ * every word lasts at least MIN_WORD_DURATION where there is room, and no
+ * word starts before the previous one ends. Empty words are dropped.
+ */
+export function normalizeWordTimings<T extends TimedWord>(words: T[], duration?: number): T[] {
+  const limit = duration !== undefined && Number.isFinite(duration) && duration > 0 ? duration : Infinity;
+
+  const sorted = words
+    .filter((w) => typeof w.word === "string" && w.word.trim())
+    .map((w) => ({ ...w, word: w.word.trim() }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+
+  let previousEnd = 0;
+  return sorted.map((w) => {
+    const start = clamp(Math.max(w.start, previousEnd), 0, Math.max(0, limit - MIN_WORD_DURATION));
+    const end = clamp(Math.max(w.end, start + MIN_WORD_DURATION), start, limit);
+    previousEnd = end;
+    return { ...w, start: roundTime(start), end: roundTime(end) };
+  });
+}
+
+/**
+ * Spread a script evenly over a clip, weighted by word length - the starting
+ * point for clips that were never aligned (e.g. UGC voiceovers)
+ */
+export function seedWordTimings(text: string, duration: number): TimedWord[] {
+  const words = text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0 || !(duration > 0)) return [];
+
+  const total = words.reduce((sum, w) => sum + w.length + 1, 0);
+  let position = 0;
+
+  return words.map((word) => {
+    const start = (position / total) * duration;
+    position += word.length + 1;
+    return { word, start: roundTime(start), end: roundTime((position / total) * duration) };
+  });
+}
+
+/**
+ * Fix a word's spelling. Typing spaces splits it into several words that
+ * share the original time span.
+ */
+export function setWordText<T extends TimedWord>(words: T[], index: number, text: string): T[] {
+  const parts = text.trim().split(/\s+/).filter(Boolean);
+  const word = words[index];
+  if (!word || parts.length === 0) return words;
+  if (parts.length === 1) return words.map((w, i) => (i === index ? { ...w, word: parts[0] } : w));
+
+  return [...words.slice(0, index), ...divideWord(word, parts), ...words.slice(index + 1)];
+}
+
+/**
+ * Split a word in two. `at` is a time inside the word (default: proportional
+ * to where the text breaks); the text breaks at `charIndex` or its middle.
+ */
+export function splitWord<T extends TimedWord>(words: T[], index: number, charIndex?: number, at?: number): T[] {
+  const word = words[index];
+  if (!word || word.word.length < 2) return words;
+
+  const cut = clamp(charIndex ?? Math.ceil(word.word.length / 2), 1, word.word.length - 1);
+  const parts = [word.word.slice(0, cut), word.word.slice(cut)];
+  const [first, second] = divideWord(word, parts);
+
+  if (at !== undefined) {
+    const time = roundTime(clamp(at, word.start + MIN_WORD_DURATION, word.end - MIN_WORD_DURATION));
+    if (time > word.start && time < word.end) {
+      first.end = time;
+      second.start = time;
+    }
+  }
+
+  return [...words.slice(0, index), first, second, ...words.slice(index + 1)];
+}
+
+/**
+ * Merge a word with the one after it. Fragments that start with an apostrophe,
+ * hyphen or punctuation attach without a space ("don" + "'t").
+ */
+export function mergeWords<T extends TimedWord>(words: T[], index: number): T[] {
+  const a = words[index];
+  const b = words[index + 1];
+  if (!a || !b) return words;
+
+  const joiner = /^['’\-.,!?;:)\]]/.test(b.word) || /[-(\[]$/.test(a.word) ? "" : " ";
+  const merged: T = { ...a, word: `${a.word}${joiner}${b.word}`, end: Math.max(a.end, b.end) };
+  if (a.emphasis !== undefined || b.emphasis !== undefined) merged.emphasis = Boolean(a.emphasis || b.emphasis);
+  if (a.emoji !== undefined || b.emoji !== undefined) merged.emoji = b.emoji ?? a.emoji ?? null;
+
+  return [...words.slice(0, index), merged, ...words.slice(index + 2)];
+}
+
+export function deleteWord<T extends TimedWord>(words: T[], index: number): T[] {
+  return words.filter((_, i) => i !== index);
+}
+
+/**
+ * Move one edge of a word, held between its neighbours and the clip length
+ */
+export function moveWordEdge<T extends TimedWord>(words: T[], index: number, edge: "start" | "end", time: number, duration: number): T[] {
+  const word = words[index];
+  if (!word) return words;
+
+  const previousEnd = words[index - 1]?.end ?? 0;
+  const nextStart = words[index + 1]?.start ?? duration;
+
+  const changes = edge === "start"
+    ? { start: roundTime(clamp(time, previousEnd, word.end - MIN_WORD_DURATION)) }
+    : { end: roundTime(clamp(time, word.start + MIN_WORD_DURATION, Math.max(word.start + MIN_WORD_DURATION, nextStart))) };
+
+  return words.map((w, i) => (i === index ? { ...w, ...changes } : w));
+}
+
+/**
+ * Slide a whole word by `delta` seconds, keeping its length
+ */
+export function moveWord<T extends TimedWord>(words: T[], index: number, delta: number, duration: number): T[] {
+  const word = words[index];
+  if (!word) return words;
+
+  const previousEnd = words[index - 1]?.end ?? 0;
+  const nextStart = words[index + 1]?.start ?? duration;
+  const length = word.end - word.start;
+  const start = roundTime(clamp(word.start + delta, previousEnd, Math.max(previousEnd, nextStart - length)));
+
+  return words.map((w, i) => (i === index ? { ...w, start, end: roundTime(start + length) } : w));
+}
+
+/**
+ * The word playing at `time`, or -1 between words
+ */
+export function getWordAtTime(words: TimedWord[], time: number): number {
+  return words.findIndex((w) => time >= w.start && time < w.end);
+}
+
+/**
+ * A short's words, relative to its window (matches the preview and export,
+ * which keep words that start inside the short)
+ */
+export function getWindowWordTimings<T extends TimedWord>(words: T[], start: number, end: number): T[] {
+  return words
+    .filter((w) => w.start >= start && w.start < end)
+    .map((w) => ({ ...w, start: roundTime(w.start - start), end: roundTime(w.end - start) }));
+}
+
+/**
+ * Put edited window words back into the full (parent-relative) list,
+ * replacing the words that started inside the window
+ */
+export function spliceWordTimings<T extends TimedWord>(words: T[], start: number, end: number, edited: T[]): T[] {
+  const before = words.filter((w) => w.start < start);
+  const after = words.filter((w) => w.start >= end);
+  const shifted = edited.map((w) => ({ ...w, start: roundTime(w.start + start), end: roundTime(w.end + start) }));
+  return [...before, ...shifted, ...after];
+}
+
+// Share a word's time span between its parts, weighted by their length
+function divideWord<T extends TimedWord>(word: T, parts: string[]): T[] {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const span = word.end - word.start;
+  let position = 0;
+
+  return parts.map((part, i) => {
+    const start = word.start + (position / total) * span;
+    position += part.length;
+    const end = word.start + (position / total) * span;
+    return {
+      ...word,
+      word: part,
+      start: roundTime(start),
+      end: roundTime(end),
+      // The emoji follows the last part
+      ...(word.emoji !== undefined ? { emoji: i === parts.length - 1 ? word.emoji : null } : {}),
+    };
+  });
+}
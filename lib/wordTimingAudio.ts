@@ -0,0 +1,167 @@
+/**
+ * Word timing editor - sources and waveform (server only).
+ * Edit operations live in lib/wordTiming.ts so the editor can use them.
+ */
+
+import { spawn } from "child_process";
+import { supabaseAdmin } from "./supabaseAdmin";
+import { getWindowWordTimings, seedWordTimings, type TimedWord, type WordTimingSource } from "./wordTiming";
+
+// Decoded sample rate for peaks - plenty for a speech envelope
+const WAVEFORM_SAMPLE_RATE = 8000;
+const WAVEFORM_TIMEOUT_MS = 60000;
+
+export interface WordTimingTarget {
+  userId: string | null;
+  audioUrl: string | null;
+  // Window on the audio the words are relative to (a short's slice of its parent video)
+  start: number;
+  duration: number;
+  words: TimedWord[];
+  // Timings were spread from the script because the clip was never aligned
+  seeded: boolean;
+  // Full stored list, for splicing a short's window back in
+  storedWords: TimedWord[];
+}
+
+/**
+ * Load a scene, short or UGC clip with its owner, audio and words (relative
+ * to the window). Returns null when it doesn't exist.
+ */
+export async function loadWordTimingTarget(source: WordTimingSource, id: string): Promise<WordTimingTarget | null> {
+  if (source === "short") {
+    const { data: short } = await supabaseAdmin
+      .from("shorts")
+      .select("user_id, parent_video_id, start_time, end_time, word_timestamps")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!short) return null;
+
+    const { data: parent } = await supabaseAdmin
+      .from("cut_short_videos")
+      .select("audio_url, video_url")
+      .eq("id", short.parent_video_id)
+      .maybeSingle();
+
+    const storedWords: TimedWord[] = Array.isArray(short.word_timestamps) ? short.word_timestamps : [];
+    return {
+      userId: short.user_id,
+      audioUrl: parent?.audio_url || parent?.video_url || null,
+      start: short.start_time,
+      duration: short.end_time - short.start_time,
+      words: getWindowWordTimings(storedWords, short.start_time, short.end_time),
+      seeded: false,
+      storedWords,
+    };
+  }
+
+  if (source === "ugc_clip") {
+    const { data: clip } = await supabaseAdmin
+      .from("ugc_clips")
+      .select("ugc_video_id, text, duration, audio_url, word_timestamps")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!clip) return null;
+
+    const { data: ugcVideo } = await supabaseAdmin
+      .from("ugc_videos")
+      .select("user_id")
+      .eq("id", clip.ugc_video_id)
+      .maybeSingle();
+
+    const storedWords: TimedWord[] = Array.isArray(clip.word_timestamps) ? clip.word_timestamps : [];
+    const seeded = storedWords.length === 0;
+    return {
+      userId: ugcVideo?.user_id ?? null,
+      audioUrl: clip.audio_url,
+      start: 0,
+      duration: clip.duration || 0,
+      words: seeded ? seedWordTimings(clip.text || "", clip.duration || 0) : storedWords,
+      seeded,
+      storedWords,
+    };
+  }
+
+  const { data: scene } = await supabaseAdmin
+    .from("scenes")
+    .select("story_id, duration, audio_url, word_timestamps")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (!scene) return null;
+
+  const { data: story } = await supabaseAdmin
+    .from("stories")
+    .select("user_id")
+    .eq("id", scene.story_id)
+    .maybeSingle();
+
+  const storedWords: TimedWord[] = Array.isArray(scene.word_timestamps) ? scene.word_timestamps : [];
+  return {
+    userId: story?.user_id ?? null,
+    audioUrl: scene.audio_url,
+    start: 0,
+    duration: scene.duration || storedWords[storedWords.length - 1]?.end || 0,
+    words: storedWords,
+    seeded: false,
+    storedWords,
+  };
+}
+
+/**
+ * Peak amplitude (0-1) of `points` equal slices of [start, start + duration]
+ * of an audio or video URL, decoded to mono 16-bit PCM by FFmpeg
+ */
+export function getWaveformPeaks(url: string, start: number, duration: number, points: number): Promise<number[]> {
+  return new Promise((resolve, reject) => {
+    const args = [
+      "-hide_banner", "-nostats", "-loglevel", "error",
+      "-ss", String(Math.max(0, start)),
+      "-t", String(duration),
+      "-i", url,
+      "-vn", "-ac", "1", "-ar", String(WAVEFORM_SAMPLE_RATE),
+      "-f", "s16le", "pipe:1",
+    ];
+    const ff = spawn("ffmpeg", args, { stdio: ["ignore", "pipe", "pipe"] });
+
+    const totalSamples = Math.max(1, Math.round(duration * WAVEFORM_SAMPLE_RATE));
+    const peaks = new Array<number>(points).fill(0);
+    let sampleIndex = 0;
+    let carry: Buffer | null = null;
+    let stderr = "";
+
+    const timeout = setTimeout(() => ff.kill("SIGKILL"), WAVEFORM_TIMEOUT_MS);
+
+    ff.stdout.on("data", (chunk: Buffer) => {
+      const data: Buffer = carry ? Buffer.concat([carry, chunk]) : chunk;
+      const usable = data.length - (data.length % 2);
+      for (let offset = 0; offset < usable; offset += 2) {
+        const bucket = Math.min(points - 1, Math.floor((sampleIndex / totalSamples) * points));
+        const amplitude = Math.abs(data.readInt16LE(offset)) / 32768;
+        if (amplitude > peaks[bucket]) peaks[bucket] = amplitude;
+        sampleIndex++;
+      }
+      carry = usable < data.length ? data.subarray(usable) : null;
+    });
+
+    ff.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    ff.on("close", (code) => {
+      clearTimeout(timeout);
+      if (code !== 0) return reject(new Error(`Waveform extraction failed: ${stderr.trim() || `exit code ${code}`}`));
+
+      // Scale to the loudest peak so quiet narration still reads
+      const max = Math.max(...peaks);
+      resolve(max > 0 ? peaks.map((p) => Math.round((p / max) * 1000) / 1000) : peaks);
+    });
+
+    ff.on("error", (err) => {
+      clearTimeout(timeout);
+      reject(err);
+    });
+  });
+}
@@ -8,7 +8,7 @@ export default function Document() {
         <link rel="preconnect" href="https://fonts.googleapis.com" />
         <link rel="preconnect" href="https://fonts.gstatic.com" crossOrigin="anonymous" />
         <link
-          href="https://fonts.googleapis.com/css2?family=Montserrat:wght@700;900&family=Poppins:wght@600;700;800&family=Oswald:wght@600;700&family=Anton&family=Bangers&family=Righteous&family=Pacifico&family=Fredoka:wght@600;700&family=Rubik+Mono+One&display=swap"
+          href="https://fonts.googleapis.com/css2?family=Montserrat:wght@700;900&family=Poppins:wght@600;700;800&family=Oswald:wght@600;700&family=Anton&family=Bangers&family=Righteous&family=Pacifico&family=Fredoka:wght@600;700&family=Rubik+Mono+One&family=Noto+Emoji&display=swap"
           rel="stylesheet"
         />
       </Head>
@@ -7,6 +7,7 @@ import path from "path";
 import { tmpdir } from "os";
 import https from "https";
 import http from "http";
+import { stripSpeakerTags, assignSpeakers } from "../../lib/dialogue";
 
 // Helper to download file from URL
 async function downloadFile(url: string, filePath: string): Promise<void> {
@@ -28,7 +29,7 @@ async function downloadFile(url: string, filePath: string): Promise<void> {
 }
 
 // Align text with existing audio using Echogarden (free, local)
-async function alignTextWithAudio(audioUrl: string, text: string): Promise<Array<{ word: string; start: number; end: number }>> {
+async function alignTextWithAudio(audioUrl: string, text: string): Promise<Array<{ word: string; start: number; end: number; speaker?: string }>> {
   let tempAudioPath: string | null = null;
 
   try {
@@ -37,7 +38,7 @@ async function alignTextWithAudio(audioUrl: string, text: string): Promise<Array
     await downloadFile(audioUrl, tempAudioPath);
 
     // Use Echogarden to align text with audio
-    const alignmentResult = await Echogarden.align(tempAudioPath, text, {
+    const alignmentResult = await Echogarden.align(tempAudioPath, stripSpeakerTags(text), {
       language: 'en',
     });
 
@@ -48,7 +49,8 @@ async function alignTextWithAudio(audioUrl: string, text: string): Promise<Array
       end: entry.endTime
     })) || [];
 
-    return word_timestamps;
+    // Dialogue scenes: keep per-speaker caption colors
+    return assignSpeakers(word_timestamps, text);
   } finally {
     // Cleanup temp file
     if (tempAudioPath && fs.existsSync(tempAudioPath)) {
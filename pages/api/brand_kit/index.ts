@@ -0,0 +1,105 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getUserPlan, PLANS } from "@/lib/credits";
+import { normalizeBrandKit, DEFAULT_BRAND_KIT } from "@/lib/brandKit";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGet(user.id, res);
+    case "PUT":
+      return handlePut(user.id, req, res);
+    case "DELETE":
+      return handleDelete(user.id, res);
+    default:
+      return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+// GET /api/brand_kit - Get the user's brand kit and what their plan allows
+async function handleGet(userId: string, res: NextApiResponse) {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("brand_kits")
+      .select("settings")
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const plan = await getUserPlan(userId);
+
+    return res.status(200).json({
+      brand_kit: data ? normalizeBrandKit(data.settings) : DEFAULT_BRAND_KIT,
+      plan,
+      can_remove_watermark: PLANS[plan].removeWatermark,
+    });
+  } catch (err: any) {
+    console.error("Error getting brand kit:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
+
+// PUT /api/brand_kit - Save the user's brand kit
+async function handlePut(userId: string, req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { brand_kit } = req.body;
+
+    if (!brand_kit || typeof brand_kit !== "object" || Array.isArray(brand_kit)) {
+      return res.status(400).json({ error: "brand_kit must be an object" });
+    }
+
+    const settings = normalizeBrandKit(brand_kit);
+    const plan = await getUserPlan(userId);
+
+    // Saved as asked - free plans keep the AiVideoGen.cc mark at render time (see resolveWatermarks)
+    const { error } = await supabaseAdmin
+      .from("brand_kits")
+      .upsert({
+        user_id: userId,
+        settings,
+        updated_at: new Date().toISOString(),
+      });
+
+    if (error) throw error;
+
+    return res.status(200).json({
+      success: true,
+      brand_kit: settings,
+      plan,
+      can_remove_watermark: PLANS[plan].removeWatermark,
+    });
+  } catch (err: any) {
+    console.error("Error saving brand kit:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
+
+// DELETE /api/brand_kit - Reset to the default brand kit
+async function handleDelete(userId: string, res: NextApiResponse) {
+  try {
+    const { error } = await supabaseAdmin
+      .from("brand_kits")
+      .delete()
+      .eq("user_id", userId);
+
+    if (error) throw error;
+
+    return res.status(200).json({ success: true, brand_kit: DEFAULT_BRAND_KIT });
+  } catch (err: any) {
+    console.error("Error resetting brand kit:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
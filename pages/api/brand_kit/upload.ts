@@ -0,0 +1,98 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import formidable from "formidable";
+import fs from "fs";
+import path from "path";
+
+export const config = {
+  api: {
+    bodyParser: false, // Disable for file uploads
+  },
+};
+
+// What each brand asset slot accepts
+const ASSET_TYPES: Record<string, { mimeTypes: string[]; maxSize: number }> = {
+  logo: { mimeTypes: ["image/png", "image/jpeg", "image/webp"], maxSize: 5 * 1024 * 1024 },
+  intro: { mimeTypes: ["video/mp4", "video/quicktime", "video/webm"], maxSize: 100 * 1024 * 1024 },
+  outro: { mimeTypes: ["video/mp4", "video/quicktime", "video/webm"], maxSize: 100 * 1024 * 1024 },
+};
+
+// POST /api/brand_kit/upload - Upload a logo or intro/outro clip, returns its public URL
+// The URL is saved to the brand kit with PUT /api/brand_kit
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  try {
+    const form = formidable({
+      maxFileSize: ASSET_TYPES.intro.maxSize,
+    });
+
+    const [fields, files] = await form.parse(req);
+
+    const kind = fields.kind?.[0] || "";
+    const uploadedFile = files.file?.[0];
+    const assetType = ASSET_TYPES[kind];
+
+    if (!assetType) {
+      return res.status(400).json({ error: "kind must be logo, intro or outro" });
+    }
+
+    if (!uploadedFile) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    if (!assetType.mimeTypes.includes(uploadedFile.mimetype || "")) {
+      return res.status(400).json({ error: `Invalid file type for ${kind}` });
+    }
+
+    if (uploadedFile.size > assetType.maxSize) {
+      return res.status(400).json({ error: `File too large (max ${assetType.maxSize / 1024 / 1024}MB)` });
+    }
+
+    const fileBuffer = fs.readFileSync(uploadedFile.filepath);
+    const fileExtension = path.extname(uploadedFile.originalFilename || "") || (kind === "logo" ? ".png" : ".mp4");
+    const fileName = `${user.id}/${kind}-${Date.now()}${fileExtension}`;
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from("brand_assets")
+      .upload(fileName, fileBuffer, {
+        contentType: uploadedFile.mimetype || undefined,
+        upsert: false,
+      });
+
+    // Clean up temp file
+    fs.unlinkSync(uploadedFile.filepath);
+
+    if (uploadError) {
+      console.error("Upload error:", uploadError);
+      return res.status(500).json({ error: uploadError.message });
+    }
+
+    const { data: urlData } = supabaseAdmin.storage
+      .from("brand_assets")
+      .getPublicUrl(fileName);
+
+    return res.status(201).json({
+      success: true,
+      kind,
+      url: urlData.publicUrl,
+    });
+  } catch (err: any) {
+    console.error("Error uploading brand asset:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
@@ -14,24 +14,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     console.log(`🧹 Cancelling image generation job for story: ${story_id}`);
 
-    // Find any processing jobs for this story
+    // Find any queued or processing jobs for this story
     const { data: existingJobs } = await supabaseAdmin
-      .from('image_generation_jobs')
+      .from('video_generation_jobs')
       .select('id, started_at')
       .eq('story_id', story_id)
-      .eq('status', 'processing');
+      .eq('job_type', 'images')
+      .in('status', ['queued', 'processing']);
 
     if (existingJobs && existingJobs.length > 0) {
-      // Mark all jobs as failed (cancelled)
+      // Mark all jobs as failed (cancelled). A worker still generating one notices before it
+      // replaces the story's images or charges credits (assertJobActive) and stops.
       const { error: updateError } = await supabaseAdmin
-        .from('image_generation_jobs')
+        .from('video_generation_jobs')
         .update({
           status: 'failed',
           completed_at: new Date().toISOString(),
           error: 'Cancelled by user'
         })
         .eq('story_id', story_id)
-        .eq('status', 'processing');
+        .eq('job_type', 'images')
+        .in('status', ['queued', 'processing']);
 
       if (updateError) {
         console.error('Failed to cancel jobs:', updateError);
@@ -14,15 +14,17 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     console.log(`🧹 Clearing stuck video generation job for story: ${story_id}`);
 
-    // Find any processing jobs for this story
+    // Find any queued or processing jobs for this story
     const { data: existingJobs } = await supabaseAdmin
       .from('video_generation_jobs')
       .select('id, started_at')
       .eq('story_id', story_id)
-      .eq('status', 'processing');
+      .eq('job_type', 'video')
+      .in('status', ['queued', 'processing']);
 
     if (existingJobs && existingJobs.length > 0) {
-      // Mark all stuck jobs as failed
+      // Mark all stuck jobs as failed. A worker still rendering one notices before it
+      // uploads or charges credits (assertJobActive) and stops.
       const { error: updateError } = await supabaseAdmin
         .from('video_generation_jobs')
         .update({
@@ -31,7 +33,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           error: 'Job cleared by user (stuck job cleanup)'
         })
         .eq('story_id', story_id)
-        .eq('status', 'processing');
+        .eq('job_type', 'video')
+        .in('status', ['queued', 'processing']);
 
       if (updateError) {
         console.error('Failed to clear jobs:', updateError);
@@ -0,0 +1,68 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// DELETE /api/custom_fonts/[id] - Delete one of the user's uploaded fonts
+// Captions that still use the family fall back to the default font at render time
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "DELETE") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid font ID" });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  try {
+    const { data: font, error: fetchError } = await supabaseAdmin
+      .from("custom_fonts")
+      .select("id, user_id, full_name, file_path")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (fetchError) throw fetchError;
+
+    if (!font) {
+      return res.status(404).json({ error: "Font not found" });
+    }
+
+    if (font.user_id !== user.id) {
+      return res.status(403).json({ error: "You can only delete your own fonts" });
+    }
+
+    const { error: storageError } = await supabaseAdmin.storage
+      .from("custom_fonts")
+      .remove([font.file_path]);
+
+    if (storageError) {
+      console.warn(`⚠️ Could not delete font file ${font.file_path}:`, storageError.message);
+    }
+
+    const { error: deleteError } = await supabaseAdmin
+      .from("custom_fonts")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) throw deleteError;
+
+    console.log(`🗑️ Deleted font "${font.full_name}" for user ${user.id}`);
+
+    return res.status(200).json({ success: true });
+  } catch (err: any) {
+    console.error("Error deleting custom font:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
@@ -0,0 +1,143 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import formidable from "formidable";
+import fs from "fs";
+import { randomUUID } from "crypto";
+import { readFontInfo, loadCustomFonts } from "@/lib/customFontFiles";
+import { getCustomFontFormat, MAX_CUSTOM_FONT_SIZE, MAX_CUSTOM_FONTS } from "@/lib/customFonts";
+
+export const config = {
+  api: {
+    bodyParser: false, // Disable for file uploads
+  },
+};
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const authHeader = req.headers.authorization;
+  if (!authHeader || !authHeader.startsWith("Bearer ")) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGet(user.id, res);
+    case "POST":
+      return handlePost(user.id, req, res);
+    default:
+      return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+// GET /api/custom_fonts - The user's uploaded caption fonts
+async function handleGet(userId: string, res: NextApiResponse) {
+  const fonts = await loadCustomFonts(userId);
+  return res.status(200).json({ fonts, count: fonts.length });
+}
+
+// POST /api/custom_fonts - Upload a TTF/OTF font (multipart "file")
+// Family, weight and style come from the file itself
+async function handlePost(userId: string, req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const form = formidable({
+      maxFileSize: MAX_CUSTOM_FONT_SIZE,
+    });
+
+    const [, files] = await form.parse(req);
+    const uploadedFile = files.file?.[0];
+
+    if (!uploadedFile) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    // Browsers report fonts under several MIME types (or none), so the file's own header decides
+    const fileBuffer = fs.readFileSync(uploadedFile.filepath);
+    fs.unlinkSync(uploadedFile.filepath);
+
+    let info;
+    try {
+      info = readFontInfo(fileBuffer);
+    } catch (err: any) {
+      return res.status(400).json({ error: err.message });
+    }
+
+    const { count } = await supabaseAdmin
+      .from("custom_fonts")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", userId);
+
+    if ((count || 0) >= MAX_CUSTOM_FONTS) {
+      return res.status(400).json({ error: `You can upload up to ${MAX_CUSTOM_FONTS} fonts - delete one first` });
+    }
+
+    const { data: existing } = await supabaseAdmin
+      .from("custom_fonts")
+      .select("id")
+      .eq("user_id", userId)
+      .eq("family", info.family)
+      .eq("weight", info.weight)
+      .eq("italic", info.italic)
+      .maybeSingle();
+
+    if (existing) {
+      return res.status(409).json({ error: `"${info.full_name}" is already uploaded` });
+    }
+
+    const format = getCustomFontFormat(info.format);
+    const filePath = `${userId}/${randomUUID()}${format.extension}`;
+
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from("custom_fonts")
+      .upload(filePath, fileBuffer, {
+        contentType: format.contentType,
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error("Upload error:", uploadError);
+      return res.status(500).json({ error: uploadError.message });
+    }
+
+    const { data: urlData } = supabaseAdmin.storage
+      .from("custom_fonts")
+      .getPublicUrl(filePath);
+
+    const { data: font, error: dbError } = await supabaseAdmin
+      .from("custom_fonts")
+      .insert({
+        user_id: userId,
+        family: info.family,
+        full_name: info.full_name,
+        weight: info.weight,
+        italic: info.italic,
+        format: info.format,
+        file_path: filePath,
+        file_url: urlData.publicUrl,
+        size_bytes: fileBuffer.length,
+      })
+      .select("id, family, full_name, weight, italic, format, file_url, created_at")
+      .single();
+
+    if (dbError) {
+      await supabaseAdmin.storage.from("custom_fonts").remove([filePath]);
+      console.error("Database error:", dbError);
+      return res.status(500).json({ error: dbError.message });
+    }
+
+    console.log(`🔤 Uploaded font "${info.full_name}" (${info.family} ${info.weight}${info.italic ? " italic" : ""}) for user ${userId}`);
+
+    return res.status(201).json({
+      success: true,
+      font,
+    });
+  } catch (err: any) {
+    console.error("Error uploading custom font:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
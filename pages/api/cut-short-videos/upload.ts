@@ -8,6 +8,7 @@ import ffmpeg from "fluent-ffmpeg";
 import { getUserLogger } from "../../../lib/userLogger";
 import { getUserCredits, deductCredits, calculateVideoUploadCost } from "../../../lib/credits";
 import fetch from "node-fetch";
+import { getClosestAspectRatio } from "../../../lib/aspectRatios";
 
 export const config = {
   api: {
@@ -27,18 +28,8 @@ async function getVideoMetadata(filePath: string): Promise<{ duration: number; a
       let aspectRatio = '16:9'; // default
 
       if (videoStream?.width && videoStream?.height) {
-        const width = videoStream.width;
-        const height = videoStream.height;
-        const ratio = width / height;
-
-        // Determine aspect ratio category
-        if (ratio < 0.7) {
-          aspectRatio = '9:16'; // Portrait (vertical)
-        } else if (ratio > 1.4) {
-          aspectRatio = '16:9'; // Landscape (horizontal)
-        } else {
-          aspectRatio = '1:1'; // Square-ish
-        }
+        // Closest supported format (9:16, 4:5, 1:1, 4:3, 16:9, 21:9)
+        aspectRatio = getClosestAspectRatio(videoStream.width, videoStream.height);
       }
 
       resolve({ duration, aspectRatio });
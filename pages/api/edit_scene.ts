@@ -2,18 +2,19 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../lib/supabaseAdmin";
 import { getUserLogger } from "../../lib/userLogger";
 import { calculateSceneDuration } from "../../lib/utils";
+import { stripSpeakerTags, assignSpeakers } from "../../lib/dialogue";
 
 // Generate synthetic word timestamps for text-based scenes (no audio)
-function generateWordTimestamps(text: string): Array<{ word: string; start: number; end: number }> {
-  const words = text.trim().split(/\s+/).filter(w => w.length > 0);
+function generateWordTimestamps(text: string): Array<{ word: string; start: number; end: number; speaker?: string }> {
+  const words = stripSpeakerTags(text).split(/\s+/).filter(w => w.length > 0);
   const wordsPerSecond = 2; // Reading speed (same as duration calculation)
   const wordDuration = 1 / wordsPerSecond;
 
-  return words.map((word, i) => ({
+  return assignSpeakers(words.map((word, i) => ({
     word: word,
     start: i * wordDuration,
     end: (i + 1) * wordDuration
-  }));
+  })), text);
 }
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
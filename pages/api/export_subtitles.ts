@@ -0,0 +1,193 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { stripSpeakerTags } from "../../lib/dialogue";
+import { getAspectRatioConfig } from "../../lib/aspectRatios";
+import { getRenderDimensions, DEFAULT_RENDER_QUALITY } from "../../lib/renderProfiles";
+import {
+  SUBTITLE_FORMATS,
+  isSubtitleFormat,
+  getSubtitleFormat,
+  buildSubtitleCues,
+  getTimelineWords,
+  generateSRT,
+  generateVTT,
+  generateCaptionASS,
+  type SubtitleSegment,
+  type SubtitleSource,
+} from "../../lib/subtitleExport";
+
+// Shorts burn their captions at this size (see generateASSSubtitles in shorts/cut.ts)
+const SHORT_ASS_SIZE = { width: 1920, height: 1080, fontScale: 3 };
+
+/**
+ * GET /api/export_subtitles?source=story|short|ugc&id=...&format=srt|vtt|ass
+ * Optional: word_timing=1 (VTT word-level timestamps), offset=<seconds> to
+ * shift every cue further. Story and UGC cues follow the scene timings of
+ * the latest render, brand intro included.
+ * Responds with the file as an attachment.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { source, id, format, word_timing } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "id is required" });
+  }
+
+  if (source !== "story" && source !== "short" && source !== "ugc") {
+    return res.status(400).json({ error: "source must be story, short or ugc" });
+  }
+
+  if (!isSubtitleFormat(format)) {
+    return res.status(400).json({
+      error: `Invalid format. Use one of: ${Object.keys(SUBTITLE_FORMATS).join(", ")}`,
+    });
+  }
+
+  const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+  if (!Number.isFinite(offset) || offset < 0) {
+    return res.status(400).json({ error: "offset must be a number of seconds (0 or more)" });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  try {
+    const loaded = await loadSubtitleSource(source, id);
+    if (!loaded) {
+      return res.status(404).json({ error: `${source === "ugc" ? "UGC video" : source === "short" ? "Short" : "Story"} not found` });
+    }
+
+    if (loaded.userId !== user.id) {
+      return res.status(403).json({ error: "Not authorized to export these captions" });
+    }
+
+    const segments = loaded.segments.map((segment) => ({ ...segment, offset: segment.offset + offset }));
+    const cues = buildSubtitleCues(segments);
+    if (cues.length === 0) {
+      return res.status(400).json({ error: "There are no captions to export yet" });
+    }
+
+    let content: string;
+    if (format === "ass") {
+      const words = getTimelineWords(segments);
+      if (words.length === 0) {
+        return res.status(400).json({ error: "ASS export needs word timings - generate the audio first" });
+      }
+      content = generateCaptionASS(words, loaded.captions, {
+        ...loaded.assSize,
+        fullText: segments.map((segment) => segment.text).join(" "),
+      });
+    } else if (format === "vtt") {
+      content = generateVTT(cues, { wordTiming: word_timing === "1" || word_timing === "true" });
+    } else {
+      content = generateSRT(cues);
+    }
+
+    const config = getSubtitleFormat(format);
+    const fileName = `${(loaded.title || "captions").replace(/[^\w\- ]+/g, "").trim() || "captions"}.${config.extension}`;
+
+    res.setHeader("Content-Type", `${config.contentType}; charset=utf-8`);
+    res.setHeader("Content-Disposition", `attachment; filename="${fileName}"`);
+    res.status(200).send(content);
+  } catch (err: any) {
+    console.error(`Error exporting ${format} subtitles for ${source} ${id}:`, err);
+    res.status(500).json({ error: err.message || "Failed to export subtitles" });
+  }
+}
+
+interface LoadedSubtitleSource {
+  userId: string | null;
+  title: string | null;
+  captions: any;
+  segments: SubtitleSegment[];
+  assSize: { width: number; height: number; fontScale: number };
+}
+
+/**
+ * Scenes (stories), clips (UGC) or the short's slice of its parent video's
+ * transcript, as segments on the video's timeline
+ */
+async function loadSubtitleSource(source: SubtitleSource, id: string): Promise<LoadedSubtitleSource | null> {
+  if (source === "short") {
+    const { data: short } = await supabaseAdmin
+      .from("shorts")
+      .select("user_id, title, start_time, end_time, caption_settings, word_timestamps")
+      .eq("id", id)
+      .maybeSingle();
+
+    if (!short) return null;
+
+    // word_timestamps are stored relative to the parent video
+    const words = ((short.word_timestamps || []) as Array<{ word: string; start: number; end: number }>)
+      .filter((w) => w.start >= short.start_time && w.start < short.end_time)
+      .map((w) => ({ word: w.word, start: w.start - short.start_time, end: Math.min(w.end, short.end_time) - short.start_time }));
+
+    return {
+      userId: short.user_id,
+      title: short.title,
+      captions: short.caption_settings,
+      segments: [{ offset: 0, duration: short.end_time - short.start_time, text: words.map((w) => w.word).join(" "), words }],
+      assSize: SHORT_ASS_SIZE,
+    };
+  }
+
+  const parent = source === "ugc"
+    ? await supabaseAdmin.from("ugc_videos").select("user_id, title, aspect_ratio, caption_settings").eq("id", id).maybeSingle()
+    : await supabaseAdmin.from("stories").select("user_id, title, aspect_ratio, caption_settings").eq("id", id).maybeSingle();
+
+  if (!parent.data) return null;
+
+  const { data: parts, error } = source === "ugc"
+    ? await supabaseAdmin.from("ugc_clips").select("text, duration, word_timestamps").eq("ugc_video_id", id).order("order_index", { ascending: true })
+    : await supabaseAdmin.from("scenes").select("text, duration, word_timestamps").eq("story_id", id).order("order", { ascending: true });
+
+  if (error) throw error;
+
+  const config = getAspectRatioConfig(parent.data.aspect_ratio);
+
+  // Scene timings of the latest render (brand intro included), so cues match the video
+  const { data: video } = await supabaseAdmin
+    .from("videos")
+    .select("scene_timeline")
+    .eq("story_id", id)
+    .eq("aspect_ratio", config.id)
+    .maybeSingle();
+  const timeline: Array<{ start: number; duration: number }> = Array.isArray(video?.scene_timeline) ? video.scene_timeline : [];
+
+  // Scenes the render didn't time (not rendered yet, or added since) play back to back, 5s by default as in the render
+  let offset = 0;
+  const segments: SubtitleSegment[] = (parts || []).map((part: any, index: number) => {
+    const timing = timeline[index];
+    const segment = {
+      offset: timing ? timing.start : offset,
+      duration: timing ? timing.duration : part.duration || 5,
+      text: stripSpeakerTags(part.text || ""),
+      words: Array.isArray(part.word_timestamps) ? part.word_timestamps : null,
+    };
+    offset = segment.offset + segment.duration;
+    return segment;
+  });
+
+  const { width, height } = getRenderDimensions(config.id, DEFAULT_RENDER_QUALITY);
+
+  return {
+    userId: parent.data.user_id,
+    title: parent.data.title,
+    captions: parent.data.caption_settings,
+    segments,
+    assSize: { width, height, fontScale: Math.min(width, height) / Math.min(config.preview.width, config.preview.height) },
+  };
+}
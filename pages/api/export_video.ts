@@ -0,0 +1,100 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { enqueueJob } from "../../lib/jobQueue";
+import { EXPORT_FORMATS, isExportFormat, getExportFormat } from "../../lib/exportFormats";
+
+/**
+ * POST /api/export_video - Queue an extra format (GIF, WebM, MP3, M4A, PNG
+ * stills) of a finished video. Body: { video_id, format }. The work happens
+ * in the job worker (lib/videoExport.ts); follow it with /api/job_progress?job_id=
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { video_id, format } = req.body;
+  if (!video_id) {
+    return res.status(400).json({ error: "video_id is required" });
+  }
+
+  if (!isExportFormat(format)) {
+    return res.status(400).json({
+      error: `Invalid format. Use one of: ${Object.keys(EXPORT_FORMATS).join(", ")}`,
+    });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  try {
+    const { data: video, error: videoErr } = await supabaseAdmin
+      .from("videos")
+      .select("id, story_id, aspect_ratio")
+      .eq("id", video_id)
+      .single();
+
+    if (videoErr || !video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const { data: story } = await supabaseAdmin
+      .from("stories")
+      .select("user_id")
+      .eq("id", video.story_id)
+      .single();
+
+    if (story?.user_id !== user.id) {
+      return res.status(403).json({ error: "Not authorized to export this video" });
+    }
+
+    // One export of each format per video at a time - hand back the running one
+    const { data: existingJob } = await supabaseAdmin
+      .from("video_generation_jobs")
+      .select("id, status")
+      .eq("job_type", "export")
+      .eq("payload->>videoId", video.id)
+      .eq("payload->>format", format)
+      .in("status", ["queued", "processing"])
+      .limit(1)
+      .maybeSingle();
+
+    if (existingJob) {
+      return res.status(409).json({
+        error: `${getExportFormat(format).name} export already ${existingJob.status} for this video`,
+        job_id: existingJob.id,
+      });
+    }
+
+    const jobId = await enqueueJob({
+      type: "export",
+      storyId: video.story_id,
+      payload: {
+        videoId: video.id,
+        format,
+        userId: user.id,
+      },
+    });
+
+    console.log(`✅ Queued ${format} export of ${video.aspect_ratio} video ${video.id}: ${jobId}`);
+
+    return res.status(202).json({
+      message: `${getExportFormat(format).name} export queued`,
+      job_id: jobId,
+      video_id: video.id,
+      format,
+    });
+  } catch (err: any) {
+    console.error(`Error queueing ${format} export of video ${video_id}:`, err);
+    res.status(500).json({ error: err.message || "Failed to queue export" });
+  }
+}
@@ -1,39 +1,16 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import fs from "fs";
 import path from "path";
-import fetch from "node-fetch";
 import ffmpeg from "fluent-ffmpeg";
 import { supabaseAdmin } from "../../lib/supabaseAdmin";
 import { getUserLogger } from "../../lib/userLogger";
 import { updateStoryMetadata } from "../../lib/updateStoryMetadata";
-import * as Echogarden from "echogarden";
 import { getUserCredits, deductCredits, refundCredits, CREDIT_COSTS } from "../../lib/credits";
-
-const OPENAI_TTS_API = "https://api.openai.com/v1/audio/speech";
-
-// OpenAI voice mapping - supports both OpenAI voice names and old ElevenLabs IDs
-// Valid OpenAI voices: alloy, echo, fable, onyx, nova, shimmer, ash, coral, sage
-const VOICE_MAPPING: { [key: string]: string } = {
-  // OpenAI voice IDs (direct pass-through)
-  "alloy": "alloy",
-  "echo": "echo",
-  "fable": "fable",
-  "onyx": "onyx",
-  "nova": "nova",
-  "shimmer": "shimmer",
-  "ash": "ash",
-  "coral": "coral",
-  "sage": "sage",
-  // Legacy ElevenLabs IDs (for backward compatibility)
-  "21m00Tcm4TlvDq8ikWAM": "alloy",  // Rachel → alloy
-  "EXAVITQu4vr4xnSDxMaL": "nova",   // Bella → nova
-  "MF3mGyEYCl7XYWbV9V6O": "echo",   // Elli → echo
-  "TxGEqnHWrfWFTfGW9XjX": "fable",  // Josh → fable
-  "VR6AewLTigWG4xSOukaG": "onyx",   // Arnold → onyx
-  "pNInz6obpgDQGcFmaJgB": "shimmer", // Adam → shimmer
-  // Default fallback
-  "default": "alloy"
-};
+import type { WordTimestamp } from "../../lib/assSubtitles";
+import { resolveVoice, DEFAULT_VOICE_ID } from "../../lib/ttsProviders";
+import { hasSpeakerTags, stripSpeakerTags } from "../../lib/dialogue";
+import { normalizeProsody } from "../../lib/prosody";
+import { synthesizeNarration } from "../../lib/narrationAudio";
 
 function ffprobeAsync(filePath: string): Promise<ffmpeg.FfprobeData> {
   return new Promise((resolve, reject) => {
@@ -54,7 +31,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // 1️⃣ Fetch scene data (including video_url and duration for speed matching)
     const { data: scene, error: sceneErr } = await supabaseAdmin
       .from("scenes")
-      .select("id, text, story_id, order, video_url, duration")
+      .select("id, text, story_id, order, video_url, duration, prosody")
       .eq("id", scene_id)
       .single();
 
@@ -84,14 +61,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (logger) { logger.info(`[${scene.story_id}] User: ${user.email}`); }
     if (logger) { logger.info(`[${scene.story_id}] 🎤 Received voice_id from request: ${voice_id}`); }
 
-    const voiceId = voice_id || "alloy"; // Default to OpenAI's Alloy voice
-    if (logger) { logger.info(`[${scene.story_id}] 🎤 Using voice_id (after default): ${voiceId}`); }
+    const resolvedVoice = resolveVoice(voice_id || DEFAULT_VOICE_ID);
+    const voiceId = resolvedVoice.voiceId;
+    if (logger) { logger.info(`[${scene.story_id}] 🎤 Using voice_id (after default): ${voiceId} (${resolvedVoice.provider.name})`); }
     if (logger) { logger.info(`[${scene.story_id}] 📖 Scene text length: ${sceneText.length} chars`); }
 
-    // Fetch story for title (for logging)
+    // Fetch story for title (for logging) and character voices (for dialogue scenes)
     const { data: story, error: storyError } = await supabaseAdmin
       .from("stories")
-      .select("title")
+      .select("title, character_voices")
       .eq("id", scene.story_id)
       .single();
 
@@ -116,9 +94,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
-    // Map voice ID to OpenAI voice name
-    const openaiVoice = VOICE_MAPPING[voiceId] || VOICE_MAPPING["default"];
-    if (logger) { logger.info(`[${scene.story_id}] 🎤 Mapped voice to OpenAI: ${openaiVoice}`); }
+    // Dialogue scenes ("[Mara]: Who's there?") are voiced line by line per character
+    const isDialogue = hasSpeakerTags(sceneText);
+    const spokenText = stripSpeakerTags(sceneText);
+    if (isDialogue && logger) { logger.info(`[${scene.story_id}] 🗣️ Dialogue scene - voicing each speaker separately`); }
+
+    // Per-scene prosody (speed, pitch, emphasis, pauses, pronunciations)
+    const prosody = normalizeProsody(scene.prosody);
+    if (prosody && logger) { logger.info(`[${scene.story_id}] 🎚️ Scene prosody: speed ${prosody.speed}x, pitch ${prosody.pitch}st`); }
 
     // Calculate TTS speed to match video duration (if video exists)
     let ttsSpeed = 1.0;
@@ -126,57 +109,50 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
     if (targetDuration) {
       // Estimate natural speech duration based on word count
-      const wordCount = sceneText.trim().split(/\s+/).length;
+      const wordCount = spokenText.split(/\s+/).length;
       const wordsPerSecond = 2.5; // Average speaking rate
       const naturalDuration = wordCount / wordsPerSecond;
 
       // Calculate speed factor to match video duration
       ttsSpeed = naturalDuration / targetDuration;
 
-      // Clamp speed to OpenAI's supported range (0.25 - 4.0)
-      ttsSpeed = Math.max(0.25, Math.min(4.0, ttsSpeed));
+      // Each provider clamps to its own supported range; FFmpeg fine-tunes the rest below
 
       if (logger) { logger.info(`[${scene.story_id}] 🎯 Video duration detected: ${targetDuration.toFixed(2)}s`); }
       if (logger) { logger.info(`[${scene.story_id}] 📊 Word count: ${wordCount}, Natural duration: ${naturalDuration.toFixed(2)}s`); }
       if (logger) { logger.info(`[${scene.story_id}] ⚡ Adjusted TTS speed: ${ttsSpeed.toFixed(2)}x to match video`); }
     }
 
-    // 2️⃣ Generate audio with OpenAI TTS
-    const audioModel = process.env.AUDIO_MODEL || "tts-1-hd";
-    if (logger) { logger.info(`[${scene.story_id}] 🧠 Generating TTS with OpenAI voice: ${openaiVoice} (model: ${audioModel})`); }
-    const ttsRes = await fetch(OPENAI_TTS_API, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${process.env.OPENAI_API_KEY!}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: audioModel,
-        input: sceneText,
-        voice: openaiVoice,
-        response_format: "mp3",
-        speed: ttsSpeed
-      }),
-    });
-
-    if (!ttsRes.ok) {
-      const errorText = await ttsRes.text();
-      if (logger) { logger.error(`[${scene.story_id}] ❌ OpenAI TTS error: ${errorText}`); }
-      throw new Error(`OpenAI TTS failed: ${errorText}`);
-    }
-
-    const audioBuffer = Buffer.from(await ttsRes.arrayBuffer());
-    if (logger) { logger.info(`[${scene.story_id}] ✅ Audio generated successfully`); }
-
-    // 3️⃣ Save locally
     const tempDir = path.join(process.cwd(), "tmp", scene_id);
     fs.mkdirSync(tempDir, { recursive: true });
     const audioPath = path.join(tempDir, `scene-${scene_id}.mp3`);
-    fs.writeFileSync(audioPath, audioBuffer);
+
+    // 2️⃣ Generate audio with the voice's TTS provider, apply prosody and 3️⃣ align words
+    if (!isDialogue && logger) { logger.info(`[${scene.story_id}] 🧠 Generating TTS with ${resolvedVoice.provider.name} voice: ${resolvedVoice.voice}`); }
+    let narration;
+    try {
+      narration = await synthesizeNarration(sceneText, voiceId, audioPath, {
+        speed: ttsSpeed,
+        prosody,
+        characterVoices: story.character_voices,
+      }, {
+        info: (msg) => logger?.info(`[${scene.story_id}] ${msg}`),
+        warn: (msg) => logger?.warn(`[${scene.story_id}] ${msg}`),
+      });
+    } catch (ttsErr: any) {
+      if (logger) { logger.error(`[${scene.story_id}] ❌ ${resolvedVoice.provider.name} TTS error: ${ttsErr.message}`); }
+      throw ttsErr;
+    }
+    if (isDialogue) {
+      if (logger) { logger.info(`[${scene.story_id}] ✅ Dialogue audio stitched (${narration.speakers.length} character(s): ${narration.speakers.join(", ")})`); }
+    } else {
+      if (logger) { logger.info(`[${scene.story_id}] ✅ Audio generated successfully`); }
+    }
 
     // 4️⃣ Get duration
     const info = await ffprobeAsync(audioPath);
     let duration = info.format?.duration || 0;
+    const synthesizedDuration = duration;
     if (logger) { logger.info(`[${scene.story_id}] ⏱ Audio duration: ${duration.toFixed(2)} seconds`); }
 
     // 4.5️⃣ Adjust audio to match video duration exactly using FFmpeg (if video exists)
@@ -227,26 +203,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       if (logger) { logger.info(`[${scene.story_id}] ⏱ Final audio duration: ${duration.toFixed(2)} seconds (target: ${targetDuration.toFixed(2)}s)`); }
     }
 
-    // 5️⃣ Generate word-level timestamps using forced alignment
-    if (logger) { logger.info(`[${scene.story_id}] 🔍 Generating word-level timestamps with forced alignment...`); }
-    let wordTimestamps = null;
-    try {
-      const alignmentResult = await Echogarden.align(audioPath, sceneText, {
-        engine: 'dtw',
-        language: 'en',
-      });
-
-      // Extract word timestamps from timeline
-      wordTimestamps = alignmentResult.wordTimeline.map((entry: any) => ({
-        word: entry.text,
-        start: entry.startTime,
-        end: entry.endTime
-      }));
-
+    // 5️⃣ Word-level timestamps were aligned before post-processing - rescale if the tempo was adjusted to fit the video
+    let wordTimestamps: WordTimestamp[] | null = null;
+    if (narration.wordTimestamps) {
+      const scale = synthesizedDuration > 0 ? duration / synthesizedDuration : 1;
+      wordTimestamps = narration.wordTimestamps.map((wt) => ({ ...wt, start: wt.start * scale, end: wt.end * scale }));
       if (logger) { logger.info(`[${scene.story_id}] ✅ Generated ${wordTimestamps.length} word timestamps`); }
-    } catch (alignErr: any) {
-      if (logger) { logger.warn(`[${scene.story_id}] ⚠️ Word alignment failed, continuing without timestamps: ${alignErr.message}`); }
-      // Continue without timestamps rather than failing completely
     }
 
     // 6️⃣ Delete old audio files for this scene (all versions)
@@ -0,0 +1,111 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { getUserLogger } from "../../lib/userLogger";
+import { checkRateLimit, RateLimits } from "../../lib/rateLimit";
+import { tagCaptionWords } from "../../lib/captionEmphasisLLM";
+import type { CaptionTagSource } from "../../lib/captionEmphasis";
+
+/**
+ * POST /api/generate_caption_tags - Tag emphasis words and emojis in a story's
+ * captions. Body: { story_id, scene_id?, use_ai? }. Without scene_id every
+ * scene with word timestamps is tagged; existing tags are replaced.
+ * use_ai: false uses the rule-based tagger only.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { story_id, scene_id, use_ai = true } = req.body;
+
+  if (!story_id) {
+    return res.status(400).json({ error: "story_id is required" });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  const rateLimit = checkRateLimit(user.id, RateLimits.CAPTION_TAGGING);
+  if (!rateLimit.allowed) {
+    const retryAfter = Math.ceil((rateLimit.resetTime - Date.now()) / 1000);
+    return res.status(429).json({
+      error: "Too many requests. Please wait before tagging captions again.",
+      retry_after: retryAfter,
+    });
+  }
+
+  const logger = getUserLogger(user.id);
+
+  try {
+    const { data: story, error: storyError } = await supabaseAdmin
+      .from("stories")
+      .select("user_id, caption_settings")
+      .eq("id", story_id)
+      .single();
+
+    if (storyError || !story) {
+      return res.status(404).json({ error: "Story not found" });
+    }
+
+    if (story.user_id !== user.id) {
+      return res.status(403).json({ error: "Forbidden - You don't own this story" });
+    }
+
+    let query = supabaseAdmin
+      .from("scenes")
+      .select("id, word_timestamps, prosody")
+      .eq("story_id", story_id)
+      .order("order", { ascending: true });
+    if (scene_id) query = query.eq("id", scene_id);
+
+    const { data: scenes, error: scenesError } = await query;
+    if (scenesError) throw scenesError;
+
+    const taggable = (scenes || []).filter((s) => Array.isArray(s.word_timestamps) && s.word_timestamps.length > 0);
+    if (taggable.length === 0) {
+      return res.status(400).json({ error: "No captions to tag yet - generate the audio first" });
+    }
+
+    const wordsPerBatch = story.caption_settings?.wordsPerBatch ?? 3;
+    const sources = new Set<CaptionTagSource>();
+    const updated: Array<{ id: string; word_timestamps: any[] }> = [];
+
+    for (const scene of taggable) {
+      const { words, source } = await tagCaptionWords(scene.word_timestamps, {
+        wordsPerBatch,
+        spokenEmphasis: scene.prosody?.emphasis,
+        useAI: use_ai !== false,
+      });
+      sources.add(source);
+
+      const { error } = await supabaseAdmin
+        .from("scenes")
+        .update({ word_timestamps: words })
+        .eq("id", scene.id);
+      if (error) throw error;
+
+      updated.push({ id: scene.id, word_timestamps: words });
+    }
+
+    const emphasized = updated.reduce((n, s) => n + s.word_timestamps.filter((w) => w.emphasis).length, 0);
+    const emojis = updated.reduce((n, s) => n + s.word_timestamps.filter((w) => w.emoji).length, 0);
+    logger.info(`[${story_id}] ✨ Tagged captions in ${updated.length} scene(s): ${emphasized} emphasis word(s), ${emojis} emoji(s) (${Array.from(sources).join(" + ")})`);
+
+    res.status(200).json({
+      scenes: updated,
+      source: sources.has("ai") ? "ai" : "rules",
+    });
+  } catch (err: any) {
+    logger.error(`[${story_id}] ❌ Error tagging captions: ${err.message}`);
+    res.status(500).json({ error: err.message || "Failed to tag captions" });
+  }
+}
@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { getAspectRatioConfig } from "../../lib/aspectRatios";
+import { getRenderDimensions } from "../../lib/renderProfiles";
 import fetch from "node-fetch";
 import fs from "fs";
 import path from "path";
@@ -140,25 +142,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const model = process.env.IMAGE_MODEL || "google/gemini-2.5-flash-image-preview";
 
     // 🎯 Use story-specific aspect ratio (NEVER use env ASPECT_RATIO)
-    const aspect = storyAspectRatio;
-    let videoWidth: number, videoHeight: number;
-
-    // Calculate dimensions based on story's aspect ratio
-    switch (aspect) {
-      case "16:9":
-        videoWidth = 3840;
-        videoHeight = 2160;
-        break;
-      case "1:1":
-        videoWidth = 3840;
-        videoHeight = 3840;
-        break;
-      case "9:16":
-      default:
-        videoWidth = 2160;
-        videoHeight = 3840;
-        break;
-    }
+    const aspect = getAspectRatioConfig(storyAspectRatio).id;
+
+    // Calculate dimensions based on story's aspect ratio (4K frame, matches the highest render tier)
+    const { width: videoWidth, height: videoHeight } = getRenderDimensions(aspect, "4k");
 
     const imageSize = `${videoWidth}x${videoHeight}`;
     if (logger) { logger.info(`[${scene.story_id}] 📐 Story aspect ratio: ${aspect}, using ${imageSize}`); }
@@ -5,6 +5,8 @@ import { getUserLogger } from "../../lib/userLogger";
 import { v4 as uuidv4 } from "uuid";
 import { calculateSceneDuration } from "../../lib/utils";
 import { checkRateLimit, RateLimits } from "../../lib/rateLimit";
+import { isAspectRatio } from "../../lib/aspectRatios";
+import { stripSpeakerTags, assignSpeakers } from "../../lib/dialogue";
 
 // --- Utility ---
 function cleanJSON(raw: string): string {
@@ -12,16 +14,16 @@ function cleanJSON(raw: string): string {
 }
 
 // Generate synthetic word timestamps for text-based scenes (no audio)
-function generateWordTimestamps(text: string): Array<{ word: string; start: number; end: number }> {
-  const words = text.trim().split(/\s+/).filter(w => w.length > 0);
+function generateWordTimestamps(text: string): Array<{ word: string; start: number; end: number; speaker?: string }> {
+  const words = stripSpeakerTags(text).split(/\s+/).filter(w => w.length > 0);
   const wordsPerSecond = 2; // Reading speed (same as duration calculation)
   const wordDuration = 1 / wordsPerSecond;
 
-  return words.map((word, i) => ({
+  return assignSpeakers(words.map((word, i) => ({
     word: word,
     start: i * wordDuration,
     end: (i + 1) * wordDuration
-  }));
+  })), text);
 }
 
 // --- Constants ---
@@ -33,6 +35,7 @@ export const config = { api: { bodyParser: { sizeLimit: "4mb" } } };
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { prompt, title, story_id, sceneCount = 5, manualScenes, isManual = false, voice_id, aspect_ratio, isBlank = false } = req.body;
   if (!prompt) return res.status(400).json({ error: "Prompt required" });
+  if (aspect_ratio && !isAspectRatio(aspect_ratio)) return res.status(400).json({ error: `Invalid aspect_ratio: ${aspect_ratio}` });
 
   let logger: any = null;
 
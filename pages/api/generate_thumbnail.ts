@@ -0,0 +1,143 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import fs from "fs";
+import path from "path";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { getUserLogger } from "../../lib/userLogger";
+import { normalizeThumbnailSettings, getThumbnailSize, getThumbnailSizeForAspectRatio } from "../../lib/thumbnails";
+import { extractVideoFrame, downloadImage, renderThumbnail } from "../../lib/thumbnailRender";
+
+// POST /api/generate_thumbnail - Render a finished video's thumbnail at each requested size
+// Body: { video_id, settings: ThumbnailSettings } (see lib/thumbnails.ts)
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { video_id } = req.body;
+  if (!video_id) {
+    return res.status(400).json({ error: "video_id is required" });
+  }
+
+  const settings = normalizeThumbnailSettings(req.body.settings);
+  if (!settings) {
+    return res.status(400).json({ error: "settings must be thumbnail settings" });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  const logger = getUserLogger(user.id);
+  const tmpDir = path.join(process.cwd(), "tmp", `thumbnail-${video_id}-${Date.now()}`);
+
+  try {
+    const { data: video, error: videoErr } = await supabaseAdmin
+      .from("videos")
+      .select("id, story_id, video_url, aspect_ratio, thumbnails")
+      .eq("id", video_id)
+      .single();
+
+    if (videoErr || !video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const { data: story } = await supabaseAdmin
+      .from("stories")
+      .select("user_id")
+      .eq("id", video.story_id)
+      .single();
+
+    if (story?.user_id !== user.id) {
+      return res.status(403).json({ error: "Not authorized to edit this video" });
+    }
+
+    const story_id = video.story_id;
+    fs.mkdirSync(tmpDir, { recursive: true });
+    const sourcePath = path.join(tmpDir, "source.png");
+
+    // 1️⃣ Source picture - a frame of the finished video or a scene image
+    if (settings.source.type === "scene") {
+      const { data: scene } = await supabaseAdmin
+        .from("scenes")
+        .select("id, image_url")
+        .eq("id", settings.source.scene_id)
+        .eq("story_id", story_id)
+        .maybeSingle();
+
+      if (!scene?.image_url) {
+        return res.status(400).json({ error: "That scene has no image" });
+      }
+
+      logger.info(`[${story_id}] 🖼️ Thumbnail from scene image ${scene.id}`);
+      await downloadImage(scene.image_url, sourcePath);
+    } else {
+      logger.info(`[${story_id}] 🎞️ Thumbnail from video frame at ${settings.source.time.toFixed(2)}s`);
+      await extractVideoFrame(video.video_url, settings.source.time, sourcePath);
+    }
+
+    // 2️⃣ Render and upload each size
+    const timestamp = Date.now();
+    const thumbnails: Record<string, string> = {};
+
+    for (const sizeId of settings.sizes) {
+      const size = getThumbnailSize(sizeId);
+      const buffer = await renderThumbnail(sourcePath, size, settings.title);
+      const fileName = `thumbnails/${story_id}/${video.id}-${size.id}-${timestamp}.jpg`;
+
+      const { error: uploadErr } = await supabaseAdmin.storage
+        .from("images")
+        .upload(fileName, buffer, {
+          contentType: "image/jpeg",
+          upsert: false,
+          cacheControl: "no-cache, no-store, must-revalidate",
+        });
+
+      if (uploadErr) throw uploadErr;
+
+      thumbnails[size.id] = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/images/${fileName}`;
+      logger.info(`[${story_id}] ✅ Thumbnail ${size.name} (${size.width}x${size.height}) → ${thumbnails[size.id]}`);
+    }
+
+    // The dashboard shows the size that matches the video, else the first one exported
+    const thumbnailUrl = thumbnails[getThumbnailSizeForAspectRatio(video.aspect_ratio)] || thumbnails[settings.sizes[0]];
+
+    const { data: updated, error: updateErr } = await supabaseAdmin
+      .from("videos")
+      .update({
+        thumbnail_url: thumbnailUrl,
+        thumbnails,
+        thumbnail_settings: settings,
+      })
+      .eq("id", video.id)
+      .select("*")
+      .single();
+
+    if (updateErr) throw updateErr;
+
+    // 3️⃣ Remove the previous export's files
+    const oldPaths = Object.values((video.thumbnails || {}) as Record<string, string>)
+      .map((url) => url.split("/images/")[1])
+      .filter(Boolean);
+    if (oldPaths.length > 0) {
+      const { error: delErr } = await supabaseAdmin.storage.from("images").remove(oldPaths);
+      if (delErr) logger.warn(`[${story_id}] ⚠️ Failed to delete old thumbnails: ${delErr.message}`);
+    }
+
+    res.status(200).json({ video: updated, thumbnails });
+  } catch (err: any) {
+    logger.error(`❌ Error generating thumbnail: ${err.message}`);
+    res.status(500).json({ error: err.message || "Failed to generate thumbnail" });
+  } finally {
+    try {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    } catch {}
+  }
+}
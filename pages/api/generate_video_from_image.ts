@@ -8,6 +8,8 @@ import ffmpeg from "fluent-ffmpeg";
 import fs from "fs";
 import path from "path";
 import { tmpdir } from "os";
+import { getAspectRatioConfig } from "../../lib/aspectRatios";
+import { getRenderDimensions } from "../../lib/renderProfiles";
 
 export const config = {
   api: {
@@ -90,7 +92,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       .eq("id", scene.story_id)
       .single();
 
-    const aspectRatio = story?.aspect_ratio || "9:16";
+    const aspectRatio = getAspectRatioConfig(story?.aspect_ratio).id;
+    // Kling only generates 9:16, 16:9 and 1:1 - other formats are cropped to fit when upscaling
+    const klingAspectRatio = getAspectRatioConfig(aspectRatio).klingAspect;
     const imageStyle = story?.default_image_style || "cinematic illustration";
 
     // 5. Create motion prompt from scene text
@@ -113,7 +117,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         prompt: motionPrompt,
         image_url: scene.image_url.split('?')[0], // Remove cache busting params
         duration: klingDuration,
-        aspect_ratio: aspectRatio,
+        aspect_ratio: klingAspectRatio,
       },
       logs: true,
       onQueueUpdate: (update) => {
@@ -164,30 +168,28 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         if (logger) { logger.info(`[Scene ${scene_id}] Upscaling AI video to 4K...`); }
 
         // Determine target 4K dimensions based on aspect ratio
-        const aspectRatioMap: { [key: string]: { width: number; height: number } } = {
-          "9:16": { width: 2160, height: 3840 },  // Portrait (4K)
-          "16:9": { width: 3840, height: 2160 },  // Landscape (4K)
-          "1:1": { width: 3840, height: 3840 }    // Square (4K)
-        };
+        const { width: targetWidth, height: targetHeight } = getRenderDimensions(aspectRatio, "4k");
 
-        const targetDimensions = aspectRatioMap[aspectRatio] || aspectRatioMap["9:16"];
-        const { width: targetWidth, height: targetHeight } = targetDimensions;
+        // Center-crop when Kling's format differs from the story's (e.g. 16:9 → 21:9)
+        const cropToFit = klingAspectRatio !== aspectRatio
+          ? `scale=${targetWidth}:${targetHeight}:force_original_aspect_ratio=increase:flags=lanczos,crop=${targetWidth}:${targetHeight},`
+          : "";
 
         // Get upscaling quality setting
         const quality = process.env.VIDEO_UPSCALE_QUALITY || "high";
         const qualitySettings: { [key: string]: { filter: string; preset: string; crf: number } } = {
           high: {
-            filter: `scale=${targetWidth}:${targetHeight}:flags=lanczos,unsharp=5:5:1.0:5:5:0.0`,
+            filter: `${cropToFit}scale=${targetWidth}:${targetHeight}:flags=lanczos,unsharp=5:5:1.0:5:5:0.0`,
             preset: 'slow',
             crf: 18
           },
           medium: {
-            filter: `scale=${targetWidth}:${targetHeight}:flags=bicubic`,
+            filter: `${cropToFit}scale=${targetWidth}:${targetHeight}:flags=bicubic`,
             preset: 'medium',
             crf: 20
           },
           fast: {
-            filter: `scale=${targetWidth}:${targetHeight}:flags=bilinear`,
+            filter: `${cropToFit}scale=${targetWidth}:${targetHeight}:flags=bilinear`,
             preset: 'fast',
             crf: 22
           }
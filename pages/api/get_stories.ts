@@ -102,7 +102,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       // Get all videos in one query
       const { data: videos } = await supabaseAdmin
         .from("videos")
-        .select("story_id, duration, video_url, created_at")
+        .select("story_id, duration, video_url, created_at, aspect_ratio, thumbnail_url")
         .in("story_id", storyIds);
 
       // Group by story_id
@@ -131,6 +131,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           video_duration: totalDuration,
           video_url: video?.video_url || null,
           video_created_at: video?.created_at || null,
+          video_thumbnail_url: getStoryThumbnail(story, videos || []),
         };
       });
 
@@ -141,9 +142,22 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       });
     }
 
+    // Thumbnails aren't in the view - one query for the page's videos
+    const pageStoryIds = (rawData || []).map((story: any) => story.id);
+    const { data: thumbnailVideos } = pageStoryIds.length > 0
+      ? await supabaseAdmin
+          .from("videos")
+          .select("story_id, aspect_ratio, thumbnail_url")
+          .in("story_id", pageStoryIds)
+          .not("thumbnail_url", "is", null)
+      : { data: [] };
+
     // Use optimized function result
     res.status(200).json({
-      stories: rawData || [],
+      stories: (rawData || []).map((story: any) => ({
+        ...story,
+        video_thumbnail_url: getStoryThumbnail(story, thumbnailVideos || []),
+      })),
       total: count || 0,
       hasMore: (offset + limit) < (count || 0)
     });
@@ -151,3 +165,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     res.status(500).json({ error: err.message });
   }
 }
+
+/**
+ * Cover art for a story card: the thumbnail of the video in the story's own
+ * format, else of any exported format
+ */
+function getStoryThumbnail(story: any, videos: any[]): string | null {
+  const withThumbnail = videos.filter((video) => video.story_id === story.id && video.thumbnail_url);
+  const own = withThumbnail.find((video) => video.aspect_ratio === (story.aspect_ratio || "9:16"));
+  return (own || withThumbnail[0])?.thumbnail_url || null;
+}
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { normalizeMusicMix } from "../../lib/musicMix";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { id } = req.query;
@@ -9,8 +10,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // Try to fetch with background music support first
     let storyResult = await supabaseAdmin.from("stories").select(`
       id, title, prompt, status, created_at, updated_at, voice_id, aspect_ratio, default_image_style, image_instructions, caption_settings,
+      character_library, character_voices,
       series_id,
-      background_music_id, background_music_volume, background_music_enabled,
+      background_music_id, background_music_volume, background_music_enabled, background_music_mix,
       background_music:background_music_library(id, name, description, file_url, duration, category)
     `).eq("id", id).single();
 
@@ -20,24 +22,29 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       storyResult = await supabaseAdmin.from("stories").select("*").eq("id", id).single();
     }
 
-    const [{ data: scenes }, { data: videoRows, error: videoErr }] =
+    const [{ data: scenes }, { data: videoRows, error: videoErr }, { data: exportRows }] =
       await Promise.all([
-        supabaseAdmin.from("scenes").select("id, story_id, text, order, image_url, video_url, audio_url, voice_id, duration, word_timestamps, last_modified_at, created_at, image_generated_at, audio_generated_at, scene_text_modified_at, effects").eq("story_id", id).order("order"),
+        supabaseAdmin.from("scenes").select("id, story_id, text, order, image_url, video_url, audio_url, voice_id, duration, word_timestamps, last_modified_at, created_at, image_generated_at, audio_generated_at, scene_text_modified_at, effects, prosody, sfx_cues, text_layers").eq("story_id", id).order("order"),
         supabaseAdmin
           .from("videos")
           .select("*")
           .eq("story_id", id)
-          .order("created_at", { ascending: false })
-          .limit(1),
+          .order("created_at", { ascending: false }),
+        // GIF/WebM/audio/stills made from the videos (see lib/exportFormats.ts)
+        supabaseAdmin
+          .from("video_exports")
+          .select("*")
+          .eq("story_id", id),
       ]);
 
-    // ✅ normalize video (ensure object or null)
-    const video = videoRows?.[0] || null;
-
     if (videoErr) console.warn("⚠️ videoErr:", videoErr);
 
     const story = storyResult.data;
 
+    // ✅ normalize video (ensure object or null) - the story's own format, else the latest export
+    const videos = videoRows || [];
+    const video = videos.find((v: any) => v.aspect_ratio === story?.aspect_ratio) || videos[0] || null;
+
     // Build background_music_settings object for backward compatibility
     // Note: background_music is an array from Supabase join, so we need to access [0]
     const bgMusic = Array.isArray(story?.background_music) ? story.background_music[0] : story?.background_music;
@@ -47,6 +54,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       music_name: bgMusic?.name || null,
       volume: story.background_music_volume ?? 30,
       enabled: story.background_music_enabled ?? false,
+      mix: normalizeMusicMix(story.background_music_mix),
     } : null;
 
     // 🎯 Return simplified structure - scenes contain all their media info
@@ -56,7 +64,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         background_music_settings,
       },
       scenes: scenes || [],
-      video
+      video,
+      videos,
+      exports: exportRows || []
     });
   } catch (err: any) {
     console.error("❌ Error in get_story_details:", err);
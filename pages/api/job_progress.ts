@@ -0,0 +1,131 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { jobRowToProgressEvent } from "../../lib/jobQueue";
+import { subscribeJobProgress, onJobProgressShutdown, getLatestJobProgress, isValidProgressId, buildJobProgressEvent } from "../../lib/jobEvents";
+import { isFinalJobProgress, type JobProgressEvent, type JobProgressType } from "../../lib/jobProgress";
+
+export const config = { api: { responseLimit: false } };
+
+const ROW_POLL_INTERVAL_MS = 2000;
+const KEEPALIVE_INTERVAL_MS = 15000;
+const WORKER_EVENT_GRACE_MS = 5000; // While the worker's own events keep arriving, the row (a step behind) isn't sent
+const PROGRESS_ID_TIMEOUT_MS = 15 * 60 * 1000;
+const SHUTDOWN_RETRY_MS = 5000; // EventSource reconnects after this, by then to the next instance
+const REQUEST_JOB_TYPES: JobProgressType[] = ["short"];
+
+/**
+ * Server-Sent Events stream of a job's progress (see lib/jobProgress.ts).
+ * ?job_id= follows a queued job (render, export, images, audio);
+ * ?progress_id=&type=short follows a short cut started with that progress_id. Every message is a
+ * JobProgressEvent and the stream ends after the completed or failed one.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { job_id, progress_id, type } = req.query;
+
+  let channel: string;
+  let initial: JobProgressEvent;
+  const followsJobRow = typeof job_id === "string" && !!job_id;
+
+  if (followsJobRow) {
+    const { data: job, error } = await supabaseAdmin
+      .from("video_generation_jobs")
+      .select("*")
+      .eq("id", job_id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error fetching job:", error);
+      return res.status(500).json({ error: "Failed to get job status" });
+    }
+    if (!job) {
+      return res.status(404).json({ error: "Job not found" });
+    }
+
+    channel = job.id;
+    initial = getLatestJobProgress(job.id) || jobRowToProgressEvent(job);
+  } else if (isValidProgressId(progress_id) && REQUEST_JOB_TYPES.includes(type as JobProgressType)) {
+    // The page subscribes before starting the work, so there may be nothing published yet
+    channel = progress_id;
+    initial = getLatestJobProgress(progress_id) || buildJobProgressEvent({ id: progress_id, type: type as JobProgressType, status: "processing", progress: 0 });
+  } else {
+    return res.status(400).json({ error: "job_id, or progress_id and type (short) required" });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream; charset=utf-8",
+    "Cache-Control": "no-cache, no-transform",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // Don't let nginx buffer the stream
+  });
+
+  let closed = false;
+  let lastWorkerEventAt = 0;
+  const timers: NodeJS.Timeout[] = [];
+  let unsubscribe = () => {};
+  let stopShutdownListener = () => {};
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    timers.forEach((timer) => clearInterval(timer));
+    unsubscribe();
+    stopShutdownListener();
+    res.end();
+  };
+
+  const send = (event: JobProgressEvent) => {
+    if (closed) return;
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+    if (isFinalJobProgress(event)) close();
+  };
+
+  req.on("close", close);
+
+  unsubscribe = subscribeJobProgress(channel, (event) => {
+    lastWorkerEventAt = Date.now();
+    send(event);
+  });
+
+  send(initial);
+  if (closed) return;
+
+  // Deploy: end the stream so the server can close; the page's EventSource reconnects
+  stopShutdownListener = onJobProgressShutdown(() => {
+    if (!closed) res.write(`retry: ${SHUTDOWN_RETRY_MS}\n\n`);
+    close();
+  });
+
+  timers.push(setInterval(() => {
+    if (!closed) res.write(": keepalive\n\n");
+  }, KEEPALIVE_INTERVAL_MS));
+
+  if (followsJobRow) {
+    // The worker may run in another process, and a cancelled job (clear_video_job)
+    // never reaches it - the row is the source of truth either way
+    timers.push(setInterval(async () => {
+      const { data: job } = await supabaseAdmin
+        .from("video_generation_jobs")
+        .select("*")
+        .eq("id", channel)
+        .maybeSingle();
+
+      if (!job) {
+        send(buildJobProgressEvent({ id: channel, type: "video", status: "failed", progress: 0, error: "Job not found" }));
+        return;
+      }
+
+      const event = jobRowToProgressEvent(job);
+      if (isFinalJobProgress(event) || Date.now() - lastWorkerEventAt > WORKER_EVENT_GRACE_MS) {
+        send(event);
+      }
+    }, ROW_POLL_INTERVAL_MS));
+  } else {
+    timers.push(setTimeout(() => {
+      send(buildJobProgressEvent({ id: channel, type: type as JobProgressType, status: "failed", progress: 0, error: "Lost track of this job" }));
+    }, PROGRESS_ID_TIMEOUT_MS));
+  }
+}
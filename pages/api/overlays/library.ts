@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { getAspectRatioConfig } from "@/lib/aspectRatios";
 import formidable from "formidable";
 import fs from "fs";
 import path from "path";
@@ -71,8 +72,9 @@ async function handleGet(req: NextApiRequest, res: NextApiResponse) {
     // If aspect_ratio is provided, modify file URLs to use aspect-ratio-specific folders
     let overlays = data || [];
     if (aspect_ratio && typeof aspect_ratio === "string") {
-      // Map aspect ratio from "9:16" to folder name "9-16"
-      const aspectFolder = aspect_ratio.replace(':', '-');
+      // Map aspect ratio to its pre-rendered folder ("9:16" → "9-16", "4:5" → "9-16", "21:9" → "16-9")
+      // The preview and the render crop the overlay to fill the frame
+      const aspectFolder = getAspectRatioConfig(aspect_ratio).overlayFolder;
 
       overlays = overlays.map(overlay => {
         // Extract the filename from the full URL
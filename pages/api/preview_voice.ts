@@ -1,7 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import fetch from "node-fetch";
-
-const OPENAI_TTS_API = "https://api.openai.com/v1/audio/speech";
+import { synthesizeSpeech } from "../../lib/ttsProviders";
 
 // Short preview text for voice samples
 const PREVIEW_TEXT = "Hello! This is a preview of my voice. I can narrate your stories with clarity and emotion.";
@@ -16,30 +14,15 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   try {
     console.log(`🎤 Generating voice preview for: ${voice}`);
 
-    // Generate preview audio with OpenAI TTS
-    const ttsRes = await fetch(OPENAI_TTS_API, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${process.env.OPENAI_API_KEY!}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "tts-1", // Use regular tts-1 for previews (faster)
-        input: PREVIEW_TEXT,
-        voice: voice,
-        response_format: "mp3",
-        speed: 1.0
-      }),
-    });
-
-    if (!ttsRes.ok) {
-      const errorText = await ttsRes.text();
-      console.error(`❌ OpenAI TTS preview error: ${errorText}`);
+    // Generate preview audio with the voice's provider (faster preview models where available)
+    let audioBuffer: Buffer;
+    try {
+      ({ audio: audioBuffer } = await synthesizeSpeech(voice, PREVIEW_TEXT, { speed: 1.0, preview: true }));
+    } catch (ttsErr: any) {
+      console.error(`❌ TTS preview error: ${ttsErr.message}`);
       return res.status(500).json({ error: "Failed to generate voice preview" });
     }
 
-    const audioBuffer = Buffer.from(await ttsRes.arrayBuffer());
-
     // Return audio with proper headers
     res.setHeader('Content-Type', 'audio/mpeg');
     res.setHeader('Content-Length', audioBuffer.length);
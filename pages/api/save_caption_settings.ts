@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { CAPTION_ANIMATIONS, isCaptionAnimation } from "../../lib/captionAnimations";
+import { validateCaptionLayout } from "../../lib/captionLayout";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
@@ -28,12 +30,24 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       inactiveColor,
       wordsPerBatch,
       textTransform,
+      animation,
     } = caption_settings;
 
     if (typeof enabled !== "boolean") {
       return res.status(400).json({ error: "Invalid caption_settings: enabled must be boolean" });
     }
 
+    if (animation !== undefined && !isCaptionAnimation(animation)) {
+      return res.status(400).json({
+        error: `Invalid caption_settings: animation must be one of ${Object.keys(CAPTION_ANIMATIONS).join(", ")}`,
+      });
+    }
+
+    const layoutError = validateCaptionLayout(caption_settings);
+    if (layoutError) {
+      return res.status(400).json({ error: `Invalid caption_settings: ${layoutError}` });
+    }
+
     // Update either shorts or stories table based on which ID is provided
     if (short_id) {
       // Update short with caption settings
@@ -0,0 +1,171 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import formidable from "formidable";
+import fs from "fs";
+import path from "path";
+import ffmpeg from "fluent-ffmpeg";
+import { getSfxCategory } from "@/lib/sfx";
+
+export const config = {
+  api: {
+    bodyParser: false, // Disable for file uploads
+  },
+};
+
+// Helper to get audio duration using ffprobe (0 if it can't be read - clips play to their end)
+async function getAudioDuration(filePath: string): Promise<number> {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, (err, data) => {
+      if (err) {
+        console.warn("⚠️ ffprobe failed, storing 0s duration", err);
+        return resolve(0);
+      }
+      resolve(data?.format?.duration || 0);
+    });
+  });
+}
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  switch (req.method) {
+    case "GET":
+      return handleGet(req, res);
+    case "POST":
+      return handlePost(req, res);
+    default:
+      return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+// GET /api/sfx/library - Get sound effects library
+async function handleGet(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { category, user_id, search, preset_only } = req.query;
+
+    let query = supabaseAdmin
+      .from("sound_effects_library")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    // Apply filters
+    if (category && typeof category === "string") {
+      query = query.eq("category", category);
+    }
+
+    if (preset_only === "true") {
+      query = query.eq("is_preset", true);
+    } else if (user_id && typeof user_id === "string") {
+      // Show user's sound effects + presets
+      query = query.or(`uploaded_by.eq.${user_id},is_preset.eq.true`);
+    }
+
+    if (search && typeof search === "string") {
+      query = query.ilike("name", `%${search}%`);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw error;
+    }
+
+    return res.status(200).json({
+      sfx: data || [],
+      count: data?.length || 0
+    });
+  } catch (err: any) {
+    console.error("Error fetching sound effects library:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
+
+// POST /api/sfx/library - Upload a sound effect to the library
+async function handlePost(req: NextApiRequest, res: NextApiResponse) {
+  try {
+    // Parse the multipart form data
+    const form = formidable({
+      maxFileSize: 10 * 1024 * 1024, // 10MB max - sound effects are short clips
+    });
+
+    const [fields, files] = await form.parse(req);
+
+    const name = fields.name?.[0];
+    const description = fields.description?.[0] || "";
+    const category = getSfxCategory(fields.category?.[0] || "other").id;
+    const notes = fields.notes?.[0] || "";
+    const uploaded_by = fields.uploaded_by?.[0] || "anonymous";
+    const uploadedFile = files.file?.[0];
+
+    if (!name) {
+      return res.status(400).json({ error: "Sound effect name is required" });
+    }
+
+    if (!uploadedFile) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    // Validate file type (audio only)
+    const allowedTypes = ["audio/mpeg", "audio/mp3", "audio/wav", "audio/x-wav", "audio/m4a", "audio/aac", "audio/ogg"];
+    if (!allowedTypes.includes(uploadedFile.mimetype || "")) {
+      return res.status(400).json({ error: "Invalid file type. Only audio files are allowed." });
+    }
+
+    // Get audio duration
+    const duration = await getAudioDuration(uploadedFile.filepath);
+
+    // Read the file
+    const fileBuffer = fs.readFileSync(uploadedFile.filepath);
+    const fileExtension = path.extname(uploadedFile.originalFilename || "sfx.mp3");
+    const fileName = `${Date.now()}-${name.replace(/[^a-z0-9]/gi, '-').toLowerCase()}${fileExtension}`;
+
+    // Upload to Supabase Storage
+    const { error: uploadError } = await supabaseAdmin.storage
+      .from("sound_effects")
+      .upload(fileName, fileBuffer, {
+        contentType: uploadedFile.mimetype || "audio/mpeg",
+        upsert: false,
+      });
+
+    if (uploadError) {
+      console.error("Upload error:", uploadError);
+      return res.status(500).json({ error: uploadError.message });
+    }
+
+    // Get public URL
+    const { data: urlData } = supabaseAdmin.storage
+      .from("sound_effects")
+      .getPublicUrl(fileName);
+
+    // Insert into sound_effects_library table
+    const { data: sfxData, error: dbError } = await supabaseAdmin
+      .from("sound_effects_library")
+      .insert({
+        name,
+        description,
+        file_url: urlData.publicUrl,
+        duration,
+        category,
+        notes,
+        is_preset: false,
+        uploaded_by,
+      })
+      .select()
+      .single();
+
+    if (dbError) {
+      console.error("Database error:", dbError);
+      return res.status(500).json({ error: dbError.message });
+    }
+
+    // Clean up temp file
+    fs.unlinkSync(uploadedFile.filepath);
+
+    return res.status(201).json({
+      success: true,
+      sfx: sfxData,
+      message: "Sound effect uploaded to library successfully",
+    });
+  } catch (err: any) {
+    console.error("Error in upload sound effect to library:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
@@ -0,0 +1,107 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Invalid sound effect ID" });
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGet(id, res);
+    case "DELETE":
+      return handleDelete(id, req, res);
+    default:
+      return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+// GET /api/sfx/library/[id] - Get a specific sound effect
+async function handleGet(id: string, res: NextApiResponse) {
+  try {
+    const { data, error } = await supabaseAdmin
+      .from("sound_effects_library")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (error) {
+      if (error.code === "PGRST116") {
+        return res.status(404).json({ error: "Sound effect not found" });
+      }
+      throw error;
+    }
+
+    return res.status(200).json(data);
+  } catch (err: any) {
+    console.error("Error fetching sound effect:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
+
+// DELETE /api/sfx/library/[id] - Delete a sound effect (only if uploaded by user)
+// Cues already placed on scenes keep working until the file is gone from storage,
+// after which the render skips them.
+async function handleDelete(id: string, req: NextApiRequest, res: NextApiResponse) {
+  try {
+    const { user_id } = req.query;
+
+    if (!user_id || typeof user_id !== "string") {
+      return res.status(400).json({ error: "User ID is required for deletion" });
+    }
+
+    // First check if the sound effect exists and belongs to the user
+    const { data: sfx, error: fetchError } = await supabaseAdmin
+      .from("sound_effects_library")
+      .select("*")
+      .eq("id", id)
+      .single();
+
+    if (fetchError) {
+      if (fetchError.code === "PGRST116") {
+        return res.status(404).json({ error: "Sound effect not found" });
+      }
+      throw fetchError;
+    }
+
+    // Check ownership
+    if (sfx.uploaded_by !== user_id) {
+      return res.status(403).json({ error: "You can only delete your own sound effects" });
+    }
+
+    // Don't allow deleting presets
+    if (sfx.is_preset) {
+      return res.status(403).json({ error: "Cannot delete preset sound effects" });
+    }
+
+    // Delete from storage if it exists
+    if (sfx.file_url) {
+      const fileName = sfx.file_url.split('/').pop();
+      if (fileName) {
+        await supabaseAdmin.storage
+          .from("sound_effects")
+          .remove([fileName]);
+      }
+    }
+
+    // Delete from database
+    const { error: deleteError } = await supabaseAdmin
+      .from("sound_effects_library")
+      .delete()
+      .eq("id", id);
+
+    if (deleteError) {
+      throw deleteError;
+    }
+
+    return res.status(200).json({
+      success: true,
+      message: "Sound effect deleted successfully"
+    });
+  } catch (err: any) {
+    console.error("Error deleting sound effect:", err);
+    return res.status(500).json({ error: err.message });
+  }
+}
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { normalizeMusicMix, validateMusicMix, type MusicMixSettings } from "@/lib/musicMix";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { id: short_id } = req.query;
@@ -50,7 +51,7 @@ async function handleGet(short_id: string, user_id: string, res: NextApiResponse
       throw error;
     }
 
-    const musicSettings = data.music_settings as { enabled?: boolean; music_id?: string; volume?: number } | null;
+    const musicSettings = data.music_settings as { enabled?: boolean; music_id?: string; volume?: number; mix?: Partial<MusicMixSettings> } | null;
 
     // If music_id exists, fetch the music details
     let music = null;
@@ -68,6 +69,7 @@ async function handleGet(short_id: string, user_id: string, res: NextApiResponse
       enabled: musicSettings?.enabled || false,
       music_id: musicSettings?.music_id || null,
       volume: musicSettings?.volume ?? 30,
+      mix: normalizeMusicMix(musicSettings?.mix),
       music: music
     });
   } catch (err: any) {
@@ -79,7 +81,7 @@ async function handleGet(short_id: string, user_id: string, res: NextApiResponse
 // PUT /api/shorts/[id]/music - Update music settings
 async function handlePut(short_id: string, user_id: string, req: NextApiRequest, res: NextApiResponse) {
   try {
-    const { enabled, music_id, volume } = req.body;
+    const { enabled, music_id, volume, mix } = req.body;
 
     // Validate inputs
     if (enabled !== undefined && typeof enabled !== "boolean") {
@@ -90,6 +92,11 @@ async function handlePut(short_id: string, user_id: string, req: NextApiRequest,
       return res.status(400).json({ error: "Invalid: volume must be 0-100" });
     }
 
+    const mixError = mix !== undefined ? validateMusicMix(mix) : null;
+    if (mixError) {
+      return res.status(400).json({ error: `Invalid: ${mixError}` });
+    }
+
     // Get current settings
     const { data: currentData, error: fetchError } = await supabaseAdmin
       .from("shorts")
@@ -111,6 +118,7 @@ async function handlePut(short_id: string, user_id: string, req: NextApiRequest,
       enabled: enabled !== undefined ? enabled : (currentSettings.enabled || false),
       music_id: music_id !== undefined ? music_id : (currentSettings.music_id || null),
       volume: volume !== undefined ? volume : (currentSettings.volume ?? 30),
+      mix: normalizeMusicMix(mix !== undefined ? mix : currentSettings.mix),
     };
 
     // Update
@@ -146,6 +154,7 @@ async function handlePut(short_id: string, user_id: string, req: NextApiRequest,
       enabled: newSettings.enabled,
       music_id: newSettings.music_id,
       volume: newSettings.volume,
+      mix: newSettings.mix,
       music: music
     });
   } catch (err: any) {
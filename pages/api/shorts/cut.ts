@@ -7,6 +7,13 @@ import ffmpeg from "fluent-ffmpeg";
 import { getUserLogger } from "../../../lib/userLogger";
 import fetch from "node-fetch";
 import { spawn } from "child_process";
+import { normalizeMusicMix, buildMusicMixFilters, type MusicMixSettings } from "../../../lib/musicMix";
+import { detectSpeechWindows } from "../../../lib/musicMixAudio";
+import { applyBrandCaptionDefaults } from "../../../lib/brandKit";
+import { loadBrandKit, downloadBrandAssets, burnWatermark, addIntroOutro, getVideoSize } from "../../../lib/brandKitRender";
+import { getAspectRatioConfig } from "../../../lib/aspectRatios";
+import { createProgressReporter } from "../../../lib/jobEvents";
+import { parseFFmpegTime } from "../../../lib/jobProgress";
 
 export const config = { api: { bodyParser: { sizeLimit: "4mb" } } };
 
@@ -64,7 +71,8 @@ async function cutVideoSegment(
   inputPath: string,
   outputPath: string,
   start: number,
-  end: number
+  end: number,
+  onProgress?: (seconds: number) => void
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     ffmpeg(inputPath)
@@ -78,6 +86,10 @@ async function cutVideoSegment(
         '-crf', '23',
         '-movflags', '+faststart',
       ])
+      .on('progress', (p: any) => {
+        const seconds = parseFFmpegTime(p.timemark);
+        if (seconds !== null) onProgress?.(seconds);
+      })
       .on('end', () => resolve())
       .on('error', (err) => reject(err))
       .run();
@@ -189,7 +201,8 @@ Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
 async function burnCaptions(
   inputPath: string,
   outputPath: string,
-  assPath: string
+  assPath: string,
+  onProgress?: (seconds: number) => void
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     // Escape the path for FFmpeg filter
@@ -204,32 +217,32 @@ async function burnCaptions(
         '-movflags', '+faststart',
       ])
       .output(outputPath)
+      .on('progress', (p: any) => {
+        const seconds = parseFFmpegTime(p.timemark);
+        if (seconds !== null) onProgress?.(seconds);
+      })
       .on('end', () => resolve())
       .on('error', (err) => reject(err))
       .run();
   });
 }
 
-// Mix background music into video
+// Mix background music into video, ducked under the clip's own speech
 async function mixBackgroundMusic(
   inputPath: string,
   outputPath: string,
   musicPath: string,
   volume: number, // 0-100
-  duration: number
+  duration: number,
+  mix: MusicMixSettings
 ): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const musicVolume = volume / 100; // Convert percentage to 0-1 scale
+  const speech = mix.duck_enabled && mix.duck_depth > 0 ? await detectSpeechWindows(inputPath, duration) : [];
 
+  return new Promise((resolve, reject) => {
     ffmpeg()
       .input(inputPath)
       .input(musicPath)
-      .complexFilter([
-        // Loop background music to match video duration
-        `[1:a]aloop=loop=-1:size=2e+09,volume=${musicVolume}[bg]`,
-        // Mix original audio with background music
-        `[0:a][bg]amix=inputs=2:duration=first:dropout_transition=2:normalize=0[mixed]`
-      ])
+      .complexFilter(buildMusicMixFilters('0:a', '1:a', 'mixed', volume, duration, mix, speech))
       .outputOptions([
         '-map', '0:v',
         '-map', '[mixed]',
@@ -251,7 +264,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  const { short_id } = req.body;
+  const { short_id, progress_id } = req.body;
 
   if (!short_id) {
     return res.status(400).json({ error: 'short_id is required' });
@@ -259,6 +272,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
   let logger: ReturnType<typeof getUserLogger> | null = null;
   let tempDir = '';
+  // Live progress for /api/job_progress?progress_id=...&type=short
+  const progress = createProgressReporter(progress_id, 'short');
 
   try {
     // Auth check
@@ -321,15 +336,20 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     if (parentVideo.youtube_url) {
       // YouTube video - download segment directly with yt-dlp
       logger.info(`📥 Downloading YouTube segment...`);
+      progress.update(10, { stage: 'downloading' });
       await downloadYouTubeSegment(parentVideo.youtube_url, rawVideoPath, start, end);
     } else if (parentVideo.video_url) {
       // Uploaded video - download full and cut with FFmpeg
       logger.info(`📥 Downloading uploaded video...`);
+      progress.update(10, { stage: 'downloading' });
       const inputPath = path.join(tempDir, 'input.mp4');
       await downloadVideo(parentVideo.video_url, inputPath);
 
       logger.info(`✂️ Cutting video segment...`);
-      await cutVideoSegment(inputPath, rawVideoPath, start, end);
+      progress.update(25, { stage: 'cutting' });
+      await cutVideoSegment(inputPath, rawVideoPath, start, end, (time) => {
+        progress.update(25 + 25 * Math.min(1, time / duration), { stage: 'cutting', ffmpeg: { time, duration } });
+      });
 
       // Cleanup input file
       if (fs.existsSync(inputPath)) fs.unlinkSync(inputPath);
@@ -340,8 +360,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       throw new Error('Failed to generate short video');
     }
 
-    // Check if captions should be burned in
-    const captionSettings = short.caption_settings as any;
+    // Brand kit - shorts are cut from the user's own footage and never carry the AiVideoGen.cc mark
+    const loadedBrand = await loadBrandKit(user.id);
+    const brand = { ...loadedBrand, watermarks: { ...loadedBrand.watermarks, platform: false } };
+
+    // Check if captions should be burned in (the brand's caption style fills in unset fields)
+    const captionSettings = applyBrandCaptionDefaults(short.caption_settings as any, brand.kit);
     const rawWordTimestamps = short.word_timestamps as Array<{ word: string; start: number; end: number }> | null;
 
     // Filter timestamps to current short range and make relative to clip start (0)
@@ -377,7 +401,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
       // Burn captions into video
       const captionedVideoPath = path.join(tempDir, `captioned_${short_id}.mp4`);
-      await burnCaptions(rawVideoPath, captionedVideoPath, assPath);
+      progress.update(50, { stage: 'captions' });
+      await burnCaptions(rawVideoPath, captionedVideoPath, assPath, (time) => {
+        progress.update(50 + 20 * Math.min(1, time / duration), { stage: 'captions', ffmpeg: { time, duration } });
+      });
       videoAfterCaptions = captionedVideoPath;
 
       // Cleanup
@@ -389,10 +416,11 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // Check if background music should be mixed in
-    const musicSettings = short.music_settings as { enabled?: boolean; music_id?: string; volume?: number } | null;
+    const musicSettings = short.music_settings as { enabled?: boolean; music_id?: string; volume?: number; mix?: Partial<MusicMixSettings> } | null;
 
     if (musicSettings?.enabled && musicSettings?.music_id && (musicSettings.volume ?? 30) > 0) {
       logger.info(`🎵 Adding background music (${musicSettings.volume ?? 30}% volume)...`);
+      progress.update(70, { stage: 'music' });
 
       // Get music URL from library
       const { data: musicData, error: musicError } = await supabaseAdmin
@@ -414,7 +442,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         await downloadVideo(musicData.file_url, musicPath);
 
         // Mix music into video
-        await mixBackgroundMusic(videoAfterCaptions, outputPath, musicPath, musicSettings.volume ?? 30, duration);
+        await mixBackgroundMusic(videoAfterCaptions, outputPath, musicPath, musicSettings.volume ?? 30, duration, normalizeMusicMix(musicSettings.mix));
 
         // Cleanup
         if (fs.existsSync(musicPath)) fs.unlinkSync(musicPath);
@@ -436,6 +464,31 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       throw new Error('Failed to generate final video');
     }
 
+    // Apply the brand watermark and intro/outro
+    progress.update(75, { stage: 'branding' });
+    const brandAssets = await downloadBrandAssets(brand, tempDir, {}, logger);
+    if (brand.watermarks.brand || brandAssets.introPath || brandAssets.outroPath) {
+      const { width, height } = await getVideoSize(outputPath);
+
+      if (brand.watermarks.brand && width > 0) {
+        logger.info(`🏷️ Adding brand ${brand.watermarks.brand.type} watermark...`);
+        const config = getAspectRatioConfig(width >= height ? '16:9' : '9:16');
+        const watermarkedPath = path.join(tempDir, `branded_${short_id}.mp4`);
+        await burnWatermark(outputPath, watermarkedPath, brand, brandAssets, {
+          width,
+          fontScale: Math.min(width, height) / Math.min(config.preview.width, config.preview.height),
+          motion: config.watermarkMotion,
+        });
+        fs.renameSync(watermarkedPath, outputPath);
+      }
+
+      if ((brandAssets.introPath || brandAssets.outroPath) && width > 0) {
+        const withClipsPath = path.join(tempDir, `intro_outro_${short_id}.mp4`);
+        await addIntroOutro(outputPath, withClipsPath, brandAssets, { width, height }, logger);
+        fs.renameSync(withClipsPath, outputPath);
+      }
+    }
+
     const fileStats = fs.statSync(outputPath);
     logger.info(`✅ Short generated: ${(fileStats.size / 1024 / 1024).toFixed(2)} MB`);
 
@@ -455,6 +508,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // Upload to Supabase Storage
+    progress.update(90, { stage: 'uploading' });
     const fileName = `${user.id}/short-${short_id}-${Date.now()}.mp4`;
     const fileBuffer = fs.readFileSync(outputPath);
 
@@ -509,6 +563,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     });
 
     logger.info(`✅ Short cut complete!`);
+    progress.complete({ short_id, video_url: publicUrl, duration });
 
     res.status(200).json({
       success: true,
@@ -522,6 +577,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       logger.error(`❌ Error cutting short: ${err.message}`);
     }
     console.error(`❌ Error cutting short: ${err.message}`);
+    progress.fail(err.message || 'Failed to cut short');
 
     // Cleanup temp files on error
     try {
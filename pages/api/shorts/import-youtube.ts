@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../../lib/supabaseAdmin";
 import { spawn } from "child_process";
 import { getUserLogger } from "../../../lib/userLogger";
+import { getClosestAspectRatio } from "../../../lib/aspectRatios";
 import fs from "fs";
 
 export const config = { api: { bodyParser: { sizeLimit: "4mb" } } };
@@ -58,16 +59,8 @@ async function getYouTubeMetadata(url: string): Promise<{ title: string; duratio
         const width = parseFloat(lines[2]) || 1920;
         const height = parseFloat(lines[3]) || 1080;
 
-        // Determine aspect ratio category
-        const ratio = width / height;
-        let aspectRatio = '16:9'; // default
-        if (ratio < 0.7) {
-          aspectRatio = '9:16'; // Portrait (vertical)
-        } else if (ratio > 1.4) {
-          aspectRatio = '16:9'; // Landscape (horizontal)
-        } else {
-          aspectRatio = '1:1'; // Square-ish
-        }
+        // Closest supported format (9:16, 4:5, 1:1, 4:3, 16:9, 21:9)
+        const aspectRatio = getClosestAspectRatio(width, height);
 
         console.log(`✅ Metadata: "${title}", ${duration}s, ${width}x${height} (${aspectRatio})`);
         resolve({ title, duration, aspectRatio });
@@ -1,5 +1,6 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { normalizeMusicMix, validateMusicMix, DEFAULT_MUSIC_MIX } from "@/lib/musicMix";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   const { id: story_id } = req.query;
@@ -25,7 +26,7 @@ async function handleGet(story_id: string, res: NextApiResponse) {
   try {
     const { data, error } = await supabaseAdmin
       .from("stories")
-      .select("background_music_id, background_music_volume, background_music_enabled")
+      .select("background_music_id, background_music_volume, background_music_enabled, background_music_mix")
       .eq("id", story_id)
       .single();
 
@@ -52,6 +53,7 @@ async function handleGet(story_id: string, res: NextApiResponse) {
       music_id: data.background_music_id,
       volume: data.background_music_volume || 30,
       enabled: data.background_music_enabled || false,
+      mix: normalizeMusicMix(data.background_music_mix),
       music: music
     });
   } catch (err: any) {
@@ -63,7 +65,7 @@ async function handleGet(story_id: string, res: NextApiResponse) {
 // PUT /api/story/[id]/background_music - Update background music settings
 async function handlePut(story_id: string, req: NextApiRequest, res: NextApiResponse) {
   try {
-    const { music_id, volume, enabled } = req.body;
+    const { music_id, volume, enabled, mix } = req.body;
 
     // Validate inputs
     if (enabled !== undefined && typeof enabled !== "boolean") {
@@ -74,6 +76,11 @@ async function handlePut(story_id: string, req: NextApiRequest, res: NextApiResp
       return res.status(400).json({ error: "Invalid: volume must be 0-100" });
     }
 
+    const mixError = mix !== undefined ? validateMusicMix(mix) : null;
+    if (mixError) {
+      return res.status(400).json({ error: `Invalid: ${mixError}` });
+    }
+
     // Build update object
     const updateData: any = {
       updated_at: new Date().toISOString(),
@@ -91,11 +98,15 @@ async function handlePut(story_id: string, req: NextApiRequest, res: NextApiResp
       updateData.background_music_enabled = enabled;
     }
 
+    if (mix !== undefined) {
+      updateData.background_music_mix = normalizeMusicMix(mix);
+    }
+
     const { data, error } = await supabaseAdmin
       .from("stories")
       .update(updateData)
       .eq("id", story_id)
-      .select("background_music_id, background_music_volume, background_music_enabled")
+      .select("background_music_id, background_music_volume, background_music_enabled, background_music_mix")
       .single();
 
     if (error) {
@@ -110,6 +121,7 @@ async function handlePut(story_id: string, req: NextApiRequest, res: NextApiResp
       music_id: data.background_music_id,
       volume: data.background_music_volume,
       enabled: data.background_music_enabled,
+      mix: normalizeMusicMix(data.background_music_mix),
     });
   } catch (err: any) {
     console.error("Error updating background music settings:", err);
@@ -126,6 +138,7 @@ async function handleDelete(story_id: string, res: NextApiResponse) {
         background_music_id: null,
         background_music_volume: 30,
         background_music_enabled: false,
+        background_music_mix: DEFAULT_MUSIC_MIX,
         updated_at: new Date().toISOString(),
       })
       .eq("id", story_id);
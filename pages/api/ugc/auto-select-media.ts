@@ -3,6 +3,7 @@ import { supabaseAdmin } from "../../../lib/supabaseAdmin";
 import { getUserLogger } from "../../../lib/userLogger";
 import { deductCredits } from "../../../lib/credits";
 import { extractKeywords } from "../../../lib/ugcPresets";
+import { getAspectRatioConfig } from "../../../lib/aspectRatios";
 
 const PIXABAY_API_KEY = process.env.PIXABAY_API_KEY;
 const PIXABAY_VIDEO_URL = "https://pixabay.com/api/videos/";
@@ -45,7 +46,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     // 🔒 Verify ownership and get clips
     const { data: ugcVideo, error: videoError } = await supabaseAdmin
       .from('ugc_videos')
-      .select('id, user_id, title')
+      .select('id, user_id, title, aspect_ratio')
       .eq('id', ugc_video_id)
       .single();
 
@@ -92,6 +93,10 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const updatedClips = [];
     const isVideo = media_source === 'stock_video';
 
+    // Match stock footage orientation to the output format (it is cover-cropped at render)
+    const [ratioW, ratioH] = getAspectRatioConfig(ugcVideo.aspect_ratio).id.split(':').map(Number);
+    const orientation = ratioW > ratioH ? 'horizontal' : ratioW < ratioH ? 'vertical' : 'all';
+
     for (const clip of clips) {
       // Extract keywords from clip text
       const keywords = extractKeywords(clip.text, 3);
@@ -103,7 +108,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         // Search Pixabay
         const searchUrl = isVideo ? PIXABAY_VIDEO_URL : PIXABAY_IMAGE_URL;
         const response = await fetch(
-          `${searchUrl}?key=${PIXABAY_API_KEY}&q=${encodeURIComponent(query)}&per_page=3&orientation=vertical`
+          `${searchUrl}?key=${PIXABAY_API_KEY}&q=${encodeURIComponent(query)}&per_page=3&orientation=${orientation}`
         );
 
         if (!response.ok) {
@@ -116,12 +121,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         let mediaUrl = null;
 
         if (isVideo && data.hits && data.hits.length > 0) {
-          // Get the highest quality portrait video
+          // Get the highest quality video
           const video = data.hits[0];
           // Pixabay returns videos object with different sizes
           mediaUrl = video.videos?.large?.url || video.videos?.medium?.url || video.videos?.small?.url;
         } else if (!isVideo && data.hits && data.hits.length > 0) {
-          // Get large portrait photo
+          // Get large photo
           mediaUrl = data.hits[0].largeImageURL || data.hits[0].webformatURL;
         }
 
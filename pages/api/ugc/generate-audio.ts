@@ -1,27 +1,11 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import fs from "fs";
 import path from "path";
-import fetch from "node-fetch";
 import ffmpeg from "fluent-ffmpeg";
 import { supabaseAdmin } from "../../../lib/supabaseAdmin";
 import { getUserLogger } from "../../../lib/userLogger";
 import { deductCredits } from "../../../lib/credits";
-
-const OPENAI_TTS_API = "https://api.openai.com/v1/audio/speech";
-
-// Voice mapping (same as existing generate_audio.ts)
-const VOICE_MAPPING: { [key: string]: string } = {
-  "alloy": "alloy",
-  "echo": "echo",
-  "fable": "fable",
-  "onyx": "onyx",
-  "nova": "nova",
-  "shimmer": "shimmer",
-  "ash": "ash",
-  "coral": "coral",
-  "sage": "sage",
-  "default": "alloy"
-};
+import { resolveVoice, synthesizeSpeech } from "../../../lib/ttsProviders";
 
 function ffprobeAsync(filePath: string): Promise<ffmpeg.FfprobeData> {
   return new Promise((resolve, reject) => {
@@ -108,11 +92,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     }
 
     // 🎙️ Generate audio for all clips
-    const voiceToUse = voice_id || ugcVideo.voice_id || 'nova';
-    const openaiVoice = VOICE_MAPPING[voiceToUse] || 'nova';
-    const audioModel = process.env.AUDIO_MODEL || "tts-1-hd";
+    const resolvedVoice = resolveVoice(voice_id || ugcVideo.voice_id, 'nova');
+
+    if (!resolvedVoice.provider.isConfigured()) {
+      return res.status(400).json({ error: `${resolvedVoice.provider.name} text-to-speech is not configured on this server` });
+    }
 
-    logger.info(`Using voice: ${openaiVoice} (model: ${audioModel})`);
+    logger.info(`Using voice: ${resolvedVoice.voice} (${resolvedVoice.provider.name})`);
 
     const tempDir = path.join(process.cwd(), "tmp", ugc_video_id);
     fs.mkdirSync(tempDir, { recursive: true });
@@ -125,29 +111,14 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
 
         // Generate TTS with casual, conversational style
         // Slightly slower speed (0.95) for more natural UGC feel
-        const ttsRes = await fetch(OPENAI_TTS_API, {
-          method: "POST",
-          headers: {
-            "Authorization": `Bearer ${process.env.OPENAI_API_KEY!}`,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            model: audioModel,
-            input: clip.text,
-            voice: openaiVoice,
-            response_format: "mp3",
-            speed: 0.95 // Slightly slower for casual UGC feel
-          }),
-        });
-
-        if (!ttsRes.ok) {
-          const errorText = await ttsRes.text();
-          logger.error(`TTS error for clip ${clip.order_index}: ${errorText}`);
+        let audioBuffer: Buffer;
+        try {
+          ({ audio: audioBuffer } = await synthesizeSpeech(resolvedVoice.voiceId, clip.text, { speed: 0.95 }));
+        } catch (ttsErr: any) {
+          logger.error(`TTS error for clip ${clip.order_index}: ${ttsErr.message}`);
           continue;
         }
 
-        const audioBuffer = Buffer.from(await ttsRes.arrayBuffer());
-
         // Save locally
         const audioPath = path.join(tempDir, `clip-${clip.order_index}.mp3`);
         fs.writeFileSync(audioPath, audioBuffer);
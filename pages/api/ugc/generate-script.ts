@@ -7,6 +7,8 @@ import { checkRateLimit, RateLimits } from "../../../lib/rateLimit";
 import { deductCredits } from "../../../lib/credits";
 import { getViralScriptPrompt, splitIntoScenes, generateTitle } from "../../../lib/viralScriptPrompt";
 import { UGC_DEFAULTS } from "../../../lib/ugcPresets";
+import { isAspectRatio } from "../../../lib/aspectRatios";
+import { loadBrandKit } from "../../../lib/brandKitRender";
 
 const OPENROUTER_API = "https://openrouter.ai/api/v1/chat/completions";
 
@@ -15,12 +17,16 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { input_text } = req.body;
+  const { input_text, aspect_ratio = UGC_DEFAULTS.aspect_ratio } = req.body;
 
   if (!input_text || input_text.trim().length === 0) {
     return res.status(400).json({ error: "input_text is required" });
   }
 
+  if (!isAspectRatio(aspect_ratio)) {
+    return res.status(400).json({ error: `Invalid aspect_ratio: ${aspect_ratio}` });
+  }
+
   let logger: any = null;
 
   try {
@@ -146,6 +152,9 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     const totalDuration = scenes.reduce((sum, s) => sum + s.duration, 0);
     logger.info(`Split into ${scenes.length} scenes, total duration: ${totalDuration.toFixed(1)}s`);
 
+    // 🏷️ The user's brand caption style replaces the UGC caption look
+    const { kit: brandKit } = await loadBrandKit(user.id);
+
     // 💾 Create UGC video record
     const ugcVideoId = uuidv4();
     const { error: videoError } = await supabaseAdmin
@@ -157,8 +166,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         input_text,
         script_text: scriptText,
         voice_id: UGC_DEFAULTS.voice_id,
-        aspect_ratio: UGC_DEFAULTS.aspect_ratio,
-        caption_settings: UGC_DEFAULTS.caption_settings,
+        aspect_ratio,
+        caption_settings: { ...UGC_DEFAULTS.caption_settings, ...brandKit.caption_style },
         duration: totalDuration,
         status: 'draft'
       });
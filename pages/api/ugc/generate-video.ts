@@ -2,6 +2,7 @@ import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../../lib/supabaseAdmin";
 import { getUserLogger } from "../../../lib/userLogger";
 import { UGC_DEFAULTS } from "../../../lib/ugcPresets";
+import { normalizeMusicMix } from "../../../lib/musicMix";
 
 /**
  * UGC Video Generation Endpoint
@@ -107,7 +108,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         caption_settings: ugcVideo.caption_settings,
         background_music_enabled: ugcVideo.background_music_enabled,
         background_music_id: ugcVideo.background_music_id,
-        background_music_volume: ugcVideo.background_music_volume
+        background_music_volume: ugcVideo.background_music_volume,
+        background_music_mix: ugcVideo.background_music_mix
       }, {
         onConflict: 'id'
       });
@@ -161,6 +163,27 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       throw new Error('Unable to determine host for API call');
     }
 
+    // Background music is passed to the render explicitly, like the story editor does
+    let backgroundMusic: any = { enabled: false };
+    if (ugcVideo.background_music_enabled && ugcVideo.background_music_id) {
+      const { data: musicData } = await supabaseAdmin
+        .from('background_music_library')
+        .select('file_url')
+        .eq('id', ugcVideo.background_music_id)
+        .single();
+
+      if (musicData?.file_url) {
+        backgroundMusic = {
+          enabled: true,
+          music_url: musicData.file_url,
+          volume: ugcVideo.background_music_volume ?? UGC_DEFAULTS.background_music_volume,
+          mix: normalizeMusicMix(ugcVideo.background_music_mix ?? UGC_DEFAULTS.background_music_mix)
+        };
+      } else {
+        logger.warn(`Background music ${ugcVideo.background_music_id} not found, rendering without music`);
+      }
+    }
+
     const apiUrl = `${protocol}://${host}/api/generate_video`;
     logger.info(`Calling video generation API: ${apiUrl}`);
 
@@ -173,7 +196,8 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       body: JSON.stringify({
         story_id: tempStoryId,
         aspect_ratio: ugcVideo.aspect_ratio,
-        caption_settings: ugcVideo.caption_settings
+        caption_settings: ugcVideo.caption_settings,
+        background_music: backgroundMusic
       })
     });
 
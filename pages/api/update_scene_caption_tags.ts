@@ -0,0 +1,77 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { applyCaptionTags } from "../../lib/captionEmphasis";
+
+/**
+ * POST /api/update_scene_caption_tags - Save per-word emphasis/emoji edits.
+ * Body: { scene_id, tags: [{ emphasis?, emoji? } | null, ...] } indexed like
+ * the scene's word_timestamps; null entries leave a word unchanged.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { scene_id, tags } = req.body;
+
+  if (!scene_id) {
+    return res.status(400).json({ error: "scene_id is required" });
+  }
+
+  if (!Array.isArray(tags)) {
+    return res.status(400).json({ error: "tags must be an array, one entry per word" });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  try {
+    const { data: scene, error: sceneError } = await supabaseAdmin
+      .from("scenes")
+      .select("id, story_id, word_timestamps")
+      .eq("id", scene_id)
+      .single();
+
+    if (sceneError || !scene) {
+      return res.status(404).json({ error: "Scene not found" });
+    }
+
+    const { data: story } = await supabaseAdmin
+      .from("stories")
+      .select("user_id")
+      .eq("id", scene.story_id)
+      .single();
+
+    if (story?.user_id !== user.id) {
+      return res.status(403).json({ error: "Forbidden - You don't own this story" });
+    }
+
+    const words = Array.isArray(scene.word_timestamps) ? scene.word_timestamps : [];
+    if (tags.length !== words.length) {
+      return res.status(409).json({ error: "The scene's captions changed - reload and try again" });
+    }
+
+    const tagged = applyCaptionTags(words, tags);
+
+    const { error } = await supabaseAdmin
+      .from("scenes")
+      .update({ word_timestamps: tagged })
+      .eq("id", scene_id);
+
+    if (error) throw error;
+
+    res.status(200).json({ success: true, scene_id, word_timestamps: tagged });
+  } catch (err: any) {
+    console.error("Error updating caption tags:", err);
+    res.status(500).json({ error: err.message || "Failed to update caption tags" });
+  }
+}
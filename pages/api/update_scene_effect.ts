@@ -1,5 +1,12 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import {
+  VIDEO_TRANSITIONS,
+  MIN_TRANSITION_DURATION,
+  MAX_TRANSITION_DURATION,
+} from "../../lib/videoTransitions";
+import { normalizeMotionPath, MAX_KEYFRAMES } from "../../lib/motionPath";
+import { normalizeSceneOverlays, MAX_OVERLAYS_PER_SCENE } from "../../lib/overlayBlend";
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,7 +16,7 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
-  const { scene_id, effect_id, overlay_id, overlay_url } = req.body;
+  const { scene_id, effect_id, motion_path, overlay_id, overlay_url, overlays, transition, transition_duration } = req.body;
 
   if (!scene_id) {
     return res.status(400).json({ error: "scene_id is required" });
@@ -32,8 +39,37 @@ export default async function handler(
       updatedEffects.motion = effect_id;
     }
 
-    // Update overlay if provided
-    if (overlay_id !== undefined) {
+    // Custom motion keyframes (kept when switching to a preset so they can be restored)
+    if (motion_path !== undefined) {
+      const normalizedPath = normalizeMotionPath(motion_path);
+      if (!normalizedPath) {
+        return res.status(400).json({
+          error: `motion_path needs 2-${MAX_KEYFRAMES} keyframes with time and rect { x, y, width, height }`,
+        });
+      }
+      updatedEffects.motion_path = normalizedPath;
+    }
+
+    if (updatedEffects.motion === "custom" && !updatedEffects.motion_path) {
+      return res.status(400).json({ error: "motion_path is required for the custom effect" });
+    }
+
+    // Update overlay stack if provided (null or [] removes all overlays)
+    if (overlays !== undefined) {
+      const normalizedOverlays = normalizeSceneOverlays(overlays);
+      if (!normalizedOverlays) {
+        return res.status(400).json({ error: `overlays must be an array of up to ${MAX_OVERLAYS_PER_SCENE} overlays` });
+      }
+      delete updatedEffects.overlay_id;
+      delete updatedEffects.overlay_url;
+      if (normalizedOverlays.length > 0) {
+        updatedEffects.overlays = normalizedOverlays;
+      } else {
+        delete updatedEffects.overlays;
+      }
+    } else if (overlay_id !== undefined) {
+      // Single overlay (older clients) - replaces the stack
+      delete updatedEffects.overlays;
       if (overlay_id === null) {
         delete updatedEffects.overlay_id;
         delete updatedEffects.overlay_url;
@@ -45,6 +81,29 @@ export default async function handler(
       }
     }
 
+    // Update transition into the next scene if provided
+    if (transition !== undefined) {
+      if (transition === null || transition === "none") {
+        delete updatedEffects.transition;
+        delete updatedEffects.transition_duration;
+      } else {
+        if (!Object.prototype.hasOwnProperty.call(VIDEO_TRANSITIONS, transition)) {
+          return res.status(400).json({ error: `Unknown transition: ${transition}` });
+        }
+        updatedEffects.transition = transition;
+      }
+    }
+
+    if (transition_duration !== undefined && updatedEffects.transition) {
+      const seconds = Number(transition_duration);
+      if (!Number.isFinite(seconds) || seconds < MIN_TRANSITION_DURATION || seconds > MAX_TRANSITION_DURATION) {
+        return res.status(400).json({
+          error: `transition_duration must be between ${MIN_TRANSITION_DURATION} and ${MAX_TRANSITION_DURATION} seconds`,
+        });
+      }
+      updatedEffects.transition_duration = seconds;
+    }
+
     // Update the scene's effects
     const { error } = await supabaseAdmin
       .from("scenes")
@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { normalizeProsody } from "../../lib/prosody";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { scene_id, prosody } = req.body;
+
+  if (!scene_id) {
+    return res.status(400).json({ error: "scene_id is required" });
+  }
+
+  // null resets the scene to default delivery
+  const normalizedProsody = prosody === null ? null : normalizeProsody(prosody);
+  if (prosody !== null && !normalizedProsody) {
+    return res.status(400).json({ error: "prosody must be an object with speed, pitch, emphasis, pauses and pronunciations" });
+  }
+
+  try {
+    const { error } = await supabaseAdmin
+      .from("scenes")
+      .update({ prosody: normalizedProsody })
+      .eq("id", scene_id);
+
+    if (error) throw error;
+
+    res.status(200).json({ success: true, scene_id, prosody: normalizedProsody });
+  } catch (err: any) {
+    console.error("Error updating scene prosody:", err);
+    res.status(500).json({ error: err.message || "Failed to update prosody" });
+  }
+}
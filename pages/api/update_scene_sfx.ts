@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { normalizeSfxCues } from "../../lib/sfx";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { scene_id, sfx_cues } = req.body;
+
+  if (!scene_id) {
+    return res.status(400).json({ error: "scene_id is required" });
+  }
+
+  // null or [] clears the scene's cues
+  const normalizedCues = normalizeSfxCues(sfx_cues);
+  if (!normalizedCues) {
+    return res.status(400).json({ error: "sfx_cues must be an array of cues" });
+  }
+
+  try {
+    const { error } = await supabaseAdmin
+      .from("scenes")
+      .update({ sfx_cues: normalizedCues })
+      .eq("id", scene_id);
+
+    if (error) throw error;
+
+    res.status(200).json({ success: true, scene_id, sfx_cues: normalizedCues });
+  } catch (err: any) {
+    console.error("Error updating scene sound effects:", err);
+    res.status(500).json({ error: err.message || "Failed to update sound effects" });
+  }
+}
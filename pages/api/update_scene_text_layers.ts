@@ -0,0 +1,38 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { normalizeTextLayers } from "../../lib/textLayers";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { scene_id, text_layers } = req.body;
+
+  if (!scene_id) {
+    return res.status(400).json({ error: "scene_id is required" });
+  }
+
+  // null or [] clears the scene's text layers
+  const normalizedLayers = normalizeTextLayers(text_layers);
+  if (!normalizedLayers) {
+    return res.status(400).json({ error: "text_layers must be an array of text layers" });
+  }
+
+  try {
+    const { error } = await supabaseAdmin
+      .from("scenes")
+      .update({ text_layers: normalizedLayers })
+      .eq("id", scene_id);
+
+    if (error) throw error;
+
+    res.status(200).json({ success: true, scene_id, text_layers: normalizedLayers });
+  } catch (err: any) {
+    console.error("Error updating scene text layers:", err);
+    res.status(500).json({ error: err.message || "Failed to update text layers" });
+  }
+}
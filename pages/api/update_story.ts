@@ -1,5 +1,7 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { isAspectRatio } from "../../lib/aspectRatios";
+import { normalizeCharacterVoices } from "../../lib/dialogue";
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== "POST") {
@@ -16,6 +18,18 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(400).json({ error: "At least one field to update is required" });
   }
 
+  if (updateFields.aspect_ratio !== undefined && !isAspectRatio(updateFields.aspect_ratio)) {
+    return res.status(400).json({ error: `Invalid aspect_ratio: ${updateFields.aspect_ratio}` });
+  }
+
+  if (updateFields.character_voices !== undefined) {
+    const characterVoices = normalizeCharacterVoices(updateFields.character_voices);
+    if (!characterVoices) {
+      return res.status(400).json({ error: "character_voices must be an object of character name to voice_id" });
+    }
+    updateFields.character_voices = characterVoices;
+  }
+
   try {
     // Update story with provided fields and set updated_at timestamp
     const { error: updateErr } = await supabaseAdmin
@@ -27,12 +27,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       job = result.data;
       error = result.error;
     } else if (story_id && typeof story_id === "string") {
-      // Query by story_id - get latest processing job
+      // Query by story_id - get latest queued or processing render (exports are followed by job_id)
       const result = await supabaseAdmin
         .from("video_generation_jobs")
         .select("*")
         .eq("story_id", story_id)
-        .eq("status", "processing")
+        .eq("job_type", "video")
+        .in("status", ["queued", "processing"])
         .order("started_at", { ascending: false })
         .limit(1)
         .maybeSingle();
@@ -0,0 +1,142 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { supabaseAdmin } from "../../lib/supabaseAdmin";
+import { loadWordTimingTarget, getWaveformPeaks } from "../../lib/wordTimingAudio";
+import {
+  WORD_TIMING_SOURCES,
+  DEFAULT_WAVEFORM_POINTS,
+  MAX_WAVEFORM_POINTS,
+  isWordTimingSource,
+  getWordTimingSource,
+  validateWordTimings,
+  cleanTimedWord,
+  normalizeWordTimings,
+  spliceWordTimings,
+  type WordTimingSource,
+} from "../../lib/wordTiming";
+
+const TABLES: Record<WordTimingSource, string> = {
+  scene: "scenes",
+  short: "shorts",
+  ugc_clip: "ugc_clips",
+};
+
+/**
+ * Caption word timings for the timing editor.
+ *
+ * GET /api/word_timestamps?source=scene|short|ugc_clip&id=...&points=1000
+ *   Words (relative to the short's window for shorts), the audio URL and
+ *   window, and waveform peaks (null when there is no audio to read).
+ * PUT /api/word_timestamps - Body: { source, id, word_timestamps }
+ *   Saves corrected words. The narration audio is left as it is.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  const { source, id } = req.method === "GET" ? req.query : req.body;
+
+  if (!isWordTimingSource(source)) {
+    return res.status(400).json({ error: `source must be one of: ${Object.keys(WORD_TIMING_SOURCES).join(", ")}` });
+  }
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "id is required" });
+  }
+
+  const authHeader = req.headers.authorization;
+  if (!authHeader) {
+    return res.status(401).json({ error: "Unauthorized - Please log in" });
+  }
+
+  const token = authHeader.replace("Bearer ", "");
+  const { data: { user }, error: authError } = await supabaseAdmin.auth.getUser(token);
+
+  if (authError || !user) {
+    return res.status(401).json({ error: "Unauthorized - Invalid session" });
+  }
+
+  switch (req.method) {
+    case "GET":
+      return handleGet(source, id, user.id, req, res);
+    case "PUT":
+      return handlePut(source, id, user.id, req, res);
+    default:
+      return res.status(405).json({ error: "Method not allowed" });
+  }
+}
+
+async function handleGet(source: WordTimingSource, id: string, userId: string, req: NextApiRequest, res: NextApiResponse) {
+  const points = req.query.points !== undefined ? Number(req.query.points) : DEFAULT_WAVEFORM_POINTS;
+  if (!Number.isInteger(points) || points < 10 || points > MAX_WAVEFORM_POINTS) {
+    return res.status(400).json({ error: `points must be a whole number from 10 to ${MAX_WAVEFORM_POINTS}` });
+  }
+
+  try {
+    const target = await loadWordTimingTarget(source, id);
+    if (!target) {
+      return res.status(404).json({ error: `${getWordTimingSource(source).name} not found` });
+    }
+
+    if (target.userId !== userId) {
+      return res.status(403).json({ error: "Not authorized to edit these captions" });
+    }
+
+    // The editor still works without a waveform (e.g. YouTube-only shorts)
+    let peaks: number[] | null = null;
+    if (target.audioUrl && target.duration > 0) {
+      try {
+        peaks = await getWaveformPeaks(target.audioUrl, target.start, target.duration, points);
+      } catch (err: any) {
+        console.warn(`⚠️ No waveform for ${source} ${id}: ${err.message}`);
+      }
+    }
+
+    return res.status(200).json({
+      word_timestamps: target.words,
+      seeded: target.seeded,
+      audio_url: target.audioUrl,
+      start: target.start,
+      duration: target.duration,
+      peaks,
+    });
+  } catch (err: any) {
+    console.error(`Error loading word timings for ${source} ${id}:`, err);
+    return res.status(500).json({ error: err.message || "Failed to load word timings" });
+  }
+}
+
+async function handlePut(source: WordTimingSource, id: string, userId: string, req: NextApiRequest, res: NextApiResponse) {
+  const { word_timestamps } = req.body;
+
+  const validationError = validateWordTimings(word_timestamps);
+  if (validationError) {
+    return res.status(400).json({ error: `Invalid word_timestamps: ${validationError}` });
+  }
+
+  try {
+    const target = await loadWordTimingTarget(source, id);
+    if (!target) {
+      return res.status(404).json({ error: `${getWordTimingSource(source).name} not found` });
+    }
+
+    if (target.userId !== userId) {
+      return res.status(403).json({ error: "Not authorized to edit these captions" });
+    }
+
+    const edited = normalizeWordTimings(word_timestamps.map(cleanTimedWord), target.duration);
+    const saved = source === "short"
+      ? spliceWordTimings(target.storedWords, target.start, target.start + target.duration, edited)
+      : edited;
+
+    const { error } = await supabaseAdmin
+      .from(TABLES[source])
+      .update({ word_timestamps: saved })
+      .eq("id", id);
+
+    if (error) throw error;
+
+    console.log(`✏️ Saved ${edited.length} corrected word timing(s) for ${source} ${id}`);
+
+    return res.status(200).json({ success: true, word_timestamps: saved });
+  } catch (err: any) {
+    console.error(`Error saving word timings for ${source} ${id}:`, err);
+    return res.status(500).json({ error: err.message || "Failed to save word timings" });
+  }
+}
@@ -0,0 +1,505 @@
+import { useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import { supabase } from "../lib/supabaseClient";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Slider } from "@/components/ui/slider";
+import { Loader2, ArrowLeft, Palette, Upload, Trash2, Crown, RotateCcw } from "lucide-react";
+import {
+  DEFAULT_BRAND_KIT,
+  MIN_WATERMARK_OPACITY,
+  MIN_WATERMARK_SIZE,
+  MAX_WATERMARK_SIZE,
+  MAX_WATERMARK_TEXT_LENGTH,
+  MAX_BRAND_CLIP_DURATION,
+  getAllWatermarkPositions,
+  type BrandKit,
+  type WatermarkType,
+} from "../lib/brandKit";
+import { PLANS, type PlanId } from "../lib/creditConstants";
+import { getFontsByCategory } from "../lib/fonts";
+import { getCustomFontFamilies, MAX_CUSTOM_FONT_SIZE, MAX_CUSTOM_FONTS } from "../lib/customFonts";
+import { toast } from "@/hooks/use-toast";
+import { useCustomFonts } from "@/hooks/useCustomFonts";
+
+type AssetKind = "logo" | "intro" | "outro";
+
+const WATERMARK_TYPES: { id: WatermarkType; name: string }[] = [
+  { id: "default", name: "AiVideoGen.cc" },
+  { id: "text", name: "My text" },
+  { id: "logo", name: "My logo" },
+  { id: "none", name: "No watermark" },
+];
+
+export default function BrandKitPage() {
+  const router = useRouter();
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [uploading, setUploading] = useState<AssetKind | null>(null);
+  const [kit, setKit] = useState<BrandKit>(DEFAULT_BRAND_KIT);
+  const [plan, setPlan] = useState<PlanId>("free");
+  const { fonts: customFonts, uploadFont, deleteFont } = useCustomFonts();
+  const [fontUploading, setFontUploading] = useState(false);
+  const [deletingFontId, setDeletingFontId] = useState<string | null>(null);
+
+  const canRemoveWatermark = PLANS[plan].removeWatermark;
+
+  const getAuthHeaders = async (): Promise<Record<string, string>> => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      router.push('/');
+      throw new Error("Please log in to continue");
+    }
+    return { "Authorization": `Bearer ${session.access_token}` };
+  };
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const headers = await getAuthHeaders();
+        const res = await fetch("/api/brand_kit", { headers });
+        if (!res.ok) throw new Error("Failed to load brand kit");
+        const data = await res.json();
+        setKit(data.brand_kit);
+        setPlan(data.plan);
+      } catch (err) {
+        console.error("❌ Error loading brand kit:", err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const updateWatermark = (changes: Partial<BrandKit["watermark"]>) =>
+    setKit((prev) => ({ ...prev, watermark: { ...prev.watermark, ...changes } }));
+
+  const handleUpload = async (kind: AssetKind, file: File) => {
+    setUploading(kind);
+    try {
+      const headers = await getAuthHeaders();
+      const formData = new FormData();
+      formData.append("kind", kind);
+      formData.append("file", file);
+
+      const res = await fetch("/api/brand_kit/upload", { method: "POST", headers, body: formData });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Upload failed");
+
+      setKit((prev) => ({ ...prev, [`${kind}_url`]: data.url }));
+    } catch (err) {
+      console.error("Brand asset upload error:", err);
+      alert(`Failed to upload ${kind}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleFontUpload = async (file: File) => {
+    setFontUploading(true);
+    try {
+      const font = await uploadFont(file);
+      toast({ description: `Added "${font.full_name}" to your caption fonts` });
+    } catch (err) {
+      console.error("Font upload error:", err);
+      alert(`Failed to upload font: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setFontUploading(false);
+    }
+  };
+
+  const handleFontDelete = async (id: string) => {
+    setDeletingFontId(id);
+    try {
+      await deleteFont(id);
+    } catch (err) {
+      console.error("Font delete error:", err);
+      alert(`Failed to delete font: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setDeletingFontId(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/brand_kit", {
+        method: "PUT",
+        headers: { ...headers, "Content-Type": "application/json" },
+        body: JSON.stringify({ brand_kit: kit }),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save brand kit");
+
+      setKit(data.brand_kit);
+      toast({ description: "Brand kit saved - it applies to your next render" });
+    } catch (err) {
+      console.error("Brand kit save error:", err);
+      alert(`Failed to save brand kit: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderAssetSlot = (kind: AssetKind, label: string, accept: string, hint: string) => {
+    const url = kit[`${kind}_url` as const];
+    return (
+      <div>
+        <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">{label}</label>
+        <div className="flex items-center gap-3 p-3 bg-gray-900 border border-gray-800 rounded-lg">
+          <div className="w-20 h-12 rounded bg-gray-800 flex items-center justify-center overflow-hidden flex-shrink-0">
+            {url ? (
+              kind === "logo" ? (
+                <img src={url} alt="" className="max-w-full max-h-full object-contain" />
+              ) : (
+                <video src={url} className="max-w-full max-h-full" muted />
+              )
+            ) : (
+              <span className="text-[10px] text-gray-600">None</span>
+            )}
+          </div>
+          <p className="flex-1 text-xs text-gray-500">{hint}</p>
+          <label className="flex items-center gap-1 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-white text-xs rounded cursor-pointer transition-colors">
+            {uploading === kind ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+            Upload
+            <input
+              type="file"
+              accept={accept}
+              className="hidden"
+              disabled={uploading !== null}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleUpload(kind, file);
+                e.target.value = "";
+              }}
+            />
+          </label>
+          {url && (
+            <button
+              onClick={() => setKit((prev) => ({
+                ...prev,
+                [`${kind}_url`]: null,
+                // The logo watermark needs a logo
+                ...(kind === "logo" && prev.watermark.type === "logo" ? { watermark: { ...prev.watermark, type: "default" as const } } : {}),
+              }))}
+              className="text-gray-500 hover:text-red-400"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-black flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-orange-400" />
+      </div>
+    );
+  }
+
+  const captionStyle = kit.caption_style;
+
+  return (
+    <div className="min-h-screen bg-black text-white">
+      <div className="max-w-3xl mx-auto px-4 md:px-8 py-6 md:py-8">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <div>
+            <button
+              onClick={() => router.push('/')}
+              className="text-sm text-gray-400 hover:text-orange-400 transition-colors flex items-center gap-1 mb-2"
+            >
+              <ArrowLeft className="w-3 h-3" />
+              <span>Back to Dashboard</span>
+            </button>
+            <div className="flex items-center gap-2">
+              <Palette className="w-6 h-6 text-orange-500" />
+              <h1 className="text-2xl font-semibold text-white">Brand Kit</h1>
+            </div>
+            <p className="text-sm text-gray-400 mt-1">Applied to every story, short and UGC video you render</p>
+          </div>
+          <div className="flex items-center gap-2 bg-gray-800/50 rounded-lg px-3 py-2">
+            <Crown className={`w-4 h-4 ${canRemoveWatermark ? 'text-orange-500' : 'text-gray-500'}`} />
+            <span className="text-sm font-semibold">{PLANS[plan].name} plan</span>
+          </div>
+        </div>
+
+        <div className="space-y-6">
+          {/* Logo and watermark */}
+          <Card className="bg-gray-900/30 border-gray-800/50 p-6 space-y-5">
+            <h3 className="text-lg font-semibold">Logo & Watermark</h3>
+
+            {renderAssetSlot("logo", "Logo", "image/png,image/jpeg,image/webp", "PNG with transparency works best")}
+
+            <div>
+              <label className="block text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">Watermark</label>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                {WATERMARK_TYPES.map((type) => {
+                  const disabled = type.id === "logo" && !kit.logo_url;
+                  return (
+                    <button
+                      key={type.id}
+                      disabled={disabled}
+                      onClick={() => updateWatermark({ type: type.id })}
+                      className={`px-3 py-2 rounded-lg text-sm border transition-colors disabled:opacity-40 ${
+                        kit.watermark.type === type.id
+                          ? "bg-orange-600 border-orange-500 text-white"
+                          : "bg-gray-900 border-gray-800 text-gray-300 hover:border-gray-700"
+                      }`}
+                    >
+                      {type.name}
+                    </button>
+                  );
+                })}
+              </div>
+              {!canRemoveWatermark && kit.watermark.type !== "default" && (
+                <p className="mt-2 text-xs text-yellow-400">
+                  The AiVideoGen.cc watermark stays on the Free plan{kit.watermark.type === "none" ? "" : ", next to yours"}. Buying any credit pack upgrades you to Pro.
+                </p>
+              )}
+            </div>
+
+            {(kit.watermark.type === "text" || kit.watermark.type === "logo") && (
+              <div className="space-y-4">
+                {kit.watermark.type === "text" && (
+                  <input
+                    value={kit.watermark.text}
+                    onChange={(e) => updateWatermark({ text: e.target.value })}
+                    maxLength={MAX_WATERMARK_TEXT_LENGTH}
+                    placeholder="@yourhandle"
+                    className="w-full px-3 py-2 bg-gray-900 border border-gray-800 rounded-lg text-sm text-white focus:outline-none focus:border-orange-500"
+                  />
+                )}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-2">Position</label>
+                    <select
+                      value={kit.watermark.position}
+                      onChange={(e) => updateWatermark({ position: e.target.value as BrandKit["watermark"]["position"] })}
+                      className="w-full px-3 py-1.5 bg-gray-900 border border-gray-800 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+                    >
+                      {getAllWatermarkPositions().map((position) => (
+                        <option key={position.id} value={position.id}>{position.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-2">
+                      Opacity: <span className="text-orange-400">{Math.round(kit.watermark.opacity * 100)}%</span>
+                    </label>
+                    <Slider
+                      value={[kit.watermark.opacity]}
+                      onValueChange={(value) => updateWatermark({ opacity: value[0] })}
+                      min={MIN_WATERMARK_OPACITY}
+                      max={1}
+                      step={0.05}
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs text-gray-400 mb-2">
+                      Size: <span className="text-orange-400">{kit.watermark.size}{kit.watermark.type === "logo" ? "% width" : "px"}</span>
+                    </label>
+                    <Slider
+                      value={[kit.watermark.size]}
+                      onValueChange={(value) => updateWatermark({ size: value[0] })}
+                      min={MIN_WATERMARK_SIZE}
+                      max={MAX_WATERMARK_SIZE}
+                      step={1}
+                    />
+                  </div>
+                </div>
+              </div>
+            )}
+          </Card>
+
+          {/* Colors and captions */}
+          <Card className="bg-gray-900/30 border-gray-800/50 p-6 space-y-5">
+            <h3 className="text-lg font-semibold">Colors & Captions</h3>
+
+            <div className="grid grid-cols-3 gap-4">
+              {(["primary", "secondary", "accent"] as const).map((key) => (
+                <div key={key}>
+                  <label className="block text-xs text-gray-400 mb-2 capitalize">{key}</label>
+                  <input
+                    type="color"
+                    value={kit.colors[key]}
+                    onChange={(e) => setKit((prev) => ({ ...prev, colors: { ...prev.colors, [key]: e.target.value } }))}
+                    className="w-full h-9 bg-gray-900 border border-gray-800 rounded cursor-pointer"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <label className="flex items-center justify-between cursor-pointer">
+              <span className="text-sm text-gray-300">Default caption style for new stories and videos</span>
+              <input
+                type="checkbox"
+                checked={Boolean(captionStyle)}
+                onChange={(e) => setKit((prev) => ({
+                  ...prev,
+                  caption_style: e.target.checked
+                    ? { fontFamily: "Montserrat", fontWeight: 800, activeColor: prev.colors.primary, inactiveColor: prev.colors.secondary, textTransform: "none" }
+                    : null,
+                }))}
+                className="accent-orange-500"
+              />
+            </label>
+
+            {captionStyle && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-2">Font</label>
+                  <select
+                    value={captionStyle.fontFamily}
+                    onChange={(e) => setKit((prev) => ({ ...prev, caption_style: { ...captionStyle, fontFamily: e.target.value } }))}
+                    className="w-full px-3 py-1.5 bg-gray-900 border border-gray-800 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+                  >
+                    {customFonts.length > 0 && (
+                      <optgroup label="My Fonts" className="bg-gray-900 text-gray-400">
+                        {getCustomFontFamilies(customFonts).map((family) => (
+                          <option key={family} value={family}>{family}</option>
+                        ))}
+                      </optgroup>
+                    )}
+                    {Array.from(getFontsByCategory()).map(([category, fonts]) => (
+                      <optgroup key={category} label={category} className="bg-gray-900 text-gray-400">
+                        {fonts.map(font => (
+                          <option key={font.name} value={font.name}>{font.name}</option>
+                        ))}
+                      </optgroup>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-2">Text case</label>
+                  <select
+                    value={captionStyle.textTransform}
+                    onChange={(e) => setKit((prev) => ({ ...prev, caption_style: { ...captionStyle, textTransform: e.target.value as typeof captionStyle.textTransform } }))}
+                    className="w-full px-3 py-1.5 bg-gray-900 border border-gray-800 rounded text-sm text-white focus:outline-none focus:border-orange-500"
+                  >
+                    <option value="none">As written</option>
+                    <option value="uppercase">UPPERCASE</option>
+                    <option value="lowercase">lowercase</option>
+                    <option value="capitalize">Capitalize</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-2">
+                    Weight: <span className="text-orange-400">{captionStyle.fontWeight}</span>
+                  </label>
+                  <Slider
+                    value={[captionStyle.fontWeight]}
+                    onValueChange={(value) => setKit((prev) => ({ ...prev, caption_style: { ...captionStyle, fontWeight: value[0] } }))}
+                    min={100}
+                    max={900}
+                    step={100}
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  {(["activeColor", "inactiveColor"] as const).map((key) => (
+                    <div key={key}>
+                      <label className="block text-xs text-gray-400 mb-2">{key === "activeColor" ? "Highlight" : "Text"}</label>
+                      <input
+                        type="color"
+                        value={captionStyle[key]}
+                        onChange={(e) => setKit((prev) => ({ ...prev, caption_style: { ...captionStyle, [key]: e.target.value } }))}
+                        className="w-full h-9 bg-gray-900 border border-gray-800 rounded cursor-pointer"
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </Card>
+
+          {/* Uploaded caption fonts */}
+          <Card className="bg-gray-900/30 border-gray-800/50 p-6 space-y-5">
+            <div className="flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-semibold">Caption Fonts</h3>
+                <p className="text-xs text-gray-500 mt-1">
+                  Upload TTF or OTF files (up to {MAX_CUSTOM_FONT_SIZE / 1024 / 1024}MB, {MAX_CUSTOM_FONTS} fonts). Add each weight you use as its own file.
+                </p>
+              </div>
+              <label className="flex items-center gap-1 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-white text-xs rounded cursor-pointer transition-colors flex-shrink-0">
+                {fontUploading ? <Loader2 className="w-3 h-3 animate-spin" /> : <Upload className="w-3 h-3" />}
+                Upload font
+                <input
+                  type="file"
+                  accept=".ttf,.otf,font/ttf,font/otf"
+                  className="hidden"
+                  disabled={fontUploading}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    if (file) handleFontUpload(file);
+                    e.target.value = "";
+                  }}
+                />
+              </label>
+            </div>
+
+            {customFonts.length > 0 ? (
+              <div className="space-y-2">
+                {customFonts.map((font) => (
+                  <div key={font.id} className="flex items-center gap-3 p-3 bg-gray-900 border border-gray-800 rounded-lg">
+                    <span
+                      className="w-20 text-xl text-white flex-shrink-0"
+                      style={{ fontFamily: `"${font.family}"`, fontWeight: font.weight, fontStyle: font.italic ? "italic" : "normal" }}
+                    >
+                      Aa
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm text-white truncate">{font.full_name}</p>
+                      <p className="text-xs text-gray-500">
+                        {font.family} · {font.weight}{font.italic ? " italic" : ""} · {font.format.toUpperCase()}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleFontDelete(font.id)}
+                      disabled={deletingFontId !== null}
+                      className="text-gray-500 hover:text-red-400 disabled:opacity-50"
+                    >
+                      {deletingFontId === font.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-xs text-gray-600">No fonts uploaded yet</p>
+            )}
+          </Card>
+
+          {/* Intro and outro */}
+          <Card className="bg-gray-900/30 border-gray-800/50 p-6 space-y-5">
+            <h3 className="text-lg font-semibold">Intro & Outro</h3>
+            {renderAssetSlot("intro", "Intro clip", "video/mp4,video/quicktime,video/webm", `Plays before every video (up to ${MAX_BRAND_CLIP_DURATION}s)`)}
+            {renderAssetSlot("outro", "Outro clip", "video/mp4,video/quicktime,video/webm", `Plays after every video (up to ${MAX_BRAND_CLIP_DURATION}s)`)}
+          </Card>
+
+          <div className="flex gap-2">
+            <Button
+              onClick={() => setKit(DEFAULT_BRAND_KIT)}
+              variant="outline"
+              className="border-gray-700 text-white hover:bg-gray-800"
+            >
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset
+            </Button>
+            <Button
+              onClick={handleSave}
+              disabled={saving || uploading !== null}
+              className="flex-1 bg-orange-600 hover:bg-orange-700 text-white font-semibold"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : null}
+              Save Brand Kit
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,7 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
-import { Plus, Loader2, PlayCircle, Clock, Film, Image as ImageIcon, Video, User, LogOut, Trash2, MoreHorizontal, Smartphone, Square, Monitor, Coins, List, ArrowLeft, ArrowRight, FileText, Menu, X, Sparkles, Volume2, VolumeX, Info, Play, StopCircle, HelpCircle, Search, ChevronRight, MessageCircle, Scissors, Upload, Youtube } from "lucide-react";
+import { Plus, Loader2, PlayCircle, Clock, Film, Image as ImageIcon, Video, User, LogOut, Trash2, MoreHorizontal, Smartphone, Square, Monitor, Coins, List, ArrowLeft, ArrowRight, FileText, Menu, X, Sparkles, Volume2, VolumeX, Info, Play, StopCircle, HelpCircle, Search, ChevronRight, MessageCircle, Scissors, Upload, Youtube, Palette } from "lucide-react";
 import { Checkbox } from "@/components/ui/checkbox";
 import {
   DropdownMenu,
@@ -19,6 +19,7 @@ import {
 import { LandingPage } from "@/components/LandingPage";
 import { useCredits } from "../hooks/useCredits";
 import { CREDIT_COSTS } from "@/lib/creditConstants";
+import { getAllAspectRatios, getAspectRatioConfig, isAspectRatio, DEFAULT_ASPECT_RATIO, type AspectRatio } from "@/lib/aspectRatios";
 import { toast } from "@/hooks/use-toast";
 import { Slider } from "@/components/ui/slider";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
@@ -36,6 +37,7 @@ type Story = {
   video_duration: number | null;
   video_url: string | null;
   video_created_at: string | null;
+  video_thumbnail_url?: string | null;
   series_id: string | null;
 };
 
@@ -91,9 +93,9 @@ const StoryCard = React.memo(({
         onClick={() => onNavigate(story.id)}
         className="relative rounded-md overflow-hidden bg-gray-900 border border-gray-800 hover:border-orange-600 transition-all duration-200 aspect-[9/16]"
       >
-        {story.first_scene_image ? (
+        {story.video_thumbnail_url || story.first_scene_image ? (
           <Image
-            src={story.first_scene_image}
+            src={(story.video_thumbnail_url || story.first_scene_image)!}
             alt={story.title || "Story"}
             fill
             className="object-cover group-hover:scale-105 transition-transform duration-300"
@@ -173,6 +175,7 @@ const StoryCard = React.memo(({
     prevProps.story.id === nextProps.story.id &&
     prevProps.story.video_url === nextProps.story.video_url &&
     prevProps.story.first_scene_image === nextProps.story.first_scene_image &&
+    prevProps.story.video_thumbnail_url === nextProps.story.video_thumbnail_url &&
     prevProps.story.scene_count === nextProps.story.scene_count &&
     prevProps.story.video_duration === nextProps.story.video_duration &&
     prevProps.showEpisodeBadge === nextProps.showEpisodeBadge &&
@@ -242,7 +245,7 @@ export default function Dashboard() {
   const [creating, setCreating] = useState(false);
   const [selectedCategory, setSelectedCategory] = useState<"faceless-videos" | "series" | "cut-shorts" | "ugc-ads">("faceless-videos");
   const [sceneCount, setSceneCount] = useState(5);
-  const [aspectRatio, setAspectRatio] = useState<'9:16' | '16:9' | '1:1'>('9:16');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
   const [showCreditWarning, setShowCreditWarning] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [seriesDialogOpen, setSeriesDialogOpen] = useState(false);
@@ -970,7 +973,7 @@ export default function Dashboard() {
         setSceneCount(5);
         setShowCustomScenes(false);
         setSelectedVoiceId("ash");
-        setAspectRatio("9:16");
+        setAspectRatio(DEFAULT_ASPECT_RATIO);
         setIsBlankStory(false);
         setSelectedSeriesForCreate(null);
 
@@ -1806,51 +1809,34 @@ export default function Dashboard() {
             Video aspect ratio
           </label>
 
-          <div className="flex gap-3">
-            <button
-              onClick={() => setAspectRatio('9:16')}
-              className={`flex-1 flex flex-col items-center justify-center gap-0.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-all border-2 ${
-                aspectRatio === '9:16'
-                  ? 'bg-gray-800 border-orange-500 text-white'
-                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-600'
-              }`}
-            >
-              <div className="flex items-center gap-2">
-                <div className={`w-2.5 h-4 rounded-sm ${aspectRatio === '9:16' ? 'bg-orange-500' : 'bg-gray-600'}`}></div>
-                <span className="font-semibold">9:16</span>
-              </div>
-              <span className="text-[10px] text-gray-500 whitespace-nowrap">TikTok, Reels</span>
-            </button>
-
-            <button
-              onClick={() => setAspectRatio('16:9')}
-              className={`flex-1 flex flex-col items-center justify-center gap-0.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-all border-2 ${
-                aspectRatio === '16:9'
-                  ? 'bg-gray-800 border-orange-500 text-white'
-                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-600'
-              }`}
-            >
-              <div className="flex items-center gap-2">
-                <div className={`w-4 h-2.5 rounded-sm ${aspectRatio === '16:9' ? 'bg-orange-500' : 'bg-gray-600'}`}></div>
-                <span className="font-semibold">16:9</span>
-              </div>
-              <span className="text-[10px] text-gray-500 whitespace-nowrap">YouTube</span>
-            </button>
-
-            <button
-              onClick={() => setAspectRatio('1:1')}
-              className={`flex-1 flex flex-col items-center justify-center gap-0.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-all border-2 ${
-                aspectRatio === '1:1'
-                  ? 'bg-gray-800 border-orange-500 text-white'
-                  : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-600'
-              }`}
-            >
-              <div className="flex items-center gap-2">
-                <div className={`w-3 h-3 rounded-sm ${aspectRatio === '1:1' ? 'bg-orange-500' : 'bg-gray-600'}`}></div>
-                <span className="font-semibold">1:1</span>
-              </div>
-              <span className="text-[10px] text-gray-500 whitespace-nowrap">Square</span>
-            </button>
+          <div className="grid grid-cols-3 gap-3">
+            {getAllAspectRatios().map((ratio) => {
+              // Tiny frame icon scaled so the longer edge is 16px
+              const iconScale = 16 / Math.max(ratio.preview.width, ratio.preview.height);
+              return (
+                <button
+                  key={ratio.id}
+                  onClick={() => setAspectRatio(ratio.id)}
+                  className={`flex flex-col items-center justify-center gap-0.5 px-3 py-1.5 rounded-lg text-sm font-medium transition-all border-2 ${
+                    aspectRatio === ratio.id
+                      ? 'bg-gray-800 border-orange-500 text-white'
+                      : 'bg-gray-800 border-gray-700 text-gray-400 hover:border-gray-600'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <div
+                      className={`rounded-sm ${aspectRatio === ratio.id ? 'bg-orange-500' : 'bg-gray-600'}`}
+                      style={{
+                        width: `${Math.round(ratio.preview.width * iconScale)}px`,
+                        height: `${Math.round(ratio.preview.height * iconScale)}px`,
+                      }}
+                    ></div>
+                    <span className="font-semibold">{ratio.id}</span>
+                  </div>
+                  <span className="text-[10px] text-gray-500 whitespace-nowrap">{ratio.platforms}</span>
+                </button>
+              );
+            })}
           </div>
         </div>
       </div>
@@ -2064,6 +2050,13 @@ export default function Dashboard() {
                   </div>
                 </DropdownMenuTrigger>
                 <DropdownMenuContent align="end" className="w-56 bg-gray-900 border-gray-800">
+                  <DropdownMenuItem
+                    className="flex items-center gap-3 text-gray-400 hover:text-white hover:bg-gray-800 cursor-pointer"
+                    onClick={() => router.push('/brand-kit')}
+                  >
+                    <Palette className="w-4 h-4" />
+                    <span>Brand Kit</span>
+                  </DropdownMenuItem>
                   <DropdownMenuItem
                     className="flex items-center gap-3 text-gray-400 hover:text-red-400 hover:bg-gray-800 cursor-pointer"
                     onClick={signOut}
@@ -2248,6 +2241,13 @@ export default function Dashboard() {
               </div>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-56 bg-gray-900 border-gray-800">
+              <DropdownMenuItem
+                className="flex items-center gap-3 text-gray-400 hover:text-white hover:bg-gray-800 cursor-pointer"
+                onClick={() => router.push('/brand-kit')}
+              >
+                <Palette className="w-4 h-4" />
+                <span>Brand Kit</span>
+              </DropdownMenuItem>
               <DropdownMenuItem
                 className="flex items-center gap-3 text-gray-400 hover:text-red-400 hover:bg-gray-800 cursor-pointer"
                 onClick={signOut}
@@ -2890,9 +2890,7 @@ export default function Dashboard() {
                       className="group cursor-pointer relative"
                     >
                       <div className={`relative rounded-md overflow-hidden bg-gray-900 border border-gray-800 hover:border-orange-600 transition-all duration-200 ${
-                        video.aspect_ratio === '9:16' ? 'aspect-[9/16]' :
-                        video.aspect_ratio === '1:1' ? 'aspect-square' :
-                        'aspect-video'
+                        isAspectRatio(video.aspect_ratio) ? getAspectRatioConfig(video.aspect_ratio).className : 'aspect-video'
                       }`}>
                         {video.thumbnail_url ? (
                           <Image
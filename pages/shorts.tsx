@@ -10,6 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Input } from "@/components/ui/input";
 import { Loader2, Upload, Video, Trash2, Clock, Scissors, Youtube } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { getAspectRatioConfig, isAspectRatio } from "@/lib/aspectRatios";
 
 type SourceVideo = {
   id: string;
@@ -324,9 +325,7 @@ export default function ShortsPage() {
               >
                 <div
                   className={`relative bg-gray-800 ${
-                    video.aspect_ratio === '9:16' ? 'aspect-[9/16]' :
-                    video.aspect_ratio === '1:1' ? 'aspect-square' :
-                    'aspect-video'
+                    isAspectRatio(video.aspect_ratio) ? getAspectRatioConfig(video.aspect_ratio).className : 'aspect-video'
                   }`}
                 >
                   {video.thumbnail_url ? (
@@ -8,6 +8,13 @@ import { useAuth } from "../../contexts/AuthContext";
 import { Slider } from "@/components/ui/slider";
 import { WordByWordCaption, type WordTimestamp } from "../../components/WordByWordCaption";
 import { getFontsByCategory } from "@/lib/fonts";
+import { getAllAspectRatios, getAspectRatioConfig, DEFAULT_ASPECT_RATIO, type AspectRatio } from "../../lib/aspectRatios";
+import { MusicMixControls } from "../../components/MusicMixControls";
+import { WordTimingEditorModal } from "../../components/WordTimingEditorModal";
+import { normalizeMusicMix, type MusicMixSettings } from "../../lib/musicMix";
+import { subscribeToJobProgress, createProgressId, type JobProgressEvent } from "../../lib/jobProgress";
+import { SUBTITLE_DOWNLOAD_OPTIONS, getSubtitleFormat, downloadSubtitles, type SubtitleFormat } from "../../lib/subtitleExport";
+import type { TimedWord } from "../../lib/wordTiming";
 
 // Declare YouTube IFrame API types
 declare global {
@@ -70,6 +77,7 @@ type MusicSettings = {
   enabled: boolean;
   music_id: string | null;
   volume: number;
+  mix?: MusicMixSettings;
 };
 
 type MusicTrack = {
@@ -112,7 +120,7 @@ export default function ShortsPage() {
   const [analyzingShorts, setAnalyzingShorts] = useState(false);
   const [shortsSuggestions, setShortsSuggestions] = useState<ShortSuggestion[]>([]);
   const [selectedShortId, setSelectedShortId] = useState<string | null>(null);
-  const [aspectRatio, setAspectRatio] = useState<"9:16" | "16:9" | "1:1">("9:16");
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
   const [editingShortId, setEditingShortId] = useState<string | null>(null);
   const [updatingShortId, setUpdatingShortId] = useState<string | null>(null);
   const [playingPreviews, setPlayingPreviews] = useState<Set<string>>(new Set());
@@ -123,7 +131,9 @@ export default function ShortsPage() {
   const [shortCaptionSettings, setShortCaptionSettings] = useState<Map<string, CaptionSettings>>(new Map());
   const [savingCaptionId, setSavingCaptionId] = useState<string | null>(null);
   const [generatingCaptionsId, setGeneratingCaptionsId] = useState<string | null>(null);
+  const [wordTimingShortId, setWordTimingShortId] = useState<string | null>(null);
   const [cuttingShortId, setCuttingShortId] = useState<string | null>(null);
+  const [cutProgress, setCutProgress] = useState<JobProgressEvent | null>(null);
 
   // Music settings per short
   const [musicPanelOpenId, setMusicPanelOpenId] = useState<string | null>(null);
@@ -580,10 +590,52 @@ export default function ShortsPage() {
     }
   };
 
+  // Save corrected words from the timing editor (relative to the short - the API maps them back onto the parent video)
+  const saveWordTimings = async (shortId: string, words: TimedWord[]) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) throw new Error("Not authenticated");
+
+    const response = await fetch("/api/word_timestamps", {
+      method: "PUT",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ source: "short", id: shortId, word_timestamps: words })
+    });
+
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || "Failed to save caption timing");
+
+    setShortsSuggestions(prev =>
+      prev.map(s => s.id === shortId ? { ...s, word_timestamps: data.word_timestamps } : s)
+    );
+
+    toast({ description: `Caption timing saved (${words.length} words)` });
+  };
+
+  // Sidecar captions (SRT/VTT/ASS) from the short's word timestamps
+  const handleDownloadSubtitles = async (short: ShortSuggestion, format: SubtitleFormat, wordTiming: boolean) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      await downloadSubtitles({ source: 'short', id: short.id, format, word_timing: wordTiming }, session.access_token, short.title || 'short');
+      toast({ description: `${getSubtitleFormat(format).name} captions downloaded` });
+    } catch (error: any) {
+      console.error("Subtitle export error:", error);
+      toast({ title: "Caption export failed", description: error.message, variant: "destructive" });
+    }
+  };
+
   // Cut short - download segment and save to storage
   const cutShort = async (shortId: string) => {
     setCuttingShortId(shortId);
 
+    // Live progress from the request below (download, cut, captions, music, upload)
+    const progressId = createProgressId();
+    const stopProgress = subscribeToJobProgress({ progress_id: progressId, type: 'short' }, setCutProgress);
+
     try {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) throw new Error("Not authenticated");
@@ -594,7 +646,7 @@ export default function ShortsPage() {
           "Content-Type": "application/json",
           "Authorization": `Bearer ${session.access_token}`
         },
-        body: JSON.stringify({ short_id: shortId })
+        body: JSON.stringify({ short_id: shortId, progress_id: progressId })
       });
 
       if (!response.ok) {
@@ -621,7 +673,9 @@ export default function ShortsPage() {
         variant: "destructive"
       });
     } finally {
+      stopProgress();
       setCuttingShortId(null);
+      setCutProgress(null);
     }
   };
 
@@ -691,6 +745,7 @@ export default function ShortsPage() {
             enabled: data.enabled || false,
             music_id: data.music_id || null,
             volume: data.volume ?? 30,
+            mix: normalizeMusicMix(data.mix),
           });
           return newMap;
         });
@@ -1047,16 +1102,7 @@ export default function ShortsPage() {
   };
 
   // Get preview dimensions based on aspect ratio
-  const getPreviewDimensions = () => {
-    switch (aspectRatio) {
-      case "9:16": // Portrait (mobile/vertical)
-        return { width: 280, height: 498 }; // 9:16 ratio, compact
-      case "16:9": // Landscape (desktop/horizontal)
-        return { width: 498, height: 280 }; // 16:9 ratio, compact
-      case "1:1": // Square
-        return { width: 400, height: 400 }; // 1:1 ratio, compact
-    }
-  };
+  const getPreviewDimensions = () => getAspectRatioConfig(aspectRatio).preview;
 
   const previewDimensions = getPreviewDimensions();
 
@@ -1102,12 +1148,14 @@ export default function ShortsPage() {
             <label className="text-sm text-gray-400">Format:</label>
             <select
               value={aspectRatio}
-              onChange={(e) => setAspectRatio(e.target.value as "9:16" | "16:9" | "1:1")}
+              onChange={(e) => setAspectRatio(getAspectRatioConfig(e.target.value).id)}
               className="bg-gray-800 border border-gray-700 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-orange-500"
             >
-              <option value="9:16">9:16 (Portrait)</option>
-              <option value="16:9">16:9 (Landscape)</option>
-              <option value="1:1">1:1 (Square)</option>
+              {getAllAspectRatios().map((ratio) => (
+                <option key={ratio.id} value={ratio.id}>
+                  {ratio.id} ({ratio.name})
+                </option>
+              ))}
             </select>
           </div>
         </div>
@@ -1265,7 +1313,7 @@ export default function ShortsPage() {
                               data-short-id={short.id}
                               style={{
                                 ...(typeof window !== 'undefined' && window.innerWidth >= 768 && {
-                                  aspectRatio: aspectRatio === '1:1' ? '1/1' : aspectRatio === '9:16' ? '9/16' : '16/9',
+                                  aspectRatio: aspectRatio.replace(':', '/'),
                                 }),
                                 maxWidth: '100%',
                                 maxHeight: '100%',
@@ -1694,7 +1742,7 @@ export default function ShortsPage() {
                                 {cuttingShortId === short.id ? (
                                   <>
                                     <Loader2 className="w-3 h-3 animate-spin" />
-                                    <span>Cutting...</span>
+                                    <span>{cutProgress && cutProgress.progress > 0 ? `${cutProgress.stage_name} ${cutProgress.progress}%` : 'Cutting...'}</span>
                                   </>
                                 ) : (
                                   <>
@@ -1750,6 +1798,20 @@ export default function ShortsPage() {
                                         <ExternalLink className="w-3 h-3 mr-2" />
                                         Open in New Tab
                                       </DropdownMenuItem>
+                                      {SUBTITLE_DOWNLOAD_OPTIONS.map((option) => (
+                                        <DropdownMenuItem
+                                          key={option.id}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDownloadSubtitles(short, option.format, option.wordTiming);
+                                          }}
+                                          className="text-white hover:bg-gray-800 cursor-pointer"
+                                          title={getSubtitleFormat(option.format).description}
+                                        >
+                                          <Type className="w-3 h-3 mr-2" />
+                                          Captions: {option.label}
+                                        </DropdownMenuItem>
+                                      ))}
                                     </DropdownMenuContent>
                                   </DropdownMenu>
                                 </div>
@@ -1814,6 +1876,16 @@ export default function ShortsPage() {
                                 </div>
                               )}
 
+                              {/* Manual word corrections */}
+                              {short.word_timestamps && short.word_timestamps.length > 0 && generatingCaptionsId !== short.id && (
+                                <button
+                                  onClick={() => setWordTimingShortId(short.id)}
+                                  className="w-full px-2 py-1.5 text-xs rounded bg-gray-800 hover:bg-gray-700 text-gray-300 border border-gray-600"
+                                >
+                                  Fix words &amp; timing
+                                </button>
+                              )}
+
                               {getCaptionSettings(short.id).enabled && (
                                 <>
                                   {/* Font Family */}
@@ -2004,6 +2076,13 @@ export default function ShortsPage() {
                                     />
                                   </div>
 
+                                  {/* Ducking and Fades */}
+                                  <MusicMixControls
+                                    compact
+                                    mix={normalizeMusicMix(getMusicSettings(short.id).mix)}
+                                    onChange={(mix) => updateMusicSetting(short.id, 'mix', mix)}
+                                  />
+
                                   {/* Music Library */}
                                   <div>
                                     <label className="block text-[10px] text-gray-400 mb-2">Select Track</label>
@@ -2118,6 +2197,18 @@ export default function ShortsPage() {
             </>
         </div>
       </div>
+
+      {/* Caption Word Timing Editor */}
+      {wordTimingShortId && (
+        <WordTimingEditorModal
+          isOpen={Boolean(wordTimingShortId)}
+          onClose={() => setWordTimingShortId(null)}
+          source="short"
+          id={wordTimingShortId}
+          title={shortsSuggestions.find(s => s.id === wordTimingShortId)?.title}
+          onSave={(words) => saveWordTimings(wordTimingShortId, words)}
+        />
+      )}
     </div>
   );
 }
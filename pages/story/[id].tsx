@@ -8,13 +8,54 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "../../components/ui/dialog";
 import { Slider } from "../../components/ui/slider";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "../../components/ui/tooltip";
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "../../components/ui/dropdown-menu";
-import { ArrowLeft, Play, Pause, Download, Volume2, VolumeX, Maximize, Loader2, ImageIcon, Image, Pencil, Trash2, Check, X, PlayCircle, ChevronDown, Plus, Type, Music, Upload, Sparkles, ExternalLink, MoreHorizontal, Coins, Copy, Layers, HelpCircle, Search, ChevronRight, MessageCircle, Scissors } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuLabel, DropdownMenuSeparator, DropdownMenuTrigger } from "../../components/ui/dropdown-menu";
+import { ArrowLeft, Play, Pause, Download, Volume2, VolumeX, Maximize, Loader2, ImageIcon, Image, Pencil, Trash2, Check, X, PlayCircle, ChevronDown, Plus, Type, Music, Upload, Sparkles, ExternalLink, MoreHorizontal, Coins, Copy, Layers, Shuffle, HelpCircle, Search, ChevronRight, MessageCircle, Scissors, Zap, Heading } from "lucide-react";
 import { WordByWordCaption, SimpleCaption, type WordTimestamp } from "../../components/WordByWordCaption";
 import { EffectSelectionModal } from "../../components/EffectSelectionModal";
 import { OverlaySelectionModal } from "../../components/OverlaySelectionModal";
+import { TransitionSelectionModal } from "../../components/TransitionSelectionModal";
+import { MotionPathEditorModal } from "../../components/MotionPathEditorModal";
+import { CharacterVoicesDialog } from "../../components/CharacterVoicesDialog";
+import { ProsodyEditorModal } from "../../components/ProsodyEditorModal";
+import { SoundEffectsModal } from "../../components/SoundEffectsModal";
+import { TextLayersModal } from "../../components/TextLayersModal";
+import { ThumbnailModal } from "../../components/ThumbnailModal";
+import { WordTimingEditorModal } from "../../components/WordTimingEditorModal";
+import { TextLayerOverlay } from "../../components/TextLayerOverlay";
+import { CaptionTagsEditor } from "../../components/CaptionTagsEditor";
+import { SafeZoneOverlay } from "../../components/SafeZoneOverlay";
+import { MusicMixControls } from "../../components/MusicMixControls";
 import type { EffectType } from "../../lib/videoEffects";
 import { getEffectAnimationClass } from "../../lib/videoEffects";
+import { getTransition, type TransitionType } from "../../lib/videoTransitions";
+import { getMotionPathCSSKeyframes, type MotionPath } from "../../lib/motionPath";
+import { getAllRenderProfiles, getRenderProfile, DEFAULT_RENDER_QUALITY, type RenderQuality } from "../../lib/renderProfiles";
+import { getAllLoudnessTargets, DEFAULT_LOUDNESS_TARGET, type LoudnessTargetId } from "../../lib/loudness";
+import { getAllAspectRatios, getAspectRatioConfig, getStockOrientation, DEFAULT_ASPECT_RATIO, type AspectRatio } from "../../lib/aspectRatios";
+import { getSpeakers, stripSpeakerTags, type CharacterVoices } from "../../lib/dialogue";
+import { getSpokenWords, type SceneProsody } from "../../lib/prosody";
+import type { SfxCue } from "../../lib/sfx";
+import type { TextLayer } from "../../lib/textLayers";
+import type { ThumbnailSettings } from "../../lib/thumbnails";
+import { getAllExportFormats, getExportFormat, type ExportFormat, type VideoExport } from "../../lib/exportFormats";
+import { SUBTITLE_DOWNLOAD_OPTIONS, getSubtitleFormat, downloadSubtitles, type SubtitleFormat } from "../../lib/subtitleExport";
+import { getAllCaptionAnimations, getCaptionAnimation, DEFAULT_CAPTION_ANIMATION, type CaptionAnimation } from "../../lib/captionAnimations";
+import { DEFAULT_EMPHASIS_COLOR, type CaptionTaggedWord } from "../../lib/captionEmphasis";
+import {
+  DEFAULT_CAPTION_LAYOUT,
+  MIN_CAPTION_WIDTH,
+  MAX_CAPTION_LINES,
+  getSafeZonesForAspectRatio,
+  normalizeCaptionLayout,
+  resolveCaptionBox,
+  type SafeZonePlatform,
+} from "../../lib/captionLayout";
+import type { TimedWord } from "../../lib/wordTiming";
+import { getSceneOverlays, resolveOverlayBlend, getOverlayBlendMode, type SceneOverlay } from "../../lib/overlayBlend";
+import { DEFAULT_MUSIC_MIX, normalizeMusicMix, type MusicMixSettings } from "../../lib/musicMix";
+import { DEFAULT_BRAND_KIT, resolveWatermarks, getWatermarkPosition, type BrandKit } from "../../lib/brandKit";
+import { subscribeToJobProgress, waitForJobProgress, describeJobProgress, type JobProgressEvent } from "../../lib/jobProgress";
+import type { PlanId } from "../../lib/creditConstants";
 import { useCredits } from "../../hooks/useCredits";
 import { CREDIT_COSTS, calculateVideoUploadCost } from "../../lib/creditConstants";
 import { useAuth } from "../../contexts/AuthContext";
@@ -23,6 +64,8 @@ import { toast } from "@/hooks/use-toast";
 import { knowledgeBase, categories, type KnowledgeArticle } from "@/lib/knowledgeBase";
 import { trackEvent } from "@/lib/analytics";
 import { getFontsByCategory } from "@/lib/fonts";
+import { getCustomFontFamilies } from "@/lib/customFonts";
+import { useCustomFonts } from "@/hooks/useCustomFonts";
 
 type Scene = {
   id?: string;
@@ -40,12 +83,20 @@ type Scene = {
   image_generated_at?: string;
   audio_generated_at?: string;
   scene_text_modified_at?: string;
-  effects?: { motion?: string };
+  effects?: { motion?: string; motion_path?: MotionPath; transition?: string; transition_duration?: number };
+  prosody?: SceneProsody | null;
+  sfx_cues?: SfxCue[];
+  text_layers?: TextLayer[];
 };
 type Video = {
+  id?: string;
   video_url: string;
   is_valid?: boolean;
   duration?: number;
+  aspect_ratio?: string;
+  thumbnail_url?: string | null;
+  thumbnails?: Record<string, string> | null;
+  thumbnail_settings?: ThumbnailSettings | null;
 };
 
 // Placeholder component for missing images
@@ -69,9 +120,9 @@ export default function StoryDetailsPage() {
   const [selectedScene, setSelectedScene] = useState(0);
   const [loading, setLoading] = useState(true);
   const [generatingImages, setGeneratingImages] = useState(false);
-  const [imageProgress, setImageProgress] = useState({ current: 0, total: 0 });
+  const [imageProgress, setImageProgress] = useState<{ current: number; total: number; label?: string }>({ current: 0, total: 0 });
   const [generatingAudios, setGeneratingAudios] = useState(false);
-  const [audioProgress, setAudioProgress] = useState({ current: 0, total: 0 });
+  const [audioProgress, setAudioProgress] = useState<{ current: number; total: number; label?: string }>({ current: 0, total: 0 });
   const [generatingSceneImage, setGeneratingSceneImage] = useState<Set<number>>(new Set());
   const [generatingSceneAudio, setGeneratingSceneAudio] = useState<Set<number>>(new Set());
   const [generatingSceneVideoFromImage, setGeneratingSceneVideoFromImage] = useState<Set<number>>(new Set());
@@ -83,6 +134,8 @@ export default function StoryDetailsPage() {
   const [selectedVideoSceneIndex, setSelectedVideoSceneIndex] = useState<number | null>(null);
   const [generatingVideo, setGeneratingVideo] = useState(false);
   const [videoProgress, setVideoProgress] = useState(0);
+  const [videoJobProgress, setVideoJobProgress] = useState<JobProgressEvent | null>(null);
+  const videoJobUnsubscribeRef = useRef<(() => void) | null>(null);
   const [downloadingVideo, setDownloadingVideo] = useState(false);
   const [downloadConfirmOpen, setDownloadConfirmOpen] = useState(false);
   const videoProgressIntervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -105,7 +158,7 @@ export default function StoryDetailsPage() {
   const [lastVolume, setLastVolume] = useState(0.7); // Remember last volume setting
   const [mediaPreloaded, setMediaPreloaded] = useState(false);
   const [preloadedAudio, setPreloadedAudio] = useState<{[key: number]: HTMLAudioElement}>({});
-  const [aspectRatio, setAspectRatio] = useState<"9:16" | "16:9" | "1:1">("9:16");
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(DEFAULT_ASPECT_RATIO);
   const [sceneProgress, setSceneProgress] = useState(0); // Current scene progress (0 to scene duration)
   const [sceneDuration, setSceneDuration] = useState(0); // Current scene's audio duration
   const [totalProgress, setTotalProgress] = useState(0); // Cumulative progress across all scenes
@@ -123,11 +176,53 @@ export default function StoryDetailsPage() {
   const [effectModalOpen, setEffectModalOpen] = useState(false);
   const [selectedEffectScene, setSelectedEffectScene] = useState<number | null>(null);
 
+  // Custom motion path editor state
+  const [motionEditorOpen, setMotionEditorOpen] = useState(false);
+  const [motionEditorScene, setMotionEditorScene] = useState<number | null>(null);
+
+  // Narration prosody editor state
+  const [prosodyEditorOpen, setProsodyEditorOpen] = useState(false);
+  const [prosodyEditorScene, setProsodyEditorScene] = useState<number | null>(null);
+
+  // Caption word timing editor state
+  const [wordTimingEditorOpen, setWordTimingEditorOpen] = useState(false);
+  const [wordTimingEditorScene, setWordTimingEditorScene] = useState<number | null>(null);
+
+  // Brand kit (watermark preview and caption defaults for stories without saved captions)
+  const [brandKit, setBrandKit] = useState<BrandKit>(DEFAULT_BRAND_KIT);
+  const { fonts: customFonts } = useCustomFonts(); // Uploaded caption fonts, loaded with @font-face for the preview
+  const [brandPlan, setBrandPlan] = useState<PlanId>("free");
+  const brandCaptionsAppliedRef = useRef(false);
+
+  // Sound effects modal state
+  const [sfxModalOpen, setSfxModalOpen] = useState(false);
+  const [sfxModalScene, setSfxModalScene] = useState<number | null>(null);
+
+  // Text layers modal state
+  const [textLayersModalOpen, setTextLayersModalOpen] = useState(false);
+  const [textLayersModalScene, setTextLayersModalScene] = useState<number | null>(null);
+
+  // Transition selection modal state (index of the scene the transition leads out of)
+  const [transitionModalOpen, setTransitionModalOpen] = useState(false);
+  const [selectedTransitionScene, setSelectedTransitionScene] = useState<number | null>(null);
+
   // Overlay selection modal state
   const [overlayModalOpen, setOverlayModalOpen] = useState(false);
   const [selectedOverlayScene, setSelectedOverlayScene] = useState<number | null>(null);
   const [overlays, setOverlays] = useState<Array<{id: string, name: string, category: string, file_url: string, thumbnail_url: string | null}>>([]);
 
+  // Render quality tier and draft preview renders
+  const [renderQuality, setRenderQuality] = useState<RenderQuality>(DEFAULT_RENDER_QUALITY);
+  const [loudnessTarget, setLoudnessTarget] = useState<LoudnessTargetId>(DEFAULT_LOUDNESS_TARGET);
+  const [previewRenderUrl, setPreviewRenderUrl] = useState<string | null>(null);
+  const [exportedVideos, setExportedVideos] = useState<Video[]>([]);
+  const [thumbnailModalOpen, setThumbnailModalOpen] = useState(false);
+  const [videoExports, setVideoExports] = useState<VideoExport[]>([]);
+  const [exportJobs, setExportJobs] = useState<Partial<Record<ExportFormat, JobProgressEvent>>>({});
+  const exportJobUnsubscribesRef = useRef<Map<ExportFormat, () => void>>(new Map());
+  const [batchExportDialogOpen, setBatchExportDialogOpen] = useState(false);
+  const [batchExportFormats, setBatchExportFormats] = useState<AspectRatio[]>([]);
+
   // Video generation success dialog state
   const [videoSuccessDialogOpen, setVideoSuccessDialogOpen] = useState(false);
   const [generatedVideoUrl, setGeneratedVideoUrl] = useState<string | null>(null);
@@ -243,7 +338,7 @@ export default function StoryDetailsPage() {
   const [audioDrawerOpen, setAudioDrawerOpen] = useState(false);
   const [audioDrawerScene, setAudioDrawerScene] = useState<number | null>(null);
   const [selectedVoiceId, setSelectedVoiceId] = useState<string>("alloy"); // Default OpenAI voice
-  const [voices, setVoices] = useState<Array<{id: string; name: string; preview_url?: string; labels?: Record<string, any>}>>([]);
+  const [voices, setVoices] = useState<Array<{id: string; name: string; provider?: string; provider_name?: string; preview_url?: string; labels?: Record<string, any>}>>([]);
   const [loadingVoices, setLoadingVoices] = useState(false);
   const [playingPreviewId, setPlayingPreviewId] = useState<string | null>(null);
   const voicePreviewAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -318,6 +413,7 @@ export default function StoryDetailsPage() {
   const [loadingSampleImages, setLoadingSampleImages] = useState(false);
   const [sampleImagesLoaded, setSampleImagesLoaded] = useState(false);
   const [storyVoicePopoverOpen, setStoryVoicePopoverOpen] = useState(false);
+  const [characterVoicesDialogOpen, setCharacterVoicesDialogOpen] = useState(false);
   const [voiceUpdateConfirmOpen, setVoiceUpdateConfirmOpen] = useState(false);
   const [pendingVoiceId, setPendingVoiceId] = useState<string>("");
   const [pendingVoiceName, setPendingVoiceName] = useState("");
@@ -329,6 +425,11 @@ export default function StoryDetailsPage() {
   const [captionsDrawerOpen, setCaptionsDrawerOpen] = useState(false);
   const [captionsEnabled, setCaptionsEnabled] = useState(true);
   const [captionPositionFromBottom, setCaptionPositionFromBottom] = useState(20); // Default 20% from bottom (0-100 range)
+  const [captionPositionX, setCaptionPositionX] = useState(DEFAULT_CAPTION_LAYOUT.positionX); // Center, % from the left
+  const [captionMaxWidth, setCaptionMaxWidth] = useState(DEFAULT_CAPTION_LAYOUT.maxWidth); // % of the frame width
+  const [captionMaxLines, setCaptionMaxLines] = useState(DEFAULT_CAPTION_LAYOUT.maxLines);
+  const [captionSafeZone, setCaptionSafeZone] = useState<SafeZonePlatform | null>(null); // Platform guide shown in the preview
+  const [captionAvoidSafeZone, setCaptionAvoidSafeZone] = useState(false); // Keep captions inside the guide's safe area
   const [captionFontSize, setCaptionFontSize] = useState(18); // Good default for readability
   const [captionFontWeight, setCaptionFontWeight] = useState(600); // Semi-bold by default
   const [captionFontFamily, setCaptionFontFamily] = useState("Montserrat"); // Default font
@@ -336,6 +437,11 @@ export default function StoryDetailsPage() {
   const [captionInactiveColor, setCaptionInactiveColor] = useState("#FFFFFF"); // White
   const [captionWordsPerBatch, setCaptionWordsPerBatch] = useState(3); // Default 3 words at a time
   const [captionTextTransform, setCaptionTextTransform] = useState<"none" | "uppercase" | "lowercase" | "capitalize">("none");
+  const [captionAnimation, setCaptionAnimation] = useState<CaptionAnimation>(DEFAULT_CAPTION_ANIMATION);
+  const [captionEmphasis, setCaptionEmphasis] = useState(true); // Show emphasis tags
+  const [captionEmphasisColor, setCaptionEmphasisColor] = useState(DEFAULT_EMPHASIS_COLOR);
+  const [captionEmojis, setCaptionEmojis] = useState(true); // Show emoji tags
+  const [captionTagging, setCaptionTagging] = useState(false);
   const [leftPanelView, setLeftPanelView] = useState<"scenes" | "captions" | "background_music" | "preview" | "help">("scenes");
   const [mobileView, setMobileView] = useState<"timeline" | "preview">("timeline"); // Mobile: show timeline or preview
   const [runTour, setRunTour] = useState(false); // Product tour state
@@ -351,6 +457,7 @@ export default function StoryDetailsPage() {
   const [bgMusicUrl, setBgMusicUrl] = useState<string | null>(null);
   const [bgMusicName, setBgMusicName] = useState<string | null>(null);
   const [bgMusicVolume, setBgMusicVolume] = useState(8); // Default 8% volume
+  const [bgMusicMix, setBgMusicMix] = useState<MusicMixSettings>(DEFAULT_MUSIC_MIX); // Ducking and fades
   const [bgMusicUploading, setBgMusicUploading] = useState(false);
   const [bgMusicPlaying, setBgMusicPlaying] = useState(false);
   const bgMusicAudioRef = useRef<HTMLAudioElement | null>(null);
@@ -519,18 +626,7 @@ export default function StoryDetailsPage() {
   }, [volume, preloadedAudio]);
 
   // Get preview dimensions based on aspect ratio - Smaller for cleaner look
-  const getPreviewDimensions = () => {
-    switch (aspectRatio) {
-      case "9:16": // Portrait (mobile/vertical)
-        return { width: 280, height: 498 }; // 9:16 ratio, compact
-      case "16:9": // Landscape (desktop/horizontal)
-        return { width: 498, height: 280 }; // 16:9 ratio, compact
-      case "1:1": // Square
-        return { width: 400, height: 400 }; // 1:1 ratio, compact
-      default:
-        return { width: 400, height: 400 };
-    }
-  };
+  const getPreviewDimensions = () => getAspectRatioConfig(aspectRatio).preview;
 
   // Helper function to get authenticated headers
   const getAuthHeaders = async () => {
@@ -654,6 +750,8 @@ export default function StoryDetailsPage() {
       setStory(data.story);
       setScenes(scenesWithTimestamp);
       setVideo(data.video);
+      setExportedVideos(data.videos || []);
+      setVideoExports(data.exports || []);
 
       // Initialize modifiedScenes from database - scenes where scene_text_modified_at is newer than generation timestamps
       const initialModifiedScenes = new Set<number>();
@@ -681,10 +779,20 @@ export default function StoryDetailsPage() {
         setCaptionFontSize(settings.fontSize ?? 18);
         setCaptionFontWeight(settings.fontWeight ?? 600);
         setCaptionPositionFromBottom(settings.positionFromBottom ?? 20);
+        const layout = normalizeCaptionLayout(settings);
+        setCaptionPositionX(layout.positionX);
+        setCaptionMaxWidth(layout.maxWidth);
+        setCaptionMaxLines(layout.maxLines);
+        setCaptionSafeZone(layout.safeZone);
+        setCaptionAvoidSafeZone(layout.avoidSafeZone);
         setCaptionActiveColor(settings.activeColor ?? "#02f7f3");
         setCaptionInactiveColor(settings.inactiveColor ?? "#FFFFFF");
         setCaptionWordsPerBatch(settings.wordsPerBatch ?? 3);
         setCaptionTextTransform(settings.textTransform ?? "none");
+        setCaptionAnimation(getCaptionAnimation(settings.animation).id);
+        setCaptionEmphasis(settings.emphasis ?? true);
+        setCaptionEmphasisColor(settings.emphasisColor ?? DEFAULT_EMPHASIS_COLOR);
+        setCaptionEmojis(settings.emojis ?? true);
         console.log("📝 Loaded caption settings from database:", settings);
       }
 
@@ -696,12 +804,13 @@ export default function StoryDetailsPage() {
         setBgMusicUrl(bgSettings.music_url ?? null);
         setBgMusicName(bgSettings.music_name ?? null);
         setBgMusicVolume(bgSettings.volume ?? 4);
+        setBgMusicMix(normalizeMusicMix(bgSettings.mix));
         console.log("🎵 Loaded background music settings from database:", bgSettings);
       }
 
       // Load aspect ratio from database if available
       if (data.story?.aspect_ratio) {
-        const ratio = data.story.aspect_ratio as "9:16" | "16:9" | "1:1";
+        const ratio = getAspectRatioConfig(data.story.aspect_ratio).id;
         setAspectRatio(ratio);
         console.log("📐 Loaded aspect ratio from database:", ratio);
       }
@@ -711,11 +820,11 @@ export default function StoryDetailsPage() {
         const jobRes = await fetch(`/api/video_job_status?story_id=${id}`);
         if (jobRes.ok) {
           const jobData = await jobRes.json();
-          if (jobData.status === 'processing') {
-            console.log("🎬 Found active video job, resuming polling:", jobData.id);
+          if (jobData.status === 'queued' || jobData.status === 'processing') {
+            console.log("🎬 Found active video job, following its progress:", jobData.id);
             setGeneratingVideo(true);
             setVideoProgress(jobData.progress || 0);
-            pollVideoJobStatus(jobData.id);
+            followVideoJob(jobData.id);
           }
         }
       } catch (err) {
@@ -875,10 +984,19 @@ export default function StoryDetailsPage() {
       fontSize: captionFontSize,
       fontWeight: captionFontWeight,
       positionFromBottom: captionPositionFromBottom,
+      positionX: captionPositionX,
+      maxWidth: captionMaxWidth,
+      maxLines: captionMaxLines,
+      safeZone: captionSafeZone,
+      avoidSafeZone: captionAvoidSafeZone,
       activeColor: captionActiveColor,
       inactiveColor: captionInactiveColor,
       wordsPerBatch: captionWordsPerBatch,
       textTransform: captionTextTransform,
+      animation: captionAnimation,
+      emphasis: captionEmphasis,
+      emphasisColor: captionEmphasisColor,
+      emojis: captionEmojis,
     };
 
     try {
@@ -907,10 +1025,19 @@ export default function StoryDetailsPage() {
     captionFontSize,
     captionFontWeight,
     captionPositionFromBottom,
+    captionPositionX,
+    captionMaxWidth,
+    captionMaxLines,
+    captionSafeZone,
+    captionAvoidSafeZone,
     captionActiveColor,
     captionInactiveColor,
     captionWordsPerBatch,
     captionTextTransform,
+    captionAnimation,
+    captionEmphasis,
+    captionEmphasisColor,
+    captionEmojis,
   ]);
 
   // Auto-save caption settings when they change (with debouncing)
@@ -930,10 +1057,19 @@ export default function StoryDetailsPage() {
     captionFontSize,
     captionFontWeight,
     captionPositionFromBottom,
+    captionPositionX,
+    captionMaxWidth,
+    captionMaxLines,
+    captionSafeZone,
+    captionAvoidSafeZone,
     captionActiveColor,
     captionInactiveColor,
     captionWordsPerBatch,
     captionTextTransform,
+    captionAnimation,
+    captionEmphasis,
+    captionEmphasisColor,
+    captionEmojis,
     story,
   ]);
 
@@ -973,6 +1109,7 @@ export default function StoryDetailsPage() {
           music_id: bgMusicId,
           volume: bgMusicVolume,
           enabled: bgMusicEnabled,
+          mix: bgMusicMix,
         }),
       });
 
@@ -984,7 +1121,38 @@ export default function StoryDetailsPage() {
     } catch (err) {
       console.error("❌ Error saving background music settings:", err);
     }
-  }, [id, bgMusicId, bgMusicVolume, bgMusicEnabled]);
+  }, [id, bgMusicId, bgMusicVolume, bgMusicEnabled, bgMusicMix]);
+
+  // Load the user's brand kit
+  useEffect(() => {
+    if (!user?.id) return;
+    (async () => {
+      try {
+        const headers = await getAuthHeaders();
+        const res = await fetch("/api/brand_kit", { headers });
+        if (!res.ok) return;
+        const data = await res.json();
+        setBrandKit(data.brand_kit);
+        setBrandPlan(data.plan);
+      } catch (err) {
+        console.error("❌ Error loading brand kit:", err);
+      }
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [user?.id]);
+
+  // Stories that never saved caption settings start from the brand's caption style
+  useEffect(() => {
+    if (!story || story.caption_settings || !brandKit.caption_style || brandCaptionsAppliedRef.current) return;
+    brandCaptionsAppliedRef.current = true;
+    const style = brandKit.caption_style;
+    setCaptionFontFamily(style.fontFamily);
+    setCaptionFontWeight(style.fontWeight);
+    setCaptionActiveColor(style.activeColor);
+    setCaptionInactiveColor(style.inactiveColor);
+    setCaptionTextTransform(style.textTransform);
+    console.log("🏷️ Applied brand caption style:", style);
+  }, [story, brandKit]);
 
   // Load music library when background music panel opens
   useEffect(() => {
@@ -1005,7 +1173,7 @@ export default function StoryDetailsPage() {
 
     return () => clearTimeout(timeoutId);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [bgMusicEnabled, bgMusicVolume, bgMusicId, story]);
+  }, [bgMusicEnabled, bgMusicVolume, bgMusicId, bgMusicMix, story]);
 
   // Handle selecting music from library
   const handleSelectMusicFromLibrary = useCallback((music: any) => {
@@ -1345,9 +1513,6 @@ export default function StoryDetailsPage() {
     });
 
     try {
-      // Show progress as processing
-      setImageProgress({ current: 1, total: scenes.length });
-
       // Get session token for authentication
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
@@ -1383,7 +1548,20 @@ export default function StoryDetailsPage() {
         const errorData = await res.json();
         throw new Error(errorData.error || "Image generation failed");
       }
-      const result = await res.json();
+      const { job_id } = await res.json();
+
+      // Follow the queued job (scene descriptions, reference sheet, each image)
+      const job = await waitForJobProgress(job_id, (event) => {
+        setImageProgress({
+          current: event.scenes?.done ?? 0,
+          total: event.scenes?.total ?? scenes.length,
+          label: describeJobProgress(event),
+        });
+      });
+      if (job.status === 'failed') {
+        throw new Error(job.error || "Image generation failed");
+      }
+      const result = job.result?.summary || {};
 
       // Set progress to complete
       setImageProgress({ current: scenes.length, total: scenes.length });
@@ -1403,7 +1581,7 @@ export default function StoryDetailsPage() {
       await refetchCredits();
 
       // Show success or partial success toast
-      if (result.partial_failure) {
+      if (result.failed_scenes?.length > 0) {
         toast({
           description: `⚠️ Generated ${result.success_count}/${result.total_scenes} images. Failed scenes: ${result.failed_scenes.join(', ')}`,
           variant: "destructive"
@@ -1438,9 +1616,6 @@ export default function StoryDetailsPage() {
     try {
       const finalVoiceId = voiceId || story?.voice_id || "alloy";
 
-      // Show progress as the API processes
-      setAudioProgress({ current: 1, total: scenes.length });
-
       // Get session token for authentication
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) {
@@ -1458,11 +1633,23 @@ export default function StoryDetailsPage() {
           voice_id: finalVoiceId
         }),
       });
-      if (!res.ok) {
-        const errorData = await res.json();
-        throw new Error(errorData.error || "Audio generation failed");
+      const queued = await res.json();
+      // 409 = narration is already being generated for this story - follow it
+      if (!res.ok && !(res.status === 409 && queued.job_id)) {
+        throw new Error(queued.error || "Audio generation failed");
+      }
+
+      // Follow the queued job, one scene at a time
+      const job = await waitForJobProgress(queued.job_id, (event) => {
+        setAudioProgress({
+          current: event.scenes?.done ?? 0,
+          total: event.scenes?.total ?? scenes.length,
+          label: describeJobProgress(event),
+        });
+      });
+      if (job.status === 'failed') {
+        throw new Error(job.error || "Audio generation failed");
       }
-      await res.json();
 
       // Set complete
       setAudioProgress({ current: scenes.length, total: scenes.length });
@@ -1508,6 +1695,8 @@ export default function StoryDetailsPage() {
         setStory(data.story);
         setScenes(data.scenes);
         setVideo(data.video || null);
+        setExportedVideos(data.videos || []);
+        setVideoExports(data.exports || []);
 
         // Explicitly reload audio for all scenes
         console.log("🔄 Reloading audio after bulk generation...");
@@ -1704,7 +1893,7 @@ export default function StoryDetailsPage() {
     }
   };
 
-  // Fetch ElevenLabs voices
+  // Fetch voices from all configured TTS providers
   const fetchVoices = async () => {
     setLoadingVoices(true);
     try {
@@ -1723,17 +1912,16 @@ export default function StoryDetailsPage() {
     setAudioDrawerScene(sceneIndex);
 
     // Voice selection hierarchy:
-    // 1. Scene-specific voice_id (if set and valid - must be a valid ElevenLabs voice ID format)
+    // 1. Scene-specific voice_id (if set and valid)
     // 2. Story default voice_id
     // 3. Global default voice_id
     const scene = scenes[sceneIndex];
 
-    // Valid OpenAI voices: alloy, echo, fable, onyx, nova, shimmer, ash, coral, sage
-    // Also support old ElevenLabs voice IDs (20+ character alphanumeric strings)
+    // Bare OpenAI voices (alloy, nova, ...) and legacy ElevenLabs IDs, or
+    // provider-prefixed IDs such as "elevenlabs:21m00Tcm4TlvDq8ikWAM" or "piper:en_US-amy-medium"
     const isValidVoiceId = (voiceId: string | undefined) => {
       if (!voiceId) return false;
-      // OpenAI voices (4-7 characters) or ElevenLabs IDs (20+ characters)
-      return /^[a-zA-Z0-9]+$/.test(voiceId) && voiceId.length >= 3;
+      return /^([a-z]+:)?[\w.-]+$/.test(voiceId) && voiceId.length >= 3;
     };
 
     const sceneVoiceId = isValidVoiceId(scene?.voice_id) ? scene.voice_id : null;
@@ -1921,7 +2109,7 @@ export default function StoryDetailsPage() {
         },
         body: JSON.stringify({
           query: stockVideoQuery,
-          orientation: story?.aspect_ratio === '16:9' ? 'landscape' : 'portrait',
+          orientation: getStockOrientation(story?.aspect_ratio),
           per_page: 15,
           page,
         }),
@@ -2043,7 +2231,7 @@ export default function StoryDetailsPage() {
         },
         body: JSON.stringify({
           query: stockPhotoQuery,
-          orientation: story?.aspect_ratio === '16:9' ? 'landscape' : 'portrait',
+          orientation: getStockOrientation(story?.aspect_ratio),
           per_page: 15,
           page,
         }),
@@ -2610,8 +2798,8 @@ export default function StoryDetailsPage() {
     }
   };
 
-  const handleDownloadVideo = async () => {
-    if (!video?.video_url) return;
+  const handleDownloadVideo = async (target: Video | null = video) => {
+    if (!target?.video_url) return;
 
     setDownloadConfirmOpen(false);
     setDownloadingVideo(true);
@@ -2620,16 +2808,21 @@ export default function StoryDetailsPage() {
     trackEvent('download_clicked', {
       story_id: id,
       story_title: story?.title,
-      video_duration: video?.duration
+      video_duration: target.duration,
+      aspect_ratio: target.aspect_ratio
     });
 
     try {
-      const response = await fetch(video.video_url);
+      const response = await fetch(target.video_url);
       const blob = await response.blob();
       const url = window.URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
-      a.download = `${story?.title || 'video'}.mp4`;
+      // Extra formats from a batch export get the format in the file name
+      const formatSuffix = target.aspect_ratio && target.aspect_ratio !== aspectRatio
+        ? `-${target.aspect_ratio.replace(':', 'x')}`
+        : '';
+      a.download = `${story?.title || 'video'}${formatSuffix}.mp4`;
       document.body.appendChild(a);
       a.click();
       window.URL.revokeObjectURL(url);
@@ -2650,14 +2843,14 @@ export default function StoryDetailsPage() {
     }
   };
 
-  const generateVideo = async () => {
+  const generateVideo = async (options: { preview?: boolean; formats?: AspectRatio[] } = {}) => {
     if (!id || typeof id !== 'string') return;
 
     setGeneratingVideo(true);
     setVideoProgress(0);
 
     try {
-      console.log("🎬 Starting video generation for story:", id);
+      console.log(`🎬 Starting ${options.preview ? 'preview render' : 'video generation'} for story:`, id);
 
       const headers = await getAuthHeaders();
       const res = await fetch("/api/generate_video", {
@@ -2666,23 +2859,37 @@ export default function StoryDetailsPage() {
         body: JSON.stringify({
           story_id: id,
           aspect_ratio: aspectRatio,
+          quality: renderQuality,
+          loudness_target: loudnessTarget,
+          preview: !!options.preview,
+          formats: options.formats,
           captions: captionsEnabled ? {
             enabled: true,
             fontFamily: captionFontFamily,
             fontSize: captionFontSize,
             fontWeight: captionFontWeight,
             positionFromBottom: captionPositionFromBottom,
+            positionX: captionPositionX,
+            maxWidth: captionMaxWidth,
+            maxLines: captionMaxLines,
+            safeZone: captionSafeZone,
+            avoidSafeZone: captionAvoidSafeZone,
             activeColor: captionActiveColor,
             inactiveColor: captionInactiveColor,
             wordsPerBatch: captionWordsPerBatch,
             textTransform: captionTextTransform,
+            animation: captionAnimation,
+            emphasis: captionEmphasis,
+            emphasisColor: captionEmphasisColor,
+            emojis: captionEmojis,
             style: 'custom',
             position: 'bottom'
           } : { enabled: false },
           background_music: bgMusicEnabled && bgMusicUrl ? {
             enabled: true,
             music_url: bgMusicUrl,
-            volume: bgMusicVolume
+            volume: bgMusicVolume,
+            mix: bgMusicMix
           } : { enabled: false }
         }),
       });
@@ -2716,9 +2923,9 @@ export default function StoryDetailsPage() {
       const data = await res.json();
       console.log("✅ Video generation job started:", data);
 
-      // Start polling for job status
+      // Follow the job's live progress
       if (data.job_id) {
-        pollVideoJobStatus(data.job_id);
+        followVideoJob(data.job_id);
       } else {
         throw new Error("No job_id returned from server");
       }
@@ -2730,63 +2937,195 @@ export default function StoryDetailsPage() {
     }
   };
 
-  // Poll for video job status
-  const pollVideoJobStatus = async (jobId: string) => {
-    const pollInterval = 3000; // Poll every 3 seconds
+  // Follow a video job's live progress (Server-Sent Events from /api/job_progress)
+  const followVideoJob = (jobId: string) => {
+    videoJobUnsubscribeRef.current?.();
 
-    const poll = async () => {
-      try {
-        const res = await fetch(`/api/video_job_status?job_id=${jobId}`);
-        if (!res.ok) {
-          throw new Error("Failed to get job status");
+    const finish = () => {
+      videoJobUnsubscribeRef.current = null;
+      setGeneratingVideo(false);
+      setVideoProgress(0);
+      setVideoJobProgress(null);
+    };
+
+    videoJobUnsubscribeRef.current = subscribeToJobProgress({ job_id: jobId }, async (job) => {
+      console.log("📊 Job progress:", job.status, job.stage, job.progress);
+
+      setVideoProgress(job.progress || 0);
+      setVideoJobProgress(job);
+      const result = job.result || {};
+
+      if (job.status === 'completed' && result.payload?.preview) {
+        // Draft preview - show it without replacing the story's video
+        console.log("✅ Preview render completed:", job);
+        setPreviewRenderUrl(result.video_url);
+        toast({ description: "👀 Preview render ready" });
+
+        finish();
+      } else if (job.status === 'completed') {
+        // Job completed successfully
+        console.log("✅ Video generation completed:", job);
+
+        setVideoProgress(100);
+        setVideo({
+          video_url: result.video_url,
+          is_valid: true,
+          duration: result.duration
+        });
+
+        setGeneratedVideoUrl(result.video_url);
+        setGeneratedVideoDuration(result.duration);
+        setVideoSuccessDialogOpen(true);
+
+        // Reload the saved rows - a batch export saves one video per format for the
+        // download menu, and the thumbnail editor needs the video's id
+        const detailsRes = await fetch(`/api/get_story_details?id=${id}`);
+        if (detailsRes.ok) {
+          const details = await detailsRes.json();
+          setVideo(details.video || null);
+          setExportedVideos(details.videos || []);
+          setVideoExports(details.exports || []);
         }
 
-        const job = await res.json();
-        console.log("📊 Job status:", job.status, "Progress:", job.progress);
+        const loudnessNote = result.loudness?.output ? `, loudness ${result.loudness.output.integrated.toFixed(1)} LUFS` : '';
+        toast({ description: `🎬 Video generated successfully! Duration: ${Math.floor(result.duration)}s${loudnessNote}` });
 
-        // Update progress
-        setVideoProgress(job.progress || 0);
+        finish();
+      } else if (job.status === 'failed') {
+        // Job failed
+        console.error("❌ Video generation failed:", job.error);
+        toast({ description: `Video generation failed: ${job.error || 'Unknown error'}`, variant: "destructive" });
 
-        if (job.status === 'completed') {
-          // Job completed successfully
-          console.log("✅ Video generation completed:", job);
+        finish();
+      }
+    }, () => {
+      console.error("❌ Lost video job progress stream");
+      toast({ description: "Lost connection to server. Please check if video was generated.", variant: "destructive" });
+      finish();
+    });
+  };
 
-          setVideoProgress(100);
-          setVideo({
-            video_url: job.video_url,
-            is_valid: true,
-            duration: job.duration
-          });
+  // Stop following the video job when leaving the page
+  useEffect(() => {
+    return () => videoJobUnsubscribeRef.current?.();
+  }, []);
 
-          setGeneratedVideoUrl(job.video_url);
-          setGeneratedVideoDuration(job.duration);
-          setVideoSuccessDialogOpen(true);
+  const followExportJob = (jobId: string, format: ExportFormat) => {
+    exportJobUnsubscribesRef.current.get(format)?.();
 
-          toast({ description: `🎬 Video generated successfully! Duration: ${Math.floor(job.duration)}s` });
+    const finish = () => {
+      exportJobUnsubscribesRef.current.delete(format);
+      setExportJobs((prev) => {
+        const next = { ...prev };
+        delete next[format];
+        return next;
+      });
+    };
 
-          setGeneratingVideo(false);
-          setVideoProgress(0);
-        } else if (job.status === 'failed') {
-          // Job failed
-          console.error("❌ Video generation failed:", job.error);
-          toast({ description: `Video generation failed: ${job.error || 'Unknown error'}`, variant: "destructive" });
+    const unsubscribe = subscribeToJobProgress({ job_id: jobId }, async (job) => {
+      setExportJobs((prev) => ({ ...prev, [format]: job }));
 
-          setGeneratingVideo(false);
-          setVideoProgress(0);
-        } else {
-          // Still processing - continue polling
-          setTimeout(poll, pollInterval);
+      if (job.status === 'completed') {
+        const detailsRes = await fetch(`/api/get_story_details?id=${id}`);
+        if (detailsRes.ok) {
+          const details = await detailsRes.json();
+          setVideoExports(details.exports || []);
         }
-      } catch (err) {
-        console.error("❌ Error polling job status:", err);
-        toast({ description: "Lost connection to server. Please check if video was generated.", variant: "destructive" });
-        setGeneratingVideo(false);
-        setVideoProgress(0);
+        toast({ description: `📦 ${getExportFormat(format).name} export ready in the download menu` });
+        finish();
+      } else if (job.status === 'failed') {
+        toast({ description: `${getExportFormat(format).name} export failed: ${job.error || 'Unknown error'}`, variant: "destructive" });
+        finish();
       }
-    };
+    }, () => {
+      toast({ description: `Lost connection while exporting ${getExportFormat(format).name}. Check the download menu later.`, variant: "destructive" });
+      finish();
+    });
+
+    exportJobUnsubscribesRef.current.set(format, unsubscribe);
+  };
+
+  // Stop following export jobs when leaving the page
+  useEffect(() => {
+    const unsubscribes = exportJobUnsubscribesRef.current;
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, []);
+
+  const startVideoExport = async (format: ExportFormat) => {
+    if (!video?.id) return;
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/export_video", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ video_id: video.id, format }),
+      });
+
+      const data = await res.json();
+      // 409 = this export is already running - follow it
+      if (!res.ok && !(res.status === 409 && data.job_id)) {
+        throw new Error(data.error || "Failed to start export");
+      }
+
+      followExportJob(data.job_id, format);
+      toast({ description: `📦 Exporting ${getExportFormat(format).name}...` });
+    } catch (err) {
+      console.error("Export error:", err);
+      toast({ description: `Export failed: ${err instanceof Error ? err.message : 'Unknown error'}`, variant: "destructive" });
+    }
+  };
+
+  const handleDownloadSubtitles = async (format: SubtitleFormat, wordTiming = false) => {
+    if (!id || typeof id !== 'string') return;
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Please log in to continue");
 
-    // Start polling
-    poll();
+      await downloadSubtitles({ source: 'story', id, format, word_timing: wordTiming }, session.access_token, story?.title || 'captions');
+      trackEvent('download_clicked', { story_id: id, story_title: story?.title, format });
+      toast({ description: `📝 ${getSubtitleFormat(format).name} captions downloaded` });
+    } catch (err) {
+      console.error("Subtitle export error:", err);
+      toast({ description: `Caption export failed: ${err instanceof Error ? err.message : 'Unknown error'}`, variant: "destructive" });
+    }
+  };
+
+  const handleDownloadExport = async (exported: VideoExport) => {
+    const format = getExportFormat(exported.format);
+    const baseName = `${story?.title || 'video'}${video?.aspect_ratio && video.aspect_ratio !== aspectRatio ? `-${video.aspect_ratio.replace(':', 'x')}` : ''}`;
+
+    trackEvent('download_clicked', {
+      story_id: id,
+      story_title: story?.title,
+      format: exported.format,
+      aspect_ratio: video?.aspect_ratio
+    });
+
+    try {
+      const response = await fetch(exported.file_url);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${baseName}.${format.extension}`;
+      document.body.appendChild(a);
+      a.click();
+      window.URL.revokeObjectURL(url);
+      document.body.removeChild(a);
+      toast({
+        title: "Download started!",
+        description: `Your ${format.name} is being downloaded`,
+      });
+    } catch (error) {
+      console.error('Export download failed:', error);
+      toast({
+        title: "Download failed",
+        description: "Please try again",
+        variant: "destructive"
+      });
+    }
   };
 
   const clearStuckJob = async () => {
@@ -2807,8 +3146,11 @@ export default function StoryDetailsPage() {
       }
 
       // Reset video generation state
+      videoJobUnsubscribeRef.current?.();
+      videoJobUnsubscribeRef.current = null;
       setGeneratingVideo(false);
       setVideoProgress(0);
+      setVideoJobProgress(null);
 
       // Clear progress interval if exists
       if (videoProgressIntervalRef.current) {
@@ -3957,7 +4299,7 @@ export default function StoryDetailsPage() {
     }
   };
 
-  const updateSceneOverlay = async (sceneIndex: number, overlayId: string | null, overlayUrl?: string) => {
+  const updateSceneMotionPath = async (sceneIndex: number, motionPath: MotionPath) => {
     if (!scenes[sceneIndex]?.id) return;
 
     try {
@@ -3967,186 +4309,480 @@ export default function StoryDetailsPage() {
         headers,
         body: JSON.stringify({
           scene_id: scenes[sceneIndex].id,
-          overlay_id: overlayId,
-          overlay_url: overlayUrl || null,
+          effect_id: "custom",
+          motion_path: motionPath,
         }),
       });
 
-      if (!res.ok) throw new Error("Failed to update overlay");
+      if (!res.ok) throw new Error("Failed to update motion path");
+      const data = await res.json();
 
-      // Update local state immediately
+      // Use the normalized path returned by the API
       const updatedScenes = [...scenes];
-      const newEffects: any = {
-        ...updatedScenes[sceneIndex].effects,
-      };
-
-      if (overlayId === null) {
-        delete newEffects.overlay_id;
-        delete newEffects.overlay_url;
-      } else {
-        newEffects.overlay_id = overlayId;
-        if (overlayUrl) {
-          newEffects.overlay_url = overlayUrl;
-        }
-      }
-
       updatedScenes[sceneIndex] = {
         ...updatedScenes[sceneIndex],
-        effects: newEffects
+        effects: data.effects
       };
       setScenes(updatedScenes);
 
-      console.log(`✅ Overlay updated for scene ${sceneIndex + 1}: ${overlayId || 'none'}`);
+      console.log(`✅ Custom motion path saved for scene ${sceneIndex + 1}: ${motionPath.keyframes.length} keyframes`);
     } catch (err) {
-      console.error("Overlay update error:", err);
-      alert(`Failed to update overlay: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error("Motion path update error:", err);
+      alert(`Failed to save motion path: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
-  const saveStoryTitle = async () => {
-    if (!id || !editTitleText.trim()) return;
-
-    setSavingTitle(true);
+  const updateSceneProsody = async (sceneIndex: number, prosody: SceneProsody | null) => {
+    if (!scenes[sceneIndex]?.id) return;
 
     try {
       const headers = await getAuthHeaders();
-      const res = await fetch("/api/update_story_title", {
+      const res = await fetch("/api/update_scene_prosody", {
         method: "POST",
         headers,
         body: JSON.stringify({
-          story_id: id,
-          title: editTitleText.trim()
+          scene_id: scenes[sceneIndex].id,
+          prosody,
         }),
       });
 
-      if (!res.ok) throw new Error("Failed to update story title");
+      if (!res.ok) throw new Error("Failed to update narration delivery");
+      const data = await res.json();
 
-      // Update local state immediately
-      setStory({ ...story, title: editTitleText.trim() });
-      setEditingTitle(false);
-      setEditTitleText("");
+      const updatedScenes = [...scenes];
+      updatedScenes[sceneIndex] = {
+        ...updatedScenes[sceneIndex],
+        prosody: data.prosody
+      };
+      setScenes(updatedScenes);
+
+      toast({
+        description: scenes[sceneIndex].audio_url
+          ? "Narration delivery saved - regenerate the scene's audio to hear it"
+          : "Narration delivery saved",
+      });
     } catch (err) {
-      console.error("Title edit error:", err);
-      alert(`Failed to update title: ${err instanceof Error ? err.message : 'Unknown error'}`);
-    } finally {
-      setSavingTitle(false);
+      console.error("Prosody update error:", err);
+      alert(`Failed to save narration delivery: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
-  const updateAspectRatio = async (newRatio: "9:16" | "16:9" | "1:1") => {
-    if (!id) return;
+  // Throws so the timing editor can stay open and show the error
+  const updateSceneWordTimings = async (sceneIndex: number, words: TimedWord[]) => {
+    const scene = scenes[sceneIndex];
+    if (!scene?.id) return;
+
+    const headers = await getAuthHeaders();
+    const res = await fetch("/api/word_timestamps", {
+      method: "PUT",
+      headers,
+      body: JSON.stringify({ source: "scene", id: scene.id, word_timestamps: words }),
+    });
+
+    const data = await res.json();
+    if (!res.ok) throw new Error(data.error || "Failed to save caption timing");
+
+    setScenes((prev) => prev.map((s) => (s.id === scene.id ? { ...s, word_timestamps: data.word_timestamps } : s)));
+    toast({ description: `Caption timing saved (${data.word_timestamps.length} words)` });
+  };
+
+  const updateSceneSfx = async (sceneIndex: number, sfxCues: SfxCue[]) => {
+    if (!scenes[sceneIndex]?.id) return;
 
     try {
       const headers = await getAuthHeaders();
-      const res = await fetch("/api/update_story", {
+      const res = await fetch("/api/update_scene_sfx", {
         method: "POST",
         headers,
         body: JSON.stringify({
-          story_id: id,
-          aspect_ratio: newRatio
+          scene_id: scenes[sceneIndex].id,
+          sfx_cues: sfxCues,
         }),
       });
 
-      if (!res.ok) throw new Error("Failed to update aspect ratio");
+      if (!res.ok) throw new Error("Failed to update sound effects");
+      const data = await res.json();
 
-      // Update local state immediately
-      setAspectRatio(newRatio);
-      setStory({ ...story, aspect_ratio: newRatio });
-      console.log(`✅ Updated story aspect ratio to: ${newRatio}`);
+      const updatedScenes = [...scenes];
+      updatedScenes[sceneIndex] = {
+        ...updatedScenes[sceneIndex],
+        sfx_cues: data.sfx_cues
+      };
+      setScenes(updatedScenes);
+
+      toast({ description: `Sound effects saved (${data.sfx_cues.length} cue${data.sfx_cues.length === 1 ? '' : 's'})` });
     } catch (err) {
-      console.error("Aspect ratio update error:", err);
-      alert(`Failed to update aspect ratio: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      console.error("SFX update error:", err);
+      alert(`Failed to save sound effects: ${err instanceof Error ? err.message : 'Unknown error'}`);
     }
   };
 
-  const startEditingTitle = () => {
-    setEditTitleText(story?.title || "");
-    setEditingTitle(true);
-  };
-
-  const cancelEditingTitle = () => {
-    setEditingTitle(false);
-    setEditTitleText("");
-  };
-
-  const handleDeleteClick = (sceneIndex: number) => {
-    setSceneToDelete(sceneIndex);
-    setDeleteDialogOpen(true);
-  };
-
-  const confirmDelete = async () => {
-    if (sceneToDelete === null || !id || !scenes[sceneToDelete]) return;
-
-    setDeletingScene(true);
+  const updateSceneTextLayers = async (sceneIndex: number, textLayers: TextLayer[]) => {
+    if (!scenes[sceneIndex]?.id) return;
 
     try {
       const headers = await getAuthHeaders();
-      const res = await fetch("/api/delete_scene", {
+      const res = await fetch("/api/update_scene_text_layers", {
         method: "POST",
         headers,
         body: JSON.stringify({
-          story_id: id,
-          scene_id: scenes[sceneToDelete].id,
-          scene_order: sceneToDelete
+          scene_id: scenes[sceneIndex].id,
+          text_layers: textLayers,
         }),
       });
 
-      if (!res.ok) throw new Error("Failed to delete scene");
+      if (!res.ok) throw new Error("Failed to update text layers");
+      const data = await res.json();
 
-      // Update local state immediately
-      const updatedScenes = scenes.filter((_, index) => index !== sceneToDelete);
+      const updatedScenes = [...scenes];
+      updatedScenes[sceneIndex] = {
+        ...updatedScenes[sceneIndex],
+        text_layers: data.text_layers
+      };
       setScenes(updatedScenes);
 
-      // Update selected scene if necessary
-      if (selectedScene >= sceneToDelete && selectedScene > 0) {
-        setSelectedScene(selectedScene - 1);
-      }
+      toast({ description: `Text layers saved (${data.text_layers.length} layer${data.text_layers.length === 1 ? '' : 's'})` });
+    } catch (err) {
+      console.error("Text layers update error:", err);
+      alert(`Failed to save text layers: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
 
-      // Update modified scenes set
-      const newModified = new Set<number>();
-      modifiedScenes.forEach(index => {
-        if (index < sceneToDelete) {
-          newModified.add(index);
-        } else if (index > sceneToDelete) {
-          newModified.add(index - 1);
-        }
+  // Emphasis words and emojis for every scene's captions (LLM, falling back to rules)
+  const autoTagCaptions = async () => {
+    if (!id) return;
+    setCaptionTagging(true);
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/generate_caption_tags", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ story_id: id }),
       });
-      setModifiedScenes(newModified);
 
-      // Close dialog and reset state
-      setDeleteDialogOpen(false);
-      setSceneToDelete(null);
-      setDeletingScene(false);
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to tag captions");
+
+      const tagged = new Map<string, CaptionTaggedWord[]>(data.scenes.map((s: any) => [s.id, s.word_timestamps]));
+      setScenes((prev) => prev.map((scene) => (tagged.has(scene.id) ? { ...scene, word_timestamps: tagged.get(scene.id) } : scene)));
 
+      toast({ description: `Tagged captions in ${data.scenes.length} scene${data.scenes.length === 1 ? "" : "s"}${data.source === "rules" ? " (keyword rules)" : ""}` });
     } catch (err) {
-      console.error("Scene delete error:", err);
-      alert(`Failed to delete scene: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      setDeleteDialogOpen(false);
-      setSceneToDelete(null);
-      setDeletingScene(false);
+      console.error("Caption tagging error:", err);
+      toast({ description: err instanceof Error ? err.message : "Failed to tag captions", variant: "destructive" });
+    } finally {
+      setCaptionTagging(false);
     }
   };
 
-  const handleAddScene = async () => {
-    if (addScenePosition === null || !id) return;
+  const updateSceneCaptionTags = async (sceneIndex: number, words: CaptionTaggedWord[]) => {
+    const scene = scenes[sceneIndex];
+    if (!scene?.id) return;
+
+    // Show the edit right away, roll back if it doesn't save
+    const previous = scene.word_timestamps;
+    setScenes((prev) => prev.map((s, i) => (i === sceneIndex ? { ...s, word_timestamps: words } : s)));
 
-    setAddingScene(true);
     try {
       const headers = await getAuthHeaders();
-      const res = await fetch("/api/add_scene", {
+      const res = await fetch("/api/update_scene_caption_tags", {
         method: "POST",
         headers,
         body: JSON.stringify({
-          story_id: id,
-          scene_text: newSceneText.trim(), // Can be empty string - useful for video uploads
-          position: addScenePosition // 0 = before first scene, 1 = after first scene, etc.
+          scene_id: scene.id,
+          tags: words.map((w) => ({ emphasis: w.emphasis ?? false, emoji: w.emoji ?? null })),
         }),
       });
 
-      if (!res.ok) throw new Error("Failed to add scene");
-
-      const result = await res.json();
-
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to save caption tags");
+    } catch (err) {
+      console.error("Caption tags update error:", err);
+      setScenes((prev) => prev.map((s, i) => (i === sceneIndex ? { ...s, word_timestamps: previous } : s)));
+      toast({ description: err instanceof Error ? err.message : "Failed to save caption tags", variant: "destructive" });
+    }
+  };
+
+  const generateThumbnail = async (settings: ThumbnailSettings) => {
+    if (!video?.id) return;
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/generate_thumbnail", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ video_id: video.id, settings }),
+      });
+
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to generate thumbnail");
+
+      setVideo((prev) => (prev?.id === data.video.id ? { ...prev, ...data.video } : prev));
+      setExportedVideos((prev) => prev.map((v) => (v.id === data.video.id ? { ...v, ...data.video } : v)));
+
+      const count = Object.keys(data.thumbnails).length;
+      toast({ description: `🖼️ Thumbnail exported (${count} size${count === 1 ? '' : 's'})` });
+    } catch (err) {
+      console.error("Thumbnail generation error:", err);
+      alert(`Failed to generate thumbnail: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const updateSceneTransition = async (sceneIndex: number, transitionId: TransitionType, duration: number) => {
+    if (!scenes[sceneIndex]?.id) return;
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/update_scene_effect", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          scene_id: scenes[sceneIndex].id,
+          transition: transitionId,
+          transition_duration: transitionId === "none" ? undefined : duration,
+        }),
+      });
+
+      if (!res.ok) throw new Error("Failed to update transition");
+
+      // Update local state immediately - preserve motion and overlay
+      const updatedScenes = [...scenes];
+      const newEffects: any = {
+        ...updatedScenes[sceneIndex].effects,
+      };
+
+      if (transitionId === "none") {
+        delete newEffects.transition;
+        delete newEffects.transition_duration;
+      } else {
+        newEffects.transition = transitionId;
+        newEffects.transition_duration = duration;
+      }
+
+      updatedScenes[sceneIndex] = {
+        ...updatedScenes[sceneIndex],
+        effects: newEffects
+      };
+      setScenes(updatedScenes);
+
+      console.log(`✅ Transition updated after scene ${sceneIndex + 1}: ${transitionId}`);
+    } catch (err) {
+      console.error("Transition update error:", err);
+      alert(`Failed to update transition: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const updateSceneOverlays = async (sceneIndex: number, sceneOverlays: SceneOverlay[]) => {
+    if (!scenes[sceneIndex]?.id) return;
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/update_scene_effect", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          scene_id: scenes[sceneIndex].id,
+          overlays: sceneOverlays,
+        }),
+      });
+
+      if (!res.ok) throw new Error("Failed to update overlays");
+      const data = await res.json();
+
+      const updatedScenes = [...scenes];
+      updatedScenes[sceneIndex] = {
+        ...updatedScenes[sceneIndex],
+        effects: data.effects
+      };
+      setScenes(updatedScenes);
+
+      console.log(`✅ Overlays updated for scene ${sceneIndex + 1}: ${sceneOverlays.length ? sceneOverlays.map((o) => o.overlay_id).join(', ') : 'none'}`);
+    } catch (err) {
+      console.error("Overlay update error:", err);
+      alert(`Failed to update overlays: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const saveStoryTitle = async () => {
+    if (!id || !editTitleText.trim()) return;
+
+    setSavingTitle(true);
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/update_story_title", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          story_id: id,
+          title: editTitleText.trim()
+        }),
+      });
+
+      if (!res.ok) throw new Error("Failed to update story title");
+
+      // Update local state immediately
+      setStory({ ...story, title: editTitleText.trim() });
+      setEditingTitle(false);
+      setEditTitleText("");
+    } catch (err) {
+      console.error("Title edit error:", err);
+      alert(`Failed to update title: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setSavingTitle(false);
+    }
+  };
+
+  const updateAspectRatio = async (newRatio: AspectRatio) => {
+    if (!id) return;
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/update_story", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          story_id: id,
+          aspect_ratio: newRatio
+        }),
+      });
+
+      if (!res.ok) throw new Error("Failed to update aspect ratio");
+
+      // Update local state immediately
+      setAspectRatio(newRatio);
+      setStory({ ...story, aspect_ratio: newRatio });
+      console.log(`✅ Updated story aspect ratio to: ${newRatio}`);
+    } catch (err) {
+      console.error("Aspect ratio update error:", err);
+      alert(`Failed to update aspect ratio: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  // Characters that can speak: the character library plus any speaker tagged in a scene
+  const getDialogueCharacters = (): string[] => {
+    const names: string[] = (story?.character_library?.characters || []).map((c: any) => c.name).filter(Boolean);
+    for (const scene of scenes) {
+      for (const speaker of getSpeakers(scene.text || "")) {
+        if (!names.some((n) => n.toLowerCase() === speaker.toLowerCase())) names.push(speaker);
+      }
+    }
+    return names;
+  };
+
+  const saveCharacterVoices = async (characterVoices: CharacterVoices) => {
+    if (!id) return;
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/update_story", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          story_id: id,
+          character_voices: characterVoices
+        }),
+      });
+
+      if (!res.ok) throw new Error("Failed to update character voices");
+
+      setStory((prev: any) => ({ ...prev, character_voices: characterVoices }));
+      toast({ description: "Character voices saved. Regenerate audio for dialogue scenes to apply them." });
+    } catch (err) {
+      console.error("Character voices update error:", err);
+      alert(`Failed to update character voices: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  const startEditingTitle = () => {
+    setEditTitleText(story?.title || "");
+    setEditingTitle(true);
+  };
+
+  const cancelEditingTitle = () => {
+    setEditingTitle(false);
+    setEditTitleText("");
+  };
+
+  const handleDeleteClick = (sceneIndex: number) => {
+    setSceneToDelete(sceneIndex);
+    setDeleteDialogOpen(true);
+  };
+
+  const confirmDelete = async () => {
+    if (sceneToDelete === null || !id || !scenes[sceneToDelete]) return;
+
+    setDeletingScene(true);
+
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/delete_scene", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          story_id: id,
+          scene_id: scenes[sceneToDelete].id,
+          scene_order: sceneToDelete
+        }),
+      });
+
+      if (!res.ok) throw new Error("Failed to delete scene");
+
+      // Update local state immediately
+      const updatedScenes = scenes.filter((_, index) => index !== sceneToDelete);
+      setScenes(updatedScenes);
+
+      // Update selected scene if necessary
+      if (selectedScene >= sceneToDelete && selectedScene > 0) {
+        setSelectedScene(selectedScene - 1);
+      }
+
+      // Update modified scenes set
+      const newModified = new Set<number>();
+      modifiedScenes.forEach(index => {
+        if (index < sceneToDelete) {
+          newModified.add(index);
+        } else if (index > sceneToDelete) {
+          newModified.add(index - 1);
+        }
+      });
+      setModifiedScenes(newModified);
+
+      // Close dialog and reset state
+      setDeleteDialogOpen(false);
+      setSceneToDelete(null);
+      setDeletingScene(false);
+
+    } catch (err) {
+      console.error("Scene delete error:", err);
+      alert(`Failed to delete scene: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      setDeleteDialogOpen(false);
+      setSceneToDelete(null);
+      setDeletingScene(false);
+    }
+  };
+
+  const handleAddScene = async () => {
+    if (addScenePosition === null || !id) return;
+
+    setAddingScene(true);
+    try {
+      const headers = await getAuthHeaders();
+      const res = await fetch("/api/add_scene", {
+        method: "POST",
+        headers,
+        body: JSON.stringify({
+          story_id: id,
+          scene_text: newSceneText.trim(), // Can be empty string - useful for video uploads
+          position: addScenePosition // 0 = before first scene, 1 = after first scene, etc.
+        }),
+      });
+
+      if (!res.ok) throw new Error("Failed to add scene");
+
+      const result = await res.json();
+
       // Update local state with the updated scenes (includes cache-busting for existing media)
       if (result.updated_scenes) {
         const timestamp = Date.now();
@@ -4368,7 +5004,12 @@ export default function StoryDetailsPage() {
                             className="flex-1 text-left min-w-0 flex items-center justify-between"
                           >
                             <div className="flex-1 min-w-0">
-                              <div className="text-sm text-white">{voice.name}</div>
+                              <div className="text-sm text-white">
+                                {voice.name}
+                                {voice.provider && voice.provider !== "openai" && (
+                                  <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-700 text-[10px] text-gray-300 align-middle">{voice.provider_name}</span>
+                                )}
+                              </div>
                               {voice.labels && formatVoiceLabels(voice.labels) && (
                                 <div className="text-xs text-gray-500 truncate">
                                   {formatVoiceLabels(voice.labels)}
@@ -4400,6 +5041,16 @@ export default function StoryDetailsPage() {
                       <div className="px-3 py-2 text-sm text-gray-500">No voices available</div>
                     )}
                   </div>
+                  <button
+                    onClick={() => {
+                      setStoryVoicePopoverOpen(false);
+                      setCharacterVoicesDialogOpen(true);
+                      if (voices.length === 0) fetchVoices();
+                    }}
+                    className="w-full mt-1 px-3 py-2 rounded-md text-left text-sm text-gray-300 hover:bg-gray-800 border-t border-gray-800"
+                  >
+                    Character Voices...
+                  </button>
                 </div>
               </PopoverContent>
             </Popover>
@@ -4548,67 +5199,39 @@ export default function StoryDetailsPage() {
                 >
                   <Maximize className="w-3 h-3 md:w-4 md:h-4 md:mr-2" />
                   <span className="hidden md:inline">
-                    {aspectRatio === "9:16" && "9:16"}
-                    {aspectRatio === "16:9" && "16:9"}
-                    {aspectRatio === "1:1" && "1:1"}
+                    {aspectRatio}
                   </span>
                   <ChevronDown className="w-3 h-3 md:w-4 md:h-4 ml-1 md:ml-2 opacity-50" />
                 </Button>
               </PopoverTrigger>
-              <PopoverContent className="w-48 p-0 bg-gray-900 border-gray-700" align="start">
+              <PopoverContent className="w-56 p-0 bg-gray-900 border-gray-700" align="start">
                 <div className="p-2">
                   <div className="px-2 py-1.5 text-xs font-medium text-gray-400 mb-1">
                     Aspect Ratio
                   </div>
                   <div className="space-y-1">
-                    <button
-                      onClick={() => {
-                        updateAspectRatio("9:16");
-                        setAspectRatioPopoverOpen(false);
-                      }}
-                      className={`w-full flex items-center justify-between px-3 py-2 text-sm rounded-md transition-colors ${
-                        aspectRatio === "9:16"
-                          ? "bg-orange-900/30 text-white"
-                          : "text-gray-300 hover:bg-gray-800"
-                      }`}
-                    >
-                      <span>9:16 (Portrait)</span>
-                      {aspectRatio === "9:16" && (
-                        <Check className="w-4 h-4 text-orange-400" />
-                      )}
-                    </button>
-                    <button
-                      onClick={() => {
-                        updateAspectRatio("16:9");
-                        setAspectRatioPopoverOpen(false);
-                      }}
-                      className={`w-full flex items-center justify-between px-3 py-2 text-sm rounded-md transition-colors ${
-                        aspectRatio === "16:9"
-                          ? "bg-orange-900/30 text-white"
-                          : "text-gray-300 hover:bg-gray-800"
-                      }`}
-                    >
-                      <span>16:9 (Landscape)</span>
-                      {aspectRatio === "16:9" && (
-                        <Check className="w-4 h-4 text-orange-400" />
-                      )}
-                    </button>
-                    <button
-                      onClick={() => {
-                        updateAspectRatio("1:1");
-                        setAspectRatioPopoverOpen(false);
-                      }}
-                      className={`w-full flex items-center justify-between px-3 py-2 text-sm rounded-md transition-colors ${
-                        aspectRatio === "1:1"
-                          ? "bg-orange-900/30 text-white"
-                          : "text-gray-300 hover:bg-gray-800"
-                      }`}
-                    >
-                      <span>1:1 (Square)</span>
-                      {aspectRatio === "1:1" && (
-                        <Check className="w-4 h-4 text-orange-400" />
-                      )}
-                    </button>
+                    {getAllAspectRatios().map((ratio) => (
+                      <button
+                        key={ratio.id}
+                        onClick={() => {
+                          updateAspectRatio(ratio.id);
+                          setAspectRatioPopoverOpen(false);
+                        }}
+                        className={`w-full flex items-center justify-between px-3 py-2 text-sm rounded-md transition-colors ${
+                          aspectRatio === ratio.id
+                            ? "bg-orange-900/30 text-white"
+                            : "text-gray-300 hover:bg-gray-800"
+                        }`}
+                      >
+                        <span className="text-left">
+                          {ratio.id} ({ratio.name})
+                          <span className="block text-xs text-gray-500">{ratio.platforms}</span>
+                        </span>
+                        {aspectRatio === ratio.id && (
+                          <Check className="w-4 h-4 text-orange-400" />
+                        )}
+                      </button>
+                    ))}
                   </div>
                 </div>
               </PopoverContent>
@@ -4727,7 +5350,31 @@ export default function StoryDetailsPage() {
                     {scenes.map((scene, index) => (
                 <div key={`scene-wrapper-${scene.id}-${scene.image_url || 'no-image'}`}>
                   {/* Add Scene Button - appears before each scene */}
-                  <div className="flex justify-center my-2">
+                  <div className="flex justify-center items-center gap-2 my-2">
+                    {/* Transition from the previous scene into this one */}
+                    {index > 0 && (
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <button
+                            onClick={() => {
+                              setSelectedTransitionScene(index - 1);
+                              setTransitionModalOpen(true);
+                            }}
+                            className={`flex items-center gap-1 h-7 px-2 rounded-full text-xs transition-colors border ${
+                              scenes[index - 1].effects?.transition
+                                ? 'bg-orange-900/30 text-orange-400 border-orange-700 hover:bg-orange-900/50'
+                                : 'bg-gray-800 text-gray-400 border-gray-700 hover:bg-gray-700 hover:text-white hover:border-gray-600'
+                            }`}
+                          >
+                            <Shuffle className="w-3.5 h-3.5" />
+                            {getTransition(scenes[index - 1].effects?.transition).name}
+                          </button>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          <p>Transition between scene {index} and scene {index + 1}</p>
+                        </TooltipContent>
+                      </Tooltip>
+                    )}
                     <Tooltip>
                       <TooltipTrigger asChild>
                         <button
@@ -4872,6 +5519,26 @@ export default function StoryDetailsPage() {
                               {scene.text}
                             </div>
 
+                            {/* Sound effect cues */}
+                            {scene.sfx_cues && scene.sfx_cues.length > 0 && (
+                              <div className="flex flex-wrap gap-1">
+                                {scene.sfx_cues.map((cue) => (
+                                  <span
+                                    key={cue.id}
+                                    className="inline-flex items-center gap-1 px-1.5 py-0.5 rounded bg-orange-900/40 text-orange-300 text-[10px]"
+                                  >
+                                    <Zap className="w-2.5 h-2.5" />
+                                    {cue.name}
+                                    <span className="text-orange-400/70">
+                                      {cue.anchor === 'word' && cue.word_index !== null
+                                        ? `@ "${getSpokenWords(scene.text)[cue.word_index] ?? `word ${cue.word_index + 1}`}"`
+                                        : `@ ${cue.offset.toFixed(1)}s`}
+                                    </span>
+                                  </span>
+                                ))}
+                              </div>
+                            )}
+
                             {/* Scene Description hidden per user request */}
                           </div>
                         )}
@@ -5164,10 +5831,54 @@ export default function StoryDetailsPage() {
                               </button>
                             </TooltipTrigger>
                             <TooltipContent>
-                              <p>Add overlay effect ({(scene.effects as any)?.overlay_id ? 'selected' : 'none'})</p>
+                              <p>Add overlay effects ({getSceneOverlays(scene.effects).length || 'none'})</p>
                             </TooltipContent>
                           </Tooltip>
                         )}
+
+                        {/* Sound Effects Button - Icon Only, with a count of the scene's cues */}
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setSfxModalScene(index);
+                                setSfxModalOpen(true);
+                              }}
+                              className={`p-1.5 rounded transition-colors flex items-center gap-1 ${
+                                scene.sfx_cues?.length ? 'bg-orange-900/50 hover:bg-orange-900/70 text-orange-300' : 'bg-gray-800 hover:bg-gray-700 text-white'
+                              }`}
+                            >
+                              <Zap className="w-3.5 h-3.5" />
+                              {scene.sfx_cues?.length ? <span className="text-[10px]">{scene.sfx_cues.length}</span> : null}
+                            </button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{scene.sfx_cues?.length ? `Edit sound effects (${scene.sfx_cues.length})` : 'Add sound effects'}</p>
+                          </TooltipContent>
+                        </Tooltip>
+
+                        {/* Text Layers Button - Icon Only, with a count of the scene's layers */}
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setTextLayersModalScene(index);
+                                setTextLayersModalOpen(true);
+                              }}
+                              className={`p-1.5 rounded transition-colors flex items-center gap-1 ${
+                                scene.text_layers?.length ? 'bg-orange-900/50 hover:bg-orange-900/70 text-orange-300' : 'bg-gray-800 hover:bg-gray-700 text-white'
+                              }`}
+                            >
+                              <Heading className="w-3.5 h-3.5" />
+                              {scene.text_layers?.length ? <span className="text-[10px]">{scene.text_layers.length}</span> : null}
+                            </button>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{scene.text_layers?.length ? `Edit text layers (${scene.text_layers.length})` : 'Add title, lower third or call-out text'}</p>
+                          </TooltipContent>
+                        </Tooltip>
                       </div>
                       <div className="flex gap-1.5">
                         {/* Edit Button */}
@@ -5334,6 +6045,85 @@ export default function StoryDetailsPage() {
                       />
                     </div>
 
+                    {/* Caption Position from Left (center of the caption block) */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-3">
+                        Position from Left: <span className="text-orange-400 font-bold">{captionPositionX}%</span>
+                      </label>
+                      <Slider
+                        value={[captionPositionX]}
+                        onValueChange={(value) => setCaptionPositionX(value[0])}
+                        min={0}
+                        max={100}
+                        step={1}
+                        className="w-full"
+                      />
+                    </div>
+
+                    {/* Max Line Width */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-3">
+                        Max Width: <span className="text-orange-400 font-bold">{captionMaxWidth}%</span>
+                      </label>
+                      <Slider
+                        value={[captionMaxWidth]}
+                        onValueChange={(value) => setCaptionMaxWidth(value[0])}
+                        min={MIN_CAPTION_WIDTH}
+                        max={100}
+                        step={1}
+                        className="w-full"
+                      />
+                    </div>
+
+                    {/* Max Lines */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-3">
+                        Lines
+                      </label>
+                      <select
+                        value={captionMaxLines}
+                        onChange={(e) => setCaptionMaxLines(Number(e.target.value))}
+                        className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded text-gray-300"
+                      >
+                        {Array.from({ length: MAX_CAPTION_LINES }, (_, i) => i + 1).map((lines) => (
+                          <option key={lines} value={lines}>
+                            Up to {lines} {lines === 1 ? 'line' : 'lines'}
+                          </option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-2">Batches that don&apos;t fit are shrunk to stay within the lines</p>
+                    </div>
+
+                    {/* Platform Safe Zone */}
+                    <div className="space-y-3">
+                      <label className="block text-sm font-medium text-gray-300">
+                        Safe Zone Guide
+                      </label>
+                      <select
+                        value={captionSafeZone || ''}
+                        onChange={(e) => setCaptionSafeZone((e.target.value || null) as SafeZonePlatform | null)}
+                        className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded text-gray-300"
+                      >
+                        <option value="">None</option>
+                        {getSafeZonesForAspectRatio(aspectRatio).map((zone) => (
+                          <option key={zone.id} value={zone.id}>
+                            {zone.name}
+                          </option>
+                        ))}
+                      </select>
+                      {captionSafeZone && (
+                        <label className="flex items-center justify-between cursor-pointer">
+                          <span className="text-sm text-gray-300">Keep captions inside the safe area</span>
+                          <input
+                            type="checkbox"
+                            checked={captionAvoidSafeZone}
+                            onChange={(e) => setCaptionAvoidSafeZone(e.target.checked)}
+                            className="accent-orange-500"
+                          />
+                        </label>
+                      )}
+                    </div>
+
                     {/* Font Family */}
                     <div>
                       <label className="block text-sm font-medium text-gray-300 mb-3">
@@ -5351,6 +6141,13 @@ export default function StoryDetailsPage() {
                           paddingRight: '2.5rem',
                         }}
                       >
+                        {customFonts.length > 0 && (
+                          <optgroup label="My Fonts" className="bg-gray-900 text-gray-400">
+                            {getCustomFontFamilies(customFonts).map((family) => (
+                              <option key={family} value={family}>{family}</option>
+                            ))}
+                          </optgroup>
+                        )}
                         {Array.from(getFontsByCategory()).map(([category, fonts]) => (
                           <optgroup key={category} label={category} className="bg-gray-900 text-gray-400">
                             {fonts.map(font => (
@@ -5359,6 +6156,12 @@ export default function StoryDetailsPage() {
                           </optgroup>
                         ))}
                       </select>
+                      <button
+                        onClick={() => router.push('/brand-kit')}
+                        className="text-xs text-gray-500 hover:text-orange-400 mt-2"
+                      >
+                        Upload your own fonts in the Brand Kit
+                      </button>
                     </div>
 
                     {/* Font Size */}
@@ -5432,30 +6235,109 @@ export default function StoryDetailsPage() {
                           />
                         </div>
                         <input
-                          type="text"
-                          value={captionInactiveColor}
-                          onChange={(e) => setCaptionInactiveColor(e.target.value)}
-                          className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-gray-300 text-sm focus:outline-none focus:border-orange-500"
-                          placeholder="#FFFFFF"
+                          type="text"
+                          value={captionInactiveColor}
+                          onChange={(e) => setCaptionInactiveColor(e.target.value)}
+                          className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-gray-300 text-sm focus:outline-none focus:border-orange-500"
+                          placeholder="#FFFFFF"
+                        />
+                      </div>
+                    </div>
+
+                    {/* Text Transform */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-3">
+                        Text Transform
+                      </label>
+                      <select
+                        value={captionTextTransform}
+                        onChange={(e) => setCaptionTextTransform(e.target.value as any)}
+                        className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded text-gray-300"
+                      >
+                        <option value="none">None</option>
+                        <option value="uppercase">UPPERCASE</option>
+                        <option value="lowercase">lowercase</option>
+                        <option value="capitalize">Capitalize Each Word</option>
+                      </select>
+                    </div>
+
+                    {/* Animation */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-3">
+                        Animation
+                      </label>
+                      <select
+                        value={captionAnimation}
+                        onChange={(e) => setCaptionAnimation(e.target.value as CaptionAnimation)}
+                        className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded text-gray-300"
+                      >
+                        {getAllCaptionAnimations().map((a) => (
+                          <option key={a.id} value={a.id}>{a.name}</option>
+                        ))}
+                      </select>
+                      <p className="text-xs text-gray-500 mt-2">{getCaptionAnimation(captionAnimation).description}</p>
+                    </div>
+
+                    {/* Emphasis & Emojis */}
+                    <div className="space-y-3">
+                      <label className="block text-sm font-medium text-gray-300">
+                        Emphasis &amp; Emojis
+                      </label>
+                      <label className="flex items-center justify-between cursor-pointer">
+                        <span className="text-sm text-gray-300">Color emphasized words</span>
+                        <input
+                          type="checkbox"
+                          checked={captionEmphasis}
+                          onChange={(e) => setCaptionEmphasis(e.target.checked)}
+                          className="accent-orange-500"
+                        />
+                      </label>
+                      {captionEmphasis && (
+                        <div className="flex items-center gap-3">
+                          <input
+                            type="color"
+                            value={captionEmphasisColor}
+                            onChange={(e) => setCaptionEmphasisColor(e.target.value)}
+                            className="w-12 h-10 rounded border-2 border-gray-700 cursor-pointer bg-transparent"
+                            style={{ colorScheme: 'dark' }}
+                          />
+                          <input
+                            type="text"
+                            value={captionEmphasisColor}
+                            onChange={(e) => setCaptionEmphasisColor(e.target.value)}
+                            className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded text-gray-300 text-sm focus:outline-none focus:border-orange-500"
+                            placeholder={DEFAULT_EMPHASIS_COLOR}
+                          />
+                        </div>
+                      )}
+                      <label className="flex items-center justify-between cursor-pointer">
+                        <span className="text-sm text-gray-300">Show emojis</span>
+                        <input
+                          type="checkbox"
+                          checked={captionEmojis}
+                          onChange={(e) => setCaptionEmojis(e.target.checked)}
+                          className="accent-orange-500"
                         />
-                      </div>
-                    </div>
-
-                    {/* Text Transform */}
-                    <div>
-                      <label className="block text-sm font-medium text-gray-300 mb-3">
-                        Text Transform
                       </label>
-                      <select
-                        value={captionTextTransform}
-                        onChange={(e) => setCaptionTextTransform(e.target.value as any)}
-                        className="w-full px-4 py-3 bg-gray-800 border border-gray-700 rounded text-gray-300"
-                      >
-                        <option value="none">None</option>
-                        <option value="uppercase">UPPERCASE</option>
-                        <option value="lowercase">lowercase</option>
-                        <option value="capitalize">Capitalize Each Word</option>
-                      </select>
+                      <CaptionTagsEditor
+                        key={scenes[selectedScene]?.id}
+                        words={scenes[selectedScene]?.word_timestamps || []}
+                        emphasisColor={captionEmphasisColor}
+                        onChange={(words) => updateSceneCaptionTags(selectedScene, words)}
+                        onAutoTag={autoTagCaptions}
+                        autoTagging={captionTagging}
+                      />
+                      {scenes[selectedScene]?.word_timestamps?.length ? (
+                        <button
+                          onClick={() => {
+                            setWordTimingEditorScene(selectedScene);
+                            setWordTimingEditorOpen(true);
+                          }}
+                          className="text-xs text-orange-400 hover:text-orange-300"
+                        >
+                          Wrong word or timing? Open the caption timeline
+                        </button>
+                      ) : null}
                     </div>
 
                     {/* Words Per Batch */}
@@ -5503,6 +6385,15 @@ export default function StoryDetailsPage() {
                   </div>
                 </div>
 
+                {/* Ducking and Fades */}
+                <div className="space-y-3">
+                  <h3 className="text-sm font-medium text-gray-300">Ducking &amp; fades</h3>
+                  <p className="text-xs text-gray-500">
+                    Music plays at full volume in pauses and dips under the narration. Applied when the video is rendered.
+                  </p>
+                  <MusicMixControls mix={bgMusicMix} onChange={setBgMusicMix} />
+                </div>
+
                 {/* Import/Upload Music Section */}
                 <div className="space-y-3">
                   <h3 className="text-sm font-medium text-gray-300">Add Music</h3>
@@ -5875,6 +6766,28 @@ export default function StoryDetailsPage() {
                         />
                       ) : scene.image_url ? (
                         // AI-generated image
+                        scene.effects?.motion === "custom" && scene.effects.motion_path ? (
+                          // Custom motion path - per-scene keyframes
+                          <div key={`scene-${index}-${scene.image_url}`} className="contents">
+                            <style>{getMotionPathCSSKeyframes(scene.effects.motion_path, `motion-path-scene-${index}`)}</style>
+                            <img
+                              src={scene.image_url}
+                              alt={`Scene ${index + 1} preview`}
+                              className={`absolute inset-0 w-full h-full object-cover transition-opacity duration-300 ${
+                                index === selectedScene ? 'opacity-100' : 'opacity-0 pointer-events-none'
+                              }`}
+                              style={{
+                                transformOrigin: "0 0",
+                                animationName: index === selectedScene ? `motion-path-scene-${index}` : undefined,
+                                animationDuration: `${scene?.duration || 5}s`,
+                                animationTimingFunction: "linear",
+                                animationFillMode: "forwards",
+                              }}
+                              loading="eager"
+                              decoding="async"
+                            />
+                          </div>
+                        ) : (
                         <img
                           key={`scene-${index}-${scene.image_url}`}
                           src={scene.image_url}
@@ -5889,38 +6802,37 @@ export default function StoryDetailsPage() {
                           loading="eager"
                           decoding="async"
                         />
+                        )
                       ) : null
                     ))}
 
-                    {/* Overlay Effects */}
-                    {scenes.map((scene, index) => {
-                      const overlayUrl = (scene?.effects as any)?.overlay_url;
-                      if (!overlayUrl) return null;
-
-                      // Show raw overlay in preview (no effects applied)
-                      let blendMode: string = 'screen';
-                      let opacity = 1.0;
+                    {/* Overlay Effects - stacked bottom first, blended like the render */}
+                    {scenes.map((scene, index) =>
+                      getSceneOverlays(scene?.effects).map((overlay) => {
+                        const category = overlays.find((o) => o.id === overlay.overlay_id)?.category;
+                        const { blendMode, opacity } = resolveOverlayBlend(overlay, category);
 
-                      return (
-                        <video
-                          key={`overlay-${index}-${overlayUrl}`}
-                          src={overlayUrl}
-                          className={`absolute inset-0 w-full h-full object-cover pointer-events-none transition-opacity duration-300 ${
-                            index === selectedScene ? 'opacity-100' : 'opacity-0'
-                          } ${index === selectedScene ? getEffectAnimationClass(scene?.effects?.motion || "none") : ''}`}
-                          style={{
-                            mixBlendMode: blendMode as any,
-                            opacity: index === selectedScene ? opacity : 0,
-                            transformOrigin: "center center",
-                            animationDuration: `${scene?.duration || 5}s`,
-                          }}
-                          muted
-                          loop
-                          playsInline
-                          autoPlay
-                        />
-                      );
-                    })}
+                        return (
+                          <video
+                            key={`overlay-${index}-${overlay.overlay_url}`}
+                            src={overlay.overlay_url}
+                            className={`absolute inset-0 w-full h-full object-cover pointer-events-none transition-opacity duration-300 ${
+                              index === selectedScene ? getEffectAnimationClass(scene?.effects?.motion || "none") : ''
+                            }`}
+                            style={{
+                              mixBlendMode: getOverlayBlendMode(blendMode).css as any,
+                              opacity: index === selectedScene ? opacity : 0,
+                              transformOrigin: "center center",
+                              animationDuration: `${scene?.duration || 5}s`,
+                            }}
+                            muted
+                            loop
+                            playsInline
+                            autoPlay
+                          />
+                        );
+                      })
+                    )}
 
                     {/* Caption Overlay */}
                     {captionsEnabled && scenes[selectedScene]?.text && (() => {
@@ -5932,11 +6844,28 @@ export default function StoryDetailsPage() {
                         textShadow: '2px 2px 4px rgba(0,0,0,0.8)',
                         lineHeight: '1.4',
                       };
+                      // Same box and line breaks as the render, in preview pixels
+                      const captionBox = resolveCaptionBox(
+                        {
+                          positionX: captionPositionX,
+                          positionFromBottom: captionPositionFromBottom,
+                          maxWidth: captionMaxWidth,
+                          maxLines: captionMaxLines,
+                          safeZone: captionSafeZone,
+                          avoidSafeZone: captionAvoidSafeZone,
+                        },
+                        { fontSize: captionFontSize, ...getPreviewDimensions(), aspectRatio }
+                      );
 
                       return (
                         <div
-                          className="absolute left-0 right-0 px-8 pointer-events-none flex items-center justify-center"
-                          style={{ bottom: `${captionPositionFromBottom}%` }}
+                          className="absolute pointer-events-none flex items-center justify-center"
+                          style={{
+                            left: `${captionBox.x}%`,
+                            bottom: `${captionBox.bottom}%`,
+                            width: `${captionBox.maxWidth}%`,
+                            transform: 'translateX(-50%)',
+                          }}
                         >
                           <div className="max-w-full text-center">
                             {scenes[selectedScene].word_timestamps && scenes[selectedScene].word_timestamps!.length > 0 ? (
@@ -5950,34 +6879,98 @@ export default function StoryDetailsPage() {
                                 wordsPerBatch={captionWordsPerBatch}
                                 textTransform={captionTextTransform}
                                 text={scenes[selectedScene].text}
+                                animation={captionAnimation}
+                                emphasisColor={captionEmphasis ? captionEmphasisColor : null}
+                                showEmojis={captionEmojis}
+                                lines={captionBox}
                               />
                             ) : (
-                              <SimpleCaption text={scenes[selectedScene].text} style={baseStyle} />
+                              <SimpleCaption text={stripSpeakerTags(scenes[selectedScene].text)} style={baseStyle} />
                             )}
                           </div>
                         </div>
                       );
                     })()}
 
-                    {/* Watermark Overlay - Floating */}
-                    <div
-                      className="absolute pointer-events-none"
-                      style={{
+                    {/* Platform safe-zone guide (preview only) */}
+                    <SafeZoneOverlay platform={captionSafeZone} aspectRatio={aspectRatio} />
+
+                    {/* Text Layers - drawn over the captions, like the render */}
+                    {scenes[selectedScene]?.text_layers && scenes[selectedScene].text_layers!.length > 0 && (
+                      <TextLayerOverlay
+                        layers={scenes[selectedScene].text_layers!}
+                        currentTime={currentTime}
+                        sceneDuration={scenes[selectedScene].duration || 5}
+                      />
+                    )}
+
+                    {(() => {
+                      const watermarks = resolveWatermarks(brandKit, brandPlan);
+                      const brandMark = watermarks.brand;
+                      const floating = {
                         animation: 'float-watermark-x 83s ease-in-out infinite, float-watermark-y 97s ease-in-out infinite',
-                      }}
-                    >
-                      <div
-                        style={{
-                          fontFamily: 'Arial, sans-serif',
-                          fontSize: '14px',
-                          fontWeight: 300,
-                          color: 'rgba(255, 255, 255, 0.4)',
-                          textShadow: '1px 1px 2px rgba(0, 0, 0, 0.3)',
-                        }}
-                      >
-                        AiVideoGen.cc
-                      </div>
-                    </div>
+                      };
+                      // Same anchoring as the render: a fraction of the frame, offset by the same fraction of the mark
+                      const anchored = (position: string) => {
+                        const { x, y } = getWatermarkPosition(position);
+                        return {
+                          left: `${Number(x) * 100}%`,
+                          top: `${Number(y) * 100}%`,
+                          transform: `translate(-${Number(x) * 100}%, -${Number(y) * 100}%)`,
+                        };
+                      };
+                      return (
+                        <>
+                          {/* Watermark Overlay - Floating */}
+                          {watermarks.platform && (
+                            <div className="absolute pointer-events-none" style={floating}>
+                              <div
+                                style={{
+                                  fontFamily: 'Arial, sans-serif',
+                                  fontSize: '14px',
+                                  fontWeight: 300,
+                                  color: 'rgba(255, 255, 255, 0.4)',
+                                  textShadow: '1px 1px 2px rgba(0, 0, 0, 0.3)',
+                                }}
+                              >
+                                AiVideoGen.cc
+                              </div>
+                            </div>
+                          )}
+
+                          {/* Brand watermark */}
+                          {brandMark && (
+                            <div
+                              className="absolute pointer-events-none"
+                              style={{
+                                ...(brandMark.position === 'floating' ? floating : anchored(brandMark.position)),
+                                ...(brandMark.type === 'logo' ? { width: `${brandMark.size}%` } : {}),
+                              }}
+                            >
+                              {brandMark.type === 'logo' && brandKit.logo_url ? (
+                                <img
+                                  src={brandKit.logo_url}
+                                  alt=""
+                                  style={{ width: '100%', opacity: brandMark.opacity }}
+                                />
+                              ) : (
+                                <div
+                                  style={{
+                                    fontFamily: 'Arial, sans-serif',
+                                    fontSize: `${brandMark.size}px`,
+                                    whiteSpace: 'nowrap',
+                                    color: `rgba(255, 255, 255, ${brandMark.opacity})`,
+                                    textShadow: '1px 1px 2px rgba(0, 0, 0, 0.3)',
+                                  }}
+                                >
+                                  {brandMark.text}
+                                </div>
+                              )}
+                            </div>
+                          )}
+                        </>
+                      );
+                    })()}
                     <style jsx>{`
                       @keyframes float-watermark-x {
                         0% { right: 10%; }
@@ -6156,23 +7149,88 @@ export default function StoryDetailsPage() {
                 <div className="flex items-center flex-1">
                   <button
                     data-tour="export-button"
-                    onClick={generateVideo}
+                    onClick={() => generateVideo()}
                     disabled={generatingVideo}
-                    className={`flex-1 flex items-center justify-center gap-2 h-9 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded transition-colors ${generatingVideo ? 'rounded-r-none' : ''}`}
+                    className="flex-1 flex items-center justify-center gap-2 h-9 bg-orange-600 hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm font-medium rounded rounded-r-none transition-colors"
                   >
                     {generatingVideo ? (
                       <>
                         <Loader2 className="w-4 h-4 animate-spin" />
-                        {videoProgress > 0 ? `${videoProgress}%` : 'Starting...'}
+                        <span className="truncate" title={videoJobProgress ? describeJobProgress(videoJobProgress) : undefined}>
+                          {videoJobProgress ? `${videoJobProgress.stage_name} · ${videoProgress}%` : videoProgress > 0 ? `${videoProgress}%` : 'Starting...'}
+                        </span>
                       </>
                     ) : (
                       <>
                         <PlayCircle className="w-4 h-4" />
                         Generate Video
+                        <span className="ml-1 px-2 py-0.5 bg-white/10 rounded-full text-xs font-semibold">
+                          {renderQuality === "4k" ? "4K" : renderQuality === "draft" ? "540p" : renderQuality}
+                        </span>
                       </>
                     )}
                   </button>
 
+                  {/* Quality and preview options when idle */}
+                  {!generatingVideo && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <button className="h-9 bg-orange-600 hover:bg-orange-700 text-white border-l border-orange-700 rounded-l-none rounded-r px-2 flex items-center justify-center">
+                          <ChevronDown className="w-4 h-4" />
+                        </button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end" className="bg-gray-900 border-gray-700 w-64">
+                        <DropdownMenuLabel className="text-gray-400 text-xs">Output quality</DropdownMenuLabel>
+                        {getAllRenderProfiles().map((profile) => (
+                          <DropdownMenuItem
+                            key={profile.id}
+                            onClick={() => setRenderQuality(profile.id)}
+                            className="text-white hover:bg-gray-800 cursor-pointer flex items-start gap-2"
+                          >
+                            <Check className={`w-3 h-3 mt-1 shrink-0 ${renderQuality === profile.id ? 'text-orange-400' : 'invisible'}`} />
+                            <div>
+                              <div className="text-sm">{profile.name}</div>
+                              <div className="text-xs text-gray-500">{profile.description}</div>
+                            </div>
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator className="bg-gray-700" />
+                        <DropdownMenuLabel className="text-gray-400 text-xs">Loudness</DropdownMenuLabel>
+                        {getAllLoudnessTargets().map((target) => (
+                          <DropdownMenuItem
+                            key={target.id}
+                            onClick={() => setLoudnessTarget(target.id)}
+                            className="text-white hover:bg-gray-800 cursor-pointer flex items-start gap-2"
+                          >
+                            <Check className={`w-3 h-3 mt-1 shrink-0 ${loudnessTarget === target.id ? 'text-orange-400' : 'invisible'}`} />
+                            <div>
+                              <div className="text-sm">{target.name}</div>
+                              <div className="text-xs text-gray-500">{target.description}</div>
+                            </div>
+                          </DropdownMenuItem>
+                        ))}
+                        <DropdownMenuSeparator className="bg-gray-700" />
+                        <DropdownMenuItem
+                          onClick={() => generateVideo({ preview: true })}
+                          className="text-white hover:bg-gray-800 cursor-pointer"
+                        >
+                          <Play className="w-3 h-3 mr-2" />
+                          Quick Preview Render ({getRenderProfile("draft").shortSide}p, free)
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onClick={() => {
+                            setBatchExportFormats([aspectRatio]);
+                            setBatchExportDialogOpen(true);
+                          }}
+                          className="text-white hover:bg-gray-800 cursor-pointer"
+                        >
+                          <Layers className="w-3 h-3 mr-2" />
+                          Export Multiple Formats...
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+
                   {/* Dropdown menu when video is generating */}
                   {generatingVideo && (
                     <DropdownMenu>
@@ -6244,6 +7302,85 @@ export default function StoryDetailsPage() {
                           <ExternalLink className="w-3 h-3 mr-2" />
                           Open in New Tab
                         </DropdownMenuItem>
+                        {video.id && (
+                          <DropdownMenuItem
+                            onClick={() => setThumbnailModalOpen(true)}
+                            className="text-white hover:bg-gray-800 cursor-pointer"
+                          >
+                            <Image className="w-3 h-3 mr-2" />
+                            {video.thumbnail_url ? "Edit Thumbnail" : "Create Thumbnail"}
+                          </DropdownMenuItem>
+                        )}
+                        {video.id && (
+                          <>
+                            <DropdownMenuSeparator className="bg-gray-700" />
+                            <DropdownMenuLabel className="text-gray-400 text-xs">More formats</DropdownMenuLabel>
+                            {getAllExportFormats().map((format) => {
+                              const job = exportJobs[format.id];
+                              const exported = videoExports.find((e) => e.video_id === video.id && e.format === format.id);
+
+                              if (job) {
+                                return (
+                                  <DropdownMenuItem key={format.id} disabled className="text-gray-400">
+                                    <Loader2 className="w-3 h-3 mr-2 animate-spin" />
+                                    {format.name} · {job.stage_name} {Math.round(job.progress)}%
+                                  </DropdownMenuItem>
+                                );
+                              }
+
+                              return exported ? (
+                                <DropdownMenuItem
+                                  key={format.id}
+                                  onClick={() => handleDownloadExport(exported)}
+                                  className="text-white hover:bg-gray-800 cursor-pointer"
+                                >
+                                  <Download className="w-3 h-3 mr-2" />
+                                  {format.name}
+                                  {exported.size_bytes ? ` (${(exported.size_bytes / 1024 / 1024).toFixed(1)} MB)` : ''}
+                                </DropdownMenuItem>
+                              ) : (
+                                <DropdownMenuItem
+                                  key={format.id}
+                                  onClick={() => startVideoExport(format.id)}
+                                  className="text-white hover:bg-gray-800 cursor-pointer"
+                                  title={format.description}
+                                >
+                                  <Plus className="w-3 h-3 mr-2" />
+                                  Export {format.name}
+                                </DropdownMenuItem>
+                              );
+                            })}
+                          </>
+                        )}
+                        <DropdownMenuSeparator className="bg-gray-700" />
+                        <DropdownMenuLabel className="text-gray-400 text-xs">Captions</DropdownMenuLabel>
+                        {SUBTITLE_DOWNLOAD_OPTIONS.map((option) => (
+                          <DropdownMenuItem
+                            key={option.id}
+                            onClick={() => handleDownloadSubtitles(option.format, option.wordTiming)}
+                            className="text-white hover:bg-gray-800 cursor-pointer"
+                            title={getSubtitleFormat(option.format).description}
+                          >
+                            <Type className="w-3 h-3 mr-2" />
+                            {option.label}
+                          </DropdownMenuItem>
+                        ))}
+                        {exportedVideos.length > 1 && (
+                          <>
+                            <DropdownMenuSeparator className="bg-gray-700" />
+                            <DropdownMenuLabel className="text-gray-400 text-xs">Exported formats</DropdownMenuLabel>
+                            {exportedVideos.map((exported) => (
+                              <DropdownMenuItem
+                                key={exported.aspect_ratio || exported.video_url}
+                                onClick={() => handleDownloadVideo(exported)}
+                                className="text-white hover:bg-gray-800 cursor-pointer"
+                              >
+                                <Download className="w-3 h-3 mr-2" />
+                                {exported.aspect_ratio} ({getAspectRatioConfig(exported.aspect_ratio).name})
+                              </DropdownMenuItem>
+                            ))}
+                          </>
+                        )}
                       </DropdownMenuContent>
                     </DropdownMenu>
                   </div>
@@ -6542,7 +7679,12 @@ export default function StoryDetailsPage() {
                             <Check className="w-4 h-4 text-orange-400 flex-shrink-0" />
                           )}
                           <div className="flex-1 min-w-0">
-                            <div className="text-sm text-white">{voice.name}</div>
+                            <div className="text-sm text-white">
+                              {voice.name}
+                              {voice.provider && voice.provider !== "openai" && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-700 text-[10px] text-gray-300 align-middle">{voice.provider_name}</span>
+                              )}
+                            </div>
                             {voice.labels && formatVoiceLabels(voice.labels) && (
                               <div className="text-xs text-gray-500 truncate">
                                 {formatVoiceLabels(voice.labels)}
@@ -6577,6 +7719,45 @@ export default function StoryDetailsPage() {
                 )}
               </div>
 
+              {/* Narration Delivery (prosody) */}
+              <button
+                onClick={() => {
+                  setProsodyEditorScene(audioDrawerScene);
+                  setProsodyEditorOpen(true);
+                }}
+                className="w-full mb-2 flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                <div className="text-left">
+                  <div className="text-sm text-white">Narration Delivery</div>
+                  <div className="text-xs text-gray-500">
+                    {scenes[audioDrawerScene]?.prosody
+                      ? `${scenes[audioDrawerScene].prosody.speed}x speed, ${scenes[audioDrawerScene].prosody.pitch > 0 ? "+" : ""}${scenes[audioDrawerScene].prosody.pitch} pitch, ${scenes[audioDrawerScene].prosody.emphasis.length} emphasized, ${scenes[audioDrawerScene].prosody.pauses.length} pauses`
+                      : "Speed, pitch, emphasis, pauses and pronunciations"}
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+
+              {/* Caption word timing */}
+              <button
+                onClick={() => {
+                  setWordTimingEditorScene(audioDrawerScene);
+                  setWordTimingEditorOpen(true);
+                }}
+                disabled={!scenes[audioDrawerScene]?.word_timestamps?.length}
+                className="w-full mb-6 flex items-center justify-between p-3 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 disabled:hover:bg-gray-800 rounded-lg transition-colors"
+              >
+                <div className="text-left">
+                  <div className="text-sm text-white">Caption Timing</div>
+                  <div className="text-xs text-gray-500">
+                    {scenes[audioDrawerScene]?.word_timestamps?.length
+                      ? `Fix misheard or mistimed words (${scenes[audioDrawerScene].word_timestamps!.length} words)`
+                      : "Generate the audio to edit caption words"}
+                  </div>
+                </div>
+                <ChevronRight className="w-4 h-4 text-gray-400" />
+              </button>
+
               {/* Action Buttons */}
               <div className="flex gap-3">
                 <Button
@@ -7673,7 +8854,7 @@ export default function StoryDetailsPage() {
                   {generatingImages ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      {imageProgress.total > 0 ? `Processing ${imageProgress.current}/${imageProgress.total}...` : 'Starting...'}
+                      {imageProgress.label || (imageProgress.total > 0 ? `Processing ${imageProgress.current}/${imageProgress.total}...` : 'Starting...')}
                     </>
                   ) : (
                     <>
@@ -7719,10 +8900,8 @@ export default function StoryDetailsPage() {
               {/* Scene Image Preview */}
               <div className="mb-4 flex justify-center">
                 <div className={`relative bg-gray-800 rounded-lg border border-gray-700 overflow-hidden ${
-                  aspectRatio === "16:9" ? "w-48 aspect-[16/9]" :
-                  aspectRatio === "1:1" ? "w-32 aspect-[1/1]" :
-                  "w-32 aspect-[9/16]"
-                }`}>
+                  getPreviewDimensions().width > getPreviewDimensions().height ? "w-48" : "w-32"
+                } ${getAspectRatioConfig(aspectRatio).className}`}>
                   {scenes[aiVideoDialogSceneIndex]?.image_url && (
                     <img
                       src={scenes[aiVideoDialogSceneIndex].image_url}
@@ -7843,7 +9022,12 @@ export default function StoryDetailsPage() {
                             <Check className="w-4 h-4 text-orange-400 flex-shrink-0" />
                           )}
                           <div className="flex-1 min-w-0">
-                            <div className="text-sm text-white">{voice.name}</div>
+                            <div className="text-sm text-white">
+                              {voice.name}
+                              {voice.provider && voice.provider !== "openai" && (
+                                <span className="ml-2 px-1.5 py-0.5 rounded bg-gray-700 text-[10px] text-gray-300 align-middle">{voice.provider_name}</span>
+                              )}
+                            </div>
                             {voice.labels && formatVoiceLabels(voice.labels) && (
                               <div className="text-xs text-gray-500 truncate">
                                 {formatVoiceLabels(voice.labels)}
@@ -7934,7 +9118,7 @@ export default function StoryDetailsPage() {
                   {generatingAudios ? (
                     <>
                       <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                      {audioProgress.total > 0 ? `Processing ${audioProgress.current}/${audioProgress.total}...` : 'Starting...'}
+                      {audioProgress.label || (audioProgress.total > 0 ? `Processing ${audioProgress.current}/${audioProgress.total}...` : 'Starting...')}
                     </>
                   ) : (
                     <>
@@ -8150,7 +9334,127 @@ export default function StoryDetailsPage() {
           currentEffect={(scenes[selectedEffectScene]?.effects?.motion as EffectType) || "none"}
           sceneImageUrl={scenes[selectedEffectScene]?.image_url || ""}
           onSelectEffect={(effectId) => {
-            updateSceneEffect(selectedEffectScene, effectId);
+            if (effectId === "custom") {
+              // Custom motion needs keyframes - open the framing editor instead of saving right away
+              setMotionEditorScene(selectedEffectScene);
+              setMotionEditorOpen(true);
+            } else {
+              updateSceneEffect(selectedEffectScene, effectId);
+            }
+          }}
+        />
+      )}
+
+      {/* Custom Motion Path Editor */}
+      {motionEditorScene !== null && (
+        <MotionPathEditorModal
+          isOpen={motionEditorOpen}
+          onClose={() => {
+            setMotionEditorOpen(false);
+            setMotionEditorScene(null);
+          }}
+          sceneImageUrl={scenes[motionEditorScene]?.image_url || ""}
+          aspectRatio={aspectRatio}
+          duration={scenes[motionEditorScene]?.duration || 5}
+          initialPath={scenes[motionEditorScene]?.effects?.motion_path || null}
+          onSave={(motionPath) => {
+            updateSceneMotionPath(motionEditorScene, motionPath);
+          }}
+        />
+      )}
+
+      {/* Narration Prosody Editor */}
+      {prosodyEditorScene !== null && (
+        <ProsodyEditorModal
+          isOpen={prosodyEditorOpen}
+          onClose={() => {
+            setProsodyEditorOpen(false);
+            setProsodyEditorScene(null);
+          }}
+          sceneText={scenes[prosodyEditorScene]?.text || ""}
+          initialProsody={scenes[prosodyEditorScene]?.prosody || null}
+          onSave={(prosody) => {
+            updateSceneProsody(prosodyEditorScene, prosody);
+          }}
+        />
+      )}
+
+      {/* Caption Word Timing Editor */}
+      {wordTimingEditorScene !== null && scenes[wordTimingEditorScene]?.id && (
+        <WordTimingEditorModal
+          isOpen={wordTimingEditorOpen}
+          onClose={() => {
+            setWordTimingEditorOpen(false);
+            setWordTimingEditorScene(null);
+          }}
+          source="scene"
+          id={scenes[wordTimingEditorScene].id!}
+          title={`Scene ${wordTimingEditorScene + 1}`}
+          onSave={(words) => updateSceneWordTimings(wordTimingEditorScene, words)}
+        />
+      )}
+
+      {/* Sound Effects Modal */}
+      {sfxModalScene !== null && (
+        <SoundEffectsModal
+          isOpen={sfxModalOpen}
+          onClose={() => {
+            setSfxModalOpen(false);
+            setSfxModalScene(null);
+          }}
+          sceneText={scenes[sfxModalScene]?.text || ""}
+          initialCues={scenes[sfxModalScene]?.sfx_cues || []}
+          userId={user?.id}
+          onSave={(sfxCues) => {
+            updateSceneSfx(sfxModalScene, sfxCues);
+          }}
+        />
+      )}
+
+      {/* Text Layers Modal */}
+      {textLayersModalScene !== null && (
+        <TextLayersModal
+          isOpen={textLayersModalOpen}
+          onClose={() => {
+            setTextLayersModalOpen(false);
+            setTextLayersModalScene(null);
+          }}
+          sceneDuration={scenes[textLayersModalScene]?.duration || 5}
+          imageUrl={scenes[textLayersModalScene]?.image_url}
+          preview={getPreviewDimensions()}
+          initialLayers={scenes[textLayersModalScene]?.text_layers || []}
+          onSave={(textLayers) => {
+            updateSceneTextLayers(textLayersModalScene, textLayers);
+          }}
+        />
+      )}
+
+      {/* Thumbnail Modal */}
+      {video && (
+        <ThumbnailModal
+          isOpen={thumbnailModalOpen}
+          onClose={() => setThumbnailModalOpen(false)}
+          video={video}
+          scenes={scenes}
+          defaultTitle={story?.title}
+          onSave={generateThumbnail}
+        />
+      )}
+
+      {/* Transition Selection Modal */}
+      {selectedTransitionScene !== null && (
+        <TransitionSelectionModal
+          isOpen={transitionModalOpen}
+          onClose={() => {
+            setTransitionModalOpen(false);
+            setSelectedTransitionScene(null);
+          }}
+          currentTransition={getTransition(scenes[selectedTransitionScene]?.effects?.transition).id}
+          currentDuration={scenes[selectedTransitionScene]?.effects?.transition_duration ?? null}
+          fromImageUrl={scenes[selectedTransitionScene]?.image_url || ""}
+          toImageUrl={scenes[selectedTransitionScene + 1]?.image_url || ""}
+          onSelectTransition={(transitionId, duration) => {
+            updateSceneTransition(selectedTransitionScene, transitionId, duration);
           }}
         />
       )}
@@ -8164,15 +9468,98 @@ export default function StoryDetailsPage() {
             setSelectedOverlayScene(null);
           }}
           overlays={overlays}
-          currentOverlayId={(scenes[selectedOverlayScene]?.effects as any)?.overlay_id || null}
+          currentOverlays={getSceneOverlays(scenes[selectedOverlayScene]?.effects)}
           sceneImageUrl={scenes[selectedOverlayScene]?.image_url || ''}
           aspectRatio={aspectRatio}
-          onSelectOverlay={(overlayId, overlayUrl) => {
-            updateSceneOverlay(selectedOverlayScene, overlayId, overlayUrl);
+          onSave={(sceneOverlays) => {
+            updateSceneOverlays(selectedOverlayScene, sceneOverlays);
           }}
         />
       )}
 
+      {/* Preview Render Dialog */}
+      <Dialog open={!!previewRenderUrl} onOpenChange={(open) => { if (!open) setPreviewRenderUrl(null); }}>
+        <DialogContent className="bg-gray-900 border-gray-700 max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="text-white">Preview Render</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-400">
+            Low-resolution draft for checking timing, transitions and captions. It does not replace your exported video.
+          </p>
+          {previewRenderUrl && (
+            <video
+              src={previewRenderUrl}
+              controls
+              autoPlay
+              playsInline
+              className="w-full max-h-[65vh] rounded bg-black"
+            />
+          )}
+          <Button
+            onClick={() => {
+              setPreviewRenderUrl(null);
+              generateVideo();
+            }}
+            className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+          >
+            <PlayCircle className="w-4 h-4 mr-2" />
+            Looks good - Generate {getRenderProfile(renderQuality).name}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      {/* Batch Export Dialog */}
+      <Dialog open={batchExportDialogOpen} onOpenChange={setBatchExportDialogOpen}>
+        <DialogContent className="bg-gray-900 border-gray-700 max-w-md">
+          <DialogHeader>
+            <DialogTitle className="text-white">Export Multiple Formats</DialogTitle>
+          </DialogHeader>
+          <p className="text-sm text-gray-400">
+            Render this story in several aspect ratios in one go. Images are cropped around the subject
+            and captions are kept inside each platform's safe area.
+          </p>
+          <div className="space-y-2">
+            {getAllAspectRatios().map((ratio) => {
+              const selected = batchExportFormats.includes(ratio.id);
+              return (
+                <button
+                  key={ratio.id}
+                  onClick={() =>
+                    setBatchExportFormats((prev) =>
+                      selected ? prev.filter((f) => f !== ratio.id) : [...prev, ratio.id]
+                    )
+                  }
+                  className={`w-full flex items-center justify-between px-3 py-2 rounded border-2 text-left transition-all ${
+                    selected
+                      ? "border-orange-600 bg-orange-900/30 text-white"
+                      : "border-gray-700 hover:border-gray-600 text-gray-400"
+                  }`}
+                >
+                  <span>
+                    <span className="font-semibold">{ratio.id}</span> {ratio.name}
+                    {ratio.id === aspectRatio && <span className="ml-2 text-xs text-orange-400">(story format)</span>}
+                    <span className="block text-xs text-gray-500">{ratio.platforms}</span>
+                  </span>
+                  {selected && <Check className="w-4 h-4 text-orange-400" />}
+                </button>
+              );
+            })}
+          </div>
+          <Button
+            onClick={() => {
+              setBatchExportDialogOpen(false);
+              generateVideo({ formats: batchExportFormats });
+            }}
+            disabled={batchExportFormats.length === 0 || generatingVideo}
+            className="w-full bg-orange-600 hover:bg-orange-700 text-white"
+          >
+            <PlayCircle className="w-4 h-4 mr-2" />
+            Export {batchExportFormats.length} Format{batchExportFormats.length === 1 ? '' : 's'} ({getRenderProfile(renderQuality).name})
+            {CREDIT_COSTS.VIDEO_GENERATION > 0 && ` · ${CREDIT_COSTS.VIDEO_GENERATION * batchExportFormats.length} credits`}
+          </Button>
+        </DialogContent>
+      </Dialog>
+
       {/* Video Generation Success Dialog */}
       {videoSuccessDialogOpen && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
@@ -8458,6 +9845,17 @@ export default function StoryDetailsPage() {
         </div>
       )}
 
+      {/* Character Voices Dialog */}
+      <CharacterVoicesDialog
+        open={characterVoicesDialogOpen}
+        onOpenChange={setCharacterVoicesDialogOpen}
+        characters={characterVoicesDialogOpen ? getDialogueCharacters() : []}
+        voices={voices}
+        narratorVoiceId={story?.voice_id || "alloy"}
+        characterVoices={story?.character_voices || {}}
+        onSave={saveCharacterVoices}
+      />
+
       {/* Mobile Settings Dialog */}
       <Dialog open={mobileSettingsDialogOpen} onOpenChange={setMobileSettingsDialogOpen}>
         <DialogContent className="sm:max-w-md bg-gray-900 text-white border-gray-800">
@@ -8512,46 +9910,38 @@ export default function StoryDetailsPage() {
               >
                 {voices.map((voice) => (
                   <option key={voice.id} value={voice.id}>
-                    {voice.name}
+                    {voice.provider && voice.provider !== "openai" ? `${voice.name} (${voice.provider_name})` : voice.name}
                   </option>
                 ))}
               </select>
+              <button
+                onClick={() => {
+                  setCharacterVoicesDialogOpen(true);
+                  if (voices.length === 0) fetchVoices();
+                }}
+                className="mt-2 text-xs text-orange-400 hover:text-orange-300"
+              >
+                Character voices for dialogue...
+              </button>
             </div>
 
             {/* Aspect Ratio */}
             <div>
               <label className="block text-sm font-medium mb-2 text-gray-300">Aspect Ratio</label>
               <div className="grid grid-cols-3 gap-2">
-                <button
-                  onClick={() => updateAspectRatio("9:16")}
-                  className={`px-4 py-3 rounded border-2 transition-all ${
-                    aspectRatio === "9:16"
-                      ? "border-orange-600 bg-orange-900/30 text-orange-400"
-                      : "border-gray-700 hover:border-gray-600 text-gray-400"
-                  }`}
-                >
-                  9:16<br/><span className="text-xs">Portrait</span>
-                </button>
-                <button
-                  onClick={() => updateAspectRatio("1:1")}
-                  className={`px-4 py-3 rounded border-2 transition-all ${
-                    aspectRatio === "1:1"
-                      ? "border-orange-600 bg-orange-900/30 text-orange-400"
-                      : "border-gray-700 hover:border-gray-600 text-gray-400"
-                  }`}
-                >
-                  1:1<br/><span className="text-xs">Square</span>
-                </button>
-                <button
-                  onClick={() => updateAspectRatio("16:9")}
-                  className={`px-4 py-3 rounded border-2 transition-all ${
-                    aspectRatio === "16:9"
-                      ? "border-orange-600 bg-orange-900/30 text-orange-400"
-                      : "border-gray-700 hover:border-gray-600 text-gray-400"
-                  }`}
-                >
-                  16:9<br/><span className="text-xs">Landscape</span>
-                </button>
+                {getAllAspectRatios().map((ratio) => (
+                  <button
+                    key={ratio.id}
+                    onClick={() => updateAspectRatio(ratio.id)}
+                    className={`px-4 py-3 rounded border-2 transition-all ${
+                      aspectRatio === ratio.id
+                        ? "border-orange-600 bg-orange-900/30 text-orange-400"
+                        : "border-gray-700 hover:border-gray-600 text-gray-400"
+                    }`}
+                  >
+                    {ratio.id}<br/><span className="text-xs">{ratio.name}</span>
+                  </button>
+                ))}
               </div>
             </div>
 
@@ -8788,7 +10178,7 @@ export default function StoryDetailsPage() {
               Cancel
             </AlertDialogCancel>
             <AlertDialogAction
-              onClick={handleDownloadVideo}
+              onClick={() => handleDownloadVideo()}
               className="bg-orange-600 hover:bg-orange-700 text-white"
             >
               Download
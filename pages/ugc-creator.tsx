@@ -5,9 +5,21 @@ import { supabase } from "../lib/supabaseClient";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { toast } from "@/hooks/use-toast";
-import { Loader2, Sparkles, Video, Wand2, ArrowLeft, ArrowRight, Plus, Play, Download, Trash2 } from "lucide-react";
+import { Loader2, Sparkles, Video, Wand2, ArrowLeft, ArrowRight, Plus, Play, Download, Trash2, Type } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { UGC_DEFAULTS } from "../lib/ugcPresets";
+import { getAllAspectRatios, getAspectRatioConfig, type AspectRatio } from "../lib/aspectRatios";
+import { SUBTITLE_DOWNLOAD_OPTIONS, getSubtitleFormat, downloadSubtitles, type SubtitleFormat } from "../lib/subtitleExport";
+import { WordTimingEditorModal } from "../components/WordTimingEditorModal";
+import type { TimedWord } from "../lib/wordTiming";
 
 type UGCStep = 'input' | 'script' | 'customize';
+
+interface UGCAudioClip {
+  id: string;
+  order_index: number;
+  duration: number;
+}
 type ViewMode = 'list' | 'create';
 
 interface UGCVideo {
@@ -16,6 +28,7 @@ interface UGCVideo {
   status: string;
   video_url: string | null;
   duration: number | null;
+  aspect_ratio: string | null;
   created_at: string;
   clip_count: number;
 }
@@ -32,12 +45,15 @@ export default function UGCCreatorPage() {
   // Creation wizard state
   const [step, setStep] = useState<UGCStep>('input');
   const [inputText, setInputText] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<AspectRatio>(UGC_DEFAULTS.aspect_ratio);
   const [ugcVideoId, setUgcVideoId] = useState<string | null>(null);
   const [scriptData, setScriptData] = useState<any>(null);
   const [generatingScript, setGeneratingScript] = useState(false);
   const [generatingAudio, setGeneratingAudio] = useState(false);
   const [generatingVideo, setGeneratingVideo] = useState(false);
   const [selectingMedia, setSelectingMedia] = useState(false);
+  const [audioClips, setAudioClips] = useState<UGCAudioClip[]>([]);
+  const [wordTimingClipId, setWordTimingClipId] = useState<string | null>(null);
 
   // Authentication guard
   useEffect(() => {
@@ -53,6 +69,20 @@ export default function UGCCreatorPage() {
     }
   }, [viewMode, user]);
 
+  // Sidecar captions (SRT/VTT/ASS) from the clips' word timestamps
+  const handleDownloadSubtitles = async (video: UGCVideo, format: SubtitleFormat, wordTiming: boolean) => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error("Not authenticated");
+
+      await downloadSubtitles({ source: "ugc", id: video.id, format, word_timing: wordTiming }, session.access_token, video.title || "ugc-video");
+      toast({ description: `${getSubtitleFormat(format).name} captions downloaded` });
+    } catch (error: any) {
+      console.error("Subtitle export error:", error);
+      toast({ title: "Caption export failed", description: error.message, variant: "destructive" });
+    }
+  };
+
   const fetchUGCVideos = async () => {
     setLoadingVideos(true);
     try {
@@ -78,8 +108,10 @@ export default function UGCCreatorPage() {
     setViewMode('create');
     setStep('input');
     setInputText('');
+    setAspectRatio(UGC_DEFAULTS.aspect_ratio);
     setUgcVideoId(null);
     setScriptData(null);
+    setAudioClips([]);
   };
 
   const backToList = () => {
@@ -112,7 +144,7 @@ export default function UGCCreatorPage() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${session?.access_token}`
         },
-        body: JSON.stringify({ input_text: inputText })
+        body: JSON.stringify({ input_text: inputText, aspect_ratio: aspectRatio })
       });
 
       const data = await response.json();
@@ -198,6 +230,8 @@ export default function UGCCreatorPage() {
         throw new Error(data.error || 'Failed to generate audio');
       }
 
+      setAudioClips(data.clips);
+
       toast({
         title: "Audio Generated!",
         description: `Created audio for ${data.clips.length} clips. Ready for video!`
@@ -210,6 +244,26 @@ export default function UGCCreatorPage() {
     }
   };
 
+  // Save corrected caption words for one clip from the timing editor
+  const handleSaveWordTimings = async (clipId: string, words: TimedWord[]) => {
+    const { data: { session } } = await supabase.auth.getSession();
+    const response = await fetch('/api/word_timestamps', {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${session?.access_token}`
+      },
+      body: JSON.stringify({ source: 'ugc_clip', id: clipId, word_timestamps: words })
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Failed to save caption timing');
+    }
+
+    toast({ description: `Caption timing saved (${words.length} words)` });
+  };
+
   const handleGenerateVideo = async () => {
     if (!ugcVideoId) return;
 
@@ -315,7 +369,7 @@ export default function UGCCreatorPage() {
                   <Card key={video.id} className="bg-gray-900/50 border-gray-800 overflow-hidden">
                     <CardContent className="p-0">
                       {video.video_url ? (
-                        <div className="aspect-[9/16] bg-black relative group">
+                        <div className={`${getAspectRatioConfig(video.aspect_ratio).className} bg-black relative group`}>
                           <video
                             src={video.video_url}
                             className="w-full h-full object-cover"
@@ -333,7 +387,7 @@ export default function UGCCreatorPage() {
                           </div>
                         </div>
                       ) : (
-                        <div className="aspect-[9/16] bg-gray-800 flex items-center justify-center">
+                        <div className={`${getAspectRatioConfig(video.aspect_ratio).className} bg-gray-800 flex items-center justify-center`}>
                           <Loader2 className="w-8 h-8 animate-spin text-orange-500" />
                         </div>
                       )}
@@ -355,6 +409,28 @@ export default function UGCCreatorPage() {
                               Download
                             </Button>
                           )}
+                          {video.video_url && (
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button size="sm" variant="outline">
+                                  <Type className="w-4 h-4 mr-1" />
+                                  Captions
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end" className="bg-gray-900 border-gray-700">
+                                {SUBTITLE_DOWNLOAD_OPTIONS.map((option) => (
+                                  <DropdownMenuItem
+                                    key={option.id}
+                                    onClick={() => handleDownloadSubtitles(video, option.format, option.wordTiming)}
+                                    className="text-white hover:bg-gray-800 cursor-pointer"
+                                    title={getSubtitleFormat(option.format).description}
+                                  >
+                                    {option.label}
+                                  </DropdownMenuItem>
+                                ))}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          )}
                         </div>
                       </div>
                     </CardContent>
@@ -404,6 +480,26 @@ export default function UGCCreatorPage() {
                       className="w-full h-32 px-4 py-3 bg-gray-800 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-orange-600"
                     />
 
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+                      <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+                        {getAllAspectRatios().map((ratio) => (
+                          <button
+                            key={ratio.id}
+                            onClick={() => setAspectRatio(ratio.id)}
+                            className={`px-3 py-2 rounded-lg border-2 text-sm transition-all ${
+                              aspectRatio === ratio.id
+                                ? 'border-orange-600 bg-orange-900/30 text-orange-400'
+                                : 'border-gray-700 hover:border-gray-600 text-gray-400'
+                            }`}
+                          >
+                            <span className="font-semibold">{ratio.id}</span>
+                            <span className="block text-xs">{ratio.name}</span>
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
                     <div className="flex gap-3">
                       <Button
                         variant="outline"
@@ -530,6 +626,25 @@ export default function UGCCreatorPage() {
                       </Button>
                     </div>
 
+                    {audioClips.length > 0 && (
+                      <div className="space-y-2">
+                        <p className="text-sm font-medium text-gray-300">Caption timing</p>
+                        <div className="flex flex-wrap gap-2">
+                          {audioClips.map((clip) => (
+                            <Button
+                              key={clip.id}
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setWordTimingClipId(clip.id)}
+                            >
+                              <Type className="w-4 h-4 mr-1" />
+                              Clip {clip.order_index + 1} ({clip.duration.toFixed(1)}s)
+                            </Button>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
                     <div className="bg-orange-900/20 border border-orange-600/50 rounded-lg p-4">
                       <p className="text-sm text-orange-200">
                         💡 <strong>Tip:</strong> Click "Generate Audio" first, then "Generate Final Video". Your UGC video will be ready in 1-2 minutes!
@@ -542,6 +657,18 @@ export default function UGCCreatorPage() {
           </>
         )}
       </div>
+
+      {/* Caption Word Timing Editor */}
+      {wordTimingClipId && (
+        <WordTimingEditorModal
+          isOpen={Boolean(wordTimingClipId)}
+          onClose={() => setWordTimingClipId(null)}
+          source="ugc_clip"
+          id={wordTimingClipId}
+          title={`Clip ${(audioClips.find((c) => c.id === wordTimingClipId)?.order_index ?? 0) + 1}`}
+          onSave={(words) => handleSaveWordTimings(wordTimingClipId, words)}
+        />
+      )}
     </div>
   );
 }
@@ -76,6 +76,9 @@ curl -sL https://github.com/google/fonts/raw/main/apache/permanentmarker/Permane
 curl -sL https://github.com/google/fonts/raw/main/ofl/dancingscript/DancingScript-Regular.ttf -o "$FONTS_DIR/DancingScript-Regular.ttf"
 curl -sL https://github.com/google/fonts/raw/main/ofl/dancingscript/DancingScript-Bold.ttf -o "$FONTS_DIR/DancingScript-Bold.ttf"
 
+# Caption emojis - the outline set, since libass can't draw color emoji
+curl -sL "https://github.com/google/fonts/raw/main/ofl/notoemoji/NotoEmoji%5Bwght%5D.ttf" -o "$FONTS_DIR/NotoEmoji.ttf"
+
 # Monospace
 curl -sL https://github.com/google/fonts/raw/main/apache/robotomono/RobotoMono-Regular.ttf -o "$FONTS_DIR/RobotoMono-Regular.ttf"
 curl -sL https://github.com/google/fonts/raw/main/apache/robotomono/RobotoMono-Bold.ttf -o "$FONTS_DIR/RobotoMono-Bold.ttf"
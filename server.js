@@ -51,7 +51,7 @@ app.prepare().then(() => {
   // Graceful shutdown on SIGINT (Ctrl+C during development)
   process.on('SIGINT', gracefulShutdown);
 
-  function gracefulShutdown() {
+  async function gracefulShutdown() {
     if (isShuttingDown) {
       console.log('⚠️ Shutdown already in progress...');
       return;
@@ -62,6 +62,19 @@ app.prepare().then(() => {
     isShuttingDown = true;
     global.isShuttingDown = true; // Signal health check to return 503
 
+    // Open /api/job_progress streams would keep server.close() waiting forever -
+    // end them, and the pages reconnect to the next instance
+    if (global.endJobProgressStreams) global.endJobProgressStreams();
+
+    // Hand in-flight background jobs back to the queue (lib/jobQueue.ts) so the
+    // next instance resumes them right away. First, because they hold no HTTP
+    // connection and the forced exit below must not leave them claimed.
+    try {
+      if (global.releaseActiveJobs) await global.releaseActiveJobs();
+    } catch (err) {
+      console.error('Error releasing background jobs:', err);
+    }
+
     // Stop accepting new connections
     server.close(() => {
       console.log('✅ HTTP server closed - no more connections accepted');